@@ -1,4 +1,4 @@
-import Fastify from 'fastify'
+import Fastify, { type FastifyReply } from 'fastify'
 import type { Handler } from '@netlify/functions'
 import multipart from '@fastify/multipart'
 import cors from '@fastify/cors'
@@ -7,13 +7,26 @@ import { DocumentService } from '../../src/services/document.service.js'
 import { tokenManager } from '../../src/services/token.service.js'
 import {
   streamToBuffer,
-  detectDocumentType,
   validateFileExtension,
-  extractTextFromBuffer
+  extractDocumentContent
 } from '../../src/utils/parser.js'
+import {
+  createArchiveBudget,
+  expandZipUpload,
+  isZipUpload,
+  type SkippedArchiveEntry
+} from '../../src/utils/archive.js'
+import { resolveDocumentType } from '../../src/utils/document-classifier.js'
 import { errorHandler, notFoundHandler } from '../../src/middleware/error-handler.js'
 import { validateAPIKey, rateLimiter } from '../../src/utils/auth.js'
-import { OptimizationRequestSchema, validateRequest } from '../../src/utils/validation.js'
+import {
+  DocumentsSchema,
+  EntityAliasesSchema,
+  IndexRequestSchema,
+  OptimizationRequestSchema,
+  SectionAnchorsSchema,
+  validateRequest
+} from '../../src/utils/validation.js'
 import { errorStrategyManager, withGracefulDegradation } from '../../src/utils/error-strategies.js'
 import { errorReporter } from '../../src/utils/error-reporter.js'
 import { healthChecker } from '../../src/utils/resilience.js'
@@ -22,7 +35,24 @@ import { env, getEnvironmentHealth } from '../../src/config/environment.js'
 import { databaseManager, initializeDatabaseWithRetry } from '../../src/config/database.js'
 import { cache, cdnManager } from '../../src/utils/cache.js'
 import { backupManager, disasterRecoveryManager } from '../../src/utils/backup.js'
-import type { DocumentInput, OptimizationRequest } from '../../src/types/index.js'
+import { buildProjectDigest } from '../../src/utils/project-digest.js'
+import {
+  STRUCTURED_DOCUMENT_JSON_SCHEMA,
+  formatResult
+} from '../../src/utils/structured-document.js'
+import { writeZip } from '../../src/utils/zip.js'
+import { countTokens } from '../../src/utils/tokenizer.js'
+import type {
+  ConflictPolicy,
+  DocumentInput,
+  EntityAliasDictionary,
+  ErrorResponse,
+  OptimizationRequest,
+  OptimizationResponse,
+  OptimizationResult,
+  OutputMode,
+  SectionAnchor
+} from '../../src/types/index.js'
 
 const app = Fastify({
   logger: {
@@ -83,6 +113,59 @@ const documentService = new DocumentService({
   maxRetries: 3
 })
 
+/**
+ * Pre-flight size check: counts the documents with the model's tokenizer
+ * against MAX_REQUEST_TOKENS. Returns the 413 body when exceeded. Nothing is
+ * charged to the caller's token rate limit here.
+ */
+function checkDocumentTokens(documents: DocumentInput[], model: string): ErrorResponse | null {
+  const tokens = documents.reduce((total, doc) => total + countTokens(doc.content, model), 0)
+  if (tokens <= env.MAX_REQUEST_TOKENS) return null
+
+  return {
+    error: `Documents contain ${tokens} tokens, above the ${env.MAX_REQUEST_TOKENS} token limit`,
+    code: 'REQUEST_TOO_LARGE',
+    details: { tokens, limit: env.MAX_REQUEST_TOKENS },
+    timestamp: new Date().toISOString()
+  }
+}
+
+const OUTPUT_MODES: OutputMode[] = ['text', 'json', 'all']
+
+// The digest is rendered from complete results; unknown multipart modes fall back to text
+function toOutputMode(mode: string): OutputMode {
+  if (mode === 'digest') return 'all'
+  return OUTPUT_MODES.includes(mode as OutputMode) ? (mode as OutputMode) : 'text'
+}
+
+/**
+ * Reply with the project digest bundle for `mode: digest`, as a ZIP download
+ * or as a JSON manifest of the bundle's files.
+ */
+function sendDigest(
+  reply: FastifyReply,
+  results: OptimizationResult[],
+  documents: DocumentInput[],
+  format: string,
+  metadata: Record<string, unknown>
+): FastifyReply {
+  const generatedAt = new Date()
+  const files = buildProjectDigest(results, { documents, generatedAt })
+
+  if (format === 'zip') {
+    return reply
+      .header('Content-Type', 'application/zip')
+      .header('Content-Disposition', 'attachment; filename="project-digest.zip"')
+      .send(writeZip(files.map((file) => ({ name: file.path, data: file.content })), generatedAt))
+  }
+
+  return reply.send({
+    success: true,
+    files,
+    metadata: { ...metadata, timestamp: generatedAt.toISOString() }
+  })
+}
+
 // Register health checks
 healthChecker.register('openai', async () => {
   try {
@@ -279,27 +362,61 @@ app.post('/optimize', async (request, reply) => {
     if (contentType?.includes('multipart/form-data')) {
       const parts = request.parts()
       const documents: DocumentInput[] = []
+      const skippedFiles: SkippedArchiveEntry[] = []
+      // Every archive in the request draws on the same inflate and document budget
+      const archiveBudget = createArchiveBudget()
       let optimizationType = 'clarity'
       let mode = 'text'
       let model: string | undefined
+      let entityAliases: EntityAliasDictionary | undefined
+      let digestFormat = 'manifest'
+      let onConflict: ConflictPolicy = 'flag'
+      let sections: SectionAnchor[] | undefined
 
       for await (const part of parts) {
         if (part.type === 'file') {
+          // ZIP uploads fan out into one document per supported entry
+          if (isZipUpload(part.filename, part.mimetype)) {
+            const buffer = await streamToBuffer(part.file)
+            try {
+              const expansion = expandZipUpload(buffer, part.filename, undefined, archiveBudget)
+              for (const entry of expansion.skipped) {
+                app.log.warn(`Skipped ${entry.path} in ${part.filename}: ${entry.reason}`)
+                skippedFiles.push({ path: `${part.filename}/${entry.path}`, reason: entry.reason })
+              }
+              documents.push(...expansion.documents)
+            } catch (error) {
+              const reason = error instanceof Error ? error.message : String(error)
+              app.log.warn(`Could not expand archive ${part.filename}: ${reason}`)
+              skippedFiles.push({ path: part.filename, reason })
+            }
+            continue
+          }
+
           if (!validateFileExtension(part.filename)) {
             app.log.warn(`Invalid file extension: ${part.filename}`)
             continue
           }
 
           const buffer = await streamToBuffer(part.file)
-          const content = extractTextFromBuffer(buffer, part.mimetype)
+          let extracted
+          try {
+            extracted = extractDocumentContent(buffer, part.filename, part.mimetype)
+          } catch (error) {
+            app.log.warn(`Could not extract text from ${part.filename}: ${error instanceof Error ? error.message : error}`)
+            continue
+          }
 
+          const classification = resolveDocumentType(extracted, part.filename)
           documents.push({
             name: part.filename,
-            content: content,
-            type: detectDocumentType(part.filename),
+            content: extracted.content,
+            type: classification.type,
             metadata: {
               size: buffer.length,
-              mimetype: part.mimetype
+              mimetype: part.mimetype,
+              ...extracted.metadata,
+              typeConfidence: classification.confidence
             }
           })
         } else {
@@ -313,6 +430,44 @@ app.post('/optimize', async (request, reply) => {
             case 'model':
               model = part.value as string
               break
+            case 'digestFormat':
+              digestFormat = part.value as string
+              break
+            case 'onConflict':
+              onConflict = part.value === 'fail' ? 'fail' : 'flag'
+              break
+            case 'entityAliases': {
+              // A JSON object of canonical names to alias lists
+              let aliases: unknown
+              try {
+                aliases = JSON.parse(part.value as string)
+              } catch {
+                aliases = undefined
+              }
+              const parsed = EntityAliasesSchema.safeParse(aliases)
+              if (parsed.success) {
+                entityAliases = parsed.data
+              } else {
+                app.log.warn('Ignoring invalid entityAliases field')
+              }
+              break
+            }
+            case 'sections': {
+              // The `sections` of a previous consolidation, as a JSON array
+              let issued: unknown
+              try {
+                issued = JSON.parse(part.value as string)
+              } catch {
+                issued = undefined
+              }
+              const parsed = SectionAnchorsSchema.safeParse(issued)
+              if (parsed.success) {
+                sections = parsed.data
+              } else {
+                app.log.warn('Ignoring invalid sections field')
+              }
+              break
+            }
           }
         }
       }
@@ -321,28 +476,73 @@ app.post('/optimize', async (request, reply) => {
         return reply.code(400).send({
           error: 'No valid documents provided',
           code: 'NO_DOCUMENTS',
+          ...(skippedFiles.length > 0 ? { details: { skippedFiles } } : {}),
+          timestamp: new Date().toISOString()
+        })
+      }
+
+      // Uploaded and extracted documents get the same limits as a JSON body
+      const validation = await validateRequest(DocumentsSchema, documents)
+      if (!validation.success) {
+        return reply.code(400).send({
+          error: 'Validation failed',
+          code: 'VALIDATION_ERROR',
+          details: validation.errors.format(),
           timestamp: new Date().toISOString()
         })
       }
 
       const userId = request.ip
 
+      const sizeError = checkDocumentTokens(documents, model ?? 'gpt-3.5-turbo')
+      if (sizeError) {
+        return reply.code(413).send(sizeError)
+      }
+
+      const outputMode = toOutputMode(mode)
       const results =
         optimizationType === 'consolidate'
-          ? [await documentService.consolidateDocuments(documents, model, userId)]
-          : await documentService.processMultipleDocuments(documents, optimizationType, model, userId)
+          ? [
+              await documentService.consolidateDocuments(
+                documents,
+                model,
+                userId,
+                entityAliases,
+                outputMode,
+                onConflict,
+                sections
+              )
+            ]
+          : await documentService.processMultipleDocuments(
+              documents,
+              optimizationType,
+              model,
+              userId,
+              outputMode
+            )
+
+      if (mode === 'digest') {
+        return sendDigest(reply, results, documents, digestFormat, {
+          documentsProcessed: documents.length,
+          ...(skippedFiles.length > 0 ? { skippedFiles } : {}),
+          optimizationType,
+          model
+        })
+      }
 
-      return {
+      const response: OptimizationResponse = {
         success: true,
-        results,
+        results: results.map((result) => formatResult(result, outputMode)),
         metadata: {
           documentsProcessed: documents.length,
+          ...(skippedFiles.length > 0 ? { skippedFiles } : {}),
           optimizationType,
-          mode,
-          model,
+          mode: outputMode,
+          ...(model ? { model } : {}),
           timestamp: new Date().toISOString()
         }
       }
+      return response
     } else {
       const validation = await validateRequest(OptimizationRequestSchema, request.body)
       
@@ -367,27 +567,53 @@ app.post('/optimize', async (request, reply) => {
 
       const userId = request.ip
 
+      const sizeError = checkDocumentTokens(body.documents, body.model ?? 'gpt-3.5-turbo')
+      if (sizeError) {
+        return reply.code(413).send(sizeError)
+      }
+
+      const outputMode = toOutputMode(body.mode ?? 'text')
       const results =
         body.optimizationType === 'consolidate'
-          ? [await documentService.consolidateDocuments(body.documents, body.model, userId)]
+          ? [
+              await documentService.consolidateDocuments(
+                body.documents,
+                body.model,
+                userId,
+                body.entityAliases,
+                outputMode,
+                body.onConflict,
+                body.sections
+              )
+            ]
           : await documentService.processMultipleDocuments(
               body.documents,
               body.optimizationType as string,
               body.model,
-              userId
+              userId,
+              outputMode
             )
 
-      return {
+      if (body.mode === 'digest') {
+        return sendDigest(reply, results, body.documents, body.digestFormat ?? 'manifest', {
+          documentsProcessed: body.documents.length,
+          optimizationType: body.optimizationType,
+          model: body.model ?? 'gpt-3.5-turbo'
+        })
+      }
+
+      const response: OptimizationResponse = {
         success: true,
-        results,
+        results: results.map((result) => formatResult(result, outputMode)),
         metadata: {
           documentsProcessed: body.documents.length,
-          optimizationType: body.optimizationType,
-          mode: body.mode,
+          optimizationType: body.optimizationType as string,
+          mode: outputMode,
           model: body.model ?? 'gpt-3.5-turbo',
           timestamp: new Date().toISOString()
         }
       }
+      return response
     }
   } catch (error) {
     app.log.error(error)
@@ -400,6 +626,58 @@ app.post('/optimize', async (request, reply) => {
   }
 })
 
+// Published JSON Schema for the structured documents returned in json and all modes
+app.get('/schemas/structured-document.json', async (_request, reply) => {
+  return reply.header('Content-Type', 'application/schema+json').send(STRUCTURED_DOCUMENT_JSON_SCHEMA)
+})
+
+// Rule-based indexes only: no optimization and no model call
+app.post('/indexes', async (request, reply) => {
+  if (process.env.ENABLE_RATE_LIMITING !== 'false') {
+    const identifier = request.ip
+    const rateLimitInfo = await rateLimiter.checkLimit(identifier)
+
+    reply.header('X-RateLimit-Limit', rateLimitInfo.limit.toString())
+    reply.header('X-RateLimit-Remaining', rateLimitInfo.remaining.toString())
+    reply.header('X-RateLimit-Reset', Math.ceil(rateLimitInfo.resetTime / 1000).toString())
+
+    if (!rateLimitInfo.allowed) {
+      return reply.code(429).send({
+        error: 'Rate limit exceeded',
+        code: 'RATE_LIMIT_EXCEEDED',
+        details: {
+          limit: rateLimitInfo.limit,
+          remaining: rateLimitInfo.remaining,
+          resetTime: rateLimitInfo.resetTime
+        },
+        timestamp: new Date().toISOString()
+      })
+    }
+  }
+
+  const validation = await validateRequest(IndexRequestSchema, request.body)
+
+  if (!validation.success) {
+    return reply.code(400).send({
+      error: 'Validation failed',
+      code: 'VALIDATION_ERROR',
+      details: validation.errors.format(),
+      timestamp: new Date().toISOString()
+    })
+  }
+
+  const { documents, referenceDate } = validation.data
+
+  return {
+    success: true,
+    results: documentService.indexDocuments(documents, referenceDate),
+    metadata: {
+      documentsProcessed: documents.length,
+      timestamp: new Date().toISOString()
+    }
+  }
+})
+
 // Production environment endpoints
 app.get('/backup/status', async () => {
   return backupManager.getBackupStatus()
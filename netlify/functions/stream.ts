@@ -5,10 +5,10 @@ import cors from '@fastify/cors'
 import { DocumentService } from '../../src/services/document.service.js'
 import {
   streamToBuffer,
-  detectDocumentType,
   validateFileExtension,
-  extractTextFromBuffer
+  extractDocumentContent
 } from '../../src/utils/parser.js'
+import { resolveDocumentType } from '../../src/utils/document-classifier.js'
 import { errorHandler, notFoundHandler } from '../../src/middleware/error-handler.js'
 import { validateAPIKey, rateLimiter } from '../../src/utils/auth.js'
 import type { DocumentInput } from '../../src/types/index.js'
@@ -105,15 +105,24 @@ app.post('/stream', { preHandler: [validateAPIKey] }, async (request, reply) =>
           }
 
           const buffer = await streamToBuffer(part.file)
-          const content = extractTextFromBuffer(buffer, part.mimetype)
+          let extracted
+          try {
+            extracted = extractDocumentContent(buffer, part.filename, part.mimetype)
+          } catch (error) {
+            app.log.warn(`Could not extract text from ${part.filename}: ${error instanceof Error ? error.message : error}`)
+            continue
+          }
 
+          const classification = resolveDocumentType(extracted, part.filename)
           document = {
             name: part.filename,
-            content: content,
-            type: detectDocumentType(part.filename),
+            content: extracted.content,
+            type: classification.type,
             metadata: {
               size: buffer.length,
-              mimetype: part.mimetype
+              mimetype: part.mimetype,
+              ...extracted.metadata,
+              typeConfidence: classification.confidence
             }
           }
           documentFound = true
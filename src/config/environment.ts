@@ -28,6 +28,12 @@ const envSchema = z.object({
   
   // Performance and limits
   MAX_FILE_SIZE: z.coerce.number().default(10485760), // 10MB
+  MAX_ARCHIVE_UNCOMPRESSED_SIZE: z.coerce.number().default(52428800), // 50MB
+  MAX_ARCHIVE_ENTRIES: z.coerce.number().default(200),
+  MAX_REQUEST_TOKENS: z.coerce.number().default(1000000), // pre-flight size check, not a quota
+  TOKENIZER_DATA_DIR: z.string().optional(), // directory with official *.tiktoken rank files
+  TRUTH_VERIFICATION: z.enum(['off', 'flag', 'fail']).default('flag'), // wording check for transcripts
+  INDEX_EXTRACTION: z.enum(['model', 'local']).default('model'), // 'local' builds indexes without the model
   MAX_REQUEST_TIMEOUT: z.coerce.number().default(300000), // 5 minutes
   CONCURRENCY_LIMIT: z.coerce.number().default(10),
   
@@ -1,4 +1,48 @@
-import type { PromptTemplate } from '../types/index.js'
+import type { ConsolidationGroup, DocumentInput, PromptTemplate } from '../types/index.js'
+
+// Group order in the master document, with each group's heading
+const GROUP_LABELS: Record<ConsolidationGroup['type'], string> = {
+  handbook: 'Handbooks',
+  policy: 'Policies',
+  contract: 'Contracts',
+  spec: 'Specifications',
+  report: 'Reports',
+  transcript: 'Transcripts',
+  'chat-log': 'Chat Logs',
+  email: 'Emails',
+  note: 'Notes',
+  other: 'Other Documents'
+}
+
+const GROUP_INSTRUCTIONS: Partial<Record<ConsolidationGroup['type'], string[]>> = {
+  handbook: [
+    'Merge overlapping sections topic by topic, keeping numbering and effective dates',
+    'Where the documents disagree, keep both versions and cite each source'
+  ],
+  policy: [
+    'Merge overlapping policies clause by clause, keeping clause numbers and effective dates',
+    'Where the documents disagree, keep both versions and cite each source'
+  ],
+  contract: [
+    'Keep every clause, party name, amount and date exactly as written',
+    'Keep each contract as its own subsection; do not merge clauses across contracts'
+  ],
+  spec: ['Merge by subject; keep requirements, figures and tables exactly as written'],
+  report: ['Merge by subject; keep findings, figures and tables exactly as written'],
+  transcript: [
+    'Keep every transcript word for word, one after another in chronological order',
+    'Keep speaker labels and timestamps (t=HH:MM:SS) on every turn'
+  ],
+  'chat-log': [
+    'Keep every message word for word, in chronological order',
+    'Keep the sender and timestamp of every message'
+  ],
+  email: [
+    'Order the emails chronologically, grouped into threads by subject',
+    'Keep the sender, recipients, date and subject of every email'
+  ],
+  note: ['Merge notes by topic; keep every action item with its owner and due date']
+}
 
 export class ConsolidationPrompts {
   static readonly MASTER_CONSOLIDATOR: PromptTemplate = {
@@ -148,6 +192,60 @@ Provide:
     variables: ['DOCUMENTS']
   }
 
+  /**
+   * Group documents by type, in the order the groups appear in the master
+   * document. Documents without a type go to the "Other Documents" group.
+   */
+  static planConsolidation(documents: DocumentInput[]): ConsolidationGroup[] {
+    const types = Object.keys(GROUP_LABELS) as Array<ConsolidationGroup['type']>
+
+    return types
+      .map((type) => ({
+        type,
+        label: GROUP_LABELS[type],
+        documents: documents.filter((document) => (document.type ?? 'other') === type)
+      }))
+      .filter((group) => group.documents.length > 0)
+  }
+
+  /**
+   * Prompt for consolidating one group into its section of the master
+   * document, with instructions for the group's document type.
+   */
+  static buildGroupMessages(
+    group: ConsolidationGroup
+  ): Array<{ role: 'system' | 'user'; content: string }> {
+    const documents = group.documents
+      .map((document, index) => `## Document ${index + 1}: ${document.name}\n${document.content}`)
+      .join('\n\n---\n\n')
+    const requirements = [
+      'Keep the original wording; do not paraphrase, rewrite or drop content',
+      'Keep existing stable IDs (e.g., sec-3-4-pto, t=00:05:30)',
+      'Start each merged part with a source citation line naming the file and, where it has them, its section IDs, e.g. "Source: employee-handbook.pdf (sec-3-4-pto)"',
+      'Cite every source document at least once',
+      'Keep "[Duplicate of ...]" and "[Near-duplicate of ...]" back-references as they are; the paragraph they point to appears once, in its canonical document',
+      'Documents named "Part N (...)" are earlier consolidations of the listed files; keep their "Source:" citation lines with the content they cite',
+      'Use Markdown headings for structure, without a title for the whole section',
+      ...(GROUP_INSTRUCTIONS[group.type] ?? [])
+    ]
+
+    return [
+      {
+        role: 'system',
+        content: `You are an expert document analyst. You consolidate documents of one type into a single section of a master document, preserving their truth, wording and structure.`
+      },
+      {
+        role: 'user',
+        content: `Consolidate the following ${group.documents.length} document(s) (${group.label}) into one section of the master document:
+
+${documents}
+
+Requirements:
+${requirements.map((requirement, index) => `${index + 1}. ${requirement}`).join('\n')}`
+      }
+    ]
+  }
+
   static buildConsolidationPlan(
     documentCount: number,
     documentTypes: string[]
@@ -1,17 +1,99 @@
 import type {
   DocumentInput,
+  DocumentType,
   OptimizationResult,
   DocumentMetadata,
   DocumentIndexes,
-  EntityIndex,
-  TopicIndex,
-  TimelineEntry,
-  OpenAIConfig
+  ConsolidationGroup,
+  ConflictPolicy,
+  EntityAliasDictionary,
+  OpenAIConfig,
+  OutputMode,
+  SectionAnchor
 } from '../types/index.js'
 import { OpenAIService, type CompletionMetrics } from './openai.service.js'
 import { tokenManager } from './token.service.js'
+import { classifyDocument } from '../utils/document-classifier.js'
+import { chunkDocument, stitchChunks, type DocumentChunk } from '../utils/chunker.js'
+import { sectionIdRegistry } from '../utils/section-ids.js'
+import { checkFacts } from '../utils/fact-checker.js'
+import { extractIndexes, findReferenceDate } from '../utils/index-extractor.js'
+import { attachEntitySections, mergeIndexes, sanitizeIndexes } from '../utils/index-merge.js'
+import { resolveEntities } from '../utils/entity-resolver.js'
+import { buildStructuredDocument } from '../utils/structured-document.js'
+import { buildProvenance } from '../utils/provenance.js'
+import { deduplicateDocuments } from '../utils/deduplication.js'
+import { detectConflicts, renderConflicts } from '../utils/conflict-detector.js'
+import {
+  assembleMasterDocument,
+  buildTableOfContents,
+  insertTableOfContents,
+  packBatches
+} from '../utils/consolidation.js'
+import { ConsolidationPrompts } from '../prompts/consolidate.prompt.js'
+import {
+  getVerificationMode,
+  requiresExactWording,
+  verifyPreservation
+} from '../utils/truth-verifier.js'
 import type { ChatCompletionMessageParam } from 'openai/resources/chat'
 
+// Completion limit for each optimization request
+const OPTIMIZATION_MAX_TOKENS = 4000
+
+// Entities listed in each consolidated group's metadata block
+const GROUP_ENTITY_LIMIT = 5
+
+interface ChunkContext {
+  chunk: DocumentChunk
+  total: number
+}
+
+// Room left in each chunked prompt for the part number and heading path instructions
+const CHUNK_INSTRUCTION_TOKENS = 250
+
+// A document, or an intermediate consolidation, with the source files it covers
+interface ConsolidationItem {
+  document: DocumentInput
+  sources: string[]
+}
+
+interface ConsolidationRequest {
+  metrics: CompletionMetrics
+  documentCount: number
+}
+
+// Documents are indexed in chunks of at most this many tokens
+const INDEX_CHUNK_TOKENS = 3000
+const INDEX_MAX_TOKENS = 1500
+const INDEX_SYSTEM_PROMPT = `You are an expert document analyzer. Extract structured information from documents and return it as valid JSON.
+
+Return a JSON object with this exact structure:
+{
+  "entities": [
+    {
+      "name": "string",
+      "type": "person|organization|location|date|other",
+      "mentions": number,
+      "context": ["string"]
+    }
+  ],
+  "topics": [
+    {
+      "topic": "string",
+      "relevance": number_between_0_and_1,
+      "sections": ["string"]
+    }
+  ],
+  "timeline": [
+    {
+      "date": "YYYY-MM-DD",
+      "event": "string",
+      "significance": "high|medium|low"
+    }
+  ]
+}`
+
 export class DocumentService {
   private openaiService: OpenAIService
 
@@ -22,7 +104,8 @@ export class DocumentService {
     document: DocumentInput,
     optimizationType: string,
     model?: string,
-    userId?: string
+    userId?: string,
+    mode: OutputMode = 'all'
   ): Promise<OptimizationResult> {
     const startTime = Date.now()
 
@@ -30,16 +113,58 @@ export class DocumentService {
     const selectedModel = model || this.openaiService.getDefaultModelForOptimization(optimizationType)
 
     try {
-      const messages = this.buildOptimizationPrompt(document, optimizationType)
-      
-      const { completion, metrics } = await this.openaiService.createCompletion(messages, {
-        model: selectedModel,
-        temperature: 0.1,
-        maxTokens: 4000
-      })
-
-      const optimizedContent = completion.choices[0]?.message.content || ''
-      const indexes = await this.generateIndexes(document.content, selectedModel)
+      // Classify the whole document once so every chunk gets the same type instructions
+      const typedDocument: DocumentInput = {
+        ...document,
+        type: document.type ?? classifyDocument(document.content, document.name).type
+      }
+      const chunks = this.chunkForModel(typedDocument, optimizationType, selectedModel)
+
+      // Map: optimize each chunk independently; reduce: stitch the outputs back together
+      const responses = await Promise.all(
+        chunks.map((chunk) =>
+          this.openaiService.createCompletion(
+            this.buildOptimizationPrompt(
+              { ...typedDocument, content: chunk.content },
+              optimizationType,
+              chunks.length > 1 ? { chunk, total: chunks.length } : undefined
+            ),
+            {
+              model: selectedModel,
+              temperature: 0.1,
+              maxTokens: OPTIMIZATION_MAX_TOKENS
+            }
+          )
+        )
+      )
+
+      const outputs = responses.map(({ completion }) => completion.choices[0]?.message.content || '')
+      const { content: optimizedContent, sections } = sectionIdRegistry.assign(
+        this.getSectionRegistryKey(document.name, userId),
+        outputs.length > 1 ? stitchChunks(outputs) : outputs[0] ?? '',
+        document.sections
+      )
+      // Text mode returns the Markdown alone, so the index round-trip is skipped
+      const indexes =
+        mode === 'text'
+          ? undefined
+          : attachEntitySections(
+              await this.generateIndexes(
+                document.content,
+                selectedModel,
+                this.getReferenceDate(document)
+              ),
+              optimizedContent
+            )
+
+      const usage = responses.reduce(
+        (total, { metrics }) => ({
+          promptTokens: total.promptTokens + metrics.usage.promptTokens,
+          completionTokens: total.completionTokens + metrics.usage.completionTokens,
+          totalTokens: total.totalTokens + metrics.usage.totalTokens
+        }),
+        { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+      )
 
       const metadata: DocumentMetadata = {
         originalLength: document.content.length,
@@ -48,27 +173,58 @@ export class DocumentService {
         processingTime: Date.now() - startTime,
         model: selectedModel,
         timestamp: new Date().toISOString(),
-        tokenUsage: {
-          promptTokens: metrics.usage.promptTokens,
-          completionTokens: metrics.usage.completionTokens,
-          totalTokens: metrics.usage.totalTokens
-        },
-        cost: metrics.cost || 0
+        tokenUsage: usage,
+        cost: responses.reduce((total, { metrics }) => total + (metrics.cost || 0), 0),
+        ...(chunks.length > 1 ? { chunkCount: chunks.length } : {}),
+        factCheck: checkFacts(document.content, optimizedContent)
       }
 
-      // Record token transaction if userId is provided
+      // Record token transactions (one per chunk request) if userId is provided
       if (userId) {
-        tokenManager.recordTransaction(userId, metrics, 'completion', {
-          optimizationType,
-          documentCount: 1
-        })
+        for (const { metrics } of responses) {
+          tokenManager.recordTransaction(userId, metrics, 'completion', {
+            optimizationType,
+            documentCount: 1
+          })
+        }
+      }
+
+      // Exact-wording mode: check the output against the source wording
+      const verificationMode = getVerificationMode()
+      const verification =
+        verificationMode !== 'off' && requiresExactWording(typedDocument.type, optimizationType)
+          ? verifyPreservation(document.content, optimizedContent)
+          : undefined
+
+      if (verification && !verification.passed && verificationMode === 'fail') {
+        return {
+          originalFilename: document.name,
+          optimizedContent: '',
+          metadata,
+          verification,
+          status: 'rejected',
+          error: `Optimized content does not preserve the original wording (preservation score ${verification.preservationScore})`
+        }
       }
 
       return {
         originalFilename: document.name,
         optimizedContent,
-        indexes,
+        ...(indexes ? { indexes } : {}),
         metadata,
+        sections,
+        ...(verification ? { verification } : {}),
+        ...(indexes
+          ? {
+              document: buildStructuredDocument({
+                filename: document.name,
+                content: optimizedContent,
+                sections,
+                metadata,
+                indexes
+              })
+            }
+          : {}),
         status: 'fulfilled'
       }
     } catch (error) {
@@ -93,11 +249,12 @@ export class DocumentService {
     documents: DocumentInput[],
     optimizationType: string,
     model?: string,
-    userId?: string
+    userId?: string,
+    mode: OutputMode = 'all'
   ): Promise<OptimizationResult[]> {
     const selectedModel = model || this.openaiService.getDefaultModelForOptimization(optimizationType)
     const promises = documents.map((doc) =>
-      this.optimizeDocument(doc, optimizationType, selectedModel, userId)
+      this.optimizeDocument(doc, optimizationType, selectedModel, userId, mode)
     )
 
     const results = await Promise.allSettled(promises)
@@ -127,7 +284,11 @@ export class DocumentService {
   async consolidateDocuments(
     documents: DocumentInput[],
     model?: string,
-    userId?: string
+    userId?: string,
+    entityAliases?: EntityAliasDictionary,
+    mode: OutputMode = 'all',
+    onConflict: ConflictPolicy = 'flag',
+    issuedSections?: SectionAnchor[]
   ): Promise<OptimizationResult> {
     const startTime = Date.now()
 
@@ -139,16 +300,79 @@ export class DocumentService {
         .map((doc) => `# ${doc.name}\n\n${doc.content}`)
         .join('\n\n---\n\n')
 
-      const messages = this.buildConsolidationPrompt(documents)
-      
-      const { completion, metrics } = await this.openaiService.createCompletion(messages, {
-        model: selectedModel,
-        temperature: 0.1,
-        maxTokens: 4000
-      })
+      // Consolidate each document type on its own, then merge the groups
+      const typedDocuments = documents.map((doc) => ({
+        ...doc,
+        type: doc.type ?? classifyDocument(doc.content, doc.name).type
+      }))
 
-      const optimizedContent = completion.choices[0]?.message.content || ''
-      const indexes = await this.generateIndexes(consolidatedContent, selectedModel)
+      // Contradictions are found before any model call, so refusing to consolidate costs nothing
+      const conflicts = detectConflicts(typedDocuments)
+      if (conflicts.length > 0 && onConflict === 'fail') {
+        return {
+          originalFilename: 'consolidated_document',
+          optimizedContent: '',
+          metadata: {
+            originalLength: consolidatedContent.length,
+            optimizedLength: 0,
+            compressionRatio: 0,
+            processingTime: Date.now() - startTime,
+            model: selectedModel,
+            timestamp: new Date().toISOString()
+          },
+          conflicts,
+          status: 'rejected',
+          error: `The documents contradict each other in ${conflicts.length} statement(s); resolve the conflicts before consolidating`
+        }
+      }
+
+      // Paragraphs repeated across documents are sent once, the other copies as back-references
+      const { documents: uniqueDocuments, report: deduplication } =
+        deduplicateDocuments(typedDocuments)
+      const groups = ConsolidationPrompts.planConsolidation(uniqueDocuments)
+      const consolidated = await Promise.all(
+        groups.map((group) => this.consolidateGroup(group, selectedModel))
+      )
+      const requests = consolidated.flatMap((result) => result.requests)
+
+      const resolvedIndexes =
+        mode === 'text'
+          ? undefined
+          : await this.generateConsolidatedIndexes(typedDocuments, selectedModel, entityAliases)
+
+      const master = assembleMasterDocument(
+        groups.map((group, index) => ({
+          group,
+          content: consolidated[index]?.content ?? '',
+          dates: group.documents
+            .map((doc) => this.getReferenceDate(doc)?.toISOString().slice(0, 10))
+            .filter((date): date is string => date !== undefined),
+          ...(resolvedIndexes
+            ? { entities: this.getGroupEntities(resolvedIndexes, group) }
+            : {}),
+          tokens: group.documents.reduce(
+            (total, doc) => total + this.openaiService.estimateTokens(doc.content, selectedModel),
+            0
+          )
+        }))
+      )
+      // Contradictions are listed in their own section, so consolidation never hides one
+      const masterWithConflicts =
+        conflicts.length > 0 ? `${master}\n\n${renderConflicts(conflicts)}` : master
+      const { content: assignedContent, sections } = sectionIdRegistry.assign(
+        this.getSectionRegistryKey(
+          `consolidated:${documents.map((doc) => doc.name).sort().join('|')}`,
+          userId
+        ),
+        masterWithConflicts,
+        issuedSections
+      )
+      const optimizedContent = insertTableOfContents(
+        assignedContent,
+        buildTableOfContents(sections)
+      )
+      const indexes = resolvedIndexes && attachEntitySections(resolvedIndexes, optimizedContent)
+      const provenance = buildProvenance(optimizedContent, sections, documents)
 
       const metadata: DocumentMetadata = {
         originalLength: consolidatedContent.length,
@@ -157,27 +381,48 @@ export class DocumentService {
         processingTime: Date.now() - startTime,
         model: selectedModel,
         timestamp: new Date().toISOString(),
-        tokenUsage: {
-          promptTokens: metrics.usage.promptTokens,
-          completionTokens: metrics.usage.completionTokens,
-          totalTokens: metrics.usage.totalTokens
-        },
-        cost: metrics.cost || 0
+        tokenUsage: requests.reduce(
+          (total, { metrics }) => ({
+            promptTokens: total.promptTokens + metrics.usage.promptTokens,
+            completionTokens: total.completionTokens + metrics.usage.completionTokens,
+            totalTokens: total.totalTokens + metrics.usage.totalTokens
+          }),
+          { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+        ),
+        cost: requests.reduce((total, { metrics }) => total + (metrics.cost || 0), 0),
+        factCheck: checkFacts(consolidatedContent, optimizedContent)
       }
 
-      // Record token transaction if userId is provided
+      // Record token transactions (one per batch request) if userId is provided
       if (userId) {
-        tokenManager.recordTransaction(userId, metrics, 'completion', {
-          optimizationType: 'consolidate',
-          documentCount: documents.length
+        requests.forEach(({ metrics, documentCount }) => {
+          tokenManager.recordTransaction(userId, metrics, 'completion', {
+            optimizationType: 'consolidate',
+            documentCount
+          })
         })
       }
 
       return {
         originalFilename: 'consolidated_document',
         optimizedContent,
-        indexes,
+        ...(indexes ? { indexes } : {}),
         metadata,
+        sections,
+        provenance,
+        deduplication,
+        conflicts,
+        ...(indexes
+          ? {
+              document: buildStructuredDocument({
+                filename: 'consolidated_document',
+                content: optimizedContent,
+                sections,
+                metadata,
+                indexes
+              })
+            }
+          : {}),
         status: 'fulfilled'
       }
     } catch (error) {
@@ -200,42 +445,138 @@ export class DocumentService {
     }
   }
 
-  private buildOptimizationPrompt(document: DocumentInput, optimizationType: string): ChatCompletionMessageParam[] {
-    const systemPrompt = this.getSystemPrompt(optimizationType)
-    const userPrompt = this.getUserPrompt(document, optimizationType)
+  /**
+   * Tree-reduce one group: consolidate batches of documents that fit the
+   * model's context window, then batches of those results, and so on until one
+   * remains. Each intermediate result is named after the source files it
+   * covers and keeps their citation lines, so attribution survives every level.
+   */
+  private async consolidateGroup(
+    group: ConsolidationGroup,
+    model: string
+  ): Promise<{ content: string; requests: ConsolidationRequest[] }> {
+    const budget = this.getConsolidationBudget(group, model)
+    const size = ({ document }: ConsolidationItem): number =>
+      this.openaiService.estimateTokens(
+        `## Document 000: ${document.name}\n${document.content}\n\n---\n\n`,
+        model
+      )
+    const requests: ConsolidationRequest[] = []
+    let items = group.documents.flatMap((document) =>
+      this.splitForConsolidation(document, budget, model)
+    )
 
-    return [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt }
-    ]
+    for (let level = 0; ; level++) {
+      const batches = packBatches(items, budget, size)
+      // Parts that each fill a request on their own can only be joined as they are
+      if (level > 0 && batches.length === items.length) break
+
+      const responses = await Promise.all(
+        batches.map((batch) =>
+          this.openaiService.createCompletion(
+            ConsolidationPrompts.buildGroupMessages({
+              ...group,
+              documents: batch.map((item) => item.document)
+            }),
+            { model, temperature: 0.1, maxTokens: OPTIMIZATION_MAX_TOKENS }
+          )
+        )
+      )
+      responses.forEach(({ metrics }, index) => {
+        requests.push({ metrics, documentCount: batches[index]?.length ?? 0 })
+      })
+
+      items = batches.map((batch, index) => {
+        const sources = [...new Set(batch.flatMap((item) => item.sources))]
+        return {
+          sources,
+          document: {
+            name: `Part ${index + 1} (${sources.join(', ')})`,
+            content: responses[index]?.completion.choices[0]?.message.content || ''
+          }
+        }
+      })
+      if (items.length === 1) break
+    }
+
+    return { content: items.map((item) => item.document.content).join('\n\n'), requests }
   }
 
-  private buildConsolidationPrompt(documents: DocumentInput[]): ChatCompletionMessageParam[] {
-    const systemPrompt = `You are an expert document analyst and technical writer. Your task is to consolidate multiple documents into a single, coherent, and well-structured document. 
+  // Tokens of documents that fit one consolidation request for the model
+  private getConsolidationBudget(group: ConsolidationGroup, model: string): number {
+    const { contextWindow } = this.openaiService.getModelCapabilities(model)
+    const prompt = ConsolidationPrompts.buildGroupMessages({ ...group, documents: [] })
+      .map((message) => message.content)
+      .join('\n')
+
+    return (
+      contextWindow -
+      OPTIMIZATION_MAX_TOKENS -
+      this.openaiService.estimateTokens(prompt, model) -
+      CHUNK_INSTRUCTION_TOKENS
+    )
+  }
 
-Key requirements:
-- Eliminate redundancy while preserving all important information
-- Create logical flow and structure
-- Maintain accuracy and context from all source documents
-- Provide clear section organization
-- Include cross-references where appropriate
-- Use professional, clear language`
+  // A document larger than a whole consolidation request is consolidated in parts
+  private splitForConsolidation(
+    document: DocumentInput,
+    budget: number,
+    model: string
+  ): ConsolidationItem[] {
+    const countTokens = (text: string): number => this.openaiService.estimateTokens(text, model)
+    if (countTokens(document.content) <= budget) return [{ document, sources: [document.name] }]
+
+    const chunks = chunkDocument(document.content, { maxTokens: budget, countTokens })
+    return chunks.map((chunk) => ({
+      document: {
+        ...document,
+        name: `${document.name} (part ${chunk.index + 1} of ${chunks.length})`,
+        content: chunk.content
+      },
+      sources: [document.name]
+    }))
+  }
 
-    const documentSummaries = documents.map((doc, index) => 
-      `## Document ${index + 1}: ${doc.name}\n${doc.content}`
-    ).join('\n\n---\n\n')
+  /**
+   * Split a document that would not fit the model in one request. Each chunk
+   * must leave room in the context window for the prompt and the response,
+   * and its optimized output must fit in the completion token limit.
+   */
+  private chunkForModel(document: DocumentInput, optimizationType: string, model: string): DocumentChunk[] {
+    const { contextWindow } = this.openaiService.getModelCapabilities(model)
+    const promptOverhead =
+      this.openaiService.estimateTokens(
+        this.getSystemPrompt(optimizationType) +
+          this.getUserPrompt({ ...document, content: '' }, optimizationType),
+        model
+      ) + CHUNK_INSTRUCTION_TOKENS
+    const budget = Math.min(
+      contextWindow - OPTIMIZATION_MAX_TOKENS - promptOverhead,
+      Math.floor(OPTIMIZATION_MAX_TOKENS * 0.9)
+    )
 
-    const userPrompt = `Please consolidate the following ${documents.length} documents into a single, well-structured document:
+    if (this.openaiService.estimateTokens(document.content, model) <= budget) {
+      return [{ index: 0, content: document.content, tokens: 0, headingPath: [] }]
+    }
 
-${documentSummaries}
+    return chunkDocument(document.content, {
+      maxTokens: budget,
+      countTokens: (text) => this.openaiService.estimateTokens(text, model)
+    })
+  }
+
+  // Section IDs are remembered per user and document so re-optimizing keeps them stable
+  private getSectionRegistryKey(documentName: string, userId?: string): string {
+    return `${userId ?? 'anonymous'}/${documentName}`
+  }
 
-Requirements:
-1. Create a comprehensive consolidated document
-2. Eliminate redundant information
-3. Maintain all critical details
-4. Organize content logically
-5. Provide clear headings and structure
-6. Include a summary section`
+  private buildOptimizationPrompt(
+    document: DocumentInput,
+    optimizationType: string,
+    chunkContext?: ChunkContext
+  ): ChatCompletionMessageParam[] {
+    const systemPrompt = this.getSystemPrompt(optimizationType)
+    const userPrompt = this.getUserPrompt(document, optimizationType, chunkContext)
 
     return [
       { role: 'system', content: systemPrompt },
@@ -243,6 +584,15 @@ Requirements:
     ]
   }
 
+  // The most mentioned entities of a group, for its metadata block
+  private getGroupEntities(indexes: DocumentIndexes, group: ConsolidationGroup): string[] {
+    const names = new Set(group.documents.map((doc) => doc.name))
+    return indexes.entities
+      .filter((entity) => entity.sources?.some((source) => names.has(source.document)))
+      .slice(0, GROUP_ENTITY_LIMIT)
+      .map((entity) => entity.name)
+  }
+
   private getSystemPrompt(optimizationType: string): string {
     const basePrompt = "You are an expert document optimizer and technical writer."
 
@@ -279,23 +629,129 @@ Requirements:
     }
   }
 
-  private getUserPrompt(document: DocumentInput, optimizationType: string): string {
+  private getUserPrompt(
+    document: DocumentInput,
+    optimizationType: string,
+    chunkContext?: ChunkContext
+  ): string {
     const action = this.getActionVerb(optimizationType)
-    
+    const documentType = document.type ?? classifyDocument(document.content, document.name).type
+    const instructions = [
+      `${action.charAt(0).toUpperCase() + action.slice(1)} the content according to the specified optimization type`,
+      'Maintain all critical information and context',
+      'Provide clear structure with appropriate headings',
+      'Ensure the result is professional and polished',
+      'Return only the optimized content without meta-commentary',
+      ...this.getTypeInstructions(documentType),
+      ...(requiresExactWording(documentType, optimizationType)
+        ? [
+            'Keep every turn word for word, including fillers and false starts; add headings or labels only on their own lines and never reword, shorten or drop what was said'
+          ]
+        : []),
+      ...this.getSourceInstructions(document),
+      ...this.getChunkInstructions(chunkContext)
+    ]
+
     return `Please ${action} the following document:
 
 **Document Name:** ${document.name}
-**Document Type:** ${document.type || 'Unknown'}
+**Document Type:** ${documentType || 'Unknown'}
 
 **Content:**
 ${document.content}
 
 **Instructions:**
-1. ${action.charAt(0).toUpperCase() + action.slice(1)} the content according to the specified optimization type
-2. Maintain all critical information and context
-3. Provide clear structure with appropriate headings
-4. Ensure the result is professional and polished
-5. Return only the optimized content without meta-commentary`
+${instructions.map((instruction, index) => `${index + 1}. ${instruction}`).join('\n')}`
+  }
+
+  private getTypeInstructions(type: DocumentType | undefined): string[] {
+    switch (type) {
+      case 'transcript':
+        return [
+          'Attribute decisions and statements to their speakers, and separate discussion from decisions and action items'
+        ]
+      case 'chat-log':
+        return [
+          'Collapse chatter and reactions, keep decisions, questions and answers, and attribute each to its author'
+        ]
+      case 'email':
+        return [
+          'Keep who asked for what and when, and surface requests, commitments and deadlines'
+        ]
+      case 'policy':
+        return [
+          'Preserve clause numbering and normative wording (must, shall, may) exactly; never soften or strengthen obligations'
+        ]
+      case 'handbook':
+        return [
+          'Keep the chapter and section structure so employees can navigate it, and keep eligibility rules and contacts intact'
+        ]
+      case 'contract':
+        return [
+          'Do not paraphrase obligations, defined terms, amounts or dates; keep party names and clause references exactly as written'
+        ]
+      case 'spec':
+        return [
+          'Keep requirement IDs, RFC keywords (MUST, SHOULD, MAY), code, field names and API paths verbatim'
+        ]
+      case 'report':
+        return [
+          'Lead with the key findings and keep every figure, percentage and period exactly as reported'
+        ]
+      case 'note':
+        return [
+          'Turn fragments into complete statements, and list action items with their owners and due dates'
+        ]
+      default:
+        return []
+    }
+  }
+
+  private getSourceInstructions(document: DocumentInput): string[] {
+    const instructions: string[] = []
+
+    if (typeof document.metadata?.pageCount === 'number') {
+      instructions.push(
+        'Keep the [p.N] page markers from the source and cite them (e.g. [p.3]) next to content taken from that page'
+      )
+    }
+
+    if (Array.isArray(document.metadata?.turns)) {
+      instructions.push(
+        'Keep the [t=HH:MM:SS] anchors from the source and use them as the transcript chunk IDs (e.g. t=00:01:23); never invent or adjust timestamps'
+      )
+    }
+
+    if (document.metadata?.format === 'email' && Array.isArray(document.metadata.messages)) {
+      const messages = document.metadata.messages as Array<{ from?: string; date?: string }>
+      const participants = (document.metadata.participants as string[] | undefined) ?? []
+      const timeline = messages
+        .map((message) => `${message.date ?? 'undated'} (${message.from ?? 'unknown sender'})`)
+        .join('; ')
+
+      instructions.push(
+        `This is an email thread of ${messages.length} message(s) between ${participants.join(', ') || 'unknown participants'}; attribute statements to their sender and build the timeline from these message dates: ${timeline}`
+      )
+    }
+
+    return instructions
+  }
+
+  private getChunkInstructions(chunkContext: ChunkContext | undefined): string[] {
+    if (!chunkContext) return []
+
+    const { chunk, total } = chunkContext
+    const instructions = [
+      `This is part ${chunk.index + 1} of ${total} of a longer document; the parts are optimized separately and joined in order, so do not add an introduction, summary or conclusion for the whole document`
+    ]
+
+    if (chunk.headingPath.length > 0) {
+      instructions.push(
+        `This part continues under the headings ${chunk.headingPath.join(' > ')}; do not repeat them, and keep the heading levels and any section ID numbering (e.g. sec-2-1) consistent with them`
+      )
+    }
+
+    return instructions
   }
 
   private getActionVerb(optimizationType: string): string {
@@ -308,44 +764,101 @@ ${document.content}
     }
   }
 
-  private async generateIndexes(content: string, model: string): Promise<DocumentIndexes> {
+  /**
+   * Build indexes for documents with the rule-based extractor alone, without
+   * optimizing them or calling the model.
+   */
+  indexDocuments(
+    documents: DocumentInput[],
+    referenceDate?: Date
+  ): Array<{ originalFilename: string; indexes: DocumentIndexes }> {
+    return documents.map((document) => ({
+      originalFilename: document.name,
+      indexes: extractIndexes(document.content, {
+        referenceDate: referenceDate ?? this.getReferenceDate(document)
+      })
+    }))
+  }
+
+  // Relative dates in an email are relative to when it was sent
+  private getReferenceDate(document: DocumentInput): Date | undefined {
+    const date = document.metadata?.date
+    if (typeof date !== 'string') return undefined
+    const parsed = new Date(date)
+    return Number.isNaN(parsed.getTime()) ? undefined : parsed
+  }
+
+  /**
+   * Index the whole document: it is split into chunks that fit the model,
+   * each chunk is indexed on its own (by the rule-based extractor when the
+   * model call fails) and the chunk indexes are merged.
+   */
+  private async generateIndexes(
+    content: string,
+    model: string,
+    referenceDate?: Date
+  ): Promise<DocumentIndexes> {
+    // Relative dates in later chunks still resolve against the document's own date
+    const reference = referenceDate ?? findReferenceDate(content)
+
+    if (process.env.INDEX_EXTRACTION === 'local') {
+      return extractIndexes(content, { referenceDate: reference })
+    }
+
+    const chunks = this.chunkForIndexing(content, model)
+    const parts = await Promise.all(
+      chunks.map(async (chunk) => ({
+        indexes: await this.generateChunkIndexes(chunk, chunks.length, model, reference),
+        weight: chunk.tokens
+      }))
+    )
+
+    return parts.length === 1 ? parts[0]!.indexes : mergeIndexes(parts)
+  }
+
+  /**
+   * Index each source document on its own, then merge the results and
+   * resolve the entities that name the same thing across documents, so each
+   * entity links to its mentions in every source.
+   */
+  private async generateConsolidatedIndexes(
+    documents: DocumentInput[],
+    model: string,
+    entityAliases?: EntityAliasDictionary
+  ): Promise<DocumentIndexes> {
+    const sources = await Promise.all(
+      documents.map(async (document) => ({
+        document: document.name,
+        indexes: await this.generateIndexes(document.content, model, this.getReferenceDate(document))
+      }))
+    )
+    const merged = mergeIndexes(
+      sources.map(({ indexes }, index) => ({
+        indexes,
+        weight: this.openaiService.estimateTokens(documents[index]!.content, model)
+      }))
+    )
+
+    return { ...merged, entities: resolveEntities(sources, { aliases: entityAliases }) }
+  }
+
+  private async generateChunkIndexes(
+    chunk: DocumentChunk,
+    total: number,
+    model: string,
+    referenceDate?: Date
+  ): Promise<DocumentIndexes> {
     try {
       const messages: ChatCompletionMessageParam[] = [
         {
           role: 'system',
-          content: `You are an expert document analyzer. Extract structured information from documents and return it as valid JSON.
-
-Return a JSON object with this exact structure:
-{
-  "entities": [
-    {
-      "name": "string",
-      "type": "person|organization|location|product|other",
-      "mentions": number,
-      "context": ["string"]
-    }
-  ],
-  "topics": [
-    {
-      "topic": "string",
-      "relevance": number_between_0_and_1,
-      "sections": ["string"]
-    }
-  ],
-  "timeline": [
-    {
-      "date": "YYYY-MM-DD",
-      "event": "string",
-      "significance": "high|medium|low"
-    }
-  ]
-}`
+          content: INDEX_SYSTEM_PROMPT
         },
         {
           role: 'user',
-          content: `Analyze the following document and extract entities, topics, and timeline information:
+          content: `Analyze the following ${total > 1 ? `document excerpt (part ${chunk.index + 1} of ${total})` : 'document'} and extract entities, topics, and timeline information:
 
-${content.substring(0, 2000)}...
+${chunk.content}
 
 Return only valid JSON with the structure specified.`
         }
@@ -354,40 +867,41 @@ Return only valid JSON with the structure specified.`
       const { completion } = await this.openaiService.createCompletion(messages, {
         model,
         temperature: 0.1,
-        maxTokens: 1500
+        maxTokens: INDEX_MAX_TOKENS
       })
 
       const jsonContent = completion.choices[0]?.message.content || '{}'
       
       try {
-        const parsed = JSON.parse(jsonContent)
-        return {
-          entities: parsed.entities || [],
-          topics: parsed.topics || [],
-          timeline: parsed.timeline || []
-        }
+        return sanitizeIndexes(JSON.parse(jsonContent))
       } catch {
-        // Fallback to basic indexes if JSON parsing fails
-        return this.generateFallbackIndexes(content)
+        // Fall back to rule-based indexes if JSON parsing fails
+        return extractIndexes(chunk.content, { referenceDate })
       }
     } catch {
-      // Fallback to basic indexes if API call fails
-      return this.generateFallbackIndexes(content)
+      // Fall back to rule-based indexes if the API call fails
+      return extractIndexes(chunk.content, { referenceDate })
     }
   }
 
-  private generateFallbackIndexes(content: string): DocumentIndexes {
-    const entities: EntityIndex[] = []
-    const topics: TopicIndex[] = [
-      {
-        topic: 'Document Analysis',
-        relevance: 0.8,
-        sections: ['Content']
-      }
-    ]
-    const timeline: TimelineEntry[] = []
+  // Index chunks leave room for the prompt and the JSON response
+  private chunkForIndexing(content: string, model: string): DocumentChunk[] {
+    const { contextWindow } = this.openaiService.getModelCapabilities(model)
+    const budget = Math.min(
+      contextWindow -
+        INDEX_MAX_TOKENS -
+        this.openaiService.estimateTokens(INDEX_SYSTEM_PROMPT, model) -
+        CHUNK_INSTRUCTION_TOKENS,
+      INDEX_CHUNK_TOKENS
+    )
+    const countTokens = (text: string): number => this.openaiService.estimateTokens(text, model)
+    const tokens = countTokens(content)
+
+    if (tokens <= budget) {
+      return [{ index: 0, content, tokens, headingPath: [] }]
+    }
 
-    return { entities, topics, timeline }
+    return chunkDocument(content, { maxTokens: budget, countTokens })
   }
 
   // Expose circuit breaker status from the underlying OpenAI service
@@ -1,4 +1,5 @@
 import type { OpenAIConfig } from '../types/index.js'
+import { countMessageTokens, getModelEncoding, getTokenizer } from '../utils/tokenizer.js'
 
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant'
@@ -76,8 +77,12 @@ export class MockOpenAIService {
     )
 
     const maxTokens = params.max_tokens || 2000
+    const tokenizer = getTokenizer(getModelEncoding(params.model))
+    const responseTokens = tokenizer.encode(response)
     const truncatedResponse =
-      response.length > maxTokens * 4 ? response.substring(0, maxTokens * 4) : response
+      responseTokens.length > maxTokens ? tokenizer.decode(responseTokens.slice(0, maxTokens)) : response
+    const promptTokens = countMessageTokens(params.messages, params.model)
+    const completionTokens = Math.min(responseTokens.length, maxTokens)
 
     return {
       id: `mock-${Date.now()}-${this.requestCount}`,
@@ -91,13 +96,13 @@ export class MockOpenAIService {
             role: 'assistant',
             content: truncatedResponse
           },
-          finish_reason: response.length > maxTokens * 4 ? 'length' : 'stop'
+          finish_reason: responseTokens.length > maxTokens ? 'length' : 'stop'
         }
       ],
       usage: {
-        prompt_tokens: this.countTokens(prompt),
-        completion_tokens: this.countTokens(truncatedResponse),
-        total_tokens: this.countTokens(prompt + truncatedResponse)
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
       }
     }
   }
@@ -411,11 +416,6 @@ Summary successfully generated with 75% content reduction while maintaining all
     return new Promise((resolve) => setTimeout(resolve, totalDelay))
   }
 
-  private countTokens(text: string): number {
-    const averageCharsPerToken = 4
-    return Math.floor(text.length / averageCharsPerToken)
-  }
-
   private splitIntoChunks(text: string, chunkSize: number): string[] {
     const chunks: string[] = []
     const words = text.split(' ')
@@ -7,6 +7,7 @@ import { tokenManager } from './token.service.js'
 import { errorStrategyManager, withGracefulDegradation } from '../utils/error-strategies.js'
 import { errorReporter } from '../utils/error-reporter.js'
 import { resiliencePattern, adaptiveTimeout, type ResilienceConfig } from '../utils/resilience.js'
+import { countMessageTokens, countTokens } from '../utils/tokenizer.js'
 
 export interface OpenAICompletionOptions {
   model?: string
@@ -99,6 +100,8 @@ export class OpenAIService {
       throw new Error(`Max tokens must be between 1 and ${capabilities.maxTokens} for model ${model}`)
     }
 
+    this.assertFitsContextWindow(messages, model, maxTokens)
+
     const context = {
       operation: 'openai_completion',
       model,
@@ -192,6 +195,8 @@ export class OpenAIService {
       throw new Error(`Model ${model} does not support streaming`)
     }
 
+    this.assertFitsContextWindow(messages, model, maxTokens)
+
     const operation = async (): Promise<AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>> => {
       this.requestCount++
       console.log(`🌊 Creating streaming completion (model: ${model})`)
@@ -313,10 +318,25 @@ export class OpenAIService {
     return defaultModels[optimizationType] || 'gpt-3.5-turbo'
   }
 
-  estimateTokens(text: string): number {
-    // GPT tokenizer approximation: ~4 characters per token for English
-    // This is a rough estimate - for precise counting, use tiktoken library
-    return Math.ceil(text.length / 4)
+  estimateTokens(text: string, model = 'gpt-3.5-turbo'): number {
+    // BPE token count with the model's encoding (cl100k_base or o200k_base)
+    return countTokens(text, model)
+  }
+
+  // Pre-flight check: the prompt plus the requested completion must fit the model's context window
+  private assertFitsContextWindow(
+    messages: ChatCompletionMessageParam[],
+    model: string,
+    maxTokens: number
+  ): void {
+    const { contextWindow } = this.getModelCapabilities(model)
+    const promptTokens = countMessageTokens(messages, model)
+
+    if (promptTokens + maxTokens > contextWindow) {
+      throw new Error(
+        `Prompt of ${promptTokens} tokens plus ${maxTokens} completion tokens exceeds the ${contextWindow}-token context window of ${model}`
+      )
+    }
   }
 
   calculateCost(model: string, usage: TokenUsage): number {
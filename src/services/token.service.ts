@@ -1,4 +1,5 @@
 import type { TokenUsage, CompletionMetrics } from './openai.service.js'
+import { countTokens } from '../utils/tokenizer.js'
 
 export interface ModelPricing {
   inputTokensPerDollar: number
@@ -251,10 +252,13 @@ export class TokenManager {
   }
 
   /**
-   * Get cost estimate for a request
+   * Get cost estimate for a request, from a token count or from the request text
    */
-  estimateCost(model: string, estimatedTokens: number): number {
+  estimateCost(model: string, estimatedTokens: number | string): number {
     const pricing = this.modelPricing[model] || this.modelPricing['gpt-3.5-turbo']!
+    if (typeof estimatedTokens === 'string') {
+      estimatedTokens = countTokens(estimatedTokens, model)
+    }
     
     // Estimate roughly 70% input, 30% output tokens
     const estimatedInput = Math.floor(estimatedTokens * 0.7)
@@ -1,17 +1,52 @@
+/**
+ * What a request returns: `text` the optimized Markdown only (no index
+ * calls), `json` a structured document, `all` both.
+ */
+export type OutputMode = 'text' | 'json' | 'all'
+
 export interface OptimizationRequest {
   documents: DocumentInput[]
-  mode: 'text' | 'json' | 'all'
+  mode: OutputMode | 'digest'
+  /** How `mode: digest` returns the bundle: a JSON manifest of files or a ZIP */
+  digestFormat?: 'manifest' | 'zip'
   optimizationType: 'clarity' | 'style' | 'consolidate'
   model?: 'gpt-4' | 'gpt-3.5-turbo' | 'gpt-4-turbo'
   temperature?: number
   maxTokens?: number
+  /** Aliases to resolve entities with when consolidating */
+  entityAliases?: EntityAliasDictionary
+  /** Whether consolidation refuses documents that contradict each other */
+  onConflict?: ConflictPolicy
+  /** Section IDs issued by a previous consolidation of the same documents */
+  sections?: SectionAnchor[]
 }
 
+export type DocumentType =
+  | 'transcript'
+  | 'policy'
+  | 'email'
+  | 'note'
+  | 'handbook'
+  | 'contract'
+  | 'spec'
+  | 'report'
+  | 'chat-log'
+
 export interface DocumentInput {
   name: string
   content: string
-  type?: 'transcript' | 'policy' | 'email' | 'note'
+  type?: DocumentType
   metadata?: Record<string, unknown>
+  /** Section IDs issued when this document was last optimized, kept for unchanged sections */
+  sections?: SectionAnchor[]
+}
+
+/** Documents of one type, consolidated together before the groups are merged */
+export interface ConsolidationGroup {
+  type: DocumentType | 'other'
+  /** Heading of the group in the master document, e.g. "Policies" */
+  label: string
+  documents: DocumentInput[]
 }
 
 export interface OptimizationResult {
@@ -19,10 +54,179 @@ export interface OptimizationResult {
   optimizedContent: string
   indexes?: DocumentIndexes
   metadata: DocumentMetadata
+  /** Stable IDs assigned to the headings of the optimized content */
+  sections?: SectionAnchor[]
+  /** Wording check for documents optimized in exact-wording mode (transcripts) */
+  verification?: PreservationReport
+  /** Structured form of the optimized document, in `json` and `all` modes */
+  document?: StructuredDocument
+  /** Source documents behind each section of a consolidated document */
+  provenance?: ProvenanceReport
+  /** Paragraphs collapsed across documents before consolidation */
+  deduplication?: DeduplicationReport
+  /** Statements the consolidated documents give different values for */
+  conflicts?: Conflict[]
+  status: 'fulfilled' | 'rejected'
+  error?: string
+}
+
+interface ModeResultBase {
+  originalFilename: string
+  metadata: DocumentMetadata
+  verification?: PreservationReport
+  provenance?: ProvenanceReport
+  deduplication?: DeduplicationReport
+  conflicts?: Conflict[]
   status: 'fulfilled' | 'rejected'
   error?: string
 }
 
+export interface TextModeResult extends ModeResultBase {
+  optimizedContent: string
+  sections?: SectionAnchor[]
+}
+
+export interface JsonModeResult extends ModeResultBase {
+  document?: StructuredDocument
+}
+
+export interface AllModeResult extends TextModeResult {
+  indexes?: DocumentIndexes
+  document?: StructuredDocument
+}
+
+/** The shape of each result in a response, by output mode */
+export type ModeResult<M extends OutputMode> = M extends 'text'
+  ? TextModeResult
+  : M extends 'json'
+    ? JsonModeResult
+    : AllModeResult
+
+export interface OptimizationResponse<M extends OutputMode = OutputMode> {
+  success: true
+  results: Array<ModeResult<M>>
+  metadata: {
+    documentsProcessed: number
+    optimizationType: string
+    mode: M
+    model?: string
+    timestamp: string
+    skippedFiles?: Array<{ path: string; reason: string }>
+  }
+}
+
+/**
+ * JSON representation of an optimized document; its published JSON Schema is
+ * served at `GET /schemas/structured-document.json`.
+ */
+export interface StructuredDocument {
+  schemaVersion: '1.0'
+  filename: string
+  /** The document title heading, when the output opens with one */
+  title?: string
+  /** Content before the first section */
+  preamble?: string
+  sections: StructuredSection[]
+  metadata: DocumentMetadata
+  indexes: DocumentIndexes
+}
+
+export interface StructuredSection {
+  id: string
+  title: string
+  level: number
+  parentId?: string
+  /** The section's own Markdown, without its heading or subsections */
+  content: string
+}
+
+export interface PreservationSpan {
+  /** Word offset in the source document */
+  position: number
+  original?: string
+  optimized?: string
+}
+
+export interface PreservationReport {
+  mode: 'exact-wording'
+  passed: boolean
+  /** Share of source words kept verbatim, 0-1 */
+  preservationScore: number
+  dropped: PreservationSpan[]
+  paraphrased: PreservationSpan[]
+  hallucinated: PreservationSpan[]
+}
+
+export interface ProvenanceSource {
+  document: string
+  /** Section IDs in the source document the content came from */
+  sectionIds?: string[]
+}
+
+export interface SectionProvenance {
+  /** Section ID in the consolidated document */
+  sectionId: string
+  sources: ProvenanceSource[]
+}
+
+export interface ProvenanceReport {
+  /** Whether every source document is cited at least once */
+  passed: boolean
+  sections: SectionProvenance[]
+  /** Source documents no `Source:` line cites */
+  uncited: string[]
+}
+
+export interface ParagraphLocation {
+  document: string
+  /** 1-based position among the document's blank-line separated blocks */
+  paragraph: number
+}
+
+export interface DuplicateParagraph extends ParagraphLocation {
+  /** The copy that was kept */
+  canonical: ParagraphLocation
+  /** Jaccard similarity of the two paragraphs' word shingles, 0-1 */
+  similarity: number
+  /** UTF-8 size of the paragraph that was replaced */
+  bytes: number
+}
+
+export interface DeduplicationReport {
+  threshold: number
+  paragraphsExamined: number
+  duplicates: DuplicateParagraph[]
+  /** Bytes removed from the documents, net of the back-references */
+  eliminatedBytes: number
+}
+
+/** What consolidation does when the documents contradict each other */
+export type ConflictPolicy = 'flag' | 'fail'
+
+export interface ConflictStatement {
+  document: string
+  /** Section ID in the source document, when it has them */
+  sectionId?: string
+  /** The sentence as written */
+  text: string
+  /** The value the sentence gives, e.g. "1.5 days" */
+  value: string
+}
+
+export interface Conflict {
+  /** The first statement with its value elided */
+  subject: string
+  statements: ConflictStatement[]
+}
+
+export interface SectionAnchor {
+  /** Hierarchical slug ID, e.g. sec-2-5-remote-work */
+  id: string
+  title: string
+  level: number
+  parentId?: string
+}
+
 export interface DocumentIndexes {
   entities: EntityIndex[]
   topics: TopicIndex[]
@@ -34,8 +238,26 @@ export interface EntityIndex {
   type: 'person' | 'organization' | 'location' | 'date' | 'other'
   mentions: number
   context: string[]
+  /** IDs of the optimized sections that mention the entity */
+  sectionIds?: string[]
+  /** Other names the entity goes by across the documents of a request */
+  aliases?: string[]
+  /** Mentions of the entity in each source document */
+  sources?: EntitySource[]
 }
 
+export interface EntitySource {
+  document: string
+  mentions: number
+  /** Names the entity appears under in the document */
+  names: string[]
+  /** IDs of the document's optimized sections that mention the entity */
+  sectionIds?: string[]
+}
+
+/** Canonical entity names mapped to the aliases they are known by */
+export type EntityAliasDictionary = Record<string, string[]>
+
 export interface TopicIndex {
   topic: string
   relevance: number
@@ -61,6 +283,31 @@ export interface DocumentMetadata {
     totalTokens: number
   }
   cost?: number
+  /** Number of chunks the document was split into when it exceeded the model context */
+  chunkCount?: number
+  /** Facts in the optimized content that the source does not back up */
+  factCheck?: FactCheckReport
+}
+
+export type FactKind = 'currency' | 'percentage' | 'date' | 'time' | 'number' | 'name'
+
+export interface FactFinding {
+  kind: FactKind
+  /** 'added' facts appear only in the output; 'altered' ones replaced a source fact */
+  issue: 'added' | 'altered'
+  /** The fact as written in the optimized content */
+  value: string
+  /** Character offset in the optimized content */
+  offset: number
+  /** The source fact it replaced, for altered facts */
+  original?: string
+}
+
+export interface FactCheckReport {
+  passed: boolean
+  sourceFacts: number
+  outputFacts: number
+  findings: FactFinding[]
 }
 
 export interface AuthenticatedRequest {
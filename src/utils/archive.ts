@@ -0,0 +1,143 @@
+import type { DocumentInput } from '../types/index.js'
+import { ValidationError } from '../middleware/error-handler.js'
+import { extractDocumentContent, getFileExtension, validateFileExtension } from './parser.js'
+import { resolveDocumentType } from './document-classifier.js'
+import { readZipEntries } from './zip.js'
+
+export interface ArchiveLimits {
+  /** Upper bound on the summed uncompressed size of all expanded entries */
+  maxTotalUncompressedSize: number
+  /** Upper bound on the uncompressed size of a single entry */
+  maxEntrySize: number
+  /** Upper bound on the number of documents taken from one archive */
+  maxEntries: number
+}
+
+/** What is left of the limits for one request, shared by all of its archives */
+export interface ArchiveBudget {
+  remainingBytes: number
+  remainingDocuments: number
+}
+
+export interface SkippedArchiveEntry {
+  path: string
+  reason: string
+}
+
+export interface ArchiveExpansion {
+  documents: DocumentInput[]
+  skipped: SkippedArchiveEntry[]
+}
+
+export function getArchiveLimits(): ArchiveLimits {
+  return {
+    maxTotalUncompressedSize: parseInt(process.env.MAX_ARCHIVE_UNCOMPRESSED_SIZE || '52428800', 10),
+    maxEntrySize: parseInt(process.env.MAX_FILE_SIZE || '10485760', 10),
+    maxEntries: parseInt(process.env.MAX_ARCHIVE_ENTRIES || '200', 10)
+  }
+}
+
+export function createArchiveBudget(limits: ArchiveLimits = getArchiveLimits()): ArchiveBudget {
+  return {
+    remainingBytes: limits.maxTotalUncompressedSize,
+    remainingDocuments: limits.maxEntries
+  }
+}
+
+export function isZipUpload(filename: string, mimeType?: string): boolean {
+  return (
+    getFileExtension(filename) === '.zip' ||
+    mimeType === 'application/zip' ||
+    mimeType === 'application/x-zip-compressed'
+  )
+}
+
+// OS metadata that archivers add alongside the real files
+function isArchiveNoise(path: string): boolean {
+  return path.split('/').some((segment) => segment === '__MACOSX' || segment.startsWith('.'))
+}
+
+/**
+ * Expand an uploaded ZIP archive into one document per supported entry, as if
+ * each file had been uploaded on its own. Entries keep their folder path in
+ * metadata. The declared sizes are checked against the limits before anything
+ * is inflated, and each entry is inflated with a hard cap, so archives that
+ * misreport their sizes cannot exceed the total budget either. Entries that
+ * are corrupt or over budget are skipped rather than failing the archive.
+ * Pass the same `budget` for every archive of a request so the byte and
+ * document limits hold for the request as a whole.
+ */
+export function expandZipUpload(
+  buffer: Buffer,
+  archiveName: string,
+  limits: ArchiveLimits = getArchiveLimits(),
+  budget: ArchiveBudget = createArchiveBudget(limits)
+): ArchiveExpansion {
+  const entries = readZipEntries(buffer).filter(
+    (entry) => !entry.isDirectory && !isArchiveNoise(entry.name)
+  )
+
+  const declaredSize = entries.reduce((total, entry) => total + entry.uncompressedSize, 0)
+  if (declaredSize > budget.remainingBytes) {
+    throw new ValidationError(
+      `ZIP archive ${archiveName} expands to ${declaredSize} bytes, above the remaining ${budget.remainingBytes} byte limit`
+    )
+  }
+
+  const documents: DocumentInput[] = []
+  const skipped: SkippedArchiveEntry[] = []
+
+  for (const entry of entries) {
+    const path = entry.name.replace(/\\/g, '/').replace(/^(\.?\/)+/, '')
+    const slash = path.lastIndexOf('/')
+    const name = path.slice(slash + 1)
+    const folder = slash === -1 ? '' : path.slice(0, slash)
+
+    if (!validateFileExtension(name)) {
+      skipped.push({ path, reason: 'Unsupported file type' })
+      continue
+    }
+    if (budget.remainingDocuments <= 0) {
+      skipped.push({ path, reason: `Archive document limit of ${limits.maxEntries} reached` })
+      continue
+    }
+    if (entry.uncompressedSize > limits.maxEntrySize) {
+      skipped.push({ path, reason: 'File exceeds the size limit' })
+      continue
+    }
+
+    try {
+      // A lying header still cannot inflate past the remaining budget
+      const content = entry.read(Math.max(1, Math.min(limits.maxEntrySize, budget.remainingBytes)))
+      budget.remainingBytes -= content.length
+
+      // Nested packages (DOCX, PDF streams) inflate again, against the same budget
+      const extracted = extractDocumentContent(
+        content,
+        name,
+        undefined,
+        Math.max(1, budget.remainingBytes)
+      )
+      budget.remainingBytes -= Buffer.byteLength(extracted.content)
+      const classification = resolveDocumentType(extracted, path)
+      documents.push({
+        name,
+        content: extracted.content,
+        type: classification.type,
+        metadata: {
+          size: content.length,
+          archive: archiveName,
+          path,
+          folder,
+          ...extracted.metadata,
+          typeConfidence: classification.confidence
+        }
+      })
+      budget.remainingDocuments--
+    } catch (error) {
+      skipped.push({ path, reason: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  return { documents, skipped }
+}
@@ -1,6 +1,7 @@
 import type { FastifyRequest, FastifyReply } from 'fastify'
 import type { JWTPayload } from '../types/index.js'
 import { tokenManager } from '../services/token.service.js'
+import { countTokens } from './tokenizer.js'
 
 export interface AuthenticatedRequest extends FastifyRequest {
   jwtUser?: JWTPayload
@@ -92,9 +93,18 @@ export interface RateLimitInfo {
   limit: number
 }
 
+interface TokenUsageEntry {
+  timestamp: number
+  tokens: number
+}
+
+function sumTokens(entries: TokenUsageEntry[]): number {
+  return entries.reduce((total, entry) => total + entry.tokens, 0)
+}
+
 export class RateLimiter {
   private requests: Map<string, number[]> = new Map()
-  private tokenUsage: Map<string, number[]> = new Map()
+  private tokenUsage: Map<string, TokenUsageEntry[]> = new Map()
   private readonly maxRequests: number
   private readonly windowMs: number
   private readonly maxTokens: number
@@ -133,22 +143,28 @@ export class RateLimiter {
     }
   }
 
-  async checkTokenLimit(identifier: string, tokens: number): Promise<RateLimitInfo> {
+  async checkTokenLimit(
+    identifier: string,
+    tokens: number | string,
+    model?: string
+  ): Promise<RateLimitInfo> {
+    // Text is counted with the model's tokenizer
+    if (typeof tokens === 'string') {
+      tokens = countTokens(tokens, model)
+    }
+
     const now = Date.now()
     const userTokens = this.tokenUsage.get(identifier) || []
 
     const recentTokens = userTokens.filter(
-      (timestamp) => now - timestamp < this.windowMs
+      (entry) => now - entry.timestamp < this.windowMs
     )
 
-    const currentTokenCount = recentTokens.length
+    const currentTokenCount = sumTokens(recentTokens)
     const allowed = currentTokenCount + tokens <= this.maxTokens
     
     if (allowed) {
-      // Add token usage timestamps (one per token for simplicity)
-      for (let i = 0; i < tokens; i++) {
-        recentTokens.push(now)
-      }
+      recentTokens.push({ timestamp: now, tokens })
       this.tokenUsage.set(identifier, recentTokens)
     }
 
@@ -174,8 +190,8 @@ export class RateLimiter {
     }
 
     // Cleanup token tracking
-    for (const [key, timestamps] of this.tokenUsage.entries()) {
-      const recent = timestamps.filter((t) => now - t < this.windowMs)
+    for (const [key, entries] of this.tokenUsage.entries()) {
+      const recent = entries.filter((entry) => now - entry.timestamp < this.windowMs)
       if (recent.length === 0) {
         this.tokenUsage.delete(key)
       } else {
@@ -197,9 +213,9 @@ export class RateLimiter {
     const now = Date.now()
     const userTokens = this.tokenUsage.get(identifier) || []
     const recentTokens = userTokens.filter(
-      (timestamp) => now - timestamp < this.windowMs
+      (entry) => now - entry.timestamp < this.windowMs
     )
-    return Math.max(0, this.maxTokens - recentTokens.length)
+    return Math.max(0, this.maxTokens - sumTokens(recentTokens))
   }
 
   getResetTime(identifier: string): number {
@@ -214,7 +230,7 @@ export class RateLimiter {
     const userTokens = this.tokenUsage.get(identifier) || []
     if (userTokens.length === 0) return Date.now() + this.windowMs
 
-    const oldestToken = Math.min(...userTokens)
+    const oldestToken = Math.min(...userTokens.map((entry) => entry.timestamp))
     return oldestToken + this.windowMs
   }
 
@@ -226,8 +242,8 @@ export class RateLimiter {
       totalRequests += timestamps.length
     }
     
-    for (const timestamps of this.tokenUsage.values()) {
-      totalTokens += timestamps.length
+    for (const entries of this.tokenUsage.values()) {
+      totalTokens += sumTokens(entries)
     }
 
     return {
@@ -0,0 +1,261 @@
+export interface DocumentChunk {
+  index: number
+  content: string
+  tokens: number
+  /** Headings (outermost first) that are still open where the chunk starts */
+  headingPath: string[]
+}
+
+export interface ChunkOptions {
+  /** Token budget for the content of a single chunk */
+  maxTokens: number
+  countTokens?: (text: string) => number
+}
+
+interface Block {
+  text: string
+  tokens: number
+  headingLevel?: number
+}
+
+const HEADING = /^(#{1,6})\s+\S/
+const SECTION_ID = /\bsec-(\d+(?:-\d+)*)/g
+
+function approximateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Split Markdown into blank-line separated blocks, keeping fenced code blocks
+ * (which may contain blank lines) in one piece.
+ */
+function splitBlocks(content: string): string[] {
+  const blocks: string[] = []
+  let current: string[] = []
+  let inFence = false
+
+  for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence
+    if (!inFence && line.trim() === '') {
+      if (current.length > 0) blocks.push(current.join('\n'))
+      current = []
+    } else {
+      current.push(line)
+    }
+  }
+  if (current.length > 0) blocks.push(current.join('\n'))
+
+  return blocks
+}
+
+/**
+ * Break a block that alone exceeds the budget: first on line boundaries, then
+ * on sentence boundaries, and as a last resort at a character offset.
+ */
+function splitOversizedBlock(
+  text: string,
+  maxTokens: number,
+  countTokens: (text: string) => number
+): string[] {
+  if (countTokens(text) <= maxTokens) return [text]
+
+  const lines = text.split('\n')
+  const units = lines.length > 1 ? lines : text.split(/(?<=[.!?])\s+/).filter(Boolean)
+  const separator = lines.length > 1 ? '\n' : ' '
+
+  if (units.length === 1) {
+    const size = Math.max(1, Math.floor((text.length * maxTokens) / countTokens(text)))
+    const pieces: string[] = []
+    for (let start = 0; start < text.length; start += size)
+      pieces.push(text.slice(start, start + size))
+    return pieces
+  }
+
+  const pieces: string[] = []
+  let current = ''
+  for (const unit of units.flatMap((unit) => splitOversizedBlock(unit, maxTokens, countTokens))) {
+    const candidate = current ? `${current}${separator}${unit}` : unit
+    if (current && countTokens(candidate) > maxTokens) {
+      pieces.push(current)
+      current = unit
+    } else {
+      current = candidate
+    }
+  }
+  if (current) pieces.push(current)
+
+  return pieces
+}
+
+/**
+ * Split a document into chunks that fit a token budget. Whole sections
+ * (a heading and the blocks up to the next heading) are packed together where
+ * possible, so seams fall on heading boundaries first and paragraph
+ * boundaries second. Each chunk records the heading path it starts under so
+ * the optimizer can keep headings continuous across seams.
+ */
+export function chunkDocument(content: string, options: ChunkOptions): DocumentChunk[] {
+  const countTokens = options.countTokens ?? approximateTokens
+  const maxTokens = Math.max(1, options.maxTokens)
+
+  const blocks: Block[] = splitBlocks(content).flatMap((text) =>
+    splitOversizedBlock(text, maxTokens, countTokens).map((piece) => {
+      const heading = HEADING.exec(piece)
+      return { text: piece, tokens: countTokens(piece), headingLevel: heading?.[1]?.length }
+    })
+  )
+
+  // Group blocks into sections that start at each heading
+  const sections: Block[][] = []
+  for (const block of blocks) {
+    if (block.headingLevel !== undefined || sections.length === 0) sections.push([])
+    sections[sections.length - 1]!.push(block)
+  }
+
+  const chunks: DocumentChunk[] = []
+  const headingStack: Array<{ level: number; text: string }> = []
+  let current: Block[] = []
+  let currentTokens = 0
+  let currentPath: string[] = []
+
+  const flush = (): void => {
+    if (current.length === 0) return
+    const text = current.map((block) => block.text).join('\n\n')
+    chunks.push({
+      index: chunks.length,
+      content: text,
+      tokens: countTokens(text),
+      headingPath: currentPath
+    })
+    current = []
+    currentTokens = 0
+  }
+
+  const append = (block: Block): void => {
+    // A heading closes any open sections at its own level or deeper
+    if (block.headingLevel !== undefined) {
+      while (
+        headingStack.length > 0 &&
+        headingStack[headingStack.length - 1]!.level >= block.headingLevel
+      ) {
+        headingStack.pop()
+      }
+    }
+
+    if (current.length === 0) currentPath = headingStack.map((heading) => heading.text)
+    current.push(block)
+    currentTokens += block.tokens + (current.length > 1 ? 1 : 0)
+
+    if (block.headingLevel !== undefined) {
+      headingStack.push({ level: block.headingLevel, text: block.text.split('\n')[0]! })
+    }
+  }
+
+  for (const section of sections) {
+    const sectionTokens = section.reduce((total, block) => total + block.tokens + 1, -1)
+
+    if (current.length > 0 && currentTokens + 1 + sectionTokens > maxTokens) flush()
+
+    for (const block of section) {
+      if (current.length > 0 && currentTokens + 1 + block.tokens > maxTokens) flush()
+      append(block)
+    }
+  }
+  flush()
+
+  return chunks
+}
+
+function normalizeHeading(line: string): string {
+  return line
+    .replace(/^#{1,6}\s+/, '')
+    .replace(SECTION_ID, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .toLowerCase()
+}
+
+// Models sometimes wrap their whole answer in a ```markdown fence
+function unwrapFence(text: string): string {
+  const fenced = /^```(?:markdown|md)?\n([\s\S]*?)\n```$/.exec(text.trim())
+  return fenced ? fenced[1]! : text.trim()
+}
+
+/**
+ * Join optimized chunk outputs back into one document. Headings a chunk
+ * repeats from the section it continues are dropped, and `sec-N-M` IDs in
+ * headings are renumbered from the combined heading tree so numbering runs
+ * on across seams (references to renumbered IDs inside the same chunk are
+ * updated too).
+ */
+export function stitchChunks(outputs: string[]): string {
+  const openHeadings: Array<{ level: number; key: string }> = []
+  const counters: number[] = []
+  let baseLevel: number | undefined
+  const parts: string[] = []
+
+  for (const output of outputs) {
+    const lines = unwrapFence(output).split('\n')
+
+    // Drop leading headings that re-open a section already open from the previous chunk
+    while (lines.length > 0) {
+      const first = lines[0]!
+      const heading = HEADING.exec(first)
+      if (!first.trim()) {
+        lines.shift()
+        continue
+      }
+      if (!heading) break
+      const key = normalizeHeading(first)
+      const open = openHeadings.find(
+        (entry) => entry.level === heading[1]!.length && entry.key === key
+      )
+      if (!open) break
+      lines.shift()
+    }
+
+    const renamed = new Map<string, string>()
+    let inFence = false
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]!
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence
+      const heading = inFence ? null : HEADING.exec(line)
+      if (!heading) continue
+
+      const level = heading[1]!.length
+      while (openHeadings.length > 0 && openHeadings[openHeadings.length - 1]!.level >= level)
+        openHeadings.pop()
+      openHeadings.push({ level, key: normalizeHeading(line) })
+
+      if (!/\bsec-\d/.test(line)) continue
+      baseLevel ??= level
+      if (level < baseLevel) continue
+
+      const depth = level - baseLevel
+      counters[depth] = (counters[depth] ?? 0) + 1
+      counters.length = depth + 1
+      const number = Array.from({ length: depth + 1 }, (_, index) => counters[index] ?? 1).join('-')
+
+      lines[i] = line.replace(SECTION_ID, (match, old: string) => {
+        if (old !== number) renamed.set(`sec-${old}`, `sec-${number}`)
+        return `sec-${number}`
+      })
+    }
+
+    let text = lines.join('\n').trim()
+    if (renamed.size > 0) {
+      // Update in-chunk references without touching the headings renumbered above
+      text = text
+        .split('\n')
+        .map((line) =>
+          HEADING.test(line)
+            ? line
+            : line.replace(SECTION_ID, (match) => renamed.get(match) ?? match)
+        )
+        .join('\n')
+    }
+    if (text) parts.push(text)
+  }
+
+  return parts.join('\n\n')
+}
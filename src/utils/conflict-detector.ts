@@ -0,0 +1,194 @@
+import type { Conflict, ConflictStatement, DocumentInput } from '../types/index.js'
+
+interface Statement extends ConflictStatement {
+  /** Index of the source document, to keep conflicts in document order */
+  order: number
+  /** Content words of the sentence, without its values */
+  subject: Set<string>
+  unit: string
+  amount: number
+  /** Which value of this unit it is within its sentence */
+  ordinal: number
+}
+
+const SECTION_HEADING = /^#{1,6}\s+(sec-\d+(?:-\d+)*(?:-[a-z0-9][\w-]*)?)\b/
+const HEADING = /^#{1,6}\s/
+const FENCE = /^\s*(```|~~~)/
+const UNITS =
+  'minutes?|hours?|days?|weeks?|months?|years?|weekends?|sessions?|employees?|people|persons?|users?|licen[cs]es?|seats?|copies|times'
+const QUALIFIERS = 'business|working|calendar|paid|unpaid|consecutive|full|additional|extra'
+const VALUE = new RegExp(
+  `(?:([$€£])\\s?)?(?<![\\w.])(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)(?:\\s?(%|percent\\b|per cent\\b|USD\\b|EUR\\b|GBP\\b|dollars?\\b|euros?\\b|pounds?\\b)|\\s+(?:(?:${QUALIFIERS})\\s+)?(${UNITS})\\b)?`,
+  'gi'
+)
+const CURRENCIES: Record<string, string> = {
+  $: 'usd',
+  '€': 'eur',
+  '£': 'gbp',
+  dollar: 'usd',
+  euro: 'eur',
+  pound: 'gbp'
+}
+
+const STOPWORDS = new Set(
+  [
+    'the and for are was were will with that this from has have had not but all any can may',
+    'must shall should would could per each every its their our your they them there than',
+    'then also into onto upon about after before over under only more less most least',
+    'such other which who whom whose when where what while been being does did'
+  ]
+    .join(' ')
+    .split(' ')
+)
+
+// Both statements must share this many subject words, and this share of the shorter subject
+const MIN_SHARED_WORDS = 3
+const MIN_OVERLAP = 0.8
+const MAX_CONFLICTS = 50
+
+function singular(unit: string): string {
+  const lower = unit.toLowerCase()
+  if (lower === 'people' || lower === 'copies' || lower === 'times') return lower
+  return lower.replace(/s$/, '')
+}
+
+function unitOf(symbol?: string, suffix?: string, unit?: string): string | undefined {
+  if (symbol) return CURRENCIES[symbol]
+  if (suffix) {
+    const lower = suffix.toLowerCase()
+    if (lower === '%' || lower.startsWith('per')) return '%'
+    return CURRENCIES[lower.replace(/s$/, '')] ?? lower
+  }
+  return unit ? singular(unit).replace(/^licence$/, 'license') : undefined
+}
+
+function subjectWords(sentence: string): Set<string> {
+  const words = sentence.toLowerCase().match(/\p{L}{3,}/gu) ?? []
+  return new Set(words.filter((word) => !STOPWORDS.has(word)))
+}
+
+// Values with a unit (currency, percentage, days, ...); bare numbers are too ambiguous to compare
+function extractStatements(document: DocumentInput, order: number): Statement[] {
+  const statements: Statement[] = []
+  let sectionId: string | undefined
+  let inFence = false
+
+  for (const line of document.content.split('\n')) {
+    if (FENCE.test(line)) inFence = !inFence
+    if (inFence) continue
+    if (HEADING.test(line)) {
+      sectionId = SECTION_HEADING.exec(line)?.[1]
+      continue
+    }
+
+    const text = line.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '')
+    for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+      const values = [...sentence.matchAll(VALUE)]
+        .map((match) => ({ match, unit: unitOf(match[1], match[3], match[4]) }))
+        .filter((value): value is { match: RegExpExecArray; unit: string } => !!value.unit)
+      if (values.length === 0) continue
+
+      const subject = subjectWords(
+        values.reduce((rest, { match }) => rest.replace(match[0], ' '), sentence)
+      )
+      const ordinals = new Map<string, number>()
+      for (const { match, unit } of values) {
+        const ordinal = ordinals.get(unit) ?? 0
+        ordinals.set(unit, ordinal + 1)
+        statements.push({
+          document: document.name,
+          ...(sectionId ? { sectionId } : {}),
+          text: sentence.trim(),
+          value: match[0].trim(),
+          order,
+          subject,
+          unit,
+          amount: Number(match[2]!.replace(/,/g, '')),
+          ordinal
+        })
+      }
+    }
+  }
+
+  return statements
+}
+
+function sameSubject(a: Set<string>, b: Set<string>): boolean {
+  let shared = 0
+  for (const word of a) if (b.has(word)) shared++
+  return shared >= MIN_SHARED_WORDS && shared / Math.min(a.size, b.size) >= MIN_OVERLAP
+}
+
+function toConflictStatement({ document, sectionId, text, value }: Statement): ConflictStatement {
+  return { document, ...(sectionId ? { sectionId } : {}), text, value }
+}
+
+/**
+ * Find statements in different documents that give the same subject different
+ * values, e.g. "PTO accrues at 1.5 days per month" and "PTO accrues at 1.25
+ * days per month". Statements match when they share most of their content
+ * words and a value of the same unit (currency, percentage, days, ...).
+ */
+export function detectConflicts(documents: DocumentInput[]): Conflict[] {
+  const byUnit = new Map<string, Statement[]>()
+  documents.forEach((document, order) => {
+    for (const statement of extractStatements(document, order)) {
+      byUnit.set(statement.unit, [...(byUnit.get(statement.unit) ?? []), statement])
+    }
+  })
+
+  const conflicts: Conflict[] = []
+  const seen = new Set<string>()
+  for (const statements of byUnit.values()) {
+    for (let i = 0; i < statements.length; i++) {
+      for (let j = i + 1; j < statements.length; j++) {
+        const [a, b] = [statements[i]!, statements[j]!]
+        if (
+          a.order === b.order ||
+          a.amount === b.amount ||
+          a.ordinal !== b.ordinal ||
+          !sameSubject(a.subject, b.subject)
+        ) {
+          continue
+        }
+
+        const key = `${a.document}|${a.text}|${a.value}|${b.document}|${b.text}|${b.value}`
+        if (seen.has(key)) continue
+        seen.add(key)
+        conflicts.push({
+          subject: a.text.replace(a.value, '…'),
+          statements: [toConflictStatement(a), toConflictStatement(b)]
+        })
+        if (conflicts.length >= MAX_CONFLICTS) return conflicts
+      }
+    }
+  }
+
+  return conflicts
+}
+
+function citation({ document, sectionId }: ConflictStatement): string {
+  return sectionId ? `${document} (${sectionId})` : document
+}
+
+/**
+ * The "Conflicts" section appended to a consolidated document. Statements name
+ * their document without a "Source:" label, so they are not mistaken for the
+ * section citations that provenance checks look for.
+ */
+export function renderConflicts(conflicts: Conflict[]): string {
+  const items = conflicts.map((conflict, index) =>
+    [
+      `${index + 1}. ${conflict.subject}`,
+      ...conflict.statements.map(
+        (statement) => `   - ${citation(statement)}: ${statement.value} ("${statement.text}")`
+      )
+    ].join('\n')
+  )
+
+  return [
+    '## Conflicts',
+    'The source documents give different values for these statements; check which one is current.',
+    items.join('\n')
+  ].join('\n\n')
+}
@@ -0,0 +1,124 @@
+import type { ConsolidationGroup, SectionAnchor } from '../types/index.js'
+
+export interface GroupSection {
+  group: ConsolidationGroup
+  /** The group's consolidated Markdown */
+  content: string
+  /** Source dates of the group's documents */
+  dates?: string[]
+  /** Most mentioned entities in the group's documents */
+  entities?: string[]
+  /** Token size of the group's source documents */
+  tokens?: number
+}
+
+const HEADING = /^(#{1,6})(\s+.*)$/
+const FENCE = /^\s*(```|~~~)/
+const GROUP_LEVEL = 2
+const MASTER_TITLE = 'Consolidated Document'
+
+/**
+ * Shift every heading down so the shallowest one sits at `level`, keeping
+ * the relative depth of the rest (capped at h6). Headings in code fences
+ * are left alone.
+ */
+export function demoteHeadings(markdown: string, level: number): string {
+  const lines = markdown.split('\n')
+  let inFence = false
+  const levels = lines.map((line) => {
+    if (FENCE.test(line)) inFence = !inFence
+    return inFence ? undefined : HEADING.exec(line)?.[1]?.length
+  })
+  const shallowest = Math.min(...levels.filter((depth): depth is number => depth !== undefined))
+  if (!Number.isFinite(shallowest) || shallowest >= level) return markdown
+
+  const shift = level - shallowest
+  return lines
+    .map((line, index) => {
+      const depth = levels[index]
+      return depth === undefined
+        ? line
+        : `${'#'.repeat(Math.min(depth + shift, 6))}${HEADING.exec(line)![2]}`
+    })
+    .join('\n')
+}
+
+function metadataBlock(section: GroupSection): string {
+  const { group } = section
+  const lines = [
+    `**Sources:** ${group.documents.map((document) => document.name).join(', ')}`,
+    `**Type:** ${group.type}`,
+    ...(section.dates?.length ? [`**Dates:** ${section.dates.join(', ')}`] : []),
+    ...(section.entities?.length ? [`**Entities:** ${section.entities.join(', ')}`] : []),
+    ...(section.tokens !== undefined ? [`**Tokens:** ${section.tokens}`] : [])
+  ]
+  return lines.map((line) => `> ${line}`).join('\n')
+}
+
+/**
+ * Pack items, in order, into batches whose total size stays within
+ * `maxTokens`. An item larger than the limit gets a batch of its own.
+ */
+export function packBatches<T>(items: T[], maxTokens: number, size: (item: T) => number): T[][] {
+  const batches: T[][] = []
+  let current: T[] = []
+  let total = 0
+
+  for (const item of items) {
+    const tokens = size(item)
+    if (current.length > 0 && total + tokens > maxTokens) {
+      batches.push(current)
+      current = []
+      total = 0
+    }
+    current.push(item)
+    total += tokens
+  }
+  if (current.length > 0) batches.push(current)
+
+  return batches
+}
+
+/**
+ * Merge the consolidated groups into the master document: a title, then one
+ * section per group with a metadata block, the group's own headings nested
+ * beneath it.
+ */
+export function assembleMasterDocument(sections: GroupSection[]): string {
+  const body = sections.map((section) =>
+    [
+      `${'#'.repeat(GROUP_LEVEL)} ${section.group.label}`,
+      metadataBlock(section),
+      demoteHeadings(section.content.trim(), GROUP_LEVEL + 1)
+    ]
+      .filter(Boolean)
+      .join('\n\n')
+  )
+
+  return [`# ${MASTER_TITLE}`, ...body].join('\n\n')
+}
+
+/**
+ * List the master document's sections, nested by parent, linking each one
+ * to its stable section ID.
+ */
+export function buildTableOfContents(sections: SectionAnchor[]): string {
+  const depth = new Map<string, number>()
+  return sections
+    .map((section) => {
+      const indent = section.parentId ? (depth.get(section.parentId) ?? -1) + 1 : 0
+      depth.set(section.id, indent)
+      return `${'  '.repeat(indent)}- [${section.title || section.id}](#${section.id})`
+    })
+    .join('\n')
+}
+
+// The contents go right after the title, before the first group
+export function insertTableOfContents(markdown: string, contents: string): string {
+  if (!contents) return markdown
+  const block = `**Contents**\n\n${contents}`
+  const [first, ...rest] = markdown.split('\n')
+  return /^#\s/.test(first ?? '')
+    ? [first, '', block, ...rest].join('\n')
+    : `${block}\n\n${markdown}`
+}
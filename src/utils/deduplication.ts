@@ -0,0 +1,188 @@
+import type {
+  DeduplicationReport,
+  DocumentInput,
+  DuplicateParagraph,
+  ParagraphLocation
+} from '../types/index.js'
+
+export interface DeduplicationOptions {
+  /** Jaccard similarity of word shingles at which paragraphs count as duplicates, 0-1 */
+  threshold?: number
+  /** Paragraphs with fewer words are always kept */
+  minWords?: number
+}
+
+export interface DeduplicationResult {
+  documents: DocumentInput[]
+  report: DeduplicationReport
+}
+
+interface Paragraph extends ParagraphLocation {
+  shingles: Set<string>
+}
+
+const DEFAULT_THRESHOLD = 0.85
+const DEFAULT_MIN_WORDS = 12
+const SHINGLE_SIZE = 3
+// 32 bands of 4 rows: pairs above ~0.45 similarity almost always share a band
+const BANDS = 32
+const ROWS = 4
+const HEADING = /^#{1,6}\s/
+const FENCE = /^\s*(```|~~~)/
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+}
+
+function shingles(tokens: string[]): Set<string> {
+  const result = new Set<string>()
+  for (let i = 0; i + SHINGLE_SIZE <= Math.max(tokens.length, SHINGLE_SIZE); i++) {
+    result.add(tokens.slice(i, i + SHINGLE_SIZE).join(' '))
+  }
+  return result
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// MurmurHash3 finalizer: spreads each seeded shingle hash over 32 bits
+function mix(value: number): number {
+  let hash = value
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b)
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35)
+  return (hash ^ (hash >>> 16)) >>> 0
+}
+
+function minHash(set: Set<string>): number[] {
+  const signature = new Array<number>(BANDS * ROWS).fill(0xffffffff)
+  for (const shingle of set) {
+    const hash = fnv1a(shingle)
+    for (let i = 0; i < signature.length; i++) {
+      const value = mix(hash ^ Math.imul(i + 1, 0x9e3779b9))
+      if (value < signature[i]!) signature[i] = value
+    }
+  }
+  return signature
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0
+  for (const shingle of a) if (b.has(shingle)) shared++
+  return shared / (a.size + b.size - shared)
+}
+
+function byteLength(text: string): number {
+  return Buffer.byteLength(text, 'utf8')
+}
+
+// Blank-line separated blocks, with fenced code kept in one block
+function splitParagraphs(content: string): string[] {
+  const blocks: string[] = []
+  let current: string[] = []
+  let inFence = false
+
+  for (const line of content.split('\n')) {
+    if (FENCE.test(line)) inFence = !inFence
+    if (!inFence && !line.trim()) {
+      if (current.length > 0) blocks.push(current.join('\n'))
+      current = []
+    } else {
+      current.push(line)
+    }
+  }
+  if (current.length > 0) blocks.push(current.join('\n'))
+
+  return blocks
+}
+
+function formatBackReference(duplicate: DuplicateParagraph): string {
+  const { canonical, similarity } = duplicate
+  return similarity === 1
+    ? `[Duplicate of ${canonical.document}, paragraph ${canonical.paragraph}]`
+    : `[Near-duplicate of ${canonical.document}, paragraph ${canonical.paragraph} (similarity ${similarity})]`
+}
+
+/**
+ * Find paragraphs repeated across documents with MinHash signatures over word
+ * shingles, bucketed by LSH bands; candidates sharing a bucket are confirmed by
+ * their exact shingle similarity. The first copy stays as the canonical one
+ * and later copies are replaced by a back-reference to it. Headings, code
+ * blocks and short paragraphs are never collapsed.
+ */
+export function deduplicateDocuments(
+  documents: DocumentInput[],
+  options: DeduplicationOptions = {}
+): DeduplicationResult {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD
+  const minWords = options.minWords ?? DEFAULT_MIN_WORDS
+  const buckets = new Map<string, Paragraph[]>()
+  const duplicates: DuplicateParagraph[] = []
+  let examined = 0
+
+  const deduplicated = documents.map((document) => {
+    const found = duplicates.length
+    const blocks = splitParagraphs(document.content)
+    const output = blocks.map((block, index) => {
+      const tokens = words(block)
+      if (HEADING.test(block) || FENCE.test(block) || tokens.length < minWords) return block
+      examined++
+
+      const paragraph: Paragraph = {
+        document: document.name,
+        paragraph: index + 1,
+        shingles: shingles(tokens)
+      }
+      const signature = minHash(paragraph.shingles)
+      const keys = Array.from(
+        { length: BANDS },
+        (_, band) => `${band}:${signature.slice(band * ROWS, (band + 1) * ROWS).join(',')}`
+      )
+
+      let best: { canonical: Paragraph; similarity: number } | undefined
+      const candidates = new Set(keys.flatMap((key) => buckets.get(key) ?? []))
+      for (const candidate of candidates) {
+        if (candidate.document === document.name) continue
+        const similarity = jaccard(paragraph.shingles, candidate.shingles)
+        if (similarity >= threshold && similarity > (best?.similarity ?? 0)) {
+          best = { canonical: candidate, similarity }
+        }
+      }
+
+      if (!best) {
+        for (const key of keys) buckets.set(key, [...(buckets.get(key) ?? []), paragraph])
+        return block
+      }
+
+      const duplicate: DuplicateParagraph = {
+        document: document.name,
+        paragraph: paragraph.paragraph,
+        canonical: { document: best.canonical.document, paragraph: best.canonical.paragraph },
+        similarity: Math.round(best.similarity * 100) / 100,
+        bytes: byteLength(block)
+      }
+      duplicates.push(duplicate)
+      return formatBackReference(duplicate)
+    })
+
+    // Documents without duplicates keep their exact spacing
+    return duplicates.length === found ? document : { ...document, content: output.join('\n\n') }
+  })
+
+  const originalBytes = documents.reduce((total, doc) => total + byteLength(doc.content), 0)
+  const remainingBytes = deduplicated.reduce((total, doc) => total + byteLength(doc.content), 0)
+
+  return {
+    documents: deduplicated,
+    report: {
+      threshold,
+      paragraphsExamined: examined,
+      duplicates,
+      eliminatedBytes: Math.max(0, originalBytes - remainingBytes)
+    }
+  }
+}
@@ -0,0 +1,397 @@
+import type { DocumentType } from '../types/index.js'
+import type { ExtractedContent } from './parser.js'
+
+export interface DocumentClassification {
+  type?: DocumentType
+  /** 0-1; how clearly the winning type beat the alternatives */
+  confidence: number
+  /** Names of the signals that contributed to the winning type */
+  signals: string[]
+}
+
+interface Signal {
+  type: DocumentType
+  name: string
+  weight: number
+  /** Returns how strongly the signal fires, from 0 (absent) to 1 */
+  test: (sample: TextSample) => number
+}
+
+interface TextSample {
+  text: string
+  lower: string
+  lines: string[]
+  filename: string
+}
+
+// Below this score the document is left unclassified
+const MIN_SCORE = 1.5
+// Score at which a clear winner reaches full confidence
+const CONFIDENT_SCORE = 4
+// Classification only needs the beginning of long documents
+const SAMPLE_LENGTH = 20000
+
+function lineRatio(sample: TextSample, pattern: RegExp): number {
+  if (sample.lines.length === 0) return 0
+  return sample.lines.filter((line) => pattern.test(line)).length / sample.lines.length
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0
+}
+
+// Saturates at `enough` occurrences
+function frequency(count: number, enough: number): number {
+  return Math.min(1, count / enough)
+}
+
+function filenameHint(keywords: RegExp): (sample: TextSample) => number {
+  return (sample) => (keywords.test(sample.filename) ? 1 : 0)
+}
+
+const SIGNALS: Signal[] = [
+  // Transcripts: speaker turns and spoken timestamps
+  {
+    type: 'transcript',
+    name: 'speaker-turns',
+    weight: 3,
+    test: (sample) =>
+      frequency(
+        lineRatio(
+          sample,
+          /^(\[t=[\d:]+\]\s*)?(?!(From|To|Cc|Subject|Date|Sent|Re|Note|Purpose|Scope|Name|Title|By)\b)[A-Z][\w .'-]{0,40}(\s\(\d{1,2}:\d{2}(:\d{2})?\))?:\s+\S/
+        ),
+        0.5
+      )
+  },
+  {
+    type: 'transcript',
+    name: 'timestamps',
+    weight: 2,
+    test: (sample) =>
+      frequency(
+        countMatches(sample.text, /\[t=\d{2}:\d{2}:\d{2}\]|\(\d{1,2}:\d{2}:\d{2}\)|-->/g),
+        5
+      )
+  },
+  {
+    type: 'transcript',
+    name: 'filename',
+    weight: 2,
+    test: filenameHint(
+      /transcript|recording|interview|\.vtt$|\.srt$|(meeting|sync|standup|call)(?!.*notes?)/
+    )
+  },
+
+  // Chat logs: short timestamped messages from Slack, Teams, WhatsApp or IRC exports
+  {
+    type: 'chat-log',
+    name: 'chat-messages',
+    weight: 4,
+    test: (sample) =>
+      frequency(
+        lineRatio(
+          sample,
+          /^(\[?\d{1,2}\/\d{1,2}\/\d{2,4},?\s+\d{1,2}:\d{2}(\s?[AP]M)?\]?\s*(-\s*)?[^:]{1,40}:|\[\d{1,2}:\d{2}(\s?[AP]M)?\]\s*<?[\w.@ -]{1,40}>?:?\s|<[\w.@-]{1,30}>\s|[\w.' -]{1,40}\s{1,2}\d{1,2}:\d{2}\s?[AP]M$)/i
+        ),
+        0.3
+      )
+  },
+  {
+    type: 'chat-log',
+    name: 'filename',
+    weight: 2,
+    test: filenameHint(/chat|slack|teams|whatsapp|discord|\birc\b|messages/)
+  },
+
+  // Emails: header blocks and reply conventions
+  {
+    type: 'email',
+    name: 'email-headers',
+    weight: 4,
+    test: (sample) =>
+      frequency(
+        ['from', 'to', 'subject', 'date|sent'].filter((header) =>
+          sample.lines.slice(0, 40).some((line) => new RegExp(`^(${header}):\\s`, 'i').test(line))
+        ).length,
+        3
+      )
+  },
+  {
+    type: 'email',
+    name: 'reply-markers',
+    weight: 2,
+    test: (sample) =>
+      frequency(
+        countMatches(
+          sample.text,
+          /^On .{5,120} wrote:$|^-{2,}\s*(Original|Forwarded) Message|^(Best regards|Kind regards|Thanks|Cheers),?$/gim
+        ),
+        2
+      )
+  },
+  {
+    type: 'email',
+    name: 'filename',
+    weight: 2,
+    test: filenameHint(/e-?mail|\.eml$|correspondence|inbox/)
+  },
+
+  // Policies: numbered clauses and normative language
+  {
+    type: 'policy',
+    name: 'numbered-clauses',
+    weight: 2,
+    test: (sample) =>
+      frequency(
+        lineRatio(sample, /^\s*(#+\s*)?(\d+\.\d+(\.\d+)*\.?\s+\S|§\s*\d+|(section|clause)\s+\d+)/i),
+        0.15
+      )
+  },
+  {
+    type: 'policy',
+    name: 'normative-language',
+    weight: 2,
+    test: (sample) =>
+      frequency(
+        countMatches(
+          sample.lower,
+          /\b(must|must not|shall|is required to|are required to|prohibited|compliance|violation)\b/g
+        ),
+        8
+      )
+  },
+  {
+    type: 'policy',
+    name: 'policy-sections',
+    weight: 2,
+    test: (sample) =>
+      frequency(
+        countMatches(
+          sample.lower,
+          /^\W*(purpose|scope|policy statement|effective date|responsibilities|enforcement|exceptions)\b/gm
+        ),
+        3
+      )
+  },
+  {
+    type: 'policy',
+    name: 'filename',
+    weight: 2,
+    test: filenameHint(/polic|procedure|guideline|code[-_ ]of[-_ ]conduct|sop\b/)
+  },
+
+  // Handbooks: long, multi-chapter guides addressed to employees
+  {
+    type: 'handbook',
+    name: 'handbook-language',
+    weight: 3,
+    test: (sample) =>
+      frequency(
+        countMatches(
+          sample.lower,
+          /\b(handbook|welcome to|table of contents|this guide|our values|new hires?)\b/g
+        ),
+        3
+      )
+  },
+  {
+    type: 'handbook',
+    name: 'chapters',
+    weight: 1,
+    test: (sample) =>
+      frequency(countMatches(sample.text, /^(#{1,2}\s+\S|chapter \d+|part [ivx\d]+\b)/gim), 10)
+  },
+  {
+    type: 'handbook',
+    name: 'filename',
+    weight: 3,
+    test: filenameHint(/handbook|manual|onboarding|playbook/)
+  },
+
+  // Contracts: parties, recitals and boilerplate clauses
+  {
+    type: 'contract',
+    name: 'contract-terms',
+    weight: 4,
+    test: (sample) =>
+      frequency(
+        countMatches(
+          sample.lower,
+          /\b(this agreement|the parties|hereinafter|whereas|in witness whereof|governing law|indemnif\w*|termination|effective date|counterparts|the licensee|the licensor|confidential information)\b/g
+        ),
+        6
+      )
+  },
+  {
+    type: 'contract',
+    name: 'signature-block',
+    weight: 2,
+    test: (sample) =>
+      frequency(countMatches(sample.lower, /^\s*(signature|signed|by|name|title|date):\s*_*/gm), 3)
+  },
+  {
+    type: 'contract',
+    name: 'filename',
+    weight: 3,
+    test: filenameHint(/contract|agreement|\bnda\b|\bmsa\b|\bsow\b|terms|lease/)
+  },
+
+  // Specs: requirements, RFC keywords and technical structure
+  {
+    type: 'spec',
+    name: 'requirements',
+    weight: 3,
+    test: (sample) =>
+      frequency(
+        countMatches(
+          sample.text,
+          /\b(MUST|SHOULD|MAY|SHALL NOT|MUST NOT)\b|\b(REQ|FR|NFR)-\d+|acceptance criteria|user stor(y|ies)|requirements?\b/g
+        ),
+        6
+      )
+  },
+  {
+    type: 'spec',
+    name: 'technical-structure',
+    weight: 2,
+    test: (sample) =>
+      frequency(
+        countMatches(
+          sample.text,
+          /^```|\b(GET|POST|PUT|DELETE|PATCH) \/|\bAPI\b|\bendpoint\b|\bschema\b/gm
+        ),
+        5
+      )
+  },
+  {
+    type: 'spec',
+    name: 'filename',
+    weight: 3,
+    test: filenameHint(/spec|requirements|\bprd\b|\brfc\b|design[-_ ]doc|architecture/)
+  },
+
+  // Reports: findings, metrics and conclusions
+  {
+    type: 'report',
+    name: 'report-sections',
+    weight: 3,
+    test: (sample) =>
+      frequency(
+        countMatches(
+          sample.lower,
+          /^\W*(executive summary|key findings|findings|methodology|results|conclusions?|recommendations|outlook)\b/gm
+        ),
+        3
+      )
+  },
+  {
+    type: 'report',
+    name: 'metrics',
+    weight: 2,
+    test: (sample) =>
+      frequency(
+        countMatches(
+          sample.text,
+          /\d+(\.\d+)?\s?%|\bQ[1-4]\b|\b(year-over-year|yoy|kpi|revenue|growth)\b/gi
+        ),
+        8
+      )
+  },
+  {
+    type: 'report',
+    name: 'filename',
+    weight: 2,
+    test: filenameHint(/report|analysis|review|assessment|audit|findings|results/)
+  },
+
+  // Notes and memos: short, bullet-heavy working documents
+  {
+    type: 'note',
+    name: 'bullet-heavy',
+    weight: 3,
+    test: (sample) =>
+      sample.lines.length >= 3
+        ? frequency(lineRatio(sample, /^\s*([-*•]|\d+[.)]|\[[ x]\])\s+\S/i), 0.5)
+        : 0
+  },
+  {
+    type: 'note',
+    name: 'note-markers',
+    weight: 2,
+    test: (sample) =>
+      frequency(
+        countMatches(
+          sample.lower,
+          /\b(action items?|todo|to-do|attendees|agenda|next steps|follow[- ]ups?|memorandum)\b/g
+        ),
+        2
+      )
+  },
+  {
+    type: 'note',
+    name: 'filename',
+    weight: 2,
+    test: filenameHint(/notes?\b|notes?[-_.]|memo|minutes|journal/)
+  }
+]
+
+/**
+ * Classify a document from its content, using the filename as a hint.
+ * Each type has a few structural signals (speaker turns, email headers,
+ * numbered clauses, bullet density, ...) whose weighted strengths are summed;
+ * the highest-scoring type wins and the confidence reflects both its score and
+ * its margin over the runner-up.
+ */
+export function classifyDocument(content: string, filename = ''): DocumentClassification {
+  const text = content.slice(0, SAMPLE_LENGTH)
+  const sample: TextSample = {
+    text,
+    lower: text.toLowerCase(),
+    lines: text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter(Boolean),
+    filename: filename.toLowerCase()
+  }
+
+  const scores = new Map<DocumentType, { score: number; signals: string[] }>()
+  for (const signal of SIGNALS) {
+    const strength = signal.test(sample)
+    if (strength <= 0) continue
+    const entry = scores.get(signal.type) ?? { score: 0, signals: [] }
+    entry.score += signal.weight * strength
+    entry.signals.push(signal.name)
+    scores.set(signal.type, entry)
+  }
+
+  const ranked = [...scores.entries()].sort((a, b) => b[1].score - a[1].score)
+  const [best, runnerUp] = ranked
+  if (!best || best[1].score < MIN_SCORE) {
+    return { confidence: 0, signals: [] }
+  }
+
+  const bestScore = best[1].score
+  const margin = bestScore / (bestScore + (runnerUp?.[1].score ?? 0))
+  const confidence = Math.min(1, bestScore / CONFIDENT_SCORE) * margin
+
+  return {
+    type: best[0],
+    confidence: Math.round(confidence * 100) / 100,
+    signals: best[1].signals
+  }
+}
+
+/**
+ * Resolve the type of an extracted upload: a type implied by the file format
+ * (e.g. .eml, .vtt) is authoritative, otherwise the content is classified.
+ */
+export function resolveDocumentType(
+  extracted: ExtractedContent,
+  filename: string
+): DocumentClassification {
+  if (extracted.type) {
+    return { type: extracted.type, confidence: 1, signals: ['format'] }
+  }
+  return classifyDocument(extracted.content, filename)
+}
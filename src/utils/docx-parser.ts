@@ -0,0 +1,457 @@
+import { ValidationError } from '../middleware/error-handler.js'
+import { readZipEntries, findZipEntry, isZipBuffer, type ZipEntry } from './zip.js'
+import {
+  parseXml,
+  childElements,
+  findChild,
+  findDescendants,
+  textContent,
+  type XmlElement
+} from './xml.js'
+import {
+  renderInlineSegments,
+  renderTable,
+  joinBlocks,
+  type InlineSegment,
+  type MarkdownBlock
+} from './markdown.js'
+
+export interface DocxExtractionResult {
+  markdown: string
+  title?: string
+  author?: string
+  headingCount: number
+  tableCount: number
+  footnoteCount: number
+  commentCount: number
+}
+
+interface StyleInfo {
+  name: string
+  basedOn?: string
+  outlineLevel?: number
+  numbering?: { numId: string; ilvl: number }
+}
+
+interface Note {
+  label: string
+  text: string
+}
+
+const MAX_HEADING_LEVEL = 6
+// Upper bound on the summed inflated size of the XML parts read from one package
+const DEFAULT_MAX_UNCOMPRESSED_SIZE = 52428800
+
+function attr(element: XmlElement | undefined, name: string): string | undefined {
+  return element?.attributes[name]
+}
+
+function isToggleOn(element: XmlElement | undefined): boolean {
+  if (!element) return false
+  const value = attr(element, 'w:val')
+  return value === undefined || !['0', 'false', 'off', 'none'].includes(value)
+}
+
+/**
+ * Converts the body of a WordprocessingML document into Markdown: headings
+ * from paragraph styles / outline levels, numbered and bulleted lists from the
+ * numbering part, tables, hyperlinks, bold/italic runs, footnotes, endnotes and
+ * review comments (rendered as Markdown footnotes).
+ */
+class DocxConverter {
+  private readonly styles = new Map<string, StyleInfo>()
+  private readonly numberingFormats = new Map<string, Map<number, string>>()
+  private readonly listCounters = new Map<string, number[]>()
+  private readonly relationships = new Map<string, string>()
+  private readonly footnoteSource = new Map<string, XmlElement>()
+  private readonly endnoteSource = new Map<string, XmlElement>()
+  private readonly commentSource = new Map<string, { author?: string; body: XmlElement }>()
+  private readonly notes: Note[] = []
+  private headingCount = 0
+  private tableCount = 0
+  private footnoteCount = 0
+  private commentCount = 0
+
+  constructor(
+    private readonly entries: ZipEntry[],
+    private remaining: number
+  ) {
+    this.loadStyles()
+    this.loadNumbering()
+    this.loadRelationships()
+    this.loadNotes('word/footnotes.xml', 'w:footnote', this.footnoteSource)
+    this.loadNotes('word/endnotes.xml', 'w:endnote', this.endnoteSource)
+    this.loadComments()
+  }
+
+  convert(): DocxExtractionResult {
+    const document = this.readXmlPart('word/document.xml')
+    const body = findChild(findChild(document, 'w:document'), 'w:body')
+    if (!body) {
+      throw new ValidationError('Invalid DOCX document: word/document.xml has no body')
+    }
+
+    let markdown = joinBlocks(this.convertContainer(body))
+
+    if (this.notes.length > 0) {
+      markdown += '\n\n' + this.notes.map((note) => `[^${note.label}]: ${note.text}`).join('\n')
+    }
+
+    const core = this.readXmlPart('docProps/core.xml')
+    const properties = findChild(core, 'cp:coreProperties')
+    const title = findChild(properties, 'dc:title')
+    const author = findChild(properties, 'dc:creator')
+
+    return {
+      markdown: markdown.trim(),
+      title: title ? textContent(title).trim() || undefined : undefined,
+      author: author ? textContent(author).trim() || undefined : undefined,
+      headingCount: this.headingCount,
+      tableCount: this.tableCount,
+      footnoteCount: this.footnoteCount,
+      commentCount: this.commentCount
+    }
+  }
+
+  private convertContainer(container: XmlElement): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = []
+
+    for (const child of childElements(container)) {
+      switch (child.name) {
+        case 'w:p': {
+          const block = this.convertParagraph(child)
+          if (block) blocks.push(block)
+          break
+        }
+        case 'w:tbl':
+          blocks.push({ text: this.convertTable(child), isListItem: false })
+          break
+        case 'w:sectPr':
+          break
+        default:
+          // Content controls, tracked insertions, custom XML: descend
+          blocks.push(...this.convertContainer(child))
+      }
+    }
+
+    return blocks
+  }
+
+  private convertParagraph(paragraph: XmlElement): MarkdownBlock | undefined {
+    const properties = findChild(paragraph, 'w:pPr')
+    const styleId = attr(findChild(properties, 'w:pStyle'), 'w:val')
+    const headingLevel = this.getHeadingLevel(styleId, properties)
+    const text = this.convertInline(paragraph, headingLevel === undefined).trim()
+
+    if (!text) return undefined
+
+    if (headingLevel !== undefined) {
+      this.headingCount++
+      return { text: `${'#'.repeat(headingLevel)} ${text}`, isListItem: false }
+    }
+
+    const numbering = this.getNumbering(styleId, properties)
+    if (numbering) {
+      return { text: this.formatListItem(numbering.numId, numbering.ilvl, text), isListItem: true }
+    }
+
+    return { text, isListItem: false }
+  }
+
+  private convertInline(element: XmlElement, allowEmphasis: boolean): string {
+    const segments: InlineSegment[] = []
+
+    const visit = (node: XmlElement): void => {
+      for (const child of childElements(node)) {
+        switch (child.name) {
+          case 'w:r':
+            segments.push(...this.convertRun(child))
+            break
+          case 'w:hyperlink': {
+            const label = this.convertInline(child, allowEmphasis)
+            const target = this.relationships.get(attr(child, 'r:id') ?? '')
+            segments.push({
+              text: target ? `[${label}](${target})` : label,
+              bold: false,
+              italic: false
+            })
+            break
+          }
+          case 'w:del':
+          case 'w:pPr':
+          case 'w:moveFrom':
+            break
+          default:
+            visit(child)
+        }
+      }
+    }
+    visit(element)
+
+    return renderInlineSegments(segments, allowEmphasis)
+  }
+
+  private convertRun(run: XmlElement): InlineSegment[] {
+    const properties = findChild(run, 'w:rPr')
+    const bold = isToggleOn(findChild(properties, 'w:b'))
+    const italic = isToggleOn(findChild(properties, 'w:i'))
+    let text = ''
+    const references: string[] = []
+
+    for (const child of childElements(run)) {
+      switch (child.name) {
+        case 'w:t':
+          text += textContent(child)
+          break
+        case 'w:tab':
+          text += '\t'
+          break
+        case 'w:br':
+        case 'w:cr':
+          text += '\n'
+          break
+        case 'w:noBreakHyphen':
+          text += '-'
+          break
+        case 'w:footnoteReference':
+          references.push(this.addNote('footnote', attr(child, 'w:id')))
+          break
+        case 'w:endnoteReference':
+          references.push(this.addNote('endnote', attr(child, 'w:id')))
+          break
+        case 'w:commentReference':
+          references.push(this.addComment(attr(child, 'w:id')))
+          break
+      }
+    }
+
+    const segments = [{ text, bold, italic }]
+    for (const reference of references.filter(Boolean)) {
+      segments.push({ text: reference, bold: false, italic: false })
+    }
+    return segments
+  }
+
+  private convertTable(table: XmlElement): string {
+    this.tableCount++
+    const rows = childElements(table, 'w:tr').map((row) =>
+      childElements(row, 'w:tc').flatMap((cell) => {
+        const text = this.convertContainer(cell)
+          .map((block) => block.text)
+          .join('\n')
+        const span = parseInt(
+          attr(findChild(findChild(cell, 'w:tcPr'), 'w:gridSpan'), 'w:val') ?? '1',
+          10
+        )
+        return [text, ...Array<string>(Math.max(0, span - 1)).fill('')]
+      })
+    )
+
+    return renderTable(rows)
+  }
+
+  private getHeadingLevel(
+    styleId: string | undefined,
+    properties: XmlElement | undefined
+  ): number | undefined {
+    const outline = attr(findChild(properties, 'w:outlineLvl'), 'w:val')
+    if (outline !== undefined && /^\d$/.test(outline) && outline !== '9') {
+      return Math.min(parseInt(outline, 10) + 1, MAX_HEADING_LEVEL)
+    }
+
+    // Walk the basedOn chain so custom styles derived from headings still count
+    let current = styleId
+    for (let depth = 0; current && depth < 10; depth++) {
+      const style = this.styles.get(current)
+      const name = (style?.name ?? current).toLowerCase()
+
+      if (name === 'title') return 1
+      const heading = /^heading\s*(\d)$/.exec(name)
+      if (heading) return Math.min(parseInt(heading[1]!, 10), MAX_HEADING_LEVEL)
+      if (style?.outlineLevel !== undefined)
+        return Math.min(style.outlineLevel + 1, MAX_HEADING_LEVEL)
+
+      current = style?.basedOn
+    }
+
+    return undefined
+  }
+
+  private getNumbering(
+    styleId: string | undefined,
+    properties: XmlElement | undefined
+  ): { numId: string; ilvl: number } | undefined {
+    const numPr = findChild(properties, 'w:numPr')
+    if (numPr) {
+      const numId = attr(findChild(numPr, 'w:numId'), 'w:val')
+      const ilvl = parseInt(attr(findChild(numPr, 'w:ilvl'), 'w:val') ?? '0', 10)
+      return numId && numId !== '0' ? { numId, ilvl } : undefined
+    }
+
+    let current = styleId
+    for (let depth = 0; current && depth < 10; depth++) {
+      const style = this.styles.get(current)
+      if (style?.numbering) return style.numbering
+      current = style?.basedOn
+    }
+
+    return undefined
+  }
+
+  private formatListItem(numId: string, ilvl: number, text: string): string {
+    const format = this.numberingFormats.get(numId)?.get(ilvl) ?? 'bullet'
+    const indent = '  '.repeat(ilvl)
+
+    if (format === 'bullet' || format === 'none') {
+      return `${indent}- ${text}`
+    }
+
+    const counters = this.listCounters.get(numId) ?? []
+    counters[ilvl] = (counters[ilvl] ?? 0) + 1
+    counters.length = ilvl + 1
+    this.listCounters.set(numId, counters)
+
+    return `${indent}${counters[ilvl]}. ${text}`
+  }
+
+  private addNote(kind: 'footnote' | 'endnote', id: string | undefined): string {
+    const source = (kind === 'footnote' ? this.footnoteSource : this.endnoteSource).get(id ?? '')
+    if (!source) return ''
+
+    this.footnoteCount++
+    const label = kind === 'footnote' ? `${this.footnoteCount}` : `endnote-${id}`
+    const text = this.convertContainer(source)
+      .map((block) => block.text)
+      .join(' ')
+      .trim()
+    this.notes.push({ label, text })
+    return `[^${label}]`
+  }
+
+  private addComment(id: string | undefined): string {
+    const comment = this.commentSource.get(id ?? '')
+    if (!comment) return ''
+
+    this.commentCount++
+    const label = `comment-${this.commentCount}`
+    const text = this.convertContainer(comment.body)
+      .map((block) => block.text)
+      .join(' ')
+      .trim()
+    this.notes.push({
+      label,
+      text: comment.author ? `Comment (${comment.author}): ${text}` : `Comment: ${text}`
+    })
+    return `[^${label}]`
+  }
+
+  // Every part inflates against what is left of the package budget
+  private readXmlPart(path: string): XmlElement | undefined {
+    const entry = findZipEntry(this.entries, path)
+    if (!entry) return undefined
+
+    const data = entry.read(Math.max(1, this.remaining))
+    this.remaining -= data.length
+    return parseXml(data.toString('utf-8'))
+  }
+
+  private loadStyles(): void {
+    const styles = findChild(this.readXmlPart('word/styles.xml'), 'w:styles')
+    if (!styles) return
+
+    for (const style of childElements(styles, 'w:style')) {
+      const id = attr(style, 'w:styleId')
+      if (!id) continue
+
+      const properties = findChild(style, 'w:pPr')
+      const outline = attr(findChild(properties, 'w:outlineLvl'), 'w:val')
+      const numPr = findChild(properties, 'w:numPr')
+      const numId = attr(findChild(numPr, 'w:numId'), 'w:val')
+
+      this.styles.set(id, {
+        name: attr(findChild(style, 'w:name'), 'w:val') ?? id,
+        basedOn: attr(findChild(style, 'w:basedOn'), 'w:val'),
+        outlineLevel: outline !== undefined && outline !== '9' ? parseInt(outline, 10) : undefined,
+        numbering: numId
+          ? { numId, ilvl: parseInt(attr(findChild(numPr, 'w:ilvl'), 'w:val') ?? '0', 10) }
+          : undefined
+      })
+    }
+  }
+
+  private loadNumbering(): void {
+    const numbering = findChild(this.readXmlPart('word/numbering.xml'), 'w:numbering')
+    if (!numbering) return
+
+    const abstractFormats = new Map<string, Map<number, string>>()
+    for (const abstract of childElements(numbering, 'w:abstractNum')) {
+      const levels = new Map<number, string>()
+      for (const level of childElements(abstract, 'w:lvl')) {
+        const format = attr(findChild(level, 'w:numFmt'), 'w:val') ?? 'decimal'
+        levels.set(parseInt(attr(level, 'w:ilvl') ?? '0', 10), format)
+      }
+      abstractFormats.set(attr(abstract, 'w:abstractNumId') ?? '', levels)
+    }
+
+    for (const num of childElements(numbering, 'w:num')) {
+      const abstractId = attr(findChild(num, 'w:abstractNumId'), 'w:val') ?? ''
+      const levels = abstractFormats.get(abstractId)
+      if (levels) this.numberingFormats.set(attr(num, 'w:numId') ?? '', levels)
+    }
+  }
+
+  private loadRelationships(): void {
+    const rels = findChild(this.readXmlPart('word/_rels/document.xml.rels'), 'Relationships')
+    if (!rels) return
+
+    for (const rel of childElements(rels, 'Relationship')) {
+      if (attr(rel, 'TargetMode') === 'External' && attr(rel, 'Id') && attr(rel, 'Target')) {
+        this.relationships.set(attr(rel, 'Id')!, attr(rel, 'Target')!)
+      }
+    }
+  }
+
+  private loadNotes(path: string, elementName: string, target: Map<string, XmlElement>): void {
+    const part = this.readXmlPart(path)
+    if (!part) return
+
+    for (const note of findDescendants(part, elementName)) {
+      // Separator notes (types separator/continuationSeparator) carry no content
+      if (attr(note, 'w:type')) continue
+      target.set(attr(note, 'w:id') ?? '', note)
+    }
+  }
+
+  private loadComments(): void {
+    const part = this.readXmlPart('word/comments.xml')
+    if (!part) return
+
+    for (const comment of findDescendants(part, 'w:comment')) {
+      this.commentSource.set(attr(comment, 'w:id') ?? '', {
+        author: attr(comment, 'w:author'),
+        body: comment
+      })
+    }
+  }
+}
+
+/**
+ * Convert a .docx package to Markdown, preserving heading structure, lists,
+ * tables, footnotes and comments so the prompt builders see real structure.
+ * The XML parts are inflated with a hard cap of `maxBytes` between them.
+ */
+export function extractDocxText(
+  buffer: Buffer,
+  maxBytes = DEFAULT_MAX_UNCOMPRESSED_SIZE
+): DocxExtractionResult {
+  if (!isZipBuffer(buffer)) {
+    throw new ValidationError('File is not a valid DOCX document')
+  }
+
+  const entries = readZipEntries(buffer)
+  if (!findZipEntry(entries, 'word/document.xml')) {
+    throw new ValidationError('Invalid DOCX document: word/document.xml is missing')
+  }
+
+  return new DocxConverter(entries, maxBytes).convert()
+}
@@ -0,0 +1,374 @@
+import { ValidationError } from '../middleware/error-handler.js'
+import { decodeCharset } from './encoding.js'
+import { htmlToMarkdown } from './html-parser.js'
+
+export interface EmailMessage {
+  from?: string
+  to: string[]
+  cc: string[]
+  date?: string
+  subject?: string
+  body: string
+}
+
+export interface EmailAttachment {
+  filename: string
+  contentType: string
+  size: number
+}
+
+export interface EmailExtractionResult {
+  text: string
+  /** Messages in the thread, oldest first; the last one is the email itself */
+  messages: EmailMessage[]
+  attachments: EmailAttachment[]
+  messageId?: string
+}
+
+interface MimePart {
+  headers: Map<string, string>
+  body: Buffer
+}
+
+interface HeaderValue {
+  value: string
+  params: Record<string, string>
+}
+
+const MAX_MULTIPART_DEPTH = 10
+
+/**
+ * Decode RFC 2047 encoded words (`=?charset?B?...?=` / `=?charset?Q?...?=`).
+ * Whitespace between adjacent encoded words is dropped, as the RFC requires.
+ */
+function decodeEncodedWords(text: string): string {
+  return text
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(
+      /=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g,
+      (_match, charset: string, mode: string, data: string) => {
+        const bytes =
+          mode.toUpperCase() === 'B'
+            ? Buffer.from(data, 'base64')
+            : decodeQuotedPrintable(Buffer.from(data.replace(/_/g, ' '), 'latin1'))
+        return decodeCharset(bytes, charset.replace(/\*.*$/, ''))
+      }
+    )
+}
+
+function decodeQuotedPrintable(input: Buffer): Buffer {
+  const text = input.toString('latin1').replace(/=\r?\n/g, '')
+  const bytes: number[] = []
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!
+    const hex = char === '=' ? text.slice(i + 1, i + 3) : ''
+    if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16))
+      i += 2
+    } else {
+      bytes.push(char.charCodeAt(0) & 0xff)
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+function decodeTransferEncoding(body: Buffer, encoding: string | undefined): Buffer {
+  switch (encoding?.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64')
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body)
+    default:
+      return body
+  }
+}
+
+function parsePart(buffer: Buffer): MimePart {
+  const raw = buffer.toString('latin1')
+  const match = /\r?\n\r?\n/.exec(raw)
+  const headerEnd = match ? match.index : raw.length
+  const bodyStart = match ? match.index + match[0].length : raw.length
+
+  // Unfold continuation lines; 8-bit header bytes are almost always UTF-8
+  const headerText = buffer
+    .subarray(0, headerEnd)
+    .toString('utf-8')
+    .replace(/\r?\n[ \t]+/g, ' ')
+  const headers = new Map<string, string>()
+  for (const line of headerText.split(/\r?\n/)) {
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    const name = line.slice(0, colon).trim().toLowerCase()
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim())
+  }
+
+  return { headers, body: buffer.subarray(bodyStart) }
+}
+
+function parseHeaderValue(header: string | undefined): HeaderValue {
+  const [value = '', ...rest] = (header ?? '').match(/(?:[^;"]|"(?:\\.|[^"])*")+/g) ?? []
+  const params: Record<string, string> = {}
+
+  for (const param of rest) {
+    const equals = param.indexOf('=')
+    if (equals === -1) continue
+    let key = param.slice(0, equals).trim().toLowerCase()
+    let paramValue = param
+      .slice(equals + 1)
+      .trim()
+      .replace(/^"(.*)"$/, '$1')
+
+    // RFC 2231 extended parameters: filename*=utf-8''Quarterly%20Report.pdf
+    if (key.endsWith('*')) {
+      key = key.slice(0, -1)
+      const extended = /^([^']*)'[^']*'(.*)$/.exec(paramValue)
+      if (extended) {
+        const bytes = Buffer.from(
+          extended[2]!.replace(/%([0-9A-Fa-f]{2})/g, (_m, hex: string) =>
+            String.fromCharCode(parseInt(hex, 16))
+          ),
+          'latin1'
+        )
+        paramValue = decodeCharset(bytes, extended[1] || 'utf-8')
+      }
+    }
+
+    params[key] = decodeEncodedWords(paramValue)
+  }
+
+  return { value: value.trim().toLowerCase(), params }
+}
+
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+  const raw = body.toString('latin1')
+  const delimiter = `--${boundary}`
+  const parts: Buffer[] = []
+  let position = raw.indexOf(delimiter)
+
+  while (position !== -1) {
+    const lineEnd = raw.indexOf('\n', position)
+    if (raw.startsWith(`${delimiter}--`, position) || lineEnd === -1) break
+
+    const next = raw.indexOf(`\n${delimiter}`, lineEnd)
+    const end = next === -1 ? raw.length : next
+    parts.push(body.subarray(lineEnd + 1, raw[end - 1] === '\r' ? end - 1 : end))
+    position = next === -1 ? -1 : next + 1
+  }
+
+  return parts
+}
+
+/**
+ * Reduce an HTML body to readable text for emails that have no text/plain part.
+ */
+class MimeCollector {
+  readonly textBodies: string[] = []
+  readonly attachments: EmailAttachment[] = []
+
+  collect(part: MimePart, depth = 0): void {
+    const contentType = parseHeaderValue(part.headers.get('content-type') ?? 'text/plain')
+    const disposition = parseHeaderValue(part.headers.get('content-disposition'))
+    const filename = disposition.params.filename ?? contentType.params.name
+    const type = contentType.value || 'text/plain'
+
+    if (type.startsWith('multipart/') && contentType.params.boundary) {
+      if (depth >= MAX_MULTIPART_DEPTH) return
+      const children = splitMultipart(part.body, contentType.params.boundary).map(parsePart)
+
+      if (type === 'multipart/alternative') {
+        const preferred =
+          children.find((child) => this.typeOf(child) === 'text/plain') ??
+          children.find((child) => this.typeOf(child) === 'text/html') ??
+          children[0]
+        if (preferred) this.collect(preferred, depth + 1)
+      } else {
+        children.forEach((child) => this.collect(child, depth + 1))
+      }
+      return
+    }
+
+    const content = decodeTransferEncoding(part.body, part.headers.get('content-transfer-encoding'))
+    const isAttachment =
+      disposition.value === 'attachment' || (filename && disposition.value !== 'inline')
+
+    if (!isAttachment && (type === 'text/plain' || type === 'text/html')) {
+      const text = decodeCharset(content, contentType.params.charset)
+      this.textBodies.push(type === 'text/html' ? htmlToMarkdown(text).markdown : text)
+      return
+    }
+
+    this.attachments.push({
+      filename: filename || (type === 'message/rfc822' ? 'attached-message.eml' : 'unnamed'),
+      contentType: type,
+      size: content.length
+    })
+  }
+
+  private typeOf(part: MimePart): string {
+    return parseHeaderValue(part.headers.get('content-type') ?? 'text/plain').value
+  }
+}
+
+function splitAddressList(header: string | undefined): string[] {
+  if (!header) return []
+  const addresses = header.match(/(?:[^,;"<]|"(?:\\.|[^"])*"|<[^>]*>)+/g) ?? []
+  return addresses.map((address) => address.trim().replace(/^"(.*)"(\s*<)/, '$1$2')).filter(Boolean)
+}
+
+function normalizeDate(date: string | undefined): string | undefined {
+  if (!date) return undefined
+  const parsed = new Date(date.replace(/\s+at\s+/i, ' ').replace(/\s*\([^)]*\)\s*$/, ''))
+  return Number.isNaN(parsed.getTime()) ? date.trim() : parsed.toISOString()
+}
+
+// "On Mon, Jan 8, 2024 at 9:14 AM Dana Lee <dana@example.com> wrote:"
+const ATTRIBUTION_LINE = /^On\s+(.+?)\s+wrote:\s*$/
+const TIME_OF_DAY = /\d{1,2}:\d{2}(?::\d{2})?(?:\s*[AaPp]\.?[Mm]\.?)?/
+const SEPARATOR_LINE =
+  /^\s*(?:-{2,}\s*(?:Original Message|Forwarded message)\s*-{2,}|_{10,}|Begin forwarded message:)\s*$/i
+const QUOTED_HEADER = /^\s*\*?(From|Sent|Date|To|Cc|Subject)\*?:\s*(.*)$/i
+
+function parseAttribution(text: string): { from?: string; date?: string } {
+  const time = TIME_OF_DAY.exec(text)
+  if (time) {
+    const end = time.index + time[0].length
+    return {
+      date: text.slice(0, end).replace(/,\s*$/, '').trim(),
+      from:
+        text
+          .slice(end)
+          .replace(/^[\s,]+/, '')
+          .trim() || undefined
+    }
+  }
+
+  const comma = text.lastIndexOf(', ')
+  return comma === -1
+    ? { from: text.trim() }
+    : { date: text.slice(0, comma).trim(), from: text.slice(comma + 2).trim() }
+}
+
+/**
+ * Split a message body into the new text and the quoted history below it.
+ * Understands "On <date>, <name> wrote:" attributions followed by `>` quoting
+ * and Outlook / forwarded-message header blocks. Returns messages newest first.
+ */
+function splitThread(body: string, top: Omit<EmailMessage, 'body'>, depth = 0): EmailMessage[] {
+  const lines = body.split('\n')
+
+  for (let i = 0; i < lines.length && depth < MAX_MULTIPART_DEPTH; i++) {
+    const line = lines[i]!.trim()
+
+    // Attribution lines are sometimes wrapped onto a second line
+    const joined = `${line} ${lines[i + 1]?.trim() ?? ''}`.trim()
+    const attribution =
+      ATTRIBUTION_LINE.exec(line) ?? (line.startsWith('On ') ? ATTRIBUTION_LINE.exec(joined) : null)
+    if (attribution) {
+      const consumed = ATTRIBUTION_LINE.test(line) ? 1 : 2
+      const quoted = lines.slice(i + consumed)
+      if (!quoted.some((quotedLine) => quotedLine.startsWith('>'))) continue
+
+      const { from, date } = parseAttribution(attribution[1]!)
+      const previous = quoted
+        .filter((quotedLine) => quotedLine.startsWith('>') || !quotedLine.trim())
+        .map((quotedLine) => quotedLine.replace(/^> ?/, ''))
+        .join('\n')
+
+      return [
+        { ...top, body: lines.slice(0, i).join('\n').trim() },
+        ...splitThread(previous, { from, to: [], cc: [], date: normalizeDate(date) }, depth + 1)
+      ]
+    }
+
+    const headerStart = SEPARATOR_LINE.test(line) ? i + 1 : /^\s*\*?From\*?:/i.test(line) ? i : -1
+    if (headerStart !== -1) {
+      const headers: Record<string, string> = {}
+      let j = headerStart
+      while (j < lines.length) {
+        const header = QUOTED_HEADER.exec(lines[j]!)
+        if (!header) break
+        headers[header[1]!.toLowerCase()] = header[2]!.trim()
+        j++
+      }
+
+      // A bare "From:" line only counts when it opens a real header block
+      if (headers.from && (headers.subject !== undefined || headers.sent || headers.date)) {
+        const previous = lines
+          .slice(j)
+          .map((previousLine) => previousLine.replace(/^> ?/, ''))
+          .join('\n')
+        return [
+          { ...top, body: lines.slice(0, i).join('\n').trim() },
+          ...splitThread(
+            previous,
+            {
+              from: headers.from,
+              to: splitAddressList(headers.to),
+              cc: splitAddressList(headers.cc),
+              date: normalizeDate(headers.sent ?? headers.date),
+              subject: headers.subject
+            },
+            depth + 1
+          )
+        ]
+      }
+    }
+  }
+
+  return [{ ...top, body: body.trim() }]
+}
+
+function formatMessage(message: EmailMessage, index: number, total: number): string {
+  const header = [
+    `## Message ${index + 1} of ${total}`,
+    message.from ? `From: ${message.from}` : '',
+    message.to.length > 0 ? `To: ${message.to.join(', ')}` : '',
+    message.cc.length > 0 ? `Cc: ${message.cc.join(', ')}` : '',
+    message.date ? `Date: ${message.date}` : '',
+    message.subject ? `Subject: ${message.subject}` : ''
+  ].filter(Boolean)
+
+  return `${header.join('\n')}\n\n${message.body}`
+}
+
+/**
+ * Parse an RFC 5322 / MIME message (.eml). Multipart bodies, quoted-printable,
+ * base64, charsets and RFC 2047 headers are decoded; attachments are listed
+ * but not inlined; and quoted reply history is split into separate messages.
+ */
+export function extractEmailText(buffer: Buffer): EmailExtractionResult {
+  const root = parsePart(buffer)
+  if (!root.headers.has('from') && !root.headers.has('subject')) {
+    throw new ValidationError('File is not a valid email message')
+  }
+
+  const collector = new MimeCollector()
+  collector.collect(root)
+
+  const header = (name: string): string | undefined => {
+    const value = root.headers.get(name)
+    return value ? decodeEncodedWords(value) : undefined
+  }
+
+  const body = collector.textBodies.join('\n\n').replace(/\r\n?/g, '\n')
+  const messages = splitThread(body, {
+    from: header('from'),
+    to: splitAddressList(header('to')),
+    cc: splitAddressList(header('cc')),
+    date: normalizeDate(header('date')),
+    subject: header('subject')
+  })
+    .filter((message, index) => index === 0 || message.body || message.from)
+    .reverse()
+
+  return {
+    text: messages
+      .map((message, index) => formatMessage(message, index, messages.length))
+      .join('\n\n'),
+    messages,
+    attachments: collector.attachments,
+    messageId: header('message-id')?.replace(/^<|>$/g, '')
+  }
+}
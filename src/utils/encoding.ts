@@ -0,0 +1,184 @@
+// Upper halves (0x80-0xFF) of the single-byte code pages that Node's
+// TextDecoder does not map correctly
+export const WINDOWS_1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ'
+export const MAC_ROMAN_HIGH =
+  'ÄÅÇÉÑÖÜáàâäãåçéèêëíìîïñóòôöõúùûü†°¢£§•¶ß®©™´¨≠ÆØ∞±≤≥¥µ∂∑∏π∫ªºΩæø¿¡¬√ƒ≈∆«»…\u00A0ÀÃÕŒœ–—“”‘’÷◊ÿŸ⁄€‹›ﬁﬂ‡·‚„‰ÂÊÁËÈÍÎÏÌÓÔ\uF8FFÒÚÛÙıˆ˜¯˘˙˚¸˝˛ˇ'
+
+const CODEPAGE_LABELS: Record<number, string> = {
+  708: 'iso-8859-6',
+  866: 'ibm866',
+  874: 'windows-874',
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  10000: 'macintosh'
+}
+
+/**
+ * Decode bytes in a Windows code page (as declared by RTF `\ansicpgN`, for
+ * example). Unknown code pages fall back to Latin-1 so no byte is dropped.
+ */
+export function decodeCodepage(bytes: Buffer, codepage: number): string {
+  if (codepage === 1252) {
+    let text = ''
+    for (const byte of bytes) {
+      text +=
+        byte >= 0x80 && byte < 0xa0
+          ? (WINDOWS_1252_HIGH[byte - 0x80] ?? '')
+          : String.fromCharCode(byte)
+    }
+    return text
+  }
+
+  const label =
+    CODEPAGE_LABELS[codepage] ?? (codepage >= 1250 && codepage <= 1258 ? `windows-${codepage}` : '')
+  if (label) {
+    try {
+      return new TextDecoder(label).decode(bytes)
+    } catch {
+      // Fall through to Latin-1 when the runtime lacks the code page
+    }
+  }
+
+  return bytes.toString('latin1')
+}
+
+const LATIN1_LABELS = new Set([
+  'iso-8859-1',
+  'iso8859-1',
+  'iso_8859-1',
+  'latin1',
+  'l1',
+  'windows-1252',
+  'cp1252',
+  'x-cp1252'
+])
+
+/**
+ * Decode bytes using a MIME / HTML charset label. Latin-1 labels are decoded
+ * as Windows-1252, matching what browsers and mail clients do.
+ */
+export function decodeCharset(bytes: Buffer, charset = 'utf-8'): string {
+  const label = charset.trim().toLowerCase()
+
+  if (label === 'utf-8' || label === 'utf8' || label === 'us-ascii' || label === 'ascii') {
+    return bytes.toString('utf-8')
+  }
+  if (LATIN1_LABELS.has(label)) {
+    return decodeCodepage(bytes, 1252)
+  }
+
+  const codepage = /^(?:windows|cp)-?(\d+)$/.exec(label)
+  if (codepage) {
+    return decodeCodepage(bytes, parseInt(codepage[1]!, 10))
+  }
+
+  try {
+    return new TextDecoder(label).decode(bytes)
+  } catch {
+    return bytes.toString('utf-8')
+  }
+}
+
+export interface DecodedText {
+  text: string
+  /** Encoding label the bytes were decoded with, e.g. 'utf-8', 'utf-16le', 'windows-1252' */
+  encoding: string
+}
+
+// How much of the upload the UTF-16 heuristic looks at
+const DETECTION_SAMPLE = 8192
+
+function detectBom(bytes: Buffer): { encoding: string; length: number } | undefined {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', length: 3 }
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', length: 2 }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', length: 2 }
+  return undefined
+}
+
+// Text in UTF-16 without a BOM has a NUL in every other byte for ASCII characters
+function detectUtf16(sample: Buffer): string | undefined {
+  const pairs = Math.floor(sample.length / 2)
+  if (pairs < 2) return undefined
+
+  let evenZeros = 0
+  let oddZeros = 0
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (sample[i] === 0) evenZeros++
+    if (sample[i + 1] === 0) oddZeros++
+  }
+
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le'
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be'
+  return undefined
+}
+
+function isValidUtf8(bytes: Buffer): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Guess the encoding of a text upload: a byte order mark wins, then UTF-16
+ * without a BOM (NUL-byte pattern), then strict UTF-8 validation of the whole
+ * upload (an accented name may first appear deep in a transcript). Anything
+ * else is treated as a single-byte Western encoding, reported as
+ * Windows-1252 when it uses the 0x80-0x9F range (smart quotes, dashes) and
+ * as ISO-8859-1 otherwise.
+ */
+export function detectEncoding(bytes: Buffer): string {
+  const bom = detectBom(bytes)
+  if (bom) return bom.encoding
+
+  const sample = bytes.subarray(0, DETECTION_SAMPLE)
+  const utf16 = detectUtf16(sample)
+  if (utf16) return utf16
+
+  if (isValidUtf8(bytes)) return 'utf-8'
+
+  return bytes.some((byte) => byte >= 0x80 && byte < 0xa0) ? 'windows-1252' : 'iso-8859-1'
+}
+
+/**
+ * Unicode NFC normalization plus line-ending cleanup: CRLF and lone CR become
+ * LF, Unicode line/paragraph separators become LF, and NULs and stray byte
+ * order marks are removed.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?|\u2028|\u2029/g, '\n')
+    .replace(/[\u0000\uFEFF]/g, '')
+    .normalize('NFC')
+}
+
+/**
+ * Decode and normalize a text upload. A BOM always wins; otherwise a declared
+ * charset (e.g. from the upload's Content-Type) is used, and without one the
+ * encoding is detected from the bytes.
+ */
+export function decodeText(bytes: Buffer, declaredCharset?: string): DecodedText {
+  const bom = detectBom(bytes)
+  const encoding = bom?.encoding ?? declaredCharset?.trim().toLowerCase() ?? detectEncoding(bytes)
+  const body = bom ? bytes.subarray(bom.length) : bytes
+
+  let text: string
+  switch (encoding) {
+    case 'utf-16le':
+      text = body.toString('utf16le')
+      break
+    case 'utf-16be':
+      text = new TextDecoder('utf-16be').decode(body)
+      break
+    default:
+      text = decodeCharset(body, encoding)
+  }
+
+  return { text: normalizeText(text), encoding }
+}
@@ -0,0 +1,414 @@
+import type {
+  DocumentIndexes,
+  EntityAliasDictionary,
+  EntityIndex,
+  EntitySource
+} from '../types/index.js'
+
+export interface SourceIndexes {
+  /** Name of the source document */
+  document: string
+  indexes: DocumentIndexes
+}
+
+export interface EntityResolutionOptions {
+  /** User-supplied aliases; they are applied before, and win over, the heuristics */
+  aliases?: EntityAliasDictionary
+}
+
+interface Form {
+  /** The name as first written */
+  name: string
+  key: string
+  /** Lowercase name words without titles or punctuation */
+  tokens: string[]
+  /** Local part of an email address or @handle, letters and digits only */
+  handle?: string
+  types: Map<EntityIndex['type'], number>
+  mentions: number
+  context: string[]
+  /** Mentions in each source document */
+  documents: Map<string, number>
+  /** Section IDs the name was found in, per source document */
+  sections: Map<string, Set<string>>
+}
+
+const EMAIL = /^([\p{L}\p{N}._%+-]+)@[\p{L}\p{N}.-]+$/u
+const HANDLE = /^@([\p{L}\p{N}._-]+)$/u
+const TITLES = new Set(['mr', 'mrs', 'ms', 'mx', 'dr', 'prof', 'sir', 'dame'])
+const ORG_SUFFIXES = new Set([
+  'inc',
+  'incorporated',
+  'corp',
+  'corporation',
+  'ltd',
+  'limited',
+  'llc',
+  'plc',
+  'co',
+  'company',
+  'gmbh',
+  'ag',
+  'group'
+])
+const ACRONYM_STOPWORDS = new Set(['of', 'and', 'the', 'for', '&'])
+const MAX_CONTEXT = 5
+
+function normalizeKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^\p{L}\p{N}&]+/u)
+    .filter((token) => token && !TITLES.has(token))
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]!
+}
+
+function dominantType(form: Form): EntityIndex['type'] {
+  return [...form.types.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'other'
+}
+
+function tokenMatches(a: string, b: string): boolean {
+  return a === b || (a.length === 1 && b.startsWith(a)) || (b.length === 1 && a.startsWith(b))
+}
+
+// How complete a name is: full words first, then words of any kind
+function specificity(form: Form): [number, number] {
+  return [form.tokens.filter((token) => token.length > 1).length, form.tokens.length]
+}
+
+function isAtLeastAsSpecific(a: Form, b: Form): boolean {
+  const [aWords, aTokens] = specificity(a)
+  const [bWords, bTokens] = specificity(b)
+  return aWords > bWords || (aWords === bWords && aTokens >= bTokens)
+}
+
+/**
+ * Whether `short` can name the same person as `long`: "J. Smith", "Smith"
+ * and "John" for "John Smith", or "John Smith" for "John A. Smith".
+ */
+function isPersonVariant(short: string[], long: string[]): boolean {
+  const last = short[short.length - 1]
+  if (!last || long.length < short.length) return false
+  if (short.length === 1) return last === long[long.length - 1] || last === long[0]
+  if (last.length === 1 || last !== long[long.length - 1]) return false
+
+  let position = 0
+  for (const token of short.slice(0, -1)) {
+    while (position < long.length - 1 && !tokenMatches(token, long[position]!)) position++
+    if (position >= long.length - 1) return false
+    position++
+  }
+  return true
+}
+
+// "Acme" for "Acme Corp", "IBM" for "International Business Machines"
+function isOrganizationVariant(short: string[], long: string[]): boolean {
+  const strip = (tokens: string[]): string[] => {
+    const stripped = tokens.filter((token) => !ORG_SUFFIXES.has(token))
+    return stripped.length > 0 ? stripped : tokens
+  }
+  const a = strip(short)
+  const b = strip(long)
+  if (a.join(' ') === b.join(' ')) return true
+
+  const words = b.filter((token) => !ACRONYM_STOPWORDS.has(token))
+  return a.length === 1 && words.length >= 2 && a[0] === words.map((token) => token[0]).join('')
+}
+
+// Spelling slips in one longer word, such as "Micheal Smith" for "Michael Smith"
+function isTypo(a: Form, b: Form): boolean {
+  if (a.tokens.length !== b.tokens.length) return false
+  const differing = a.tokens
+    .map((token, index) => [token, b.tokens[index]!] as const)
+    .filter(([left, right]) => left !== right)
+  if (differing.length !== 1) return false
+  const [left, right] = differing[0]!
+  const length = Math.min(left.length, right.length)
+  return length >= 5 && left[0] === right[0] && editDistance(left, right) <= (length >= 7 ? 2 : 1)
+}
+
+function isVariant(short: Form, long: Form): boolean {
+  const types = new Set([dominantType(short), dominantType(long)])
+  types.delete('other')
+  if (types.size > 1 || types.has('date')) return false
+  if (isTypo(short, long)) return true
+  if (!types.has('organization') && !types.has('location')) {
+    if (isPersonVariant(short.tokens, long.tokens)) return true
+  }
+  return !types.has('person') && isOrganizationVariant(short.tokens, long.tokens)
+}
+
+// Handles people commonly get: jsmith, john.smith, johnsmith, smithj, john
+function handleCandidates(form: Form): string[] {
+  const words = form.tokens
+  const first = words[0]
+  const last = words[words.length - 1]
+  if (!first || !last) return []
+  if (words.length === 1) return [first]
+  return [first + last, first[0] + last, first + last[0], last + first, last + first[0]]
+}
+
+function createForm(name: string): Form {
+  const handle = (EMAIL.exec(name) ?? HANDLE.exec(name))?.[1]
+  return {
+    name,
+    key: normalizeKey(name),
+    tokens: nameTokens(name),
+    ...(handle
+      ? {
+          handle: handle
+            .split('+')[0]!
+            .toLowerCase()
+            .replace(/[^\p{L}\p{N}]/gu, '')
+        }
+      : {}),
+    types: new Map(),
+    mentions: 0,
+    context: [],
+    documents: new Map(),
+    sections: new Map()
+  }
+}
+
+function pickCanonical(forms: Form[]): Form {
+  const names = forms.filter((form) => !form.handle)
+  const score = (form: Form): number[] => [
+    form.tokens.every((token) => token.length > 1) ? 1 : 0,
+    form.tokens.length,
+    form.mentions,
+    form.name.length
+  ]
+  const compare = (a: Form, b: Form): number => {
+    const left = score(a)
+    const right = score(b)
+    const index = left.findIndex((value, i) => value !== right[i])
+    return index === -1 ? 0 : right[index]! - left[index]!
+  }
+  return [...(names.length > 0 ? names : forms)].sort(compare)[0]!
+}
+
+/**
+ * Cluster the entities of several documents that name the same thing, such
+ * as "J. Smith", "John Smith" and "jsmith@corp". Names are linked by the
+ * user's alias dictionary, then by string similarity (initials, partial
+ * names, organization suffixes, acronyms, spelling slips) and finally by
+ * mapping email addresses and handles to names. When a name fits several
+ * entities, the one it co-occurs with most (shared documents and shared
+ * neighbouring entities) wins; a tie leaves the name on its own.
+ *
+ * Each resolved entity gets a canonical name, the aliases it appeared under
+ * and its mentions (and sections, when known) in every source document.
+ */
+export function resolveEntities(
+  sources: SourceIndexes[],
+  options: EntityResolutionOptions = {}
+): EntityIndex[] {
+  const forms = new Map<string, Form>()
+  for (const { document, indexes } of sources) {
+    for (const entity of indexes.entities) {
+      const key = normalizeKey(entity.name)
+      if (!key) continue
+      const form = forms.get(key) ?? createForm(entity.name.trim())
+      form.mentions += entity.mentions
+      form.types.set(entity.type, (form.types.get(entity.type) ?? 0) + entity.mentions)
+      form.documents.set(document, (form.documents.get(document) ?? 0) + entity.mentions)
+      form.context.push(...entity.context)
+      if (entity.sectionIds?.length) {
+        const sections = form.sections.get(document) ?? new Set<string>()
+        for (const id of entity.sectionIds) sections.add(id)
+        form.sections.set(document, sections)
+      }
+      forms.set(key, form)
+    }
+  }
+
+  const all = [...forms.values()]
+  const parent = new Map(all.map((form) => [form, form]))
+  const canonical = new Map<Form, string>()
+
+  const find = (form: Form): Form => {
+    let root = form
+    while (parent.get(root) !== root) root = parent.get(root)!
+    parent.set(form, root)
+    return root
+  }
+  const union = (a: Form, b: Form): void => {
+    const left = find(a)
+    const right = find(b)
+    if (left === right) return
+    const leftName = canonical.get(left)
+    const rightName = canonical.get(right)
+    // Two different user-named entities are never merged
+    if (leftName && rightName && leftName !== rightName) return
+    parent.set(right, left)
+    if (rightName) canonical.set(left, rightName)
+  }
+  const members = (root: Form): Form[] => all.filter((form) => find(form) === root)
+
+  for (const [name, aliases] of Object.entries(options.aliases ?? {})) {
+    const keys = new Set([name, ...aliases].map(normalizeKey))
+    const matched = all.filter((form) => keys.has(form.key))
+    const first = matched[0]
+    if (!first || matched.some((form) => canonical.has(find(form)))) continue
+    for (const form of matched) union(first, form)
+    canonical.set(find(first), name.trim())
+  }
+
+  const neighbours = (cluster: Form[]): Set<Form> => {
+    const documents = new Set(cluster.flatMap((form) => [...form.documents.keys()]))
+    const roots = new Set<Form>()
+    for (const form of all) {
+      if ([...form.documents.keys()].some((document) => documents.has(document))) {
+        roots.add(find(form))
+      }
+    }
+    for (const form of cluster) roots.delete(find(form))
+    return roots
+  }
+  const coOccurrence = (form: Form, root: Form): number => {
+    const cluster = members(root)
+    const sharedDocuments = [...form.documents.keys()].filter((document) =>
+      cluster.some((member) => member.documents.has(document))
+    ).length
+    const around = neighbours(cluster)
+    const sharedNeighbours = [...neighbours([form])].filter(
+      (other) => other !== root && around.has(other)
+    ).length
+    return sharedDocuments + sharedNeighbours
+  }
+  // Names that fit several entities wait until every unambiguous link is made
+  const ambiguous: Array<{ form: Form; candidates: Form[] }> = []
+  const attach = (form: Form, candidates: Form[]): void => {
+    const roots = new Set(candidates.map(find))
+    roots.delete(find(form))
+    if (roots.size === 1) union([...roots][0]!, form)
+    else if (roots.size > 1) ambiguous.push({ form, candidates })
+  }
+
+  // The most complete names form their entities before shorter names pick one
+  const names = all
+    .filter((form) => !form.handle && form.tokens.length > 0)
+    .sort((a, b) => {
+      const [aWords, aTokens] = specificity(a)
+      const [bWords, bTokens] = specificity(b)
+      return bWords - aWords || bTokens - aTokens
+    })
+  for (const form of names) {
+    attach(
+      form,
+      names.filter(
+        (other) => other !== form && isAtLeastAsSpecific(other, form) && isVariant(form, other)
+      )
+    )
+  }
+
+  const handles = all.filter((form) => form.handle)
+  for (const form of handles) {
+    const same = handles.find((other) => other.handle === form.handle)
+    if (same && same !== form) union(same, form)
+  }
+  for (const form of handles) {
+    attach(
+      form,
+      names.filter(
+        (other) =>
+          dominantType(other) !== 'organization' && handleCandidates(other).includes(form.handle!)
+      )
+    )
+  }
+
+  for (const { form, candidates } of ambiguous) {
+    const roots = new Set(candidates.map(find))
+    roots.delete(find(form))
+    const [best, next] = [...roots]
+      .map((root) => ({ root, score: coOccurrence(form, root) }))
+      .sort((a, b) => b.score - a.score)
+    if (best && best.score > 0 && best.score > (next?.score ?? 0)) union(best.root, form)
+  }
+
+  const clusters = new Map<Form, Form[]>()
+  for (const form of all) {
+    const root = find(form)
+    clusters.set(root, [...(clusters.get(root) ?? []), form])
+  }
+
+  return [...clusters.entries()]
+    .map(([root, cluster]) => buildEntity(cluster, canonical.get(root), sources))
+    .sort((a, b) => b.mentions - a.mentions || a.name.localeCompare(b.name))
+}
+
+function buildEntity(
+  cluster: Form[],
+  canonicalName: string | undefined,
+  sources: SourceIndexes[]
+): EntityIndex {
+  const byMentions = [...cluster].sort((a, b) => b.mentions - a.mentions)
+  const name = canonicalName ?? pickCanonical(cluster).name
+  const nameKey = normalizeKey(name)
+
+  const types = new Map<EntityIndex['type'], number>()
+  for (const form of cluster) {
+    for (const [type, count] of form.types) types.set(type, (types.get(type) ?? 0) + count)
+  }
+  const type =
+    [...types.entries()]
+      .filter(([candidate]) => candidate !== 'other')
+      .sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'other'
+
+  const context: string[] = []
+  const seen = new Set<string>()
+  for (const line of byMentions.flatMap((form) => form.context)) {
+    if (context.length >= MAX_CONTEXT || seen.has(normalizeKey(line))) continue
+    seen.add(normalizeKey(line))
+    context.push(line)
+  }
+
+  const aliases = byMentions.filter((form) => form.key !== nameKey).map((form) => form.name)
+  const entitySources: EntitySource[] = [...new Set(sources.map(({ document }) => document))]
+    .map((document) => {
+      const present = byMentions.filter((form) => form.documents.has(document))
+      const sectionIds = [
+        ...new Set(present.flatMap((form) => [...(form.sections.get(document) ?? [])]))
+      ]
+      return {
+        document,
+        mentions: present.reduce((total, form) => total + form.documents.get(document)!, 0),
+        names: present.map((form) => form.name),
+        ...(sectionIds.length > 0 ? { sectionIds } : {})
+      }
+    })
+    .filter((source) => source.mentions > 0)
+
+  return {
+    name,
+    type,
+    mentions: cluster.reduce((total, form) => total + form.mentions, 0),
+    context,
+    ...(aliases.length > 0 ? { aliases } : {}),
+    sources: entitySources
+  }
+}
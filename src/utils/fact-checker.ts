@@ -0,0 +1,421 @@
+import type { FactCheckReport, FactFinding, FactKind } from '../types/index.js'
+
+interface Fact {
+  kind: FactKind
+  /** The fact as written */
+  text: string
+  /** Normalized form compared between documents */
+  key: string
+  /** Character offset in the document */
+  offset: number
+  /** Relative position in the document, 0-1 */
+  position: number
+  /** Words around the fact, used to pair an altered fact with its source */
+  context: Set<string>
+  /** Year, month and day of dates; any of them may be missing */
+  date?: [number | undefined, number | undefined, number | undefined]
+  /** Numeric value of amounts, percentages and numbers */
+  value?: number
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const MONTH =
+  '(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?'
+const AMOUNT = '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)'
+const SCALE = '(?:\\s?(k|m|bn|thousand|million|billion)\\b)?'
+const CURRENCY_CODE = '(USD|EUR|GBP|JPY|CAD|AUD|CHF|dollars?|euros?|pounds?)'
+
+// Extracted in this order; each match is masked so later patterns do not see it again
+const PATTERNS: Array<{ kind: FactKind; pattern: RegExp }> = [
+  {
+    kind: 'currency',
+    pattern: new RegExp(`(?:([$€£¥])|\\b(USD|EUR|GBP|JPY|CAD|AUD|CHF)\\s?)${AMOUNT}${SCALE}`, 'g')
+  },
+  {
+    kind: 'currency',
+    pattern: new RegExp(`(?<![\\w.])${AMOUNT}${SCALE}\\s?${CURRENCY_CODE}\\b`, 'gi')
+  },
+  { kind: 'percentage', pattern: /(?<![\w.])(\d+(?:\.\d+)?)\s?(?:%|percent\b|per cent\b)/gi },
+  { kind: 'date', pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g },
+  { kind: 'date', pattern: /\b(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})\b/g },
+  {
+    kind: 'date',
+    pattern: new RegExp(`\\b${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`, 'g')
+  },
+  {
+    kind: 'date',
+    pattern: new RegExp(
+      `\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}(?:,?\\s+(\\d{4})\\b)?`,
+      'g'
+    )
+  },
+  { kind: 'date', pattern: new RegExp(`\\b${MONTH}\\s+(\\d{4})\\b`, 'g') },
+  { kind: 'time', pattern: /\b(\d{1,2})(?::(\d{2}))?\s?([ap])\.?m\b\.?/gi },
+  { kind: 'time', pattern: /\b(\d{1,2}):(\d{2})(?::\d{2})?\b/g },
+  {
+    kind: 'number',
+    pattern:
+      /(?<![\w.,-])(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)(?:\s(thousand|million|billion)\b)?(?![\w.]\w)/g
+  }
+]
+
+// Structure the optimizer adds or keeps (anchors, citations, section IDs, list numbering)
+const STRUCTURE = [
+  /\[t=[\d:]+\]/g,
+  /\[p\.\d+\]/g,
+  /\bt=\d{1,2}:\d{2}(?::\d{2})?/g,
+  /\bpp?\.\s?\d+(?:[-–]\d+)?/g,
+  /\bsec-\d+(?:-\d+)*(?:-[a-z0-9][\w-]*)?/g,
+  /\[\^\w+\]/g,
+  /^\s*(?:#{1,6}\s+)?\d+(?:\.\d+)*[.)](?=\s)/gm
+]
+
+const NAME =
+  /(?<![\p{L}\p{N}])\p{Lu}[\p{L}\p{M}'’-]*(?:[ \t]+(?:(?:van|von|de|da|del|der|di|le|la|bin|al)[ \t]+)?\p{Lu}[\p{L}\p{M}'’-]*)*/gu
+
+// Capitalized words that start sentences without naming anything
+const STOPWORDS = new Set(
+  [
+    'a an and any are as at be but by can could did do does each every for from he her',
+    "here his how i i'd i'll i'm i've if in is it it's its let let's my no not note of ok",
+    'okay on or our please she so some that the their then there these they this those',
+    "thanks thank to was we we'll we're were what when where which while who why will",
+    'with would yes you your also after before hi hello dear'
+  ]
+    .join(' ')
+    .split(' ')
+)
+
+const SCALES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  million: 1e6,
+  bn: 1e9,
+  billion: 1e9
+}
+const CURRENCIES: Record<string, string> = {
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  dollar: 'USD',
+  euro: 'EUR',
+  pound: 'GBP'
+}
+
+// Characters on each side of a fact searched for context words
+const CONTEXT_CHARS = 60
+const MAX_FINDINGS = 50
+
+function parseAmount(amount: string, scale?: string): number {
+  const value = Number(amount.replace(/,/g, '')) * (scale ? (SCALES[scale.toLowerCase()] ?? 1) : 1)
+  return Math.round(value * 100) / 100
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1
+}
+
+function fullYear(year: string | undefined): number | undefined {
+  if (!year) return undefined
+  const value = Number(year)
+  return value < 100 ? 2000 + value : value
+}
+
+function dateKey(date: Fact['date']): string {
+  return `date:${date!.map((part) => part ?? '*').join('-')}`
+}
+
+function buildFact(kind: FactKind, match: RegExpMatchArray, patternIndex: number): Partial<Fact> {
+  const [text, ...groups] = match
+  switch (kind) {
+    case 'currency': {
+      const [symbol, code, amount, scale] =
+        patternIndex === 0 ? groups : [undefined, groups[2], groups[0], groups[1]]
+      const unit = symbol
+        ? CURRENCIES[symbol]!
+        : (CURRENCIES[code!.toLowerCase().replace(/s$/, '')] ?? code!.toUpperCase())
+      const value = parseAmount(amount!, scale)
+      return { key: `currency:${unit}:${value}`, value }
+    }
+    case 'percentage': {
+      const value = parseAmount(groups[0]!)
+      return { key: `percentage:${value}`, value }
+    }
+    case 'date': {
+      let date: Fact['date']
+      if (/^\d{4}-/.test(text)) {
+        date = [Number(groups[0]), Number(groups[1]), Number(groups[2])]
+      } else if (text.includes('/')) {
+        // Month first unless that is impossible
+        const [first, second] = [Number(groups[0]), Number(groups[1])]
+        date =
+          first > 12 ? [fullYear(groups[2]), second, first] : [fullYear(groups[2]), first, second]
+      } else if (/^\d/.test(text)) {
+        date = [fullYear(groups[2]), monthNumber(groups[1]!), Number(groups[0])]
+      } else if (groups.length === 2) {
+        date = [fullYear(groups[1]), monthNumber(groups[0]!), undefined]
+      } else {
+        date = [fullYear(groups[2]), monthNumber(groups[0]!), Number(groups[1])]
+      }
+      return { key: dateKey(date), date }
+    }
+    case 'time': {
+      let hours = Number(groups[0])
+      const minutes = Number(groups[1] ?? 0)
+      const meridiem = groups[2]?.toLowerCase()
+      if (meridiem === 'p' && hours < 12) hours += 12
+      if (meridiem === 'a' && hours === 12) hours = 0
+      return { key: `time:${hours}:${String(minutes).padStart(2, '0')}` }
+    }
+    default: {
+      const value = parseAmount(groups[0]!, groups[1])
+      return { key: `number:${value}`, value }
+    }
+  }
+}
+
+function locate(
+  content: string,
+  offset: number,
+  length: number
+): Pick<Fact, 'offset' | 'position' | 'context'> {
+  // Only the fact's own sentence counts as its context
+  const before = content.slice(Math.max(0, offset - CONTEXT_CHARS), offset).split(/[.!?]\s|\n/)
+  const after = content
+    .slice(offset + length, offset + length + CONTEXT_CHARS)
+    .split(/[.!?](?:\s|$)|\n/)
+  const around = `${before[before.length - 1]} ${after[0]}`
+  const words = [...around.toLowerCase().matchAll(/\p{L}{3,}/gu)].map(([word]) => word)
+  return {
+    offset,
+    position: content.length === 0 ? 0 : offset / content.length,
+    context: new Set(words.filter((word) => !STOPWORDS.has(word)))
+  }
+}
+
+function mask(text: string, start: number, length: number): string {
+  return text.slice(0, start) + ' '.repeat(length) + text.slice(start + length)
+}
+
+function extractNumericFacts(content: string): { facts: Fact[]; masked: string } {
+  let masked = content
+  for (const pattern of STRUCTURE) {
+    masked = masked.replace(pattern, (match) => ' '.repeat(match.length))
+  }
+
+  const facts: Fact[] = []
+  PATTERNS.forEach(({ kind, pattern }, index) => {
+    // The two currency patterns are told apart by their index within the kind
+    const patternIndex = PATTERNS.slice(0, index).filter((entry) => entry.kind === kind).length
+    for (const match of [...masked.matchAll(pattern)]) {
+      const offset = match.index!
+      facts.push({
+        kind,
+        text: match[0].trim(),
+        ...locate(content, offset, match[0].length),
+        ...buildFact(kind, match, patternIndex)
+      } as Fact)
+      masked = mask(masked, offset, match[0].length)
+    }
+  })
+
+  return { facts: facts.sort((a, b) => a.offset - b.offset), masked }
+}
+
+function lowercaseWords(...texts: string[]): Set<string> {
+  const words = new Set<string>()
+  for (const text of texts) {
+    for (const [word] of text.matchAll(/(?<![\p{L}\p{N}])\p{Ll}[\p{L}\p{M}'’-]*/gu)) {
+      words.add(word.toLowerCase())
+    }
+  }
+  return words
+}
+
+/**
+ * Capitalized word runs that look like names. Headings and bold labels are
+ * skipped since the optimizer writes its own; a run's leading words are
+ * dropped while they are common sentence starters or, at the start of a
+ * sentence, words the documents also use in lowercase.
+ */
+function extractNames(content: string, masked: string, lowercase: Set<string>): Fact[] {
+  const facts: Fact[] = []
+  let lineStart = 0
+
+  for (const line of masked.split('\n')) {
+    const isHeading = /^\s*#{1,6}\s/.test(line)
+    const text = line.replace(/(\*\*|__)[^*_\n]{1,60}?:\1|(\*\*|__)[^*_\n]{1,60}?\2:/g, (label) =>
+      ' '.repeat(label.length)
+    )
+
+    for (const match of isHeading ? [] : text.matchAll(NAME)) {
+      const words = [...match[0].matchAll(/\S+/g)]
+      const before = text.slice(0, match.index).replace(/[\s*_>(["'“‘-]+$/, '')
+      let sentenceStart = before === '' || /[.!?:;]$/.test(before)
+
+      let first = 0
+      while (first < words.length) {
+        const word = words[first]![0].toLowerCase()
+        if (!STOPWORDS.has(word) && !(sentenceStart && lowercase.has(word))) break
+        first++
+        sentenceStart = false
+      }
+
+      const kept = words.slice(first).map(([word]) => word)
+      if (kept.length === 0) continue
+      if (kept.length === 1 && (kept[0]!.length < 2 || lowercase.has(kept[0]!.toLowerCase()))) {
+        continue
+      }
+
+      const name = kept.join(' ')
+      const offset = lineStart + match.index! + words[first]!.index!
+      facts.push({
+        kind: 'name',
+        text: name,
+        key: `name:${name.toLowerCase()}`,
+        ...locate(content, offset, name.length)
+      })
+    }
+
+    lineStart += line.length + 1
+  }
+
+  return facts
+}
+
+function nameTokens(fact: Fact): string[] {
+  return fact.text.toLowerCase().split(' ')
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]!
+}
+
+function datesAgree(a: Fact['date'], b: Fact['date']): boolean {
+  if (!a || !b || a[1] !== b[1]) return false
+  return [0, 2].every(
+    (part) => a[part] === undefined || b[part] === undefined || a[part] === b[part]
+  )
+}
+
+interface SourceIndex {
+  facts: Fact[]
+  nameTokens: Set<string>
+  /** Every number written in the document, including those inside dates and amounts */
+  numbers: Set<number>
+}
+
+function indexFacts(content: string, facts: Fact[]): SourceIndex {
+  return {
+    facts,
+    nameTokens: new Set(facts.filter((fact) => fact.kind === 'name').flatMap(nameTokens)),
+    numbers: new Set(
+      [...content.matchAll(/\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g)].map(([number]) =>
+        parseAmount(number)
+      )
+    )
+  }
+}
+
+/** Whether a fact is backed by the facts of the other document */
+function isSupported(fact: Fact, index: SourceIndex): boolean {
+  switch (fact.kind) {
+    case 'name':
+      return nameTokens(fact).every((token) => index.nameTokens.has(token))
+    case 'date':
+      return index.facts.some((other) => other.kind === 'date' && datesAgree(fact.date, other.date))
+    case 'number':
+      // A bare number may restate part of an amount, date or percentage
+      return (
+        index.numbers.has(fact.value!) || index.facts.some((other) => other.value === fact.value)
+      )
+    default:
+      return index.facts.some((other) => other.key === fact.key)
+  }
+}
+
+function sharedContext(a: Fact, b: Fact): number {
+  return [...a.context].filter((word) => b.context.has(word)).length
+}
+
+function isLikelyAlteration(fact: Fact, original: Fact): boolean {
+  if (fact.kind !== original.kind) return false
+  if (fact.kind !== 'name') return sharedContext(fact, original) > 0
+
+  const tokens = nameTokens(original)
+  return (
+    nameTokens(fact).some((token) => tokens.includes(token)) ||
+    editDistance(fact.text.toLowerCase(), original.text.toLowerCase()) <=
+      Math.max(2, Math.floor(original.text.length / 4))
+  )
+}
+
+function extractFacts(content: string, lowercase: Set<string>): Fact[] {
+  const { facts, masked } = extractNumericFacts(content)
+  return [...facts, ...extractNames(content, masked, lowercase)].sort((a, b) => a.offset - b.offset)
+}
+
+/**
+ * Compare the facts (amounts, percentages, dates, times, numbers and names)
+ * of an optimized document with its source. Facts that only the output
+ * contains are reported; when a source fact of the same kind that shares
+ * surrounding words went missing (or, for names, a similar name went
+ * missing) the output fact is reported as an alteration of it. Facts dropped from the output are
+ * not reported, since summaries legitimately leave details out.
+ */
+export function checkFacts(original: string, optimized: string): FactCheckReport {
+  const lowercase = lowercaseWords(original, optimized)
+  const source = extractFacts(original, lowercase)
+  const output = extractFacts(optimized, lowercase)
+
+  const sourceIndex = indexFacts(original, source)
+  const outputIndex = indexFacts(optimized, output)
+
+  // Source facts the output no longer contains are candidates for alterations
+  const missing = source.filter((fact) => !isSupported(fact, outputIndex))
+
+  const findings: FactFinding[] = []
+  const reported = new Set<string>()
+  for (const fact of output) {
+    if (reported.has(fact.key) || isSupported(fact, sourceIndex)) continue
+    reported.add(fact.key)
+
+    const original = missing
+      .filter((candidate) => isLikelyAlteration(fact, candidate))
+      .sort(
+        (a, b) =>
+          sharedContext(fact, b) - sharedContext(fact, a) ||
+          Math.abs(a.position - fact.position) - Math.abs(b.position - fact.position)
+      )[0]
+    if (original) missing.splice(missing.indexOf(original), 1)
+
+    findings.push({
+      kind: fact.kind,
+      issue: original ? 'altered' : 'added',
+      value: fact.text,
+      offset: fact.offset,
+      ...(original ? { original: original.text } : {})
+    })
+  }
+
+  return {
+    passed: findings.length === 0,
+    sourceFacts: source.length,
+    outputFacts: output.length,
+    findings: findings.slice(0, MAX_FINDINGS)
+  }
+}
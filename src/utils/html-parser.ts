@@ -0,0 +1,744 @@
+import { decodeText } from './encoding.js'
+import {
+  renderInlineSegments,
+  renderTable,
+  joinBlocks,
+  type InlineSegment,
+  type MarkdownBlock
+} from './markdown.js'
+import {
+  childElements,
+  findDescendants,
+  isElement,
+  textContent,
+  type XmlElement,
+  type XmlNode
+} from './xml.js'
+
+export interface HtmlExtractionResult {
+  markdown: string
+  title?: string
+  canonicalUrl?: string
+  headingCount: number
+  tableCount: number
+  /** Encoding the upload was decoded with */
+  encoding?: string
+}
+
+export interface HtmlConversionOptions {
+  /** Keep only the main content, dropping navigation, footers, sidebars and scripts */
+  mainContentOnly?: boolean
+}
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr'
+])
+
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title'])
+
+// Opening a tag implicitly closes these open elements, without crossing the boundaries
+const IMPLIED_END_TAGS: Record<string, { closes: string[]; boundaries: string[] }> = {
+  li: { closes: ['li'], boundaries: ['ul', 'ol', 'menu'] },
+  dt: { closes: ['dt', 'dd'], boundaries: ['dl'] },
+  dd: { closes: ['dt', 'dd'], boundaries: ['dl'] },
+  tr: { closes: ['tr', 'td', 'th'], boundaries: ['table', 'thead', 'tbody', 'tfoot'] },
+  td: { closes: ['td', 'th'], boundaries: ['tr', 'table'] },
+  th: { closes: ['td', 'th'], boundaries: ['tr', 'table'] },
+  thead: { closes: ['thead', 'tbody', 'tr', 'td', 'th'], boundaries: ['table'] },
+  tbody: { closes: ['thead', 'tbody', 'tr', 'td', 'th'], boundaries: ['table'] },
+  tfoot: { closes: ['thead', 'tbody', 'tr', 'td', 'th'], boundaries: ['table'] },
+  option: { closes: ['option'], boundaries: ['select'] }
+}
+
+const BLOCK_ELEMENTS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'body',
+  'center',
+  'details',
+  'div',
+  'dl',
+  'dd',
+  'dt',
+  'fieldset',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'html',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'summary',
+  'table',
+  'ul'
+])
+
+// Block elements that cannot live inside <p>, so opening one closes it
+const CLOSES_PARAGRAPH = new Set(
+  [...BLOCK_ELEMENTS].filter((name) => !['li', 'dd', 'dt', 'body', 'html'].includes(name))
+)
+const PARAGRAPH_BOUNDARIES = new Set([
+  'td',
+  'th',
+  'li',
+  'dd',
+  'dt',
+  'blockquote',
+  'table',
+  'button',
+  'body'
+])
+
+const DROPPED_ELEMENTS = new Set([
+  'button',
+  'canvas',
+  'embed',
+  'head',
+  'iframe',
+  'input',
+  'noscript',
+  'object',
+  'script',
+  'select',
+  'style',
+  'svg',
+  'template',
+  'textarea'
+])
+
+const BOILERPLATE_ELEMENTS = new Set(['aside', 'footer', 'form', 'nav'])
+const BOILERPLATE_ROLES = new Set([
+  'banner',
+  'complementary',
+  'contentinfo',
+  'navigation',
+  'search'
+])
+const BOILERPLATE_HINT =
+  /(^|[\s_-])(nav|navbar|menu|footer|sidebar|breadcrumbs?|cookie|banner|advert|ads?|social|share|related|comments?|popup|subscribe)([\s_-]|$)/i
+const CONTENT_HINT = /(^|[\s_-])(content|article|main|body|post|entry|text)([\s_-]|$)/i
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00A0',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  bull: '•',
+  middot: '·',
+  deg: '°',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  cent: '¢',
+  sect: '§',
+  para: '¶',
+  times: '×',
+  divide: '÷',
+  plusmn: '±',
+  frac12: '½',
+  frac14: '¼',
+  frac34: '¾',
+  aacute: 'á',
+  agrave: 'à',
+  acirc: 'â',
+  auml: 'ä',
+  ccedil: 'ç',
+  eacute: 'é',
+  egrave: 'è',
+  ecirc: 'ê',
+  iacute: 'í',
+  ntilde: 'ñ',
+  oacute: 'ó',
+  ouml: 'ö',
+  uacute: 'ú',
+  uuml: 'ü',
+  szlig: 'ß',
+  Eacute: 'É',
+  Auml: 'Ä',
+  Ouml: 'Ö',
+  Uuml: 'Ü'
+}
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(
+    /&(#[xX][0-9a-fA-F]+|#\d+|[a-zA-Z][a-zA-Z0-9]*);/g,
+    (match, entity: string) => {
+      if (entity.startsWith('#')) {
+        const codePoint =
+          entity[1] === 'x' || entity[1] === 'X'
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10)
+        return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match
+      }
+      return HTML_ENTITIES[entity] ?? match
+    }
+  )
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const pattern = /([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(raw)) !== null) {
+    const name = match[1]!.toLowerCase()
+    if (!(name in attributes)) {
+      attributes[name] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '')
+    }
+  }
+
+  return attributes
+}
+
+/**
+ * Parse HTML into an element tree the way browsers tolerate it: tag names are
+ * case-insensitive, void elements never take children, script/style bodies
+ * are raw text, and unclosed <p>, <li>, <td> and friends are closed implicitly.
+ */
+export function parseHtml(html: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] }
+  const stack: XmlElement[] = [root]
+  const current = (): XmlElement => stack[stack.length - 1]!
+  let pos = 0
+
+  const closeUntil = (closes: string[], boundaries: Set<string> | string[]): void => {
+    const stop = boundaries instanceof Set ? boundaries : new Set(boundaries)
+    for (let i = stack.length - 1; i > 0; i--) {
+      const name = stack[i]!.name
+      if (closes.includes(name)) {
+        stack.length = i
+        return
+      }
+      if (stop.has(name)) return
+    }
+  }
+
+  while (pos < html.length) {
+    const tagStart = html.indexOf('<', pos)
+    const textEnd = tagStart === -1 ? html.length : tagStart
+    if (textEnd > pos) current().children.push(decodeHtmlEntities(html.slice(pos, textEnd)))
+    if (tagStart === -1) break
+
+    const next = html[tagStart + 1] ?? ''
+
+    if (html.startsWith('<!--', tagStart)) {
+      const end = html.indexOf('-->', tagStart + 4)
+      pos = end === -1 ? html.length : end + 3
+      continue
+    }
+
+    if (next === '!' || next === '?') {
+      const end = html.indexOf('>', tagStart)
+      pos = end === -1 ? html.length : end + 1
+      continue
+    }
+
+    const isEndTag = next === '/'
+    const nameMatch = /^[a-zA-Z][a-zA-Z0-9:-]*/.exec(
+      html.slice(tagStart + (isEndTag ? 2 : 1), tagStart + 40)
+    )
+    if (!nameMatch) {
+      // A stray "<" is ordinary text
+      current().children.push('<')
+      pos = tagStart + 1
+      continue
+    }
+
+    const tagEnd = findTagEnd(html, tagStart)
+    const name = nameMatch[0].toLowerCase()
+    pos = tagEnd + 1
+
+    if (isEndTag) {
+      const index = stack.map((element) => element.name).lastIndexOf(name)
+      if (index > 0) stack.length = index
+      continue
+    }
+
+    const implied = IMPLIED_END_TAGS[name]
+    if (implied) closeUntil(implied.closes, implied.boundaries)
+    if (CLOSES_PARAGRAPH.has(name)) closeUntil(['p'], PARAGRAPH_BOUNDARIES)
+
+    const raw = html.slice(tagStart + 1 + nameMatch[0].length, tagEnd)
+    const element: XmlElement = { name, attributes: parseAttributes(raw), children: [] }
+    current().children.push(element)
+
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const close = html.toLowerCase().indexOf(`</${name}`, pos)
+      const end = close === -1 ? html.length : close
+      const text = html.slice(pos, end)
+      element.children.push(
+        name === 'title' || name === 'textarea' ? decodeHtmlEntities(text) : text
+      )
+      const closeEnd = close === -1 ? -1 : html.indexOf('>', close)
+      pos = closeEnd === -1 ? html.length : closeEnd + 1
+    } else if (!VOID_ELEMENTS.has(name) && !raw.trimEnd().endsWith('/')) {
+      stack.push(element)
+    }
+  }
+
+  return root
+}
+
+function findTagEnd(html: string, start: number): number {
+  let quote: string | undefined
+  for (let i = start + 1; i < html.length; i++) {
+    const char = html[i]
+    if (quote) {
+      if (char === quote) quote = undefined
+    } else if (char === '"' || char === "'") {
+      // Quotes only delimit attribute values, i.e. right after "="
+      if (/=\s*$/.test(html.slice(Math.max(start, i - 8), i))) quote = char
+    } else if (char === '>') {
+      return i
+    }
+  }
+  return html.length
+}
+
+function isHidden(element: XmlElement): boolean {
+  const style = element.attributes.style?.replace(/\s+/g, '').toLowerCase() ?? ''
+  return (
+    'hidden' in element.attributes ||
+    element.attributes['aria-hidden'] === 'true' ||
+    style.includes('display:none') ||
+    style.includes('visibility:hidden')
+  )
+}
+
+function isBoilerplate(element: XmlElement, insideArticle: boolean): boolean {
+  if (BOILERPLATE_ELEMENTS.has(element.name)) return true
+  if (element.name === 'header' && !insideArticle) return true
+  if (BOILERPLATE_ROLES.has(element.attributes.role ?? '')) return true
+
+  const hints = `${element.attributes.class ?? ''} ${element.attributes.id ?? ''}`
+  return BOILERPLATE_HINT.test(hints) && !CONTENT_HINT.test(hints)
+}
+
+/**
+ * Remove scripts, hidden elements and (optionally) navigation-like boilerplate in place.
+ */
+function prune(element: XmlElement, removeBoilerplate: boolean, insideArticle = false): void {
+  element.children = element.children.filter((child) => {
+    if (!isElement(child)) return true
+    if (DROPPED_ELEMENTS.has(child.name) || isHidden(child)) return false
+    if (removeBoilerplate && isBoilerplate(child, insideArticle)) return false
+    prune(
+      child,
+      removeBoilerplate,
+      insideArticle || child.name === 'article' || child.name === 'main'
+    )
+    return true
+  })
+}
+
+function linkDensity(element: XmlElement): number {
+  const total = textContent(element).replace(/\s+/g, '').length
+  if (total === 0) return 0
+  const linked = findDescendants(element, 'a').reduce(
+    (sum, link) => sum + textContent(link).replace(/\s+/g, '').length,
+    0
+  )
+  return linked / total
+}
+
+/**
+ * Pick the element most likely to hold the main content: an explicit
+ * <main>/<article>/role=main landmark, otherwise the container whose
+ * paragraphs score highest (a simplified Readability heuristic).
+ */
+function findMainContent(body: XmlElement): XmlElement {
+  const landmark =
+    findDescendants(body, 'main')[0] ??
+    findAll(body, (element) => element.attributes.role === 'main')[0] ??
+    (findDescendants(body, 'article').length === 1
+      ? findDescendants(body, 'article')[0]
+      : undefined)
+  if (landmark) return landmark
+
+  const scores = new Map<XmlElement, number>()
+  const visit = (element: XmlElement, ancestors: XmlElement[]): void => {
+    for (const child of childElements(element)) {
+      if (child.name === 'p' || child.name === 'pre' || child.name === 'td') {
+        const text = textContent(child).trim()
+        if (text.length >= 25) {
+          const score = 1 + text.split(',').length + Math.min(3, Math.floor(text.length / 100))
+          const [parent, grandparent] = [
+            ancestors[ancestors.length - 1],
+            ancestors[ancestors.length - 2]
+          ]
+          if (parent) scores.set(parent, (scores.get(parent) ?? 0) + score)
+          if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2)
+        }
+      }
+      visit(child, [...ancestors, child])
+    }
+  }
+  visit(body, [body])
+
+  let best: XmlElement | undefined
+  let bestScore = 0
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity(element))
+    if (adjusted > bestScore) {
+      best = element
+      bestScore = adjusted
+    }
+  }
+
+  return best ?? body
+}
+
+function findAll(element: XmlElement, predicate: (element: XmlElement) => boolean): XmlElement[] {
+  const matches: XmlElement[] = []
+  for (const child of childElements(element)) {
+    if (predicate(child)) matches.push(child)
+    matches.push(...findAll(child, predicate))
+  }
+  return matches
+}
+
+function normalizeInline(text: string): string {
+  return text
+    .replace(/[ \t\r\f\u00A0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .trim()
+}
+
+/**
+ * Walks an HTML element tree and emits Markdown blocks: headings, paragraphs,
+ * nested lists, tables (layout tables are unwrapped), code blocks, quotes and
+ * inline links/emphasis. Relative links are resolved against the base URL.
+ */
+class HtmlConverter {
+  headingCount = 0
+  tableCount = 0
+
+  constructor(private readonly baseUrl?: string) {}
+
+  convertContainer(element: XmlElement, listDepth = 0): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = []
+    let inline: XmlNode[] = []
+
+    const flushInline = (): void => {
+      const text = this.convertInline(inline)
+      if (text) blocks.push({ text, isListItem: false })
+      inline = []
+    }
+
+    for (const child of element.children) {
+      if (!isElement(child) || !BLOCK_ELEMENTS.has(child.name)) {
+        inline.push(child)
+        continue
+      }
+      flushInline()
+      blocks.push(...this.convertBlock(child, listDepth))
+    }
+    flushInline()
+
+    return blocks
+  }
+
+  private convertBlock(element: XmlElement, listDepth: number): MarkdownBlock[] {
+    switch (element.name) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6': {
+        const text = this.convertInline(element.children, false).replace(/\n+/g, ' ')
+        if (!text) return []
+        this.headingCount++
+        return [
+          { text: `${'#'.repeat(parseInt(element.name[1]!, 10))} ${text}`, isListItem: false }
+        ]
+      }
+      case 'p':
+      case 'summary':
+      case 'figcaption':
+      case 'dd': {
+        const text = this.convertInline(element.children)
+        return text ? [{ text, isListItem: false }] : []
+      }
+      case 'dt': {
+        const text = this.convertInline(element.children, false)
+        return text ? [{ text: `**${text}**`, isListItem: false }] : []
+      }
+      case 'ul':
+      case 'ol':
+        return this.convertList(element, listDepth)
+      case 'li':
+        // A list item outside a list is treated as a bullet
+        return this.convertList({ name: 'ul', attributes: {}, children: [element] }, listDepth)
+      case 'table':
+        return this.convertTable(element, listDepth)
+      case 'pre': {
+        const code = textContent(element).replace(/^\n/, '').replace(/\s+$/, '')
+        return code ? [{ text: `\`\`\`\n${code}\n\`\`\``, isListItem: false }] : []
+      }
+      case 'blockquote': {
+        const text = joinBlocks(this.convertContainer(element, listDepth))
+        return text
+          ? [
+              {
+                text: text
+                  .split('\n')
+                  .map((line) => (line ? `> ${line}` : '>'))
+                  .join('\n'),
+                isListItem: false
+              }
+            ]
+          : []
+      }
+      case 'hr':
+        return [{ text: '---', isListItem: false }]
+      default:
+        return this.convertContainer(element, listDepth)
+    }
+  }
+
+  private convertList(list: XmlElement, depth: number): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = []
+    const ordered = list.name === 'ol'
+    let counter = ordered ? parseInt(list.attributes.start ?? '1', 10) || 1 : 0
+    const indent = '  '.repeat(depth)
+
+    for (const item of childElements(list)) {
+      if (item.name !== 'li') {
+        blocks.push(...this.convertBlock(item, depth))
+        continue
+      }
+
+      const nested = item.children.filter(
+        (child): child is XmlElement =>
+          isElement(child) && (child.name === 'ul' || child.name === 'ol')
+      )
+      const text = this.convertInline(
+        item.children.filter((child) => !nested.includes(child as XmlElement))
+      ).replace(/\n+/g, ' ')
+      const marker = ordered ? `${counter++}.` : '-'
+
+      if (text) blocks.push({ text: `${indent}${marker} ${text}`, isListItem: true })
+      for (const sublist of nested) blocks.push(...this.convertList(sublist, depth + 1))
+    }
+
+    return blocks
+  }
+
+  private convertTable(table: XmlElement, listDepth: number): MarkdownBlock[] {
+    const rows = findAll(table, (element) => element.name === 'tr').filter(
+      (row) => this.closestTable(table, row) === table
+    )
+    const cellRows = rows.map((row) =>
+      childElements(row).filter((cell) => cell.name === 'td' || cell.name === 'th')
+    )
+    const columns = Math.max(0, ...cellRows.map((cells) => cells.length))
+
+    // Layout tables (single column, or wrapping other tables) are unwrapped
+    if (columns <= 1 || findDescendants(table, 'table').length > 0) {
+      return cellRows.flat().flatMap((cell) => this.convertContainer(cell, listDepth))
+    }
+
+    this.tableCount++
+    const data = cellRows.map((cells) =>
+      cells.flatMap((cell) => {
+        const text = joinBlocks(this.convertContainer(cell, listDepth)).replace(/\n{2,}/g, '\n')
+        const span = parseInt(cell.attributes.colspan ?? '1', 10) || 1
+        return [text, ...Array<string>(Math.max(0, span - 1)).fill('')]
+      })
+    )
+
+    return [{ text: renderTable(data), isListItem: false }]
+  }
+
+  private closestTable(root: XmlElement, target: XmlElement): XmlElement | undefined {
+    // The tree has no parent pointers, so walk down from the root table
+    const search = (element: XmlElement, table: XmlElement): XmlElement | undefined => {
+      for (const child of childElements(element)) {
+        if (child === target) return table
+        const found = search(child, child.name === 'table' ? child : table)
+        if (found) return found
+      }
+      return undefined
+    }
+    return search(root, root)
+  }
+
+  private convertInline(nodes: XmlNode[], allowEmphasis = true): string {
+    const segments: InlineSegment[] = []
+    this.collectInline(nodes, { bold: false, italic: false }, segments)
+    return normalizeInline(renderInlineSegments(segments, allowEmphasis))
+  }
+
+  private collectInline(
+    nodes: XmlNode[],
+    style: { bold: boolean; italic: boolean },
+    segments: InlineSegment[]
+  ): void {
+    for (const node of nodes) {
+      if (!isElement(node)) {
+        segments.push({ text: node.replace(/\s+/g, ' '), ...style })
+        continue
+      }
+
+      switch (node.name) {
+        case 'br':
+          segments.push({ text: '\n', ...style })
+          break
+        case 'strong':
+        case 'b':
+          this.collectInline(node.children, { ...style, bold: true }, segments)
+          break
+        case 'em':
+        case 'i':
+          this.collectInline(node.children, { ...style, italic: true }, segments)
+          break
+        case 'code':
+        case 'kbd':
+        case 'samp': {
+          const code = textContent(node).replace(/\s+/g, ' ').trim()
+          if (code) segments.push({ text: `\`${code}\``, bold: false, italic: false })
+          break
+        }
+        case 'a': {
+          const label = this.convertInline(node.children).replace(/\n+/g, ' ')
+          const href = this.resolveLink(node.attributes.href)
+          segments.push({
+            text: href && label ? `[${label}](${href})` : label,
+            bold: false,
+            italic: false
+          })
+          break
+        }
+        case 'img':
+          break
+        default:
+          // Block content nested in an inline context (e.g. <p> inside <td>) stays separated
+          if (BLOCK_ELEMENTS.has(node.name)) segments.push({ text: '\n', ...style })
+          this.collectInline(node.children, style, segments)
+          if (BLOCK_ELEMENTS.has(node.name)) segments.push({ text: '\n', ...style })
+      }
+    }
+  }
+
+  private resolveLink(href: string | undefined): string | undefined {
+    const target = href?.trim()
+    if (!target || target.startsWith('#') || /^(javascript|data):/i.test(target)) return undefined
+    try {
+      return new URL(target, this.baseUrl).toString()
+    } catch {
+      return target
+    }
+  }
+}
+
+function findMeta(head: XmlElement | undefined, key: string): string | undefined {
+  if (!head) return undefined
+  const meta = findDescendants(head, 'meta').find(
+    (element) => element.attributes.property === key || element.attributes.name === key
+  )
+  return meta?.attributes.content?.trim() || undefined
+}
+
+/**
+ * Convert an HTML string to Markdown. With `mainContentOnly`, navigation,
+ * headers, footers, sidebars and other boilerplate are removed first and only
+ * the main content container is converted.
+ */
+export function htmlToMarkdown(
+  html: string,
+  options: HtmlConversionOptions = {}
+): HtmlExtractionResult {
+  const document = parseHtml(html)
+  const head = findDescendants(document, 'head')[0]
+  const body = findDescendants(document, 'body')[0] ?? document
+
+  const titleElement = head ? findDescendants(head, 'title')[0] : undefined
+  const title =
+    (titleElement ? textContent(titleElement).replace(/\s+/g, ' ').trim() : '') ||
+    findMeta(head, 'og:title')
+  const canonicalLink = findDescendants(document, 'link').find((link) =>
+    (link.attributes.rel ?? '').toLowerCase().split(/\s+/).includes('canonical')
+  )
+  const canonicalUrl = canonicalLink?.attributes.href?.trim() || findMeta(head, 'og:url')
+  const baseHref = findDescendants(document, 'base')[0]?.attributes.href
+
+  prune(body, options.mainContentOnly ?? false)
+  const content = options.mainContentOnly ? findMainContent(body) : body
+
+  let baseUrl: string | undefined
+  try {
+    baseUrl = new URL(baseHref ?? canonicalUrl ?? '').toString()
+  } catch {
+    baseUrl = undefined
+  }
+
+  const converter = new HtmlConverter(baseUrl)
+  const markdown = joinBlocks(converter.convertContainer(content))
+
+  return {
+    markdown: markdown.trim(),
+    title: title || undefined,
+    canonicalUrl: canonicalUrl || undefined,
+    headingCount: converter.headingCount,
+    tableCount: converter.tableCount
+  }
+}
+
+export function isHtmlText(text: string): boolean {
+  return /^\s*(<!doctype\s+html|<html[\s>])/i.test(text)
+}
+
+/**
+ * Decode an uploaded HTML page (honouring its declared charset) and extract
+ * the main content as Markdown.
+ */
+export function extractHtmlText(buffer: Buffer): HtmlExtractionResult {
+  const head = buffer.subarray(0, 2048).toString('latin1')
+  const charset = /<meta[^>]+charset\s*=\s*["']?([\w-]+)/i.exec(head)?.[1]
+
+  const { text, encoding } = decodeText(buffer, charset)
+  return { ...htmlToMarkdown(text, { mainContentOnly: true }), encoding }
+}
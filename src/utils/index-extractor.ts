@@ -0,0 +1,741 @@
+import type { DocumentIndexes, EntityIndex, TimelineEntry, TopicIndex } from '../types/index.js'
+
+export interface IndexExtractionOptions {
+  /** Date that relative expressions ("next Friday") are resolved against */
+  referenceDate?: Date
+  maxEntities?: number
+  maxTopics?: number
+  maxTimeline?: number
+}
+
+interface Sentence {
+  text: string
+  /** Heading of the section the sentence belongs to */
+  section: string
+  sectionIndex: number
+  isHeading: boolean
+}
+
+interface Mention {
+  name: string
+  type: EntityIndex['type']
+  /** Mentions found by a title, role, suffix or label pattern rather than capitalization alone */
+  strong: boolean
+  sentence: number
+}
+
+interface EntityGroup {
+  name: string
+  /** How often each type was suggested for the entity */
+  types: Map<EntityIndex['type'], number>
+  /** Sentence of each mention */
+  sentences: number[]
+}
+
+interface ResolvedDate {
+  index: number
+  length: number
+  date: string
+  precision: 'day' | 'month'
+  relative: boolean
+}
+
+const MONTH_NAMES = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december'
+]
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+const MONTH =
+  '(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?'
+const WEEKDAY = '(Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday)'
+const COUNT = '(\\d+|one|two|three|four|five|six|seven|eight|nine|ten|a)'
+const COUNT_WORDS = [
+  'a',
+  'one',
+  'two',
+  'three',
+  'four',
+  'five',
+  'six',
+  'seven',
+  'eight',
+  'nine',
+  'ten'
+]
+
+const CAPITALIZED = "\\p{Lu}[\\p{L}\\p{M}'’-]*"
+const NAME_RUN = `${CAPITALIZED}(?:[ \\t]+(?:(?:van|von|de|da|del|der|di|le|la|bin|al)[ \\t]+)?${CAPITALIZED})*`
+const PERSON_TITLE = '(?:Mr|Mrs|Ms|Mx|Dr|Prof|Sir|Dame)\\.?'
+const ROLE =
+  '(?:CEO|CTO|CFO|COO|CIO|VP|SVP|EVP|President|Vice President|Director|Manager|Chair(?:man|woman|person)?|Senator|Judge|Professor|Officer|Engineer|Lead|Founder|Co-founder|Head)'
+const ORG_SUFFIX =
+  'Inc|Incorporated|Corp|Corporation|LLC|LLP|Ltd|Limited|GmbH|AG|plc|PLC|Group|Company|Co|Bank|University|College|Institute|Foundation|Agency|Association|Council|Committee|Commission|Board|Department|Ministry|Partners|Labs|Technologies|Systems|Holdings|Bureau|Authority'
+
+const ENTITY_PATTERNS: Array<{ type: EntityIndex['type']; pattern: RegExp; group: number }> = [
+  { type: 'person', pattern: new RegExp(`\\b${PERSON_TITLE}\\s+(${NAME_RUN})`, 'gu'), group: 1 },
+  {
+    type: 'person',
+    pattern: new RegExp(`\\b${ROLE}\\s+(${CAPITALIZED}(?:\\s+${CAPITALIZED}){1,2})`, 'gu'),
+    group: 1
+  },
+  {
+    type: 'person',
+    pattern: new RegExp(
+      `(${CAPITALIZED}(?:\\s+${CAPITALIZED}){1,2}),\\s+(?:(?:the|our|their|a|an)\\s+)?(?:${ROLE}|${ROLE.toLowerCase()})\\b`,
+      'gu'
+    ),
+    group: 1
+  },
+  {
+    type: 'person',
+    pattern: new RegExp(`^(?:From|To|Cc):\\s*"?(${NAME_RUN})"?\\s*<`, 'gu'),
+    group: 1
+  },
+  {
+    type: 'organization',
+    pattern: new RegExp(
+      `(?<![\\p{L}])((?:${CAPITALIZED}[ \\t]+){1,4}(?:${ORG_SUFFIX})\\b\\.?)`,
+      'gu'
+    ),
+    group: 1
+  },
+  {
+    type: 'organization',
+    pattern: new RegExp(
+      `\\b((?:University|Department|Ministry|Bank|Bureau|Institute|Office) of(?: the)? ${NAME_RUN})`,
+      'gu'
+    ),
+    group: 1
+  },
+  {
+    type: 'location',
+    pattern: new RegExp(
+      `\\b(?:in|near|based in|located in|headquartered in|offices? in)\\s+(${CAPITALIZED}(?:\\s${CAPITALIZED})?(?:,\\s${CAPITALIZED}(?:\\s${CAPITALIZED})?)?)`,
+      'gu'
+    ),
+    group: 1
+  }
+]
+
+const GENERIC_NAME = new RegExp(`(?<![\\p{L}\\p{N}])${NAME_RUN}`, 'gu')
+const ACRONYM = /(?<![\p{L}\p{N}])\p{Lu}{2,6}(?![\p{L}\p{N}])/gu
+// Line-start labels such as transcript speakers ("[t=00:01:05] Alice:")
+const SPEAKER_LABEL = new RegExp(
+  `^\\s*(?:\\[[^\\]]*\\]\\s*)?(?:[-*]\\s+)?(?:\\*\\*)?(${CAPITALIZED}(?:\\s${CAPITALIZED})?)(?:\\*\\*)?:(?:\\*\\*)?\\s`,
+  'u'
+)
+
+const STOPWORDS = new Set(
+  [
+    'a about above after again against all also am an and any are as at be because been before',
+    'being below between both but by can could did do does doing down during each few for from',
+    'further had has have having he her here hers herself him himself his how i if in into is it',
+    'its itself just let me more most my myself no nor not now of off on once only or other our',
+    'ours ourselves out over own same she should so some such than that the their theirs them',
+    'themselves then there these they this those through to too under until up very was we were',
+    'what when where which while who whom why will with would you your yours yourself yourselves',
+    "i'm i'll i've i'd we'll we're we've it's let's that's there's don't doesn't didn't can't",
+    "won't isn't aren't wasn't weren't hi hello dear thanks thank please yes ok okay get got",
+    'one two three four five six seven eight nine ten per via etc may might must shall need',
+    'use used using make made also like well new next last first still even much many really'
+  ]
+    .join(' ')
+    .split(' ')
+)
+
+// Stopwords that also begin place and organization names ("New York", "First Republic Bank")
+const NAME_WORDS = new Set(['new', 'first'])
+
+function isLeadingStopword(word: string): boolean {
+  return STOPWORDS.has(word) && !NAME_WORDS.has(word)
+}
+
+// Capitalized line labels and acronyms that do not name anything
+const NON_ENTITIES = new Set(
+  [
+    'note notes summary decision decisions action actions subject from to cc bcc date re fw fwd',
+    'agenda attendees question answer update status owner owners next steps tbd fyi asap faq',
+    'todo ok am pm eod eta usd eur gbp jpy ceo cto cfo coo cio vp svp evp hr it qa pr id url',
+    'api ui ux pdf csv faq kpi okr roi q1 q2 q3 q4 n/a'
+  ]
+    .join(' ')
+    .split(' ')
+)
+
+const HIGH_SIGNIFICANCE =
+  /\b(deadline|due|launch(?:es|ed)?|release[sd]?|go-live|sign(?:ed|s)?|effective|expires?|approved|decided|closes?|contract|payment|audit|must)\b/i
+
+const ABBREVIATION = /\b(?:Mr|Mrs|Ms|Mx|Dr|Prof|St|Sr|Jr|Inc|Corp|Ltd|Co|vs|etc|No|e\.g|i\.e)\.$/i
+
+const SENTENCE_LIMIT = 200
+const CONTEXT_LIMIT = 3
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1).trimEnd()}…` : text
+}
+
+function stripMarkdown(line: string): string {
+  return line
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]+/g, '')
+}
+
+/**
+ * Split a document into sentences, remembering the heading each one falls
+ * under. Headings and lines of a list are sentences of their own.
+ */
+function splitSentences(content: string): Sentence[] {
+  const sentences: Sentence[] = []
+  let section = ''
+  let sectionIndex = 0
+  let inFence = false
+
+  for (const rawLine of content.replace(/\r\n?/g, '\n').split('\n')) {
+    if (/^\s*(```|~~~)/.test(rawLine)) inFence = !inFence
+    if (inFence || !rawLine.trim()) continue
+
+    const heading = /^\s*#{1,6}\s+(.*)$/.exec(rawLine)
+    if (heading) {
+      section = normalizeSpace(
+        stripMarkdown(heading[1]!).replace(/\bsec-\d+(?:-\d+)*(?:-[\w-]+)?\s*/, '')
+      )
+      sectionIndex++
+      sentences.push({ text: section, section, sectionIndex, isHeading: true })
+      continue
+    }
+
+    const parts = stripMarkdown(rawLine).split(/(?<=[.!?])\s+(?=[\p{Lu}\p{N}"“([])/u)
+    parts.forEach((part, index) => {
+      // "Dr. Sarah Connor" is one sentence
+      if (index > 0 && ABBREVIATION.test(parts[index - 1]!)) {
+        const previous = sentences[sentences.length - 1]!
+        previous.text = normalizeSpace(`${previous.text} ${part}`)
+        return
+      }
+      const text = normalizeSpace(part)
+      if (text) sentences.push({ text, section, sectionIndex, isHeading: false })
+    })
+  }
+
+  return sentences
+}
+
+function lowercaseWords(content: string): Set<string> {
+  return new Set(
+    [...content.matchAll(/(?<![\p{L}\p{N}])\p{Ll}[\p{L}\p{M}'’-]*/gu)].map(([word]) =>
+      word.toLowerCase()
+    )
+  )
+}
+
+function cleanName(name: string): string {
+  const words = normalizeSpace(name.replace(/[’']s$/, '').replace(/[.,;:]+$/, '')).split(' ')
+  while (words.length > 1 && isLeadingStopword(words[0]!.toLowerCase())) words.shift()
+  return words.join(' ')
+}
+
+function isCalendarWord(word: string): boolean {
+  const lower = word.toLowerCase()
+  return (
+    MONTH_NAMES.some((month) => month === lower || month.slice(0, 3) === lower) ||
+    WEEKDAYS.includes(lower)
+  )
+}
+
+/**
+ * Capitalized runs that are not explained by their position: leading
+ * stopwords are dropped, and so is a sentence-initial word the document also
+ * uses in lowercase.
+ */
+function genericNames(text: string, lowercase: Set<string>): string[] {
+  const names: string[] = []
+
+  for (const match of text.matchAll(GENERIC_NAME)) {
+    const before = text.slice(0, match.index).replace(/[\s"“(['‘]+$/, '')
+    let sentenceStart = before === '' || /[.!?:;]$/.test(before)
+    const words = match[0].split(/[ \t]+/)
+
+    while (words.length > 0) {
+      const word = words[0]!.toLowerCase()
+      if (
+        !isLeadingStopword(word) &&
+        !NON_ENTITIES.has(word) &&
+        !(sentenceStart && lowercase.has(word))
+      ) {
+        break
+      }
+      words.shift()
+      sentenceStart = false
+    }
+
+    const name = cleanName(words.join(' '))
+    if (!name || words.every(isCalendarWord)) continue
+    if (words.length === 1 && (name.length < 3 || lowercase.has(name.toLowerCase()))) continue
+    // All-caps words are collected as acronyms
+    if (words.length === 1 && name === name.toUpperCase()) continue
+    names.push(name)
+  }
+
+  return names
+}
+
+function collectMentions(sentences: Sentence[], content: string): Mention[] {
+  const lowercase = lowercaseWords(content)
+  const mentions: Mention[] = []
+  const labelCounts = new Map<string, number>()
+
+  for (const line of content.split('\n')) {
+    const label = SPEAKER_LABEL.exec(line)?.[1]
+    if (label) labelCounts.set(label, (labelCounts.get(label) ?? 0) + 1)
+  }
+
+  sentences.forEach((sentence, index) => {
+    if (sentence.isHeading) return
+    const { text } = sentence
+
+    const label = SPEAKER_LABEL.exec(text)?.[1]
+    if (label && (labelCounts.get(label) ?? 0) >= 2 && !NON_ENTITIES.has(label.toLowerCase())) {
+      mentions.push({ name: label, type: 'person', strong: true, sentence: index })
+    }
+
+    for (const { type, pattern, group } of ENTITY_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        const name = cleanName(match[group] ?? '')
+        if (name.length < 2 || name.split(' ').every(isCalendarWord)) continue
+        if (type === 'location' && lowercase.has(name.toLowerCase())) continue
+        mentions.push({ name, type, strong: true, sentence: index })
+      }
+    }
+
+    for (const name of genericNames(text, lowercase)) {
+      mentions.push({ name, type: 'other', strong: false, sentence: index })
+    }
+
+    for (const [acronym] of text.matchAll(ACRONYM)) {
+      if (!NON_ENTITIES.has(acronym.toLowerCase())) {
+        mentions.push({ name: acronym, type: 'organization', strong: false, sentence: index })
+      }
+    }
+  })
+
+  return mentions
+}
+
+/**
+ * Group mentions into entities. Names found by a title, role, suffix or label
+ * pattern decide an entity's type; capitalized names seen only by their
+ * capitalization must recur to count, and a single word that is part of
+ * exactly one known person's name (a first or last name) is counted as a
+ * mention of that person.
+ */
+function buildEntities(mentions: Mention[], sentences: Sentence[], limit: number): EntityIndex[] {
+  const entities = new Map<string, EntityGroup>()
+
+  const add = (key: string, mention: Mention, type?: EntityIndex['type']): void => {
+    const entity: EntityGroup = entities.get(key) ?? {
+      name: mention.name,
+      types: new Map(),
+      sentences: []
+    }
+    if (type) entity.types.set(type, (entity.types.get(type) ?? 0) + 1)
+    entity.sentences.push(mention.sentence)
+    entities.set(key, entity)
+  }
+
+  // Several patterns can find the same name in one sentence ("Dr. Sarah Connor, CFO")
+  const seen = new Set<string>()
+  for (const mention of mentions.filter((mention) => mention.strong)) {
+    const key = mention.name.toLowerCase()
+    if (seen.has(`${mention.sentence}:${key}`)) continue
+    seen.add(`${mention.sentence}:${key}`)
+    add(key, mention, mention.type)
+  }
+
+  // A first or last name on its own (a speaker label, say) is the one person with that name
+  const people = [...entities.keys()].filter((key) => entities.get(key)!.types.has('person'))
+  for (const key of people.filter((person) => !person.includes(' '))) {
+    const owners = people.filter((other) => other !== key && other.split(' ').includes(key))
+    if (owners.length !== 1) continue
+    const owner = entities.get(owners[0]!)!
+    const alias = entities.get(key)!
+    owner.sentences.push(...alias.sentences)
+    for (const [type, count] of alias.types) {
+      owner.types.set(type, (owner.types.get(type) ?? 0) + count)
+    }
+    entities.delete(key)
+  }
+
+  // Capitalized runs inside a strong mention of the same sentence are that mention again
+  const strongNames = new Map<number, string[]>()
+  for (const mention of mentions.filter((mention) => mention.strong)) {
+    strongNames.set(mention.sentence, [
+      ...(strongNames.get(mention.sentence) ?? []),
+      ` ${mention.name.toLowerCase()} `
+    ])
+  }
+  const personTokens = new Map<string, string[]>()
+  for (const [key, entity] of entities) {
+    if (!entity.types.has('person')) continue
+    for (const token of key.split(' '))
+      personTokens.set(token, [...(personTokens.get(token) ?? []), key])
+  }
+
+  const weak = new Map<string, Mention[]>()
+  for (const mention of mentions.filter((mention) => !mention.strong)) {
+    const key = mention.name.toLowerCase()
+    if (strongNames.get(mention.sentence)?.some((name) => name.includes(` ${key} `))) continue
+
+    const owners = personTokens.get(key)
+    if (entities.has(key)) {
+      add(key, mention)
+    } else if (owners?.length === 1) {
+      add(owners[0]!, mention)
+    } else {
+      weak.set(key, [...(weak.get(key) ?? []), mention])
+    }
+  }
+
+  for (const [key, group] of weak) {
+    if (group.length < 2 && key.split(' ').length < 2) continue
+    for (const mention of group) add(key, mention, mention.type)
+  }
+
+  return [...entities.values()]
+    .map((entity) => {
+      const strongest = [...entity.types.entries()]
+        .filter(([type]) => type !== 'other')
+        .sort((a, b) => b[1] - a[1])[0]
+      const context = [...new Set(entity.sentences)]
+        .filter((index) => index >= 0)
+        .slice(0, CONTEXT_LIMIT)
+        .map((index) => truncate(sentences[index]!.text, SENTENCE_LIMIT))
+
+      return {
+        name: entity.name,
+        type: strongest?.[0] ?? 'other',
+        mentions: entity.sentences.length,
+        context
+      }
+    })
+    .sort((a, b) => b.mentions - a.mentions || a.name.localeCompare(b.name))
+    .slice(0, limit)
+}
+
+function formatDate(date: Date, precision: ResolvedDate['precision']): string {
+  return date.toISOString().slice(0, precision === 'day' ? 10 : 7)
+}
+
+function utcDate(year: number, month: number, day: number): Date | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCMonth() === month - 1 ? date : undefined
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 86400000)
+}
+
+function countValue(count: string): number {
+  const index = COUNT_WORDS.indexOf(count.toLowerCase())
+  return index === -1 ? Number(count) : Math.max(1, index)
+}
+
+function monthIndex(name: string): number {
+  return MONTH_NAMES.findIndex((month) => month.startsWith(name.slice(0, 3).toLowerCase())) + 1
+}
+
+function fullYear(year: string): number {
+  const value = Number(year)
+  return value < 100 ? 2000 + value : value
+}
+
+/**
+ * Find the dates in a sentence. Absolute dates missing a year, and relative
+ * expressions ("tomorrow", "next Friday", "in two weeks"), are resolved
+ * against the reference date and skipped when there is none.
+ */
+function findDates(text: string, reference: Date | undefined): ResolvedDate[] {
+  const found: ResolvedDate[] = []
+  let masked = text
+
+  const scan = (
+    pattern: RegExp,
+    resolve: (match: RegExpMatchArray) => { date?: Date; precision?: ResolvedDate['precision'] },
+    relative = false
+  ): void => {
+    for (const match of masked.matchAll(pattern)) {
+      const { date, precision = 'day' } = resolve(match)
+      if (!date) continue
+      found.push({
+        index: match.index!,
+        length: match[0].length,
+        date: formatDate(date, precision),
+        precision,
+        relative
+      })
+      masked =
+        masked.slice(0, match.index) +
+        ' '.repeat(match[0].length) +
+        masked.slice(match.index! + match[0].length)
+    }
+  }
+  const year = (value: string | undefined): number | undefined =>
+    value ? fullYear(value) : reference?.getUTCFullYear()
+
+  scan(/\b(\d{4})-(\d{2})-(\d{2})\b/g, ([, y, m, d]) => ({
+    date: utcDate(Number(y), Number(m), Number(d))
+  }))
+  scan(/\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g, ([, first, second, y]) => {
+    const [month, day] = Number(first) > 12 ? [second, first] : [first, second]
+    return { date: utcDate(fullYear(y!), Number(month), Number(day)) }
+  })
+  scan(
+    new RegExp(`\\b${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`, 'g'),
+    ([, month, day, y]) => {
+      const resolved = year(y)
+      return { date: resolved ? utcDate(resolved, monthIndex(month!), Number(day)) : undefined }
+    }
+  )
+  scan(
+    new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}(?:,?\\s+(\\d{4})\\b)?`, 'g'),
+    ([, day, month, y]) => {
+      const resolved = year(y)
+      return { date: resolved ? utcDate(resolved, monthIndex(month!), Number(day)) : undefined }
+    }
+  )
+  scan(new RegExp(`\\b${MONTH}\\s+(\\d{4})\\b`, 'g'), ([, month, y]) => ({
+    date: utcDate(Number(y), monthIndex(month!), 1),
+    precision: 'month'
+  }))
+
+  if (!reference) return found.sort((a, b) => a.index - b.index)
+
+  scan(
+    /\b(today|tonight|tomorrow|yesterday)\b/gi,
+    ([, word]) => ({
+      date: addDays(
+        reference,
+        { today: 0, tonight: 0, tomorrow: 1, yesterday: -1 }[word!.toLowerCase()] ?? 0
+      )
+    }),
+    true
+  )
+  scan(
+    new RegExp(`\\b(next|last|this|on|by|until|before)\\s+${WEEKDAY}\\b`, 'gi'),
+    ([, direction, weekday]) => {
+      const target = WEEKDAYS.indexOf(weekday!.toLowerCase())
+      const today = reference.getUTCDay()
+      const ahead = (target - today + 7) % 7
+      const offset =
+        direction!.toLowerCase() === 'last'
+          ? -((today - target + 7) % 7 || 7)
+          : direction!.toLowerCase() === 'next'
+            ? ahead || 7
+            : ahead
+      return { date: addDays(reference, offset) }
+    },
+    true
+  )
+  scan(
+    /\b(next|last|this)\s+(week|month|year)\b/gi,
+    ([, direction, unit]) => {
+      const step = { next: 1, last: -1, this: 0 }[direction!.toLowerCase()] ?? 0
+      if (unit!.toLowerCase() === 'week') return { date: addDays(reference, step * 7) }
+      const date = new Date(reference)
+      if (unit!.toLowerCase() === 'month') date.setUTCMonth(date.getUTCMonth() + step, 1)
+      else date.setUTCFullYear(date.getUTCFullYear() + step, 0, 1)
+      return { date, precision: 'month' }
+    },
+    true
+  )
+  const shift = (count: string, unit: string, sign: number): Date => {
+    const amount = countValue(count) * sign
+    if (/^week/i.test(unit)) return addDays(reference, amount * 7)
+    if (/^day/i.test(unit)) return addDays(reference, amount)
+    const date = new Date(reference)
+    date.setUTCMonth(date.getUTCMonth() + amount)
+    return date
+  }
+  scan(
+    new RegExp(`\\bin\\s+${COUNT}\\s+(days?|weeks?|months?)\\b`, 'gi'),
+    ([, count, unit]) => ({ date: shift(count!, unit!, 1) }),
+    true
+  )
+  scan(
+    new RegExp(`\\b${COUNT}\\s+(days?|weeks?|months?)\\s+(ago|later|from now)\\b`, 'gi'),
+    ([, count, unit, direction]) => ({
+      date: shift(count!, unit!, direction!.toLowerCase() === 'ago' ? -1 : 1)
+    }),
+    true
+  )
+
+  return found.sort((a, b) => a.index - b.index)
+}
+
+/** The first complete date written in the document, used when no reference date is given */
+function documentDate(sentences: Sentence[]): Date | undefined {
+  for (const sentence of sentences) {
+    const date = findDates(sentence.text, undefined).find(
+      (candidate) => candidate.precision === 'day' && !candidate.relative
+    )
+    if (date) return new Date(`${date.date}T00:00:00Z`)
+  }
+  return undefined
+}
+
+function buildTimeline(
+  sentences: Sentence[],
+  reference: Date | undefined,
+  limit: number
+): TimelineEntry[] {
+  const entries = new Map<string, TimelineEntry>()
+
+  for (const sentence of sentences) {
+    if (sentence.isHeading) continue
+    for (const found of findDates(sentence.text, reference)) {
+      const event = truncate(sentence.text, SENTENCE_LIMIT)
+      const significance: TimelineEntry['significance'] = HIGH_SIGNIFICANCE.test(sentence.text)
+        ? 'high'
+        : found.precision === 'day'
+          ? 'medium'
+          : 'low'
+      const key = `${found.date}|${event}`
+      if (!entries.has(key)) entries.set(key, { date: found.date, event, significance })
+    }
+  }
+
+  return [...entries.values()].sort((a, b) => a.date.localeCompare(b.date)).slice(0, limit)
+}
+
+function phraseCandidates(text: string, lowercase: Set<string>): string[][] {
+  // Stopwords, numbers, punctuation and proper nouns (words never written in lowercase) break phrases
+  const runs: string[][] = [[]]
+  for (const [token] of text
+    .toLowerCase()
+    .matchAll(/[\p{L}\p{N}][\p{L}\p{N}'’-]*|[^\s\p{L}\p{N}]+/gu)) {
+    const word = token.replace(/[’']s$/, '')
+    if (
+      /^\p{L}[\p{L}'-]{2,}$/u.test(word) &&
+      lowercase.has(word) &&
+      !STOPWORDS.has(word) &&
+      !isCalendarWord(word)
+    ) {
+      runs[runs.length - 1]!.push(word)
+    } else if (runs[runs.length - 1]!.length > 0) {
+      runs.push([])
+    }
+  }
+  return runs.filter((run) => run.length > 0)
+}
+
+/**
+ * Rank keyphrases (one to three words) by TF-IDF, treating the document's
+ * sections (or paragraphs, when it has no headings) as the corpus. Phrases
+ * that only ever occur inside a better-ranked longer phrase are dropped.
+ */
+function buildTopics(sentences: Sentence[], lowercase: Set<string>, limit: number): TopicIndex[] {
+  const hasHeadings = sentences.some((sentence) => sentence.isHeading)
+  const units = new Map<number, { label: string; text: string[] }>()
+  sentences.forEach((sentence, index) => {
+    const key = hasHeadings ? sentence.sectionIndex : index
+    const unit = units.get(key) ?? { label: sentence.section, text: [] }
+    unit.text.push(sentence.text)
+    units.set(key, unit)
+  })
+
+  const frequency = new Map<string, number>()
+  const documentFrequency = new Map<string, Set<number>>()
+  const labels = new Map<number, string>()
+  let unitIndex = 0
+  for (const unit of units.values()) {
+    labels.set(unitIndex, unit.label)
+    for (const run of unit.text.flatMap((text) => phraseCandidates(text, lowercase))) {
+      for (let size = 1; size <= 3; size++) {
+        for (let start = 0; start + size <= run.length; start++) {
+          const phrase = run.slice(start, start + size).join(' ')
+          frequency.set(phrase, (frequency.get(phrase) ?? 0) + 1)
+          documentFrequency.set(phrase, (documentFrequency.get(phrase) ?? new Set()).add(unitIndex))
+        }
+      }
+    }
+    unitIndex++
+  }
+
+  const ranked = [...frequency.entries()]
+    .map(([phrase, count]) => {
+      const words = phrase.split(' ').length
+      const idf = Math.log((unitIndex + 1) / (documentFrequency.get(phrase)!.size + 1)) + 1
+      return { phrase, count, score: count * idf * (1 + 0.5 * (words - 1)) }
+    })
+    .sort((a, b) => b.score - a.score || a.phrase.localeCompare(b.phrase))
+  // Short documents may repeat nothing; then single occurrences have to do
+  const recurring = ranked.filter(({ count }) => count >= 2)
+  const scored = recurring.length > 0 ? recurring : ranked
+
+  const chosen: typeof scored = []
+  for (const candidate of scored) {
+    if (chosen.length >= limit) break
+    const covered = chosen.some(
+      (other) =>
+        (` ${other.phrase} `.includes(` ${candidate.phrase} `) && other.count >= candidate.count) ||
+        ` ${candidate.phrase} `.includes(` ${other.phrase} `)
+    )
+    if (!covered) chosen.push(candidate)
+  }
+
+  const topScore = chosen[0]?.score ?? 1
+  return chosen.map(({ phrase, score }) => ({
+    topic: phrase.replace(/(^|\s)\p{L}/gu, (letter) => letter.toUpperCase()),
+    relevance: Math.round((score / topScore) * 100) / 100,
+    sections: [
+      ...new Set([...documentFrequency.get(phrase)!].map((index) => labels.get(index) || 'Content'))
+    ].slice(0, 5)
+  }))
+}
+
+/**
+ * The date relative expressions in a document are resolved against when no
+ * reference date is given: the first complete date it mentions.
+ */
+export function findReferenceDate(content: string): Date | undefined {
+  return documentDate(splitSentences(content))
+}
+
+/**
+ * Build entity, topic and timeline indexes with rules alone: people and
+ * organizations from titles, roles, speaker labels, company suffixes and
+ * recurring capitalized names; timeline entries from absolute and relative
+ * dates; topics from TF-IDF keyphrases. The result only depends on the
+ * content and the reference date, so it needs no model call.
+ */
+export function extractIndexes(
+  content: string,
+  options: IndexExtractionOptions = {}
+): DocumentIndexes {
+  const sentences = splitSentences(content)
+  const reference = options.referenceDate ?? documentDate(sentences)
+
+  return {
+    entities: buildEntities(
+      collectMentions(sentences, content),
+      sentences,
+      options.maxEntities ?? 25
+    ),
+    topics: buildTopics(sentences, lowercaseWords(content), options.maxTopics ?? 8),
+    timeline: buildTimeline(sentences, reference, options.maxTimeline ?? 25)
+  }
+}
@@ -0,0 +1,181 @@
+import type { DocumentIndexes, EntityIndex, TimelineEntry, TopicIndex } from '../types/index.js'
+
+export interface IndexPart {
+  indexes: DocumentIndexes
+  /** Share of the document the part covers, e.g. its token count */
+  weight: number
+}
+
+interface MergedEntity extends EntityIndex {
+  /** Mentions counted under each type the parts gave the entity */
+  types: Map<EntityIndex['type'], number>
+}
+
+const ENTITY_TYPES: EntityIndex['type'][] = ['person', 'organization', 'location', 'date', 'other']
+const SIGNIFICANCE: TimelineEntry['significance'][] = ['low', 'medium', 'high']
+const SECTION_HEADING = /^#{1,6}\s+(sec-\d+(?:-\d+)*(?:-[a-z0-9][\w-]*)?)\b/
+const MAX_CONTEXT = 5
+
+function normalizeKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : []
+}
+
+/**
+ * Keep the well-formed entries of model-generated indexes; models sometimes
+ * return other shapes (an object of name lists, missing fields, strings for
+ * numbers).
+ */
+export function sanitizeIndexes(value: unknown): DocumentIndexes {
+  const parsed = isRecord(value) ? value : {}
+  const entries = (key: string): Record<string, unknown>[] =>
+    Array.isArray(parsed[key]) ? (parsed[key] as unknown[]).filter(isRecord) : []
+
+  return {
+    entities: entries('entities')
+      .filter((entity) => typeof entity.name === 'string' && entity.name.trim())
+      .map((entity) => ({
+        name: (entity.name as string).trim(),
+        type: ENTITY_TYPES.includes(entity.type as EntityIndex['type'])
+          ? (entity.type as EntityIndex['type'])
+          : 'other',
+        mentions: Math.max(1, Math.round(Number(entity.mentions) || 1)),
+        context: stringList(entity.context)
+      })),
+    topics: entries('topics')
+      .filter((topic) => typeof topic.topic === 'string' && topic.topic.trim())
+      .map((topic) => ({
+        topic: (topic.topic as string).trim(),
+        relevance: Math.min(1, Math.max(0, Number(topic.relevance) || 0)),
+        sections: stringList(topic.sections)
+      })),
+    timeline: entries('timeline')
+      .filter((entry) => typeof entry.date === 'string' && typeof entry.event === 'string')
+      .map((entry) => ({
+        date: entry.date as string,
+        event: entry.event as string,
+        significance: SIGNIFICANCE.includes(entry.significance as TimelineEntry['significance'])
+          ? (entry.significance as TimelineEntry['significance'])
+          : 'medium'
+      }))
+  }
+}
+
+/**
+ * Merge the indexes extracted from the parts of one document. Entities with
+ * the same name are combined (mentions summed, contexts de-duplicated, the
+ * most common specific type kept); topic relevance is weighted by the size
+ * of each part and re-normalized so the strongest topic scores 1; timeline
+ * entries for the same date and event are kept once, at their highest
+ * significance.
+ */
+export function mergeIndexes(parts: IndexPart[]): DocumentIndexes {
+  const totalWeight = parts.reduce((total, part) => total + Math.max(part.weight, 0), 0) || 1
+
+  const entities = new Map<string, MergedEntity>()
+  const topics = new Map<string, TopicIndex>()
+  const timeline = new Map<string, TimelineEntry>()
+
+  for (const { indexes, weight } of parts) {
+    for (const entity of indexes.entities) {
+      const key = normalizeKey(entity.name)
+      const merged: MergedEntity = entities.get(key) ?? {
+        ...entity,
+        mentions: 0,
+        context: [],
+        types: new Map()
+      }
+      merged.mentions += entity.mentions
+      merged.types.set(entity.type, (merged.types.get(entity.type) ?? 0) + entity.mentions)
+      const seen = new Set(merged.context.map(normalizeKey))
+      for (const context of entity.context) {
+        if (merged.context.length >= MAX_CONTEXT || seen.has(normalizeKey(context))) continue
+        seen.add(normalizeKey(context))
+        merged.context.push(context)
+      }
+      entities.set(key, merged)
+    }
+
+    for (const topic of indexes.topics) {
+      const key = normalizeKey(topic.topic)
+      const merged = topics.get(key) ?? { ...topic, relevance: 0, sections: [] }
+      merged.relevance += topic.relevance * (Math.max(weight, 0) / totalWeight)
+      merged.sections = [...new Set([...merged.sections, ...topic.sections])]
+      topics.set(key, merged)
+    }
+
+    for (const entry of indexes.timeline) {
+      const key = `${entry.date}|${normalizeKey(entry.event)}`
+      const existing = timeline.get(key)
+      if (
+        !existing ||
+        SIGNIFICANCE.indexOf(entry.significance) > SIGNIFICANCE.indexOf(existing.significance)
+      ) {
+        timeline.set(key, entry)
+      }
+    }
+  }
+
+  const topRelevance = Math.max(0, ...[...topics.values()].map((topic) => topic.relevance)) || 1
+
+  return {
+    entities: [...entities.values()]
+      .map(({ types, ...entity }) => {
+        const specific = [...types.entries()]
+          .filter(([type]) => type !== 'other')
+          .sort((a, b) => b[1] - a[1])[0]
+        return { ...entity, type: specific?.[0] ?? entity.type }
+      })
+      .sort((a, b) => b.mentions - a.mentions),
+    topics: [...topics.values()]
+      .map((topic) => ({
+        ...topic,
+        relevance: Math.round((topic.relevance / topRelevance) * 100) / 100
+      }))
+      .sort((a, b) => b.relevance - a.relevance),
+    timeline: [...timeline.values()].sort((a, b) => a.date.localeCompare(b.date))
+  }
+}
+
+/**
+ * Record, for each entity, the IDs of the sections of the optimized Markdown
+ * (headings like `## sec-2-1-budget Budget`) that mention it by name or alias.
+ */
+export function attachEntitySections(indexes: DocumentIndexes, markdown: string): DocumentIndexes {
+  const sections: Array<{ id: string; text: string }> = []
+  for (const line of markdown.split('\n')) {
+    const id = SECTION_HEADING.exec(line)?.[1]
+    if (id) sections.push({ id, text: '' })
+    const current = sections[sections.length - 1]
+    if (current) current.text += `${line}\n`
+  }
+  if (sections.length === 0) return indexes
+
+  return {
+    ...indexes,
+    entities: indexes.entities.map((entity) => {
+      const names = [entity.name, ...(entity.aliases ?? [])].map(escapeRegExp).join('|')
+      const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${names})(?![\\p{L}\\p{N}])`, 'iu')
+      const sectionIds = sections
+        .filter((section) => pattern.test(section.text))
+        .map((section) => section.id)
+      return sectionIds.length > 0 ? { ...entity, sectionIds } : entity
+    })
+  }
+}
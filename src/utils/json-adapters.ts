@@ -0,0 +1,375 @@
+import type { DocumentType } from '../types/index.js'
+
+export interface JsonRendering {
+  content: string
+  /** Name of the adapter that produced the rendering */
+  adapter: string
+  type?: DocumentType
+  messageCount?: number
+  participants?: string[]
+}
+
+export interface JsonDocumentAdapter {
+  name: string
+  matches(value: unknown): boolean
+  render(value: unknown): JsonRendering
+}
+
+interface ChatMessage {
+  author?: string
+  timestamp?: string
+  text: string
+  /** Rendered indented below the previous top-level message */
+  isReply?: boolean
+}
+
+type JsonObject = Record<string, unknown>
+
+const AUTHOR_KEYS = ['author', 'from', 'sender', 'user', 'username', 'speaker', 'name']
+const TEXT_KEYS = ['text', 'message', 'body', 'content', 'comment']
+const TIMESTAMP_KEYS = ['timestamp', 'time', 'date', 'created_at', 'createdAt', 'sent_at', 'ts']
+const SUBJECT_KEYS = ['subject', 'title', 'summary']
+// Keeps the fallback view of very large payloads readable
+const MAX_FLATTENED_LINES = 2000
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function pickKey(object: JsonObject, keys: string[]): string | undefined {
+  return keys.find((key) => object[key] !== undefined && object[key] !== null)
+}
+
+function stringValue(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  if (isObject(value)) {
+    // e.g. { "name": "Dana" } or { "email": "dana@example.com" }
+    const nested = pickKey(value, ['name', 'display_name', 'real_name', 'email', 'text'])
+    return nested ? stringValue(value[nested]) : undefined
+  }
+  return undefined
+}
+
+/**
+ * Normalize epoch seconds/milliseconds (as numbers or Slack-style "1704705240.000100"
+ * strings) and date strings to ISO 8601; unparseable values are kept as-is.
+ */
+export function normalizeJsonTimestamp(value: unknown): string | undefined {
+  let date: Date | undefined
+  if (
+    typeof value === 'number' ||
+    (typeof value === 'string' && /^\d{9,13}(\.\d+)?$/.test(value))
+  ) {
+    const epoch = Number(value)
+    date = new Date(epoch > 1e12 ? epoch : epoch * 1000)
+  } else if (typeof value === 'string' && value.trim()) {
+    date = new Date(value)
+    if (Number.isNaN(date.getTime())) return value.trim()
+  }
+  if (!date || Number.isNaN(date.getTime())) return undefined
+  return date.toISOString().replace('.000Z', 'Z')
+}
+
+function participantsOf(messages: ChatMessage[]): string[] {
+  return [
+    ...new Set(messages.map((message) => message.author).filter((name): name is string => !!name))
+  ]
+}
+
+function renderChat(adapter: string, messages: ChatMessage[], title?: string): JsonRendering {
+  const blocks = messages.map((message) => {
+    const prefix = [
+      message.timestamp ? `[${message.timestamp}]` : '',
+      message.author ? `${message.author}:` : ''
+    ]
+      .filter(Boolean)
+      .join(' ')
+    const line = prefix ? `${prefix} ${message.text}` : message.text
+    return message.isReply ? `  ↳ ${line.replace(/\n/g, '\n    ')}` : line
+  })
+
+  return {
+    content: [title ? `# ${title}` : '', ...blocks].filter(Boolean).join('\n\n'),
+    adapter,
+    type: 'chat-log',
+    messageCount: messages.length,
+    participants: participantsOf(messages)
+  }
+}
+
+function renderEmailStyle(
+  adapter: string,
+  items: Array<ChatMessage & { subject?: string }>,
+  title?: string
+): JsonRendering {
+  const sections = items.map((item, index) => {
+    const headers = [
+      `## Message ${index + 1} of ${items.length}`,
+      item.author ? `From: ${item.author}` : '',
+      item.timestamp ? `Date: ${item.timestamp}` : '',
+      item.subject ? `Subject: ${item.subject}` : ''
+    ].filter(Boolean)
+    return `${headers.join('\n')}\n\n${item.text}`
+  })
+
+  return {
+    content: [title ? `# ${title}` : '', ...sections].filter(Boolean).join('\n\n'),
+    adapter,
+    type: 'email',
+    messageCount: items.length,
+    participants: participantsOf(items)
+  }
+}
+
+// Slack channel exports and conversations.history responses
+function slackMessages(value: unknown): JsonObject[] | undefined {
+  const list = isObject(value) && Array.isArray(value.messages) ? value.messages : value
+  if (!Array.isArray(list) || list.length === 0 || !list.every(isObject)) return undefined
+  const isSlack = list.every(
+    (message) =>
+      typeof message.ts === 'string' && /^\d+\.\d+$/.test(message.ts) && 'text' in message
+  )
+  return isSlack ? list : undefined
+}
+
+function slackMarkup(text: string, users: Map<string, string>): string {
+  return text
+    .replace(
+      /<@([UW][A-Z0-9]+)(?:\|([^>]+))?>/g,
+      (_, id: string, label?: string) => `@${label ?? users.get(id) ?? id}`
+    )
+    .replace(/<#C[A-Z0-9]+\|([^>]+)>/g, '#$1')
+    .replace(/<!(here|channel|everyone)(?:\|[^>]*)?>/g, '@$1')
+    .replace(/<(https?:[^|>]+)\|([^>]+)>/g, '[$2]($1)')
+    .replace(/<(https?:[^>]+)>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
+
+export const slackAdapter: JsonDocumentAdapter = {
+  name: 'slack',
+  matches: (value) => slackMessages(value) !== undefined,
+  render(value) {
+    const raw = slackMessages(value) ?? []
+    const users = new Map<string, string>()
+    for (const message of raw) {
+      const profile = isObject(message.user_profile) ? message.user_profile : {}
+      const name =
+        stringValue(profile.real_name) ??
+        stringValue(profile.display_name) ??
+        stringValue(message.user_name)
+      if (typeof message.user === 'string' && name) users.set(message.user, name)
+    }
+
+    const visible = raw
+      .filter(
+        (message) =>
+          !['channel_join', 'channel_leave', 'bot_add'].includes(String(message.subtype ?? ''))
+      )
+      .sort((a, b) => Number(a.ts) - Number(b.ts))
+
+    // Thread replies follow their parent message
+    const parents = visible.filter(
+      (message) => !message.thread_ts || message.thread_ts === message.ts
+    )
+    const ordered = parents.flatMap((parent) => [
+      parent,
+      ...visible.filter((reply) => reply.thread_ts === parent.ts && reply !== parent)
+    ])
+    const orphans = visible.filter((message) => !ordered.includes(message))
+
+    const messages = [...ordered, ...orphans]
+      .map((message): ChatMessage => {
+        const user = typeof message.user === 'string' ? message.user : undefined
+        return {
+          author: (user && users.get(user)) ?? stringValue(message.username) ?? user,
+          timestamp: normalizeJsonTimestamp(message.ts),
+          text: slackMarkup(String(message.text ?? ''), users).trim(),
+          isReply: !!message.thread_ts && message.thread_ts !== message.ts
+        }
+      })
+      .filter((message) => message.text)
+
+    return renderChat('slack', messages)
+  }
+}
+
+// OpenAI-style chat message arrays: [{ role, content }] or { messages: [...] }
+function openAiMessages(value: unknown): JsonObject[] | undefined {
+  const list = isObject(value) && Array.isArray(value.messages) ? value.messages : value
+  if (!Array.isArray(list) || list.length === 0) return undefined
+  const roles = new Set(['system', 'user', 'assistant', 'tool', 'function', 'developer'])
+  return list.every(
+    (message) => isObject(message) && typeof message.role === 'string' && roles.has(message.role)
+  )
+    ? (list as JsonObject[])
+    : undefined
+}
+
+function openAiContent(message: JsonObject): string {
+  const parts: string[] = []
+  if (typeof message.content === 'string') {
+    parts.push(message.content)
+  } else if (Array.isArray(message.content)) {
+    for (const part of message.content) {
+      if (isObject(part) && typeof part.text === 'string') parts.push(part.text)
+      else if (isObject(part) && part.type === 'image_url') parts.push('[image]')
+    }
+  }
+  if (Array.isArray(message.tool_calls)) {
+    for (const call of message.tool_calls) {
+      const fn = isObject(call) && isObject(call.function) ? call.function : undefined
+      if (fn) parts.push(`Called \`${String(fn.name)}(${String(fn.arguments ?? '')})\``)
+    }
+  }
+  return parts.join('\n').trim()
+}
+
+export const openAiMessagesAdapter: JsonDocumentAdapter = {
+  name: 'openai-messages',
+  matches: (value) => openAiMessages(value) !== undefined,
+  render(value) {
+    const messages = (openAiMessages(value) ?? [])
+      .map((message): ChatMessage => {
+        const role = String(message.role)
+        const label = role.charAt(0).toUpperCase() + role.slice(1)
+        return {
+          author: typeof message.name === 'string' ? `${label} (${message.name})` : label,
+          timestamp: normalizeJsonTimestamp(message.created_at ?? message.timestamp),
+          text: openAiContent(message)
+        }
+      })
+      .filter((message) => message.text)
+
+    return renderChat('openai-messages', messages)
+  }
+}
+
+// Generic lists of { author, timestamp, text } records, optionally wrapped in
+// an object such as a ticket with its comments
+function authoredList(value: unknown): { items: JsonObject[]; container?: JsonObject } | undefined {
+  const isAuthored = (item: unknown): item is JsonObject =>
+    isObject(item) &&
+    pickKey(item, AUTHOR_KEYS) !== undefined &&
+    pickKey(item, TEXT_KEYS) !== undefined
+
+  if (Array.isArray(value)) {
+    return value.length > 0 && value.every(isAuthored) ? { items: value } : undefined
+  }
+  if (isObject(value)) {
+    const lists = Object.values(value).filter(
+      (entry): entry is JsonObject[] =>
+        Array.isArray(entry) && entry.length > 0 && entry.every(isAuthored)
+    )
+    return lists.length === 1 ? { items: lists[0]!, container: value } : undefined
+  }
+  return undefined
+}
+
+export const authoredListAdapter: JsonDocumentAdapter = {
+  name: 'authored-list',
+  matches: (value) => authoredList(value) !== undefined,
+  render(value) {
+    const { items, container } = authoredList(value) ?? { items: [] }
+    const messages = items.map((item) => {
+      const subjectKey = pickKey(item, SUBJECT_KEYS)
+      const timestampKey = pickKey(item, TIMESTAMP_KEYS)
+      return {
+        author: stringValue(item[pickKey(item, AUTHOR_KEYS)!]),
+        timestamp: timestampKey ? normalizeJsonTimestamp(item[timestampKey]) : undefined,
+        text: stringValue(item[pickKey(item, TEXT_KEYS)!]) ?? '',
+        subject: subjectKey ? stringValue(item[subjectKey]) : undefined
+      }
+    })
+
+    // A wrapping record (e.g. a ticket) contributes its title and opening description
+    const field = (keys: string[]): unknown => {
+      const key = container ? pickKey(container, keys) : undefined
+      return container && key ? container[key] : undefined
+    }
+    const title = stringValue(field(SUBJECT_KEYS))
+    const description = stringValue(field(['description', 'body']))
+    const opening = description
+      ? [
+          {
+            author: stringValue(field(['requester', ...AUTHOR_KEYS])),
+            timestamp: normalizeJsonTimestamp(field(TIMESTAMP_KEYS)),
+            text: description,
+            subject: title
+          }
+        ]
+      : []
+
+    // Records with subjects read like correspondence; the rest like a chat
+    return messages.some((message) => message.subject) || opening.length > 0
+      ? renderEmailStyle(
+          'authored-list',
+          [...opening, ...messages],
+          opening.length ? undefined : title
+        )
+      : renderChat('authored-list', messages, title)
+  }
+}
+
+/**
+ * Render arbitrary JSON as one `key.path: value` line per leaf so the content
+ * stays readable without braces and indentation.
+ */
+export function flattenJson(value: unknown): string {
+  const lines: string[] = []
+
+  const visit = (node: unknown, path: string): void => {
+    if (lines.length >= MAX_FLATTENED_LINES) return
+    if (Array.isArray(node)) {
+      if (node.length === 0) lines.push(`${path || '(root)'}: []`)
+      node.forEach((item, index) => visit(item, `${path}[${index}]`))
+    } else if (isObject(node)) {
+      const entries = Object.entries(node)
+      if (entries.length === 0) lines.push(`${path || '(root)'}: {}`)
+      for (const [key, child] of entries) {
+        visit(child, path ? `${path}.${key}` : key)
+      }
+    } else {
+      const text = node === null ? 'null' : String(node)
+      lines.push(`${path || '(root)'}: ${text.replace(/\n/g, '\n  ')}`)
+    }
+  }
+
+  visit(value, '')
+  if (lines.length >= MAX_FLATTENED_LINES) lines.push('… (truncated)')
+  return lines.join('\n')
+}
+
+/**
+ * Adapters that recognise common JSON document shapes and render them as
+ * Markdown. Adapters are tried in registration order, most recent first, so
+ * callers can register more specific shapes ahead of the built-in ones.
+ */
+export class JsonAdapterRegistry {
+  private adapters: JsonDocumentAdapter[] = []
+
+  constructor(adapters: JsonDocumentAdapter[] = []) {
+    adapters.forEach((adapter) => this.register(adapter))
+  }
+
+  register(adapter: JsonDocumentAdapter): void {
+    this.adapters = [adapter, ...this.adapters.filter((existing) => existing.name !== adapter.name)]
+  }
+
+  getAdapterNames(): string[] {
+    return this.adapters.map((adapter) => adapter.name)
+  }
+
+  render(value: unknown): JsonRendering {
+    const adapter = this.adapters.find((candidate) => candidate.matches(value))
+    return adapter ? adapter.render(value) : { content: flattenJson(value), adapter: 'flattened' }
+  }
+}
+
+export const jsonAdapters = new JsonAdapterRegistry([
+  authoredListAdapter,
+  openAiMessagesAdapter,
+  slackAdapter
+])
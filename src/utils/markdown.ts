@@ -0,0 +1,76 @@
+export interface InlineSegment {
+  text: string
+  bold: boolean
+  italic: boolean
+}
+
+export interface MarkdownBlock {
+  text: string
+  isListItem: boolean
+}
+
+/**
+ * Render formatted text runs as Markdown. Adjacent runs with the same
+ * formatting are merged first so `**due** **Friday**` becomes `**due Friday**`,
+ * and emphasis markers are kept inside surrounding whitespace.
+ */
+export function renderInlineSegments(segments: InlineSegment[], allowEmphasis = true): string {
+  const merged: InlineSegment[] = []
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1]
+    if (previous && previous.bold === segment.bold && previous.italic === segment.italic) {
+      previous.text += segment.text
+    } else {
+      merged.push({ ...segment })
+    }
+  }
+
+  return merged
+    .map(({ text, bold, italic }) => {
+      if (!allowEmphasis || (!bold && !italic) || !text.trim()) return text
+      const marker = bold && italic ? '***' : bold ? '**' : '*'
+      const leading = /^\s*/.exec(text)![0]
+      const trailing = /\s*$/.exec(text)![0]
+      return `${leading}${marker}${text.trim()}${marker}${trailing}`
+    })
+    .join('')
+}
+
+export function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n+/g, '<br>')
+}
+
+/**
+ * Render rows of cell text as a Markdown table whose first row is the header.
+ * Short rows are padded so every row has the same column count.
+ */
+export function renderTable(rows: string[][]): string {
+  if (rows.length === 0) return ''
+
+  const width = Math.max(...rows.map((row) => row.length))
+  const pad = (row: string[]): string[] => [
+    ...row.map(escapeTableCell),
+    ...Array<string>(width - row.length).fill('')
+  ]
+  const [header, ...body] = rows.map(pad)
+
+  return [
+    `| ${header!.join(' | ')} |`,
+    `| ${Array<string>(width).fill('---').join(' | ')} |`,
+    ...body.map((row) => `| ${row.join(' | ')} |`)
+  ].join('\n')
+}
+
+/**
+ * Join blocks with blank lines, keeping consecutive list items on adjacent lines.
+ */
+export function joinBlocks(blocks: MarkdownBlock[]): string {
+  let markdown = ''
+  blocks.forEach((block, index) => {
+    if (index > 0) {
+      markdown += block.isListItem && blocks[index - 1]!.isListItem ? '\n' : '\n\n'
+    }
+    markdown += block.text
+  })
+  return markdown
+}
@@ -1,5 +1,29 @@
 import type { Readable } from 'stream'
-import type { DocumentInput } from '../types/index.js'
+import type { DocumentInput, DocumentType } from '../types/index.js'
+import { extractPdfText } from './pdf-parser.js'
+import { extractDocxText } from './docx-parser.js'
+import { extractRtfText, isRtfBuffer } from './rtf-parser.js'
+import { extractEmailText } from './email-parser.js'
+import { extractHtmlText, isHtmlText } from './html-parser.js'
+import { decodeText, type DecodedText } from './encoding.js'
+import { jsonAdapters } from './json-adapters.js'
+import {
+  extractTranscript,
+  formatTimestamp,
+  isSpeakerTranscriptText,
+  isSrtText,
+  isVttText,
+  type TranscriptFormat
+} from './transcript-parser.js'
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+export interface ExtractedContent {
+  content: string
+  metadata: Record<string, unknown>
+  /** Document type implied by the file format, when it is unambiguous */
+  type?: DocumentType
+}
 
 export async function streamToBuffer(stream: Readable): Promise<Buffer> {
   const chunks: Buffer[] = []
@@ -9,12 +33,19 @@ export async function streamToBuffer(stream: Readable): Promise<Buffer> {
   return Buffer.concat(chunks)
 }
 
-export function detectDocumentType(
-  filename: string
-): 'transcript' | 'policy' | 'email' | 'note' | undefined {
+/**
+ * Guess the document type from the filename alone. Prefer `classifyDocument`
+ * when the content is available.
+ */
+export function detectDocumentType(filename: string): DocumentType | undefined {
   const name = filename.toLowerCase()
 
-  if (name.includes('transcript') || (name.includes('meeting') && !name.includes('note'))) {
+  if (
+    name.includes('transcript') ||
+    (name.includes('meeting') && !name.includes('note')) ||
+    name.endsWith('.vtt') ||
+    name.endsWith('.srt')
+  ) {
     return 'transcript'
   }
   if (name.includes('policy') || name.includes('handbook')) {
@@ -30,10 +61,27 @@ export function detectDocumentType(
   return undefined
 }
 
+export function getFileExtension(filename: string): string {
+  const index = filename.lastIndexOf('.')
+  return index === -1 ? '' : filename.substring(index).toLowerCase()
+}
+
 export function validateFileExtension(filename: string): boolean {
-  const allowedExtensions = ['.txt', '.md', '.doc', '.docx', '.pdf', '.rtf', '.json']
-  const ext = filename.toLowerCase().substring(filename.lastIndexOf('.'))
-  return allowedExtensions.includes(ext)
+  const allowedExtensions = [
+    '.txt',
+    '.md',
+    '.doc',
+    '.docx',
+    '.pdf',
+    '.rtf',
+    '.json',
+    '.eml',
+    '.vtt',
+    '.srt',
+    '.html',
+    '.htm'
+  ]
+  return allowedExtensions.includes(getFileExtension(filename))
 }
 
 export function parseJSONSafely<T>(json: string): T | null {
@@ -45,16 +93,247 @@ export function parseJSONSafely<T>(json: string): T | null {
 }
 
 export function extractTextFromBuffer(buffer: Buffer, mimeType?: string): string {
+  return decodeTextUpload(buffer, mimeType).text
+}
+
+function charsetOf(mimeType: string | undefined): string | undefined {
+  return /charset\s*=\s*"?([\w.:-]+)/i.exec(mimeType ?? '')?.[1]
+}
+
+/**
+ * Decode a text upload (honouring a BOM, a charset in the mime type, or the
+ * detected encoding) and pretty-print JSON payloads.
+ */
+function decodeTextUpload(buffer: Buffer, mimeType?: string): DecodedText {
+  const decoded = decodeText(buffer, charsetOf(mimeType))
+
   if (mimeType?.includes('json')) {
     try {
-      const json = JSON.parse(buffer.toString('utf-8'))
-      return typeof json === 'string' ? json : JSON.stringify(json, null, 2)
+      const json = JSON.parse(decoded.text)
+      return {
+        text: typeof json === 'string' ? json : JSON.stringify(json, null, 2),
+        encoding: decoded.encoding
+      }
     } catch {
-      return buffer.toString('utf-8')
+      return decoded
     }
   }
 
-  return buffer.toString('utf-8')
+  return decoded
+}
+
+/**
+ * Extract the text of an uploaded file along with any format-specific
+ * metadata (page ranges, titles, ...) that should travel with the document.
+ * `maxBytes` caps how far compressed formats (DOCX, PDF streams) may inflate.
+ */
+export function extractDocumentContent(
+  buffer: Buffer,
+  filename: string,
+  mimeType?: string,
+  maxBytes?: number
+): ExtractedContent {
+  const ext = getFileExtension(filename)
+
+  if (ext === '.pdf' || mimeType === 'application/pdf') {
+    return extractPdfContent(buffer, maxBytes)
+  }
+
+  if (ext === '.docx' || mimeType === DOCX_MIME_TYPE) {
+    return extractDocxContent(buffer, maxBytes)
+  }
+
+  // Word often saves RTF under a .doc name, so sniff the header as well
+  if (ext === '.rtf' || mimeType?.includes('rtf') || isRtfBuffer(buffer)) {
+    return extractRtfContent(buffer)
+  }
+
+  if (ext === '.eml' || mimeType === 'message/rfc822') {
+    return extractEmailContent(buffer)
+  }
+
+  if (
+    ext === '.html' ||
+    ext === '.htm' ||
+    mimeType === 'text/html' ||
+    (ext !== '.json' && isHtmlText(buffer.subarray(0, 512).toString('latin1')))
+  ) {
+    return extractHtmlContent(buffer)
+  }
+
+  // Structured JSON (chat exports, message arrays, tickets) is rendered as Markdown
+  if (ext === '.json' || mimeType?.includes('json')) {
+    const { text, encoding } = decodeText(buffer, charsetOf(mimeType))
+    const value = parseJSONSafely<unknown>(text)
+    if (typeof value === 'object' && value !== null) {
+      return extractJsonContent(value, encoding)
+    }
+  }
+
+  const { text, encoding } = decodeTextUpload(buffer, mimeType)
+
+  if (ext === '.vtt' || mimeType === 'text/vtt' || isVttText(text)) {
+    return withEncoding(extractTranscriptContent(text, 'vtt'), encoding)
+  }
+
+  if (ext === '.srt' || mimeType === 'application/x-subrip' || isSrtText(text)) {
+    return withEncoding(extractTranscriptContent(text, 'srt'), encoding)
+  }
+
+  if (ext !== '.json' && !mimeType?.includes('json') && isSpeakerTranscriptText(text)) {
+    return withEncoding(extractTranscriptContent(text, 'speaker-text'), encoding)
+  }
+
+  return { content: text, metadata: { encoding } }
+}
+
+function withEncoding(extracted: ExtractedContent, encoding: string): ExtractedContent {
+  return { ...extracted, metadata: { ...extracted.metadata, encoding } }
+}
+
+function extractPdfContent(buffer: Buffer, maxBytes?: number): ExtractedContent {
+  const { pages, title } = extractPdfText(buffer, maxBytes)
+  let content = ''
+
+  // Each page is prefixed with a [p.N] marker so optimized output can cite it
+  const pageRanges = pages.map(({ page, text }) => {
+    if (content) content += '\n\n'
+    content += `[p.${page}]\n`
+    const start = content.length
+    content += text
+    return { page, start, end: content.length }
+  })
+
+  return {
+    content,
+    metadata: {
+      format: 'pdf',
+      pageCount: pages.length,
+      pages: pageRanges,
+      ...(title ? { title } : {})
+    }
+  }
+}
+
+function extractDocxContent(buffer: Buffer, maxBytes?: number): ExtractedContent {
+  const { markdown, title, author, headingCount, tableCount, footnoteCount, commentCount } =
+    extractDocxText(buffer, maxBytes)
+
+  return {
+    content: markdown,
+    metadata: {
+      format: 'docx',
+      headingCount,
+      tableCount,
+      footnoteCount,
+      commentCount,
+      ...(title ? { title } : {}),
+      ...(author ? { author } : {})
+    }
+  }
+}
+
+function extractRtfContent(buffer: Buffer): ExtractedContent {
+  const { markdown, title, author, headingCount, tableCount, footnoteCount } =
+    extractRtfText(buffer)
+
+  return {
+    content: markdown,
+    metadata: {
+      format: 'rtf',
+      headingCount,
+      tableCount,
+      footnoteCount,
+      ...(title ? { title } : {}),
+      ...(author ? { author } : {})
+    }
+  }
+}
+
+function extractHtmlContent(buffer: Buffer): ExtractedContent {
+  const { markdown, title, canonicalUrl, headingCount, tableCount, encoding } =
+    extractHtmlText(buffer)
+
+  return {
+    content: markdown,
+    metadata: {
+      format: 'html',
+      encoding,
+      headingCount,
+      tableCount,
+      ...(title ? { title } : {}),
+      ...(canonicalUrl ? { canonicalUrl } : {})
+    }
+  }
+}
+
+function extractJsonContent(value: object, encoding: string): ExtractedContent {
+  const { content, adapter, type, messageCount, participants } = jsonAdapters.render(value)
+
+  return {
+    content,
+    type,
+    metadata: {
+      format: 'json',
+      encoding,
+      adapter,
+      ...(messageCount !== undefined ? { messageCount } : {}),
+      ...(participants ? { participants } : {})
+    }
+  }
+}
+
+function extractEmailContent(buffer: Buffer): ExtractedContent {
+  const { text, messages, attachments, messageId } = extractEmailText(buffer)
+  const email = messages[messages.length - 1]!
+  const participants = [
+    ...new Set(messages.flatMap((message) => [message.from ?? '', ...message.to, ...message.cc]))
+  ].filter(Boolean)
+
+  return {
+    content: text,
+    type: 'email',
+    metadata: {
+      format: 'email',
+      from: email.from,
+      to: email.to,
+      cc: email.cc,
+      date: email.date,
+      subject: email.subject,
+      messageCount: messages.length,
+      participants,
+      messages: messages.map(({ from, date, subject }) => ({ from, date, subject })),
+      attachments,
+      ...(messageId ? { messageId } : {})
+    }
+  }
+}
+
+function extractTranscriptContent(text: string, format: TranscriptFormat): ExtractedContent {
+  const { turns, speakers, duration } = extractTranscript(text, format)
+  let content = ''
+
+  // Each turn is prefixed with a [t=HH:MM:SS] anchor the optimizer can reuse as a chunk ID
+  const turnRanges = turns.map(({ speaker, startTime, endTime, text: turnText }) => {
+    if (content) content += '\n\n'
+    const anchor = `t=${formatTimestamp(startTime)}`
+    content += `[${anchor}] ${speaker ? `${speaker}: ` : ''}`
+    const start = content.length
+    content += turnText
+    return { anchor, speaker, startTime, endTime, start, end: content.length }
+  })
+
+  return {
+    content,
+    type: 'transcript',
+    metadata: {
+      format,
+      turnCount: turns.length,
+      speakers,
+      duration,
+      turns: turnRanges
+    }
+  }
 }
 
 export function sanitizeFilename(filename: string): string {
@@ -73,4 +352,4 @@ export interface ParsedMultipartData {
   documents: DocumentInput[]
   metadata: Record<string, any>
   errors: Array<{ file: string; error: string }>
-}
\ No newline at end of file
+}
@@ -0,0 +1,1367 @@
+import { inflateSync, inflateRawSync, constants as zlibConstants } from 'zlib'
+import { AppError, ValidationError } from '../middleware/error-handler.js'
+import { WINDOWS_1252_HIGH, MAC_ROMAN_HIGH } from './encoding.js'
+
+export interface PdfPageText {
+  page: number
+  text: string
+}
+
+export interface PdfExtractionResult {
+  pages: PdfPageText[]
+  title?: string
+}
+
+class PdfName {
+  constructor(public readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(
+    public readonly num: number,
+    public readonly gen: number
+  ) {}
+}
+
+class PdfString {
+  constructor(public readonly bytes: Buffer) {}
+}
+
+class PdfOperator {
+  constructor(public readonly op: string) {}
+}
+
+class PdfDict {
+  constructor(public readonly entries: Map<string, PdfValue> = new Map()) {}
+
+  get(key: string): PdfValue | undefined {
+    return this.entries.get(key)
+  }
+}
+
+class PdfStream {
+  constructor(
+    public readonly dict: PdfDict,
+    public readonly raw: Buffer
+  ) {}
+}
+
+type PdfValue =
+  | number
+  | boolean
+  | null
+  | PdfName
+  | PdfRef
+  | PdfString
+  | PdfDict
+  | PdfStream
+  | PdfOperator
+  | PdfValue[]
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20])
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25])
+const MAX_XOBJECT_DEPTH = 8
+// Upper bound on the summed size of the decoded streams of one file
+const DEFAULT_MAX_UNCOMPRESSED_SIZE = 52428800
+
+/**
+ * Tokenizer for the PDF object syntax, shared by the file-level object parser
+ * and the content stream interpreter.
+ */
+class PdfLexer {
+  constructor(
+    private readonly data: Buffer,
+    public pos = 0
+  ) {}
+
+  get atEnd(): boolean {
+    this.skipWhitespace()
+    return this.pos >= this.data.length
+  }
+
+  skipWhitespace(): void {
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos]!
+      if (WHITESPACE.has(byte)) {
+        this.pos++
+      } else if (byte === 0x25) {
+        while (
+          this.pos < this.data.length &&
+          this.data[this.pos] !== 0x0a &&
+          this.data[this.pos] !== 0x0d
+        ) {
+          this.pos++
+        }
+      } else {
+        break
+      }
+    }
+  }
+
+  peekKeyword(keyword: string): boolean {
+    this.skipWhitespace()
+    return this.data.toString('latin1', this.pos, this.pos + keyword.length) === keyword
+  }
+
+  readObject(): PdfValue | undefined {
+    this.skipWhitespace()
+    if (this.pos >= this.data.length) return undefined
+
+    const byte = this.data[this.pos]!
+
+    if (byte === 0x2f) return this.readName()
+    if (byte === 0x28) return this.readLiteralString()
+    if (byte === 0x3c) {
+      if (this.data[this.pos + 1] === 0x3c) return this.readDict()
+      return this.readHexString()
+    }
+    if (byte === 0x5b) return this.readArray()
+    if (byte === 0x5d || byte === 0x3e || byte === 0x29 || byte === 0x7b || byte === 0x7d) {
+      // Stray closing delimiter: surface it as an operator so callers can stop
+      this.pos += byte === 0x3e && this.data[this.pos + 1] === 0x3e ? 2 : 1
+      return new PdfOperator(String.fromCharCode(byte))
+    }
+
+    const token = this.readRegularToken()
+    if (token === '') {
+      this.pos++
+      return this.readObject()
+    }
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      const value = parseFloat(token)
+      if (/^\d+$/.test(token)) {
+        const ref = this.tryReadReference(value)
+        if (ref) return ref
+      }
+      return value
+    }
+
+    if (token === 'true') return true
+    if (token === 'false') return false
+    if (token === 'null') return null
+
+    return new PdfOperator(token)
+  }
+
+  readInlineImageData(): void {
+    // Skip binary inline image data up to the EI operator
+    const end = this.data.indexOf('EI', this.pos, 'latin1')
+    this.pos = end === -1 ? this.data.length : end + 2
+  }
+
+  private tryReadReference(num: number): PdfRef | undefined {
+    const start = this.pos
+    this.skipWhitespace()
+    const gen = this.readRegularToken()
+    if (/^\d+$/.test(gen)) {
+      this.skipWhitespace()
+      if (this.data[this.pos] === 0x52 && this.isTokenBoundary(this.pos + 1)) {
+        this.pos++
+        return new PdfRef(num, parseInt(gen, 10))
+      }
+    }
+    this.pos = start
+    return undefined
+  }
+
+  private isTokenBoundary(index: number): boolean {
+    if (index >= this.data.length) return true
+    const byte = this.data[index]!
+    return WHITESPACE.has(byte) || DELIMITERS.has(byte)
+  }
+
+  private readRegularToken(): string {
+    const start = this.pos
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos]!
+      if (WHITESPACE.has(byte) || DELIMITERS.has(byte)) break
+      this.pos++
+    }
+    return this.data.toString('latin1', start, this.pos)
+  }
+
+  private readName(): PdfName {
+    this.pos++
+    const raw = this.readRegularToken()
+    return new PdfName(
+      raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    )
+  }
+
+  private readLiteralString(): PdfString {
+    this.pos++
+    const bytes: number[] = []
+    let depth = 1
+
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos++]!
+
+      if (byte === 0x5c) {
+        const next = this.data[this.pos++]
+        if (next === undefined) break
+        switch (next) {
+          case 0x6e:
+            bytes.push(0x0a)
+            break
+          case 0x72:
+            bytes.push(0x0d)
+            break
+          case 0x74:
+            bytes.push(0x09)
+            break
+          case 0x62:
+            bytes.push(0x08)
+            break
+          case 0x66:
+            bytes.push(0x0c)
+            break
+          case 0x0d:
+            if (this.data[this.pos] === 0x0a) this.pos++
+            break
+          case 0x0a:
+            break
+          default:
+            if (next >= 0x30 && next <= 0x37) {
+              let octal = next - 0x30
+              for (let i = 0; i < 2; i++) {
+                const digit = this.data[this.pos]
+                if (digit === undefined || digit < 0x30 || digit > 0x37) break
+                octal = octal * 8 + (digit - 0x30)
+                this.pos++
+              }
+              bytes.push(octal & 0xff)
+            } else {
+              bytes.push(next)
+            }
+        }
+        continue
+      }
+
+      if (byte === 0x28) depth++
+      if (byte === 0x29 && --depth === 0) break
+      bytes.push(byte)
+    }
+
+    return new PdfString(Buffer.from(bytes))
+  }
+
+  private readHexString(): PdfString {
+    this.pos++
+    const end = this.data.indexOf(0x3e, this.pos)
+    const stop = end === -1 ? this.data.length : end
+    const hex = this.data.toString('latin1', this.pos, stop).replace(/[^0-9a-fA-F]/g, '')
+    this.pos = stop + 1
+    return new PdfString(Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex'))
+  }
+
+  private readArray(): PdfValue[] {
+    this.pos++
+    const items: PdfValue[] = []
+    while (this.pos < this.data.length) {
+      this.skipWhitespace()
+      if (this.data[this.pos] === 0x5d) {
+        this.pos++
+        break
+      }
+      const item = this.readObject()
+      if (item === undefined) break
+      items.push(item)
+    }
+    return items
+  }
+
+  private readDict(): PdfDict {
+    this.pos += 2
+    const dict = new PdfDict()
+    while (this.pos < this.data.length) {
+      this.skipWhitespace()
+      if (this.data[this.pos] === 0x3e && this.data[this.pos + 1] === 0x3e) {
+        this.pos += 2
+        break
+      }
+      const key = this.readObject()
+      if (!(key instanceof PdfName)) {
+        if (key === undefined) break
+        continue
+      }
+      const value = this.readObject()
+      if (value === undefined) break
+      dict.entries.set(key.name, value)
+    }
+    return dict
+  }
+}
+
+/**
+ * In-memory view of a PDF file. Rather than trusting the cross-reference
+ * table (often stale after incremental saves), every `N G obj` marker in the
+ * file is indexed directly, and compressed object streams are expanded.
+ */
+class PdfDocument {
+  private readonly objects = new Map<number, PdfValue>()
+  private readonly trailers: PdfDict[] = []
+
+  constructor(
+    private readonly data: Buffer,
+    private remaining: number
+  ) {
+    this.indexObjects()
+    this.indexTrailers()
+    this.expandObjectStreams()
+  }
+
+  get isEncrypted(): boolean {
+    return this.trailers.some((trailer) => trailer.get('Encrypt') !== undefined)
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (value instanceof PdfRef && depth < 32) {
+      return this.resolve(this.objects.get(value.num), depth + 1)
+    }
+    return value
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value)
+    if (resolved instanceof PdfDict) return resolved
+    if (resolved instanceof PdfStream) return resolved.dict
+    return undefined
+  }
+
+  array(value: PdfValue | undefined): PdfValue[] {
+    const resolved = this.resolve(value)
+    return Array.isArray(resolved) ? resolved : []
+  }
+
+  number(value: PdfValue | undefined, fallback = 0): number {
+    const resolved = this.resolve(value)
+    return typeof resolved === 'number' ? resolved : fallback
+  }
+
+  name(value: PdfValue | undefined): string | undefined {
+    const resolved = this.resolve(value)
+    return resolved instanceof PdfName ? resolved.name : undefined
+  }
+
+  getCatalog(): PdfDict | undefined {
+    for (let i = this.trailers.length - 1; i >= 0; i--) {
+      const root = this.dict(this.trailers[i]!.get('Root'))
+      if (root) return root
+    }
+    for (const value of this.objects.values()) {
+      const dict = this.dict(value)
+      if (dict && this.name(dict.get('Type')) === 'Catalog') return dict
+    }
+    return undefined
+  }
+
+  getInfo(): PdfDict | undefined {
+    for (let i = this.trailers.length - 1; i >= 0; i--) {
+      const info = this.dict(this.trailers[i]!.get('Info'))
+      if (info) return info
+    }
+    return undefined
+  }
+
+  getPages(): PdfDict[] {
+    const pages: PdfDict[] = []
+    const root = this.dict(this.getCatalog()?.get('Pages'))
+
+    if (root) {
+      this.collectPages(root, pages, new Set())
+    }
+
+    if (pages.length > 0) return pages
+
+    // No usable page tree: fall back to page objects in file order
+    for (const value of this.objects.values()) {
+      const dict = this.dict(value)
+      if (dict && this.name(dict.get('Type')) === 'Page') pages.push(dict)
+    }
+    return pages
+  }
+
+  /**
+   * Look up an inheritable page attribute (Resources, MediaBox, ...) by
+   * walking up the Parent chain.
+   */
+  inherited(page: PdfDict, key: string): PdfValue | undefined {
+    let node: PdfDict | undefined = page
+    for (let depth = 0; node && depth < 32; depth++) {
+      const value = node.get(key)
+      if (value !== undefined) return value
+      node = this.dict(node.get('Parent'))
+    }
+    return undefined
+  }
+
+  decodeStream(stream: PdfStream): Buffer {
+    const filterValue = this.resolve(stream.dict.get('Filter'))
+    const filters = (Array.isArray(filterValue) ? filterValue : [filterValue])
+      .map((filter) => this.name(filter))
+      .filter((filter): filter is string => filter !== undefined)
+    const parmsValue = this.resolve(stream.dict.get('DecodeParms'))
+    const parmsList = Array.isArray(parmsValue) ? parmsValue : [parmsValue]
+
+    // Every decoded stream counts against one budget for the whole file
+    let data = stream.raw
+    filters.forEach((filter, index) => {
+      const parms = this.dict(parmsList[index])
+      data = applyFilter(filter, data, Math.max(1, this.remaining))
+      const predictor = parms ? this.number(parms.get('Predictor'), 1) : 1
+      if (predictor >= 10 && parms) {
+        data = applyPngPredictor(
+          data,
+          this.number(parms.get('Columns'), 1) * this.number(parms.get('Colors'), 1)
+        )
+      }
+    })
+    this.remaining -= data.length
+    if (this.remaining < 0) {
+      throw new ValidationError('PDF streams exceed the size limit')
+    }
+    return data
+  }
+
+  private collectPages(node: PdfDict, pages: PdfDict[], seen: Set<PdfDict>): void {
+    if (seen.has(node)) return
+    seen.add(node)
+
+    const kids = this.array(node.get('Kids'))
+    if (this.name(node.get('Type')) === 'Page' || (kids.length === 0 && node.get('Contents'))) {
+      pages.push(node)
+      return
+    }
+
+    for (const kid of kids) {
+      const child = this.dict(kid)
+      if (child) this.collectPages(child, pages, seen)
+    }
+  }
+
+  private indexObjects(): void {
+    const text = this.data.toString('latin1')
+    const pattern = /(\d+)\s+(\d+)\s+obj\b/g
+    let match: RegExpExecArray | null
+
+    while ((match = pattern.exec(text)) !== null) {
+      const lexer = new PdfLexer(this.data, match.index + match[0].length)
+      let value: PdfValue | undefined
+      try {
+        value = lexer.readObject()
+      } catch {
+        continue
+      }
+      if (value === undefined) continue
+
+      if (value instanceof PdfDict && lexer.peekKeyword('stream')) {
+        value = this.readStream(value, lexer.pos + 'stream'.length)
+      }
+
+      this.objects.set(parseInt(match[1]!, 10), value)
+    }
+  }
+
+  private readStream(dict: PdfDict, afterKeyword: number): PdfStream {
+    let start = afterKeyword
+    if (this.data[start] === 0x0d) start++
+    if (this.data[start] === 0x0a) start++
+
+    const length = dict.get('Length')
+    if (typeof length === 'number') {
+      const end = start + length
+      const tail = this.data.toString('latin1', end, end + 32)
+      if (end <= this.data.length && /^\s*endstream/.test(tail)) {
+        return new PdfStream(dict, this.data.subarray(start, end))
+      }
+    }
+
+    // Length is indirect or wrong: scan for the closing keyword instead
+    let end = this.data.indexOf('endstream', start, 'latin1')
+    if (end === -1) end = this.data.length
+    if (this.data[end - 1] === 0x0a) end--
+    if (this.data[end - 1] === 0x0d) end--
+    return new PdfStream(dict, this.data.subarray(start, Math.max(start, end)))
+  }
+
+  private indexTrailers(): void {
+    const text = this.data.toString('latin1')
+    const pattern = /trailer\s*<</g
+    let match: RegExpExecArray | null
+
+    while ((match = pattern.exec(text)) !== null) {
+      const lexer = new PdfLexer(this.data, match.index + 'trailer'.length)
+      const value = lexer.readObject()
+      if (value instanceof PdfDict) this.trailers.push(value)
+    }
+
+    // PDF 1.5+ files keep the trailer entries on cross-reference streams
+    for (const value of this.objects.values()) {
+      if (value instanceof PdfStream && this.name(value.dict.get('Type')) === 'XRef') {
+        this.trailers.push(value.dict)
+      }
+    }
+  }
+
+  private expandObjectStreams(): void {
+    const objectStreams = [...this.objects.values()].filter(
+      (value): value is PdfStream =>
+        value instanceof PdfStream && this.name(value.dict.get('Type')) === 'ObjStm'
+    )
+
+    for (const stream of objectStreams) {
+      let data: Buffer
+      try {
+        data = this.decodeStream(stream)
+      } catch (error) {
+        // Malformed streams are skipped, but the size limit always aborts the file
+        if (error instanceof AppError) throw error
+        continue
+      }
+
+      const count = this.number(stream.dict.get('N'))
+      const first = this.number(stream.dict.get('First'))
+      const header = new PdfLexer(data)
+      const entries: Array<{ num: number; offset: number }> = []
+
+      for (let i = 0; i < count; i++) {
+        const num = header.readObject()
+        const offset = header.readObject()
+        if (typeof num !== 'number' || typeof offset !== 'number') break
+        entries.push({ num, offset })
+      }
+
+      for (const entry of entries) {
+        if (this.objects.has(entry.num)) continue
+        const value = new PdfLexer(data, first + entry.offset).readObject()
+        if (value !== undefined) this.objects.set(entry.num, value)
+      }
+    }
+  }
+}
+
+function applyFilter(filter: string, data: Buffer, maxBytes: number): Buffer {
+  switch (filter) {
+    case 'FlateDecode':
+    case 'Fl':
+      return inflate(data, maxBytes)
+    case 'ASCIIHexDecode':
+    case 'AHx':
+      return decodeAsciiHex(data)
+    case 'ASCII85Decode':
+    case 'A85':
+      return decodeAscii85(data)
+    default:
+      throw new Error(`Unsupported PDF stream filter: ${filter}`)
+  }
+}
+
+// zlib stops at maxOutputLength with a RangeError; report it as an oversized upload
+function assertWithinLimit(error: unknown): void {
+  if (error instanceof RangeError || (error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') {
+    throw new ValidationError('PDF streams exceed the size limit')
+  }
+}
+
+function inflate(data: Buffer, maxOutputLength: number): Buffer {
+  try {
+    return inflateSync(data, { maxOutputLength })
+  } catch (error) {
+    assertWithinLimit(error)
+    // Many writers produce slightly truncated zlib streams; salvage what we can
+    try {
+      return inflateSync(data, { finishFlush: zlibConstants.Z_SYNC_FLUSH, maxOutputLength })
+    } catch (error) {
+      assertWithinLimit(error)
+      try {
+        return inflateRawSync(data, { finishFlush: zlibConstants.Z_SYNC_FLUSH, maxOutputLength })
+      } catch (error) {
+        assertWithinLimit(error)
+        throw error
+      }
+    }
+  }
+}
+
+function decodeAsciiHex(data: Buffer): Buffer {
+  const text = data.toString('latin1')
+  const end = text.indexOf('>')
+  const hex = (end === -1 ? text : text.slice(0, end)).replace(/[^0-9a-fA-F]/g, '')
+  return Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex')
+}
+
+function decodeAscii85(data: Buffer): Buffer {
+  const text = data.toString('latin1').replace(/\s/g, '').replace(/^<~/, '')
+  const end = text.indexOf('~>')
+  const body = end === -1 ? text : text.slice(0, end)
+  const output: number[] = []
+  let group: number[] = []
+
+  const flush = (length: number): void => {
+    while (group.length < 5) group.push(84)
+    let value = 0
+    for (const digit of group) value = value * 85 + digit
+    const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+    output.push(...bytes.slice(0, length))
+    group = []
+  }
+
+  for (const char of body) {
+    if (char === 'z' && group.length === 0) {
+      output.push(0, 0, 0, 0)
+      continue
+    }
+    group.push(char.charCodeAt(0) - 33)
+    if (group.length === 5) flush(4)
+  }
+  if (group.length > 0) flush(group.length - 1)
+
+  return Buffer.from(output)
+}
+
+function applyPngPredictor(data: Buffer, columns: number): Buffer {
+  const rowLength = columns + 1
+  const rows = Math.floor(data.length / rowLength)
+  const output = Buffer.alloc(rows * columns)
+  let previous: Buffer = Buffer.alloc(columns)
+
+  for (let row = 0; row < rows; row++) {
+    const type = data[row * rowLength]
+    const current = Buffer.from(data.subarray(row * rowLength + 1, (row + 1) * rowLength))
+    for (let i = 0; i < columns; i++) {
+      const left = i > 0 ? current[i - 1]! : 0
+      const up = previous[i]!
+      const upLeft = i > 0 ? previous[i - 1]! : 0
+      switch (type) {
+        case 1:
+          current[i] = (current[i]! + left) & 0xff
+          break
+        case 2:
+          current[i] = (current[i]! + up) & 0xff
+          break
+        case 3:
+          current[i] = (current[i]! + Math.floor((left + up) / 2)) & 0xff
+          break
+        case 4: {
+          const p = left + up - upLeft
+          const pa = Math.abs(p - left)
+          const pb = Math.abs(p - up)
+          const pc = Math.abs(p - upLeft)
+          const predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft
+          current[i] = (current[i]! + predictor) & 0xff
+          break
+        }
+      }
+    }
+    current.copy(output, row * columns)
+    previous = current
+  }
+
+  return output
+}
+
+// ---------------------------------------------------------------------------
+// Font encodings
+// ---------------------------------------------------------------------------
+
+const STANDARD_HIGH: Record<number, string> = {
+  0xa1: '¡',
+  0xa2: '¢',
+  0xa3: '£',
+  0xa4: '⁄',
+  0xa5: '¥',
+  0xa6: 'ƒ',
+  0xa7: '§',
+  0xa9: "'",
+  0xaa: '“',
+  0xab: '«',
+  0xae: 'ﬁ',
+  0xaf: 'ﬂ',
+  0xb1: '–',
+  0xb2: '†',
+  0xb3: '‡',
+  0xb4: '·',
+  0xb6: '¶',
+  0xb7: '•',
+  0xb8: '‚',
+  0xb9: '„',
+  0xba: '”',
+  0xbb: '»',
+  0xbc: '…',
+  0xbd: '‰',
+  0xbf: '¿',
+  0xd0: '—',
+  0xe1: 'Æ',
+  0xe3: 'ª',
+  0xe8: 'Ł',
+  0xe9: 'Ø',
+  0xea: 'Œ',
+  0xeb: 'º',
+  0xf1: 'æ',
+  0xf5: 'ı',
+  0xf8: 'ł',
+  0xf9: 'ø',
+  0xfa: 'œ',
+  0xfb: 'ß'
+}
+
+function buildBaseEncoding(name: string | undefined): string[] {
+  const table: string[] = []
+  for (let code = 0; code < 256; code++) {
+    if (code < 0x80) {
+      table.push(code >= 0x20 || code === 0x09 ? String.fromCharCode(code) : '')
+    } else if (name === 'MacRomanEncoding') {
+      table.push(MAC_ROMAN_HIGH[code - 0x80] ?? '')
+    } else if (name === 'StandardEncoding') {
+      table.push(STANDARD_HIGH[code] ?? '')
+    } else {
+      table.push(code < 0xa0 ? (WINDOWS_1252_HIGH[code - 0x80] ?? '') : String.fromCharCode(code))
+    }
+  }
+
+  if (name === 'StandardEncoding') {
+    table[0x27] = '’'
+    table[0x60] = '‘'
+  }
+
+  return table
+}
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ',
+  exclam: '!',
+  quotedbl: '"',
+  numbersign: '#',
+  dollar: '$',
+  percent: '%',
+  ampersand: '&',
+  quotesingle: "'",
+  quoteright: '’',
+  quoteleft: '‘',
+  parenleft: '(',
+  parenright: ')',
+  asterisk: '*',
+  plus: '+',
+  comma: ',',
+  hyphen: '-',
+  period: '.',
+  slash: '/',
+  colon: ':',
+  semicolon: ';',
+  less: '<',
+  equal: '=',
+  greater: '>',
+  question: '?',
+  at: '@',
+  bracketleft: '[',
+  backslash: '\\',
+  bracketright: ']',
+  asciicircum: '^',
+  underscore: '_',
+  grave: '`',
+  braceleft: '{',
+  bar: '|',
+  braceright: '}',
+  asciitilde: '~',
+  zero: '0',
+  one: '1',
+  two: '2',
+  three: '3',
+  four: '4',
+  five: '5',
+  six: '6',
+  seven: '7',
+  eight: '8',
+  nine: '9',
+  bullet: '•',
+  endash: '–',
+  emdash: '—',
+  quotedblleft: '“',
+  quotedblright: '”',
+  quotesinglbase: '‚',
+  quotedblbase: '„',
+  ellipsis: '…',
+  dagger: '†',
+  daggerdbl: '‡',
+  fi: 'ﬁ',
+  fl: 'ﬂ',
+  ff: 'ﬀ',
+  ffi: 'ﬃ',
+  ffl: 'ﬄ',
+  copyright: '©',
+  registered: '®',
+  trademark: '™',
+  degree: '°',
+  section: '§',
+  paragraph: '¶',
+  Euro: '€',
+  sterling: '£',
+  yen: '¥',
+  cent: '¢',
+  germandbls: 'ß',
+  AE: 'Æ',
+  ae: 'æ',
+  OE: 'Œ',
+  oe: 'œ',
+  Oslash: 'Ø',
+  oslash: 'ø',
+  dotlessi: 'ı',
+  nbspace: '\u00A0',
+  nonbreakingspace: '\u00A0',
+  minus: '−',
+  multiply: '×',
+  divide: '÷',
+  plusminus: '±',
+  periodcentered: '·',
+  guillemotleft: '«',
+  guillemotright: '»',
+  guilsinglleft: '‹',
+  guilsinglright: '›',
+  exclamdown: '¡',
+  questiondown: '¿',
+  onehalf: '½',
+  onequarter: '¼',
+  threequarters: '¾',
+  mu: 'µ',
+  perthousand: '‰',
+  florin: 'ƒ',
+  Lslash: 'Ł',
+  lslash: 'ł'
+}
+
+const COMBINING_ACCENTS: Record<string, string> = {
+  acute: '\u0301',
+  grave: '\u0300',
+  circumflex: '\u0302',
+  dieresis: '\u0308',
+  tilde: '\u0303',
+  ring: '\u030A',
+  cedilla: '\u0327',
+  caron: '\u030C'
+}
+
+function glyphNameToUnicode(glyph: string): string {
+  const name = glyph.split('.')[0] ?? glyph
+
+  if (name.includes('_')) {
+    return name.split('_').map(glyphNameToUnicode).join('')
+  }
+  if (GLYPH_NAMES[name] !== undefined) return GLYPH_NAMES[name]!
+  if (/^[A-Za-z]$/.test(name)) return name
+
+  const uni = /^uni((?:[0-9A-Fa-f]{4})+)$/.exec(name)
+  if (uni) {
+    return uni[1]!
+      .match(/.{4}/g)!
+      .map((hex) => String.fromCharCode(parseInt(hex, 16)))
+      .join('')
+  }
+  const u = /^u([0-9A-Fa-f]{4,6})$/.exec(name)
+  if (u) return String.fromCodePoint(parseInt(u[1]!, 16))
+
+  const accented = /^([A-Za-z])(acute|grave|circumflex|dieresis|tilde|ring|cedilla|caron)$/.exec(
+    name
+  )
+  if (accented) return `${accented[1]}${COMBINING_ACCENTS[accented[2]!]}`.normalize('NFC')
+
+  return ''
+}
+
+interface CodespaceRange {
+  length: number
+  low: number
+  high: number
+}
+
+interface PdfFont {
+  codeLength: number
+  codespace: CodespaceRange[]
+  toUnicode?: Map<number, string>
+  encoding?: string[]
+  widths: Map<number, number>
+  defaultWidth: number
+}
+
+function decodeUtf16BE(bytes: Buffer): string {
+  let result = ''
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    result += String.fromCharCode((bytes[i]! << 8) | bytes[i + 1]!)
+  }
+  return result
+}
+
+function bytesToCode(bytes: Buffer): number {
+  let code = 0
+  for (const byte of bytes) code = code * 256 + byte
+  return code
+}
+
+function parseToUnicodeCMap(data: Buffer): {
+  map: Map<number, string>
+  codespace: CodespaceRange[]
+} {
+  const lexer = new PdfLexer(data)
+  const map = new Map<number, string>()
+  const codespace: CodespaceRange[] = []
+  const operands: PdfValue[] = []
+
+  while (!lexer.atEnd) {
+    const token = lexer.readObject()
+    if (!(token instanceof PdfOperator)) {
+      if (token !== undefined) operands.push(token)
+      continue
+    }
+
+    switch (token.op) {
+      case 'endcodespacerange':
+        for (let i = 0; i + 1 < operands.length; i += 2) {
+          const low = operands[i]
+          const high = operands[i + 1]
+          if (low instanceof PdfString && high instanceof PdfString) {
+            codespace.push({
+              length: low.bytes.length,
+              low: bytesToCode(low.bytes),
+              high: bytesToCode(high.bytes)
+            })
+          }
+        }
+        break
+      case 'endbfchar':
+        for (let i = 0; i + 1 < operands.length; i += 2) {
+          const source = operands[i]
+          const target = operands[i + 1]
+          if (source instanceof PdfString && target instanceof PdfString) {
+            map.set(bytesToCode(source.bytes), decodeUtf16BE(target.bytes))
+          }
+        }
+        break
+      case 'endbfrange':
+        for (let i = 0; i + 2 < operands.length; i += 3) {
+          const low = operands[i]
+          const high = operands[i + 1]
+          const target = operands[i + 2]
+          if (!(low instanceof PdfString) || !(high instanceof PdfString)) continue
+          const start = bytesToCode(low.bytes)
+          const end = Math.min(bytesToCode(high.bytes), start + 0xffff)
+
+          if (target instanceof PdfString) {
+            const base = decodeUtf16BE(target.bytes)
+            const prefix = base.slice(0, -1)
+            const last = base.charCodeAt(base.length - 1)
+            for (let code = start; code <= end; code++) {
+              map.set(code, prefix + String.fromCharCode(last + (code - start)))
+            }
+          } else if (Array.isArray(target)) {
+            target.forEach((item, offset) => {
+              if (item instanceof PdfString) map.set(start + offset, decodeUtf16BE(item.bytes))
+            })
+          }
+        }
+        break
+    }
+    operands.length = 0
+  }
+
+  return { map, codespace }
+}
+
+function loadFont(doc: PdfDocument, fontValue: PdfValue | undefined): PdfFont {
+  const dict = doc.dict(fontValue)
+  const font: PdfFont = { codeLength: 1, codespace: [], widths: new Map(), defaultWidth: 500 }
+  if (!dict) {
+    font.encoding = buildBaseEncoding(undefined)
+    return font
+  }
+
+  const subtype = doc.name(dict.get('Subtype'))
+
+  if (subtype === 'Type0') {
+    font.codeLength = 2
+    font.defaultWidth = 1000
+    const descendant = doc.dict(doc.array(dict.get('DescendantFonts'))[0])
+    if (descendant) {
+      font.defaultWidth = doc.number(descendant.get('DW'), 1000)
+      readCidWidths(doc, doc.array(descendant.get('W')), font.widths)
+    }
+  } else {
+    const encodingValue = doc.resolve(dict.get('Encoding'))
+    let baseName: string | undefined
+    let differences: PdfValue[] = []
+
+    if (encodingValue instanceof PdfName) {
+      baseName = encodingValue.name
+    } else if (encodingValue instanceof PdfDict) {
+      baseName = doc.name(encodingValue.get('BaseEncoding'))
+      differences = doc.array(encodingValue.get('Differences'))
+    }
+
+    const encoding = buildBaseEncoding(baseName)
+    let code = 0
+    for (const item of differences) {
+      if (typeof item === 'number') {
+        code = item
+      } else if (item instanceof PdfName) {
+        if (code < 256) encoding[code] = glyphNameToUnicode(item.name)
+        code++
+      }
+    }
+    font.encoding = encoding
+
+    const firstChar = doc.number(dict.get('FirstChar'))
+    doc.array(dict.get('Widths')).forEach((width, index) => {
+      font.widths.set(firstChar + index, doc.number(width))
+    })
+  }
+
+  const toUnicode = doc.resolve(dict.get('ToUnicode'))
+  if (toUnicode instanceof PdfStream) {
+    try {
+      const cmap = parseToUnicodeCMap(doc.decodeStream(toUnicode))
+      font.toUnicode = cmap.map
+      font.codespace = cmap.codespace
+    } catch (error) {
+      if (error instanceof AppError) throw error
+      // A broken ToUnicode map is not fatal; fall back to the encoding
+    }
+  }
+
+  return font
+}
+
+function readCidWidths(doc: PdfDocument, entries: PdfValue[], widths: Map<number, number>): void {
+  let i = 0
+  while (i < entries.length) {
+    const first = doc.number(entries[i])
+    const next = doc.resolve(entries[i + 1])
+    if (Array.isArray(next)) {
+      next.forEach((width, offset) => widths.set(first + offset, doc.number(width)))
+      i += 2
+    } else {
+      const last = doc.number(next)
+      const width = doc.number(entries[i + 2])
+      for (let code = first; code <= last && code - first < 0xffff; code++) widths.set(code, width)
+      i += 3
+    }
+  }
+}
+
+function splitCodes(font: PdfFont, bytes: Buffer): number[] {
+  const codes: number[] = []
+  let i = 0
+
+  while (i < bytes.length) {
+    let length = font.codeLength
+    if (font.codespace.length > 0) {
+      const match = [1, 2, 3, 4].find((candidate) => {
+        if (i + candidate > bytes.length) return false
+        const code = bytesToCode(bytes.subarray(i, i + candidate))
+        return font.codespace.some(
+          (range) => range.length === candidate && code >= range.low && code <= range.high
+        )
+      })
+      if (match) length = match
+    }
+    codes.push(bytesToCode(bytes.subarray(i, i + length)))
+    i += length
+  }
+
+  return codes
+}
+
+function decodeCode(font: PdfFont, code: number): string {
+  const mapped = font.toUnicode?.get(code)
+  if (mapped !== undefined) return mapped
+  if (font.encoding && code < 256) return font.encoding[code] ?? ''
+  return ''
+}
+
+// ---------------------------------------------------------------------------
+// Content stream interpretation
+// ---------------------------------------------------------------------------
+
+interface TextCursor {
+  output: string
+  lastX?: number
+  lastY?: number
+  lastSize: number
+}
+
+class ContentInterpreter {
+  private readonly fontCache = new Map<PdfValue | string, PdfFont>()
+
+  constructor(private readonly doc: PdfDocument) {}
+
+  extract(content: Buffer, resources: PdfDict | undefined): string {
+    const cursor: TextCursor = { output: '', lastSize: 12 }
+    this.run(content, resources, cursor, 0)
+    return cursor.output
+  }
+
+  private run(
+    content: Buffer,
+    resources: PdfDict | undefined,
+    cursor: TextCursor,
+    depth: number
+  ): void {
+    const lexer = new PdfLexer(content)
+    const operands: PdfValue[] = []
+    let font: PdfFont | undefined
+    let fontSize = 12
+    let leading = 0
+    let charSpacing = 0
+    let wordSpacing = 0
+    let tm = [1, 0, 0, 1, 0, 0]
+    let tlm = [1, 0, 0, 1, 0, 0]
+
+    const setLine = (matrix: number[]): void => {
+      tlm = matrix
+      tm = [...matrix]
+    }
+
+    const show = (bytes: Buffer): void => {
+      const activeFont = font ?? loadFont(this.doc, undefined)
+      const scale = Math.abs(tm[3]!) || Math.abs(tm[0]!) || 1
+      this.place(cursor, tm[4]!, tm[5]!, fontSize * scale)
+
+      for (const code of splitCodes(activeFont, bytes)) {
+        cursor.output += decodeCode(activeFont, code)
+        const width = activeFont.widths.get(code) ?? activeFont.defaultWidth
+        const spacing = charSpacing + (activeFont.codeLength === 1 && code === 32 ? wordSpacing : 0)
+        tm[4] = tm[4]! + ((width / 1000) * fontSize + spacing) * (tm[0]! || 1)
+      }
+
+      cursor.lastX = tm[4]
+      cursor.lastY = tm[5]
+      cursor.lastSize = fontSize * scale
+    }
+
+    const newLine = (): void => {
+      setLine([tlm[0]!, tlm[1]!, tlm[2]!, tlm[3]!, tlm[4]!, tlm[5]! - leading])
+    }
+
+    while (!lexer.atEnd) {
+      const token = lexer.readObject()
+      if (token === undefined) break
+      if (!(token instanceof PdfOperator)) {
+        operands.push(token)
+        continue
+      }
+
+      const num = (index: number): number => {
+        const value = operands[index]
+        return typeof value === 'number' ? value : 0
+      }
+
+      switch (token.op) {
+        case 'BT':
+          setLine([1, 0, 0, 1, 0, 0])
+          break
+        case 'Tf': {
+          const name = operands[0]
+          font = name instanceof PdfName ? this.getFont(resources, name.name) : undefined
+          fontSize = num(1)
+          break
+        }
+        case 'TL':
+          leading = num(0)
+          break
+        case 'Tc':
+          charSpacing = num(0)
+          break
+        case 'Tw':
+          wordSpacing = num(0)
+          break
+        case 'Td':
+        case 'TD': {
+          const tx = num(0)
+          const ty = num(1)
+          if (token.op === 'TD') leading = -ty
+          setLine([
+            tlm[0]!,
+            tlm[1]!,
+            tlm[2]!,
+            tlm[3]!,
+            tlm[4]! + tx * tlm[0]! + ty * tlm[2]!,
+            tlm[5]! + tx * tlm[1]! + ty * tlm[3]!
+          ])
+          break
+        }
+        case 'Tm':
+          setLine([num(0), num(1), num(2), num(3), num(4), num(5)])
+          break
+        case 'T*':
+          newLine()
+          break
+        case 'Tj': {
+          const text = operands[0]
+          if (text instanceof PdfString) show(text.bytes)
+          break
+        }
+        case "'":
+        case '"': {
+          if (token.op === '"') {
+            wordSpacing = num(0)
+            charSpacing = num(1)
+          }
+          newLine()
+          const text = operands[operands.length - 1]
+          if (text instanceof PdfString) show(text.bytes)
+          break
+        }
+        case 'TJ': {
+          const items = operands[0]
+          if (!Array.isArray(items)) break
+          for (const item of items) {
+            if (item instanceof PdfString) {
+              show(item.bytes)
+            } else if (typeof item === 'number') {
+              const shift = (-item / 1000) * fontSize * (tm[0]! || 1)
+              tm[4] = tm[4]! + shift
+              // A shift of a fifth of the font size or more is a word gap (Word and TeX write -250)
+              if (-item / 1000 >= 0.2 && !/\s$/.test(cursor.output)) cursor.output += ' '
+              cursor.lastX = tm[4]
+            }
+          }
+          break
+        }
+        case 'Do': {
+          const name = operands[0]
+          if (name instanceof PdfName && depth < MAX_XOBJECT_DEPTH) {
+            this.runXObject(resources, name.name, cursor, depth)
+          }
+          break
+        }
+        case 'BI':
+          lexer.readInlineImageData()
+          break
+      }
+
+      operands.length = 0
+    }
+  }
+
+  private place(cursor: TextCursor, x: number, y: number, size: number): void {
+    if (cursor.lastX === undefined || cursor.lastY === undefined || cursor.output === '') return
+
+    const lineHeight = Math.max(size, cursor.lastSize, 1)
+    const dy = cursor.lastY - y
+
+    if (Math.abs(dy) > lineHeight * 0.5) {
+      cursor.output = cursor.output.replace(/[ \t]+$/, '')
+      cursor.output += dy > lineHeight * 1.8 || dy < 0 ? '\n\n' : '\n'
+      return
+    }
+
+    const gap = x - cursor.lastX
+    if ((gap > lineHeight * 0.15 || gap < -lineHeight) && !/\s$/.test(cursor.output)) {
+      cursor.output += ' '
+    }
+  }
+
+  private runXObject(
+    resources: PdfDict | undefined,
+    name: string,
+    cursor: TextCursor,
+    depth: number
+  ): void {
+    const xobjects = this.doc.dict(resources?.get('XObject'))
+    const xobject = this.doc.resolve(xobjects?.get(name))
+    if (!(xobject instanceof PdfStream) || this.doc.name(xobject.dict.get('Subtype')) !== 'Form')
+      return
+
+    try {
+      const formResources = this.doc.dict(xobject.dict.get('Resources')) ?? resources
+      this.run(this.doc.decodeStream(xobject), formResources, cursor, depth + 1)
+    } catch (error) {
+      if (error instanceof AppError) throw error
+      // Undecodable form XObjects are skipped rather than failing the page
+    }
+  }
+
+  private getFont(resources: PdfDict | undefined, name: string): PdfFont {
+    const fonts = this.doc.dict(resources?.get('Font'))
+    const fontValue = fonts?.get(name)
+    const key = fontValue ?? name
+
+    let font = this.fontCache.get(key)
+    if (!font) {
+      font = loadFont(this.doc, fontValue)
+      this.fontCache.set(key, font)
+    }
+    return font
+  }
+}
+
+function decodeTextString(value: PdfValue | undefined): string | undefined {
+  if (!(value instanceof PdfString)) return undefined
+  const bytes = value.bytes
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return decodeUtf16BE(bytes.subarray(2))
+  return bytes.toString('latin1')
+}
+
+function normalizePageText(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+export function isPdfBuffer(buffer: Buffer): boolean {
+  return buffer.subarray(0, 1024).toString('latin1').includes('%PDF-')
+}
+
+/**
+ * Extract the text of every page of a PDF, in page-tree order.
+ *
+ * Supports FlateDecode/ASCIIHex/ASCII85 content streams, compressed object
+ * streams, simple-font encodings (WinAnsi, MacRoman, Standard, Differences),
+ * ToUnicode CMaps and form XObjects. Encrypted documents are rejected, as are
+ * files whose decoded streams add up to more than `maxBytes`.
+ */
+export function extractPdfText(
+  buffer: Buffer,
+  maxBytes = DEFAULT_MAX_UNCOMPRESSED_SIZE
+): PdfExtractionResult {
+  if (!isPdfBuffer(buffer)) {
+    throw new ValidationError('File is not a valid PDF document')
+  }
+
+  const doc = new PdfDocument(buffer, maxBytes)
+
+  if (doc.isEncrypted) {
+    throw new ValidationError('Encrypted PDF documents are not supported')
+  }
+
+  const interpreter = new ContentInterpreter(doc)
+  const pages = doc.getPages().map((page, index): PdfPageText => {
+    const resources = doc.dict(doc.inherited(page, 'Resources'))
+    const contentsValue = doc.resolve(page.get('Contents'))
+    const streams = (Array.isArray(contentsValue) ? contentsValue : [contentsValue])
+      .map((value) => doc.resolve(value))
+      .filter((value): value is PdfStream => value instanceof PdfStream)
+
+    const content = Buffer.concat(
+      streams.flatMap((stream) => {
+        try {
+          return [doc.decodeStream(stream), Buffer.from('\n')]
+        } catch (error) {
+          if (error instanceof AppError) throw error
+          return []
+        }
+      })
+    )
+
+    return {
+      page: index + 1,
+      text: normalizePageText(interpreter.extract(content, resources))
+    }
+  })
+
+  return {
+    pages,
+    title: decodeTextString(doc.resolve(doc.getInfo()?.get('Title')))
+  }
+}
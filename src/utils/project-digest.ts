@@ -0,0 +1,337 @@
+import type {
+  DocumentInput,
+  DocumentIndexes,
+  EntityIndex,
+  OptimizationResult,
+  TimelineEntry
+} from '../types/index.js'
+import { classifyDocument } from './document-classifier.js'
+import { resolveEntities } from './entity-resolver.js'
+import { mergeIndexes } from './index-merge.js'
+import { renderTable } from './markdown.js'
+import { slugify } from './section-ids.js'
+import { countTokens } from './tokenizer.js'
+
+export interface DigestFile {
+  /** Path inside the bundle, e.g. `index/entity_index.md` */
+  path: string
+  mediaType: 'text/markdown' | 'application/json'
+  content: string
+}
+
+export interface ProjectDigestOptions {
+  /** The source documents, for their types */
+  documents?: DocumentInput[]
+  generatedAt?: Date
+}
+
+export interface DigestTopic {
+  topic: string
+  relevance: number
+  documents: Array<{ document: string; relevance: number; sections: string[] }>
+}
+
+export interface DigestTimelineEntry extends TimelineEntry {
+  documents: string[]
+}
+
+interface DigestDocument {
+  result: OptimizationResult
+  path: string
+  indexes: DocumentIndexes
+}
+
+const SIGNIFICANCE: TimelineEntry['significance'][] = ['low', 'medium', 'high']
+const MAX_PARTICIPANTS = 5
+const MAX_EXAMPLE = 120
+
+function normalizeKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+function json(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1).trimEnd()}…` : text
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`
+}
+
+// One Markdown file per optimized document, named after the source file
+function documentPaths(results: OptimizationResult[]): string[] {
+  const used = new Set<string>()
+  return results.map((result) => {
+    const base = slugify(result.originalFilename.replace(/\.[^./]+$/, '')) || 'document'
+    let path = `documents/${base}.md`
+    for (let n = 2; used.has(path); n++) path = `documents/${base}-${n}.md`
+    used.add(path)
+    return path
+  })
+}
+
+function buildTopics(documents: DigestDocument[]): DigestTopic[] {
+  const merged = mergeIndexes(
+    documents.map(({ result, indexes }) => ({ indexes, weight: result.metadata.originalLength }))
+  )
+  return merged.topics.map((topic) => ({
+    topic: topic.topic,
+    relevance: topic.relevance,
+    documents: documents.flatMap(({ result, indexes }) =>
+      indexes.topics
+        .filter((candidate) => normalizeKey(candidate.topic) === normalizeKey(topic.topic))
+        .map((candidate) => ({
+          document: result.originalFilename,
+          relevance: candidate.relevance,
+          sections: candidate.sections
+        }))
+    )
+  }))
+}
+
+function buildTimeline(documents: DigestDocument[]): DigestTimelineEntry[] {
+  const entries = new Map<string, DigestTimelineEntry>()
+  for (const { result, indexes } of documents) {
+    for (const entry of indexes.timeline) {
+      const key = `${entry.date}|${normalizeKey(entry.event)}`
+      const existing = entries.get(key)
+      if (!existing) {
+        entries.set(key, { ...entry, documents: [result.originalFilename] })
+        continue
+      }
+      if (!existing.documents.includes(result.originalFilename)) {
+        existing.documents.push(result.originalFilename)
+      }
+      if (SIGNIFICANCE.indexOf(entry.significance) > SIGNIFICANCE.indexOf(existing.significance)) {
+        existing.significance = entry.significance
+      }
+    }
+  }
+  return [...entries.values()].sort((a, b) => a.date.localeCompare(b.date))
+}
+
+function renderEntityIndex(entities: EntityIndex[]): string {
+  const rows = entities.map((entity) => [
+    entity.name,
+    entity.type,
+    String(entity.mentions),
+    (entity.aliases ?? []).join(', '),
+    (entity.sources ?? [])
+      .map((source) =>
+        source.sectionIds ? `${source.document} (${source.sectionIds.join(', ')})` : source.document
+      )
+      .join('; '),
+    truncate(entity.context[0] ?? '', MAX_EXAMPLE)
+  ])
+
+  return [
+    '# Entity Index',
+    'People, organizations, places and other named entities across the project, with the documents and sections they appear in.',
+    rows.length > 0
+      ? renderTable([['Entity', 'Type', 'Mentions', 'Aliases', 'Appears in', 'Example'], ...rows])
+      : '_No entities found._'
+  ].join('\n\n')
+}
+
+function renderTopicIndex(topics: DigestTopic[]): string {
+  const rows = topics.map((topic) => [
+    topic.topic,
+    topic.relevance.toFixed(2),
+    topic.documents
+      .map((source) =>
+        source.sections.length > 0
+          ? `${source.document} (${source.sections.join(', ')})`
+          : source.document
+      )
+      .join('; ')
+  ])
+
+  return [
+    '# Topic Index',
+    'Topics across the project, most relevant first, with the sections that cover them.',
+    rows.length > 0
+      ? renderTable([['Topic', 'Relevance', 'Sections'], ...rows])
+      : '_No topics found._'
+  ].join('\n\n')
+}
+
+function renderTimeline(timeline: DigestTimelineEntry[]): string {
+  const rows = timeline.map((entry) => [
+    entry.date,
+    entry.event,
+    entry.significance,
+    entry.documents.join(', ')
+  ])
+
+  return [
+    '# Timeline',
+    'Dated events and decisions across the project, in chronological order.',
+    rows.length > 0
+      ? renderTable([['Date', 'Event', 'Significance', 'Source'], ...rows])
+      : '_No dated events found._'
+  ].join('\n\n')
+}
+
+function renderReadme(
+  documents: DigestDocument[],
+  failed: OptimizationResult[],
+  entities: EntityIndex[],
+  topics: DigestTopic[],
+  timeline: DigestTimelineEntry[],
+  options: ProjectDigestOptions,
+  files: string[]
+): string {
+  const generatedAt = (options.generatedAt ?? new Date()).toISOString()
+  const inputs = new Map((options.documents ?? []).map((document) => [document.name, document]))
+
+  const entityTypes = new Map<string, number>()
+  for (const entity of entities) {
+    entityTypes.set(entity.type, (entityTypes.get(entity.type) ?? 0) + 1)
+  }
+  const first = timeline[0]
+  const last = timeline[timeline.length - 1]
+
+  const summary = [
+    `- **Documents:** ${documents.length} optimized${failed.length > 0 ? `, ${failed.length} failed` : ''}`,
+    `- **Entities:** ${entities.length}${
+      entityTypes.size > 0
+        ? ` (${[...entityTypes.entries()].map(([type, count]) => `${count} ${type}`).join(', ')})`
+        : ''
+    }`,
+    `- **Topics:** ${topics.length}${
+      topics.length > 0
+        ? ` (top: ${topics
+            .slice(0, 5)
+            .map((topic) => topic.topic)
+            .join(', ')})`
+        : ''
+    }`,
+    `- **Timeline:** ${plural(timeline.length, 'event')}${
+      first && last ? ` from ${first.date} to ${last.date}` : ''
+    }`
+  ]
+
+  const rows = documents.map(({ result, path, indexes }) => {
+    const input = inputs.get(result.originalFilename)
+    const type = input ? (input.type ?? classifyDocument(input.content, input.name).type ?? '') : ''
+    const participants = indexes.entities
+      .filter((entity) => entity.type === 'person')
+      .slice(0, MAX_PARTICIPANTS)
+      .map((entity) => entity.name)
+    return [
+      result.originalFilename,
+      path,
+      type,
+      participants.join(', '),
+      String(indexes.entities.length),
+      indexes.topics
+        .slice(0, 3)
+        .map((topic) => topic.topic)
+        .join(', '),
+      String(result.sections?.length ?? 0),
+      String(countTokens(result.optimizedContent, result.metadata.model))
+    ]
+  })
+
+  return [
+    '# Project Digest',
+    `Generated ${generatedAt} from ${plural(documents.length + failed.length, 'document')}. Original documents are unchanged; everything here is additive.`,
+    ['## Summary', summary.join('\n')].join('\n\n'),
+    ['## Structure', ['```', ...files, '```'].join('\n')].join('\n\n'),
+    [
+      '## Documents',
+      rows.length > 0
+        ? renderTable([
+            ['File', 'Digest', 'Type', 'Participants', 'Entities', 'Topics', 'Sections', 'Tokens'],
+            ...rows
+          ])
+        : '_No documents were optimized._'
+    ].join('\n\n'),
+    ...(failed.length > 0
+      ? [
+          [
+            '## Failed Documents',
+            failed
+              .map(
+                (result) => `- ${result.originalFilename}: ${result.error ?? 'Processing failed'}`
+              )
+              .join('\n')
+          ].join('\n\n')
+        ]
+      : [])
+  ].join('\n\n')
+}
+
+/**
+ * Render the project digest bundle described in `LLM-optimized-document-prompt.md`:
+ * `README_ProjectDigest.md`, the entity, topic and timeline indexes under
+ * `index/` with their JSON mirrors, and each optimized document under
+ * `documents/`. Entities are resolved across documents, so each one lists
+ * every document and section it appears in.
+ */
+export function buildProjectDigest(
+  results: OptimizationResult[],
+  options: ProjectDigestOptions = {}
+): DigestFile[] {
+  const fulfilled = results.filter((result) => result.status === 'fulfilled')
+  const failed = results.filter((result) => result.status !== 'fulfilled')
+  const paths = documentPaths(fulfilled)
+  const documents: DigestDocument[] = fulfilled.map((result, index) => ({
+    result,
+    path: paths[index]!,
+    indexes: result.indexes ?? { entities: [], topics: [], timeline: [] }
+  }))
+
+  const entities = resolveEntities(
+    documents.map(({ result, indexes }) => ({ document: result.originalFilename, indexes }))
+  )
+  const topics = buildTopics(documents)
+  const timeline = buildTimeline(documents)
+
+  const indexFiles: DigestFile[] = [
+    {
+      path: 'index/entity_index.md',
+      mediaType: 'text/markdown',
+      content: `${renderEntityIndex(entities)}\n`
+    },
+    {
+      path: 'index/topic_index.md',
+      mediaType: 'text/markdown',
+      content: `${renderTopicIndex(topics)}\n`
+    },
+    {
+      path: 'index/timeline.md',
+      mediaType: 'text/markdown',
+      content: `${renderTimeline(timeline)}\n`
+    },
+    { path: 'index/entity_index.json', mediaType: 'application/json', content: json({ entities }) },
+    { path: 'index/topic_index.json', mediaType: 'application/json', content: json({ topics }) },
+    { path: 'index/timeline.json', mediaType: 'application/json', content: json({ timeline }) }
+  ]
+  const documentFiles: DigestFile[] = documents.map(({ result, path }) => ({
+    path,
+    mediaType: 'text/markdown',
+    content: result.optimizedContent.endsWith('\n')
+      ? result.optimizedContent
+      : `${result.optimizedContent}\n`
+  }))
+
+  const readmePath = 'README_ProjectDigest.md'
+  const readme = renderReadme(documents, failed, entities, topics, timeline, options, [
+    readmePath,
+    ...indexFiles.map((file) => file.path),
+    ...paths
+  ])
+
+  return [
+    { path: readmePath, mediaType: 'text/markdown', content: `${readme}\n` },
+    ...indexFiles,
+    ...documentFiles
+  ]
+}
@@ -0,0 +1,135 @@
+import type {
+  DocumentInput,
+  ProvenanceReport,
+  ProvenanceSource,
+  SectionAnchor,
+  SectionProvenance
+} from '../types/index.js'
+
+const HEADING = /^#{1,6}\s+(\S+)/
+const FENCE = /^\s*(```|~~~)/
+const SECTION_ID = /sec-\d+(?:-\d+)*(?:-[a-z0-9][\w-]*)?/g
+// "Source: handbook.pdf (sec-3-4-pto)", also as "**Sources:** a.md, b.md" or a list item
+const CITATION = /^\s*(?:>\s*)?(?:[-*]\s+)?(?:\*\*|_)?Sources?:(?:\*\*|_)?\s*(.+)$/i
+// The metadata block of each consolidated group lists its files; it is not a citation
+const GROUP_METADATA = /^>\s*\*\*Sources:\*\*/
+
+interface CitationMatch {
+  index: number
+  document?: string
+  sectionId?: string
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Read the documents and source section IDs named in one citation line. Each
+ * section ID belongs to the document named before it.
+ */
+function parseCitation(text: string, names: string[]): Map<string, Set<string>> {
+  const matches: CitationMatch[] = []
+  for (const name of names) {
+    const pattern = new RegExp(`(?<![\\w.-])${escapeRegExp(name)}(?![\\w-])`, 'gi')
+    for (const match of text.matchAll(pattern)) matches.push({ index: match.index, document: name })
+  }
+  for (const match of text.matchAll(SECTION_ID)) {
+    matches.push({ index: match.index, sectionId: match[0] })
+  }
+  matches.sort((a, b) => a.index - b.index)
+
+  const cited = new Map<string, Set<string>>()
+  let current: string | undefined
+  for (const match of matches) {
+    if (match.document) {
+      current = match.document
+      if (!cited.has(current)) cited.set(current, new Set())
+    } else if (current && match.sectionId) {
+      cited.get(current)?.add(match.sectionId)
+    }
+  }
+  return cited
+}
+
+function mergeSources(
+  target: Map<string, Set<string>>,
+  sources: Map<string, Set<string>>
+): Map<string, Set<string>> {
+  for (const [document, sectionIds] of sources) {
+    const merged = target.get(document) ?? new Set<string>()
+    for (const id of sectionIds) merged.add(id)
+    target.set(document, merged)
+  }
+  return target
+}
+
+/**
+ * Map each section of consolidated Markdown to the source documents (and
+ * their section IDs) cited by its `Source:` lines, and check that every
+ * source document is cited somewhere. A section without a citation of its
+ * own takes its parent's sources, or failing that its subsections'.
+ */
+export function buildProvenance(
+  markdown: string,
+  sections: SectionAnchor[],
+  documents: DocumentInput[]
+): ProvenanceReport {
+  // Longer names first, so "notes.md" is not also read as part of "meeting-notes.md"
+  const names = [...new Set(documents.map((document) => document.name))].sort(
+    (a, b) => b.length - a.length
+  )
+  const anchors = new Map(sections.map((section) => [section.id, section]))
+  const own = new Map(sections.map((section) => [section.id, new Map<string, Set<string>>()]))
+  const cited = new Set<string>()
+  let current: string | undefined
+  let inFence = false
+
+  for (const line of markdown.split('\n')) {
+    if (FENCE.test(line)) inFence = !inFence
+    if (inFence) continue
+
+    const id = HEADING.exec(line)?.[1]
+    if (id && anchors.has(id)) {
+      current = id
+      continue
+    }
+
+    const citation = GROUP_METADATA.test(line) ? undefined : CITATION.exec(line)?.[1]
+    if (!citation) continue
+    const sources = parseCitation(citation, names)
+    for (const document of sources.keys()) cited.add(document)
+    if (current) mergeSources(own.get(current)!, sources)
+  }
+
+  const resolved = new Map<string, Map<string, Set<string>>>()
+  const uncovered = new Set<string>()
+  for (const section of sections) {
+    const sources = own.get(section.id)!
+    const inherited = section.parentId ? resolved.get(section.parentId) : undefined
+    const value = sources.size > 0 ? sources : new Map(inherited ?? [])
+    if (value.size === 0) uncovered.add(section.id)
+    resolved.set(section.id, value)
+  }
+  // Sections still uncited (e.g. a group heading) cover what their subsections cite
+  for (const section of [...sections].reverse()) {
+    if (section.parentId && uncovered.has(section.parentId)) {
+      mergeSources(resolved.get(section.parentId)!, resolved.get(section.id)!)
+    }
+  }
+
+  const entries: SectionProvenance[] = sections.map((section) => ({
+    sectionId: section.id,
+    sources: [...resolved.get(section.id)!].map(
+      ([document, sectionIds]): ProvenanceSource => ({
+        document,
+        ...(sectionIds.size > 0 ? { sectionIds: [...sectionIds] } : {})
+      })
+    )
+  }))
+  const uncited = [...new Set(documents.map((document) => document.name))].filter(
+    (name) => !cited.has(name)
+  )
+
+  return { passed: uncited.length === 0, sections: entries, uncited }
+}
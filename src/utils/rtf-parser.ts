@@ -0,0 +1,649 @@
+import { ValidationError } from '../middleware/error-handler.js'
+import { decodeCodepage } from './encoding.js'
+import {
+  renderInlineSegments,
+  renderTable,
+  joinBlocks,
+  type InlineSegment,
+  type MarkdownBlock
+} from './markdown.js'
+
+export interface RtfExtractionResult {
+  markdown: string
+  title?: string
+  author?: string
+  headingCount: number
+  tableCount: number
+  footnoteCount: number
+}
+
+type RtfToken =
+  | { type: 'groupStart' }
+  | { type: 'groupEnd' }
+  | { type: 'control'; word: string; param?: number }
+  | { type: 'symbol'; char: string }
+  | { type: 'byte'; value: number }
+  | { type: 'text'; text: string }
+
+type Destination =
+  | 'body'
+  | 'skip'
+  | 'info'
+  | 'title'
+  | 'author'
+  | 'stylesheet'
+  | 'listText'
+  | 'fieldInstruction'
+  | 'footnote'
+
+interface GroupState {
+  destination: Destination
+  bold: boolean
+  italic: boolean
+  unicodeSkip: number
+}
+
+interface ParagraphState {
+  styleIndex?: number
+  outlineLevel?: number
+  inTable: boolean
+  listId?: number
+  listLevel: number
+  listText?: string
+}
+
+interface StyleEntry {
+  name: string
+  basedOn?: number
+}
+
+interface FieldState {
+  depth: number
+  instruction: string
+  segments: InlineSegment[]
+  resultStart: number
+}
+
+const MAX_HEADING_LEVEL = 6
+const CONTROL_WORD = /([a-zA-Z]{1,32})(-?\d{1,10})? ?/y
+
+// Destinations whose text never belongs in the document body
+const SKIPPED_DESTINATIONS = new Set([
+  'annotation',
+  'atnauthor',
+  'atnid',
+  'colortbl',
+  'colorschememapping',
+  'datastore',
+  'fonttbl',
+  'footer',
+  'footerf',
+  'footerl',
+  'footerr',
+  'generator',
+  'header',
+  'headerf',
+  'headerl',
+  'headerr',
+  'latentstyles',
+  'listoverridetable',
+  'listtable',
+  'nonshppict',
+  'object',
+  'pgdsctbl',
+  'pict',
+  'pn',
+  'revtbl',
+  'rsidtbl',
+  'shp',
+  'tc',
+  'themedata',
+  'xe',
+  'xmlnstbl'
+])
+
+const SPECIAL_CHARACTERS: Record<string, string> = {
+  tab: '\t',
+  line: '\n',
+  emdash: '—',
+  endash: '–',
+  emspace: ' ',
+  enspace: ' ',
+  qmspace: ' ',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”'
+}
+
+const SPECIAL_SYMBOLS: Record<string, string> = {
+  '\\': '\\',
+  '{': '{',
+  '}': '}',
+  '~': '\u00A0',
+  _: '-',
+  '-': ''
+}
+
+export function isRtfBuffer(buffer: Buffer): boolean {
+  return buffer.subarray(0, 5).toString('latin1') === '{\\rtf'
+}
+
+/**
+ * Split RTF source into groups, control words, control symbols, raw bytes
+ * (`\'hh` escapes and 8-bit characters) and plain text runs.
+ */
+function tokenizeRtf(source: string): RtfToken[] {
+  const tokens: RtfToken[] = []
+  let text = ''
+  let pos = 0
+
+  const flushText = (): void => {
+    if (text) tokens.push({ type: 'text', text })
+    text = ''
+  }
+
+  while (pos < source.length) {
+    const char = source[pos]!
+
+    if (char === '{' || char === '}') {
+      flushText()
+      tokens.push({ type: char === '{' ? 'groupStart' : 'groupEnd' })
+      pos++
+    } else if (char === '\r' || char === '\n') {
+      pos++
+    } else if (char !== '\\') {
+      if (char.charCodeAt(0) >= 0x80) {
+        flushText()
+        tokens.push({ type: 'byte', value: char.charCodeAt(0) })
+      } else {
+        text += char
+      }
+      pos++
+    } else {
+      flushText()
+      const next = source[pos + 1] ?? ''
+      CONTROL_WORD.lastIndex = pos + 1
+      const match = /[a-zA-Z]/.test(next) ? CONTROL_WORD.exec(source) : null
+
+      if (match) {
+        const word = match[1]!
+        const param = match[2] !== undefined ? parseInt(match[2], 10) : undefined
+        pos += 1 + match[0].length
+        // Binary payloads are skipped wholesale
+        if (word === 'bin' && param !== undefined && param > 0) {
+          pos += param
+        } else {
+          tokens.push({ type: 'control', word, param })
+        }
+      } else if (next === "'") {
+        const value = parseInt(source.slice(pos + 2, pos + 4), 16)
+        if (!Number.isNaN(value)) tokens.push({ type: 'byte', value })
+        pos += 4
+      } else if (next === '\r' || next === '\n') {
+        // A backslash before a line break is equivalent to \par
+        tokens.push({ type: 'control', word: 'par' })
+        pos += 2
+      } else {
+        tokens.push({ type: 'symbol', char: next })
+        pos += 2
+      }
+    }
+  }
+
+  flushText()
+  return tokens
+}
+
+/**
+ * Interprets an RTF token stream and builds Markdown: paragraphs, headings
+ * (outline levels and "heading N" styles), bulleted and numbered lists,
+ * tables, bold/italic emphasis, hyperlinks from HYPERLINK fields and
+ * footnotes. Unicode escapes honour the `\ucN` fallback-skip count.
+ */
+class RtfConverter {
+  private readonly groups: GroupState[] = [
+    { destination: 'body', bold: false, italic: false, unicodeSkip: 1 }
+  ]
+  private readonly blocks: MarkdownBlock[] = []
+  private readonly styles = new Map<number, StyleEntry>()
+  private readonly listCounters = new Map<number, number[]>()
+  private readonly fields: FieldState[] = []
+  private readonly notes: string[] = []
+  private readonly info = { title: '', author: '' }
+  private paragraph: ParagraphState = { inTable: false, listLevel: 0 }
+  private segments: InlineSegment[] = []
+  private cellParagraphs: string[] = []
+  private tableRow: string[] = []
+  private tableRows: string[][] = []
+  private pendingBytes: number[] = []
+  private pendingSkip = 0
+  private ignorableDestination = false
+  private codepage = 1252
+  private pendingStyle?: { index: number; depth: number; entry: StyleEntry }
+  private footnote?: { depth: number; text: string }
+  private headingCount = 0
+  private tableCount = 0
+
+  convert(tokens: RtfToken[]): RtfExtractionResult {
+    for (const token of tokens) {
+      if (token.type !== 'byte') this.flushBytes()
+
+      switch (token.type) {
+        case 'groupStart':
+          this.pendingSkip = 0
+          this.groups.push({ ...this.group })
+          break
+        case 'groupEnd':
+          this.pendingSkip = 0
+          this.endGroup()
+          break
+        case 'control':
+          this.handleControl(token.word, token.param)
+          break
+        case 'symbol':
+          this.handleSymbol(token.char)
+          break
+        case 'byte':
+          if (this.pendingSkip > 0) {
+            this.pendingSkip--
+          } else {
+            this.pendingBytes.push(token.value)
+          }
+          break
+        case 'text': {
+          const skipped = Math.min(this.pendingSkip, token.text.length)
+          this.pendingSkip -= skipped
+          this.appendText(token.text.slice(skipped))
+          break
+        }
+      }
+    }
+
+    this.flushBytes()
+    if (this.segments.length > 0) this.endParagraph()
+    this.endRow()
+    this.flushTable()
+
+    let markdown = joinBlocks(this.blocks)
+    if (this.notes.length > 0) {
+      markdown += '\n\n' + this.notes.map((text, index) => `[^${index + 1}]: ${text}`).join('\n')
+    }
+
+    return {
+      markdown: markdown.trim(),
+      title: this.info.title.trim() || undefined,
+      author: this.info.author.trim() || undefined,
+      headingCount: this.headingCount,
+      tableCount: this.tableCount,
+      footnoteCount: this.notes.length
+    }
+  }
+
+  private get group(): GroupState {
+    return this.groups[this.groups.length - 1]!
+  }
+
+  private endGroup(): void {
+    const depth = this.groups.length
+
+    if (this.pendingStyle?.depth === depth) {
+      const name = this.pendingStyle.entry.name.replace(/;\s*$/, '').trim()
+      this.styles.set(this.pendingStyle.index, { ...this.pendingStyle.entry, name })
+      this.pendingStyle = undefined
+    }
+
+    const field = this.fields[this.fields.length - 1]
+    if (field?.depth === depth) {
+      this.fields.pop()
+      this.finishField(field)
+    }
+
+    if (this.footnote?.depth === depth) {
+      this.notes.push(this.footnote.text.replace(/\s+/g, ' ').trim())
+      this.footnote = undefined
+    }
+
+    // The outermost group is never popped so stray closing braces are harmless
+    if (this.groups.length > 1) this.groups.pop()
+  }
+
+  private handleControl(word: string, param: number | undefined): void {
+    const group = this.group
+    const ignorable = this.ignorableDestination
+    this.ignorableDestination = false
+
+    if (group.destination === 'skip') return
+
+    if (this.pendingSkip > 0 && word !== 'u') {
+      this.pendingSkip--
+      return
+    }
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      group.destination = 'skip'
+      return
+    }
+
+    switch (word) {
+      case 'ansicpg':
+        if (param !== undefined && param > 0) this.codepage = param
+        return
+      case 'mac':
+        this.codepage = 10000
+        return
+      case 'pc':
+        this.codepage = 437
+        return
+      case 'pca':
+        this.codepage = 850
+        return
+      case 'uc':
+        group.unicodeSkip = Math.max(0, param ?? 1)
+        return
+      case 'u':
+        if (param !== undefined) {
+          this.appendText(String.fromCharCode(param < 0 ? param + 0x10000 : param))
+          this.pendingSkip = group.unicodeSkip
+        }
+        return
+      case 'b':
+        group.bold = param !== 0
+        return
+      case 'i':
+        group.italic = param !== 0
+        return
+      case 'plain':
+        group.bold = false
+        group.italic = false
+        return
+      case 'info':
+        group.destination = 'info'
+        return
+      case 'title':
+      case 'author':
+        if (group.destination === 'info') group.destination = word
+        return
+      case 'stylesheet':
+        group.destination = 'stylesheet'
+        return
+      case 'fldinst':
+        group.destination = 'fieldInstruction'
+        return
+      case 'fldrslt':
+        return
+      case 'field':
+        this.fields.push({
+          depth: this.groups.length,
+          instruction: '',
+          segments: this.segments,
+          resultStart: this.segments.length
+        })
+        return
+      case 'footnote':
+        if (group.destination === 'body') {
+          this.appendText(`[^${this.notes.length + 1}]`, true)
+          this.footnote = { depth: this.groups.length, text: '' }
+          group.destination = 'footnote'
+        } else {
+          group.destination = 'skip'
+        }
+        return
+      case 'pntext':
+      case 'listtext':
+        group.destination = 'listText'
+        this.paragraph.listText = ''
+        return
+    }
+
+    if (ignorable) {
+      // Unknown \* destinations are optional and must be skipped
+      group.destination = 'skip'
+      return
+    }
+
+    if (group.destination === 'stylesheet') {
+      this.handleStyleControl(word, param)
+      return
+    }
+
+    const character = SPECIAL_CHARACTERS[word]
+    if (character !== undefined) {
+      if (group.destination !== 'listText') this.appendText(character)
+      return
+    }
+
+    if (group.destination === 'footnote') {
+      if (word === 'par' || word === 'sect' || word === 'page') this.appendText(' ')
+      return
+    }
+
+    if (group.destination !== 'body') return
+
+    switch (word) {
+      case 'par':
+      case 'sect':
+      case 'page':
+        this.endParagraph()
+        break
+      case 'pard': {
+        // Word writes {\listtext} before the \pard of its paragraph, so the marker carries over
+        const { listText } = this.paragraph
+        this.paragraph = {
+          inTable: false,
+          listLevel: 0,
+          ...(listText !== undefined ? { listText } : {})
+        }
+        break
+      }
+      case 's':
+        this.paragraph.styleIndex = param
+        break
+      case 'outlinelevel':
+        this.paragraph.outlineLevel = param
+        break
+      case 'intbl':
+        this.paragraph.inTable = true
+        break
+      case 'ls':
+        this.paragraph.listId = param
+        break
+      case 'ilvl':
+        this.paragraph.listLevel = Math.max(0, param ?? 0)
+        break
+      case 'cell':
+        this.endCell()
+        break
+      case 'row':
+        this.endRow()
+        break
+      case 'nestcell':
+        this.appendText(' ')
+        break
+    }
+  }
+
+  private handleStyleControl(word: string, param: number | undefined): void {
+    const depth = this.groups.length
+
+    if (word === 's' && param !== undefined) {
+      this.pendingStyle = { index: param, depth, entry: { name: '' } }
+    } else if (word === 'sbasedon' && this.pendingStyle?.depth === depth) {
+      this.pendingStyle.entry.basedOn = param
+    } else if (word === 'cs' || word === 'ds' || word === 'ts') {
+      // Character, section and table styles never make a paragraph a heading
+      this.pendingStyle = undefined
+    }
+  }
+
+  private handleSymbol(char: string): void {
+    if (this.group.destination === 'skip') return
+
+    if (char === '*') {
+      this.ignorableDestination = true
+      return
+    }
+
+    if (this.pendingSkip > 0) {
+      this.pendingSkip--
+      return
+    }
+
+    const text = SPECIAL_SYMBOLS[char]
+    if (text !== undefined) this.appendText(text)
+  }
+
+  private flushBytes(): void {
+    if (this.pendingBytes.length === 0) return
+    const text = decodeCodepage(Buffer.from(this.pendingBytes), this.codepage)
+    this.pendingBytes = []
+    this.appendText(text)
+  }
+
+  private appendText(text: string, plain = false): void {
+    if (!text) return
+    const group = this.group
+
+    switch (group.destination) {
+      case 'body':
+        this.segments.push({ text, bold: !plain && group.bold, italic: !plain && group.italic })
+        break
+      case 'footnote':
+        if (this.footnote) this.footnote.text += text
+        break
+      case 'listText':
+        this.paragraph.listText = (this.paragraph.listText ?? '') + text
+        break
+      case 'fieldInstruction': {
+        const field = this.fields[this.fields.length - 1]
+        if (field) field.instruction += text
+        break
+      }
+      case 'title':
+      case 'author':
+        this.info[group.destination] += text
+        break
+      case 'stylesheet':
+        if (this.pendingStyle) this.pendingStyle.entry.name += text
+        break
+    }
+  }
+
+  private finishField(field: FieldState): void {
+    const url = /HYPERLINK\s+"([^"]+)"/.exec(field.instruction)?.[1]
+    // Only rewrite the result when it stayed within one paragraph
+    if (!url || field.segments !== this.segments) return
+
+    const result = this.segments.splice(field.resultStart)
+    const label = renderInlineSegments(result).trim()
+    if (label) {
+      this.segments.push({ text: `[${label}](${url})`, bold: false, italic: false })
+    }
+  }
+
+  private endParagraph(): void {
+    const paragraph = this.paragraph
+    const headingLevel = paragraph.inTable ? undefined : this.getHeadingLevel(paragraph)
+    const text = renderInlineSegments(this.segments, headingLevel === undefined).trim()
+    const listText = paragraph.listText
+    this.segments = []
+    paragraph.listText = undefined
+
+    if (paragraph.inTable) {
+      if (text) this.cellParagraphs.push(text)
+      return
+    }
+
+    this.flushTable()
+    if (!text) return
+
+    if (headingLevel !== undefined) {
+      this.headingCount++
+      this.blocks.push({ text: `${'#'.repeat(headingLevel)} ${text}`, isListItem: false })
+    } else if (listText !== undefined || paragraph.listId !== undefined) {
+      this.blocks.push({
+        text: this.formatListItem(paragraph, listText ?? '', text),
+        isListItem: true
+      })
+    } else {
+      this.blocks.push({ text, isListItem: false })
+    }
+  }
+
+  private endCell(): void {
+    const text = renderInlineSegments(this.segments).trim()
+    if (text) this.cellParagraphs.push(text)
+    this.segments = []
+    this.paragraph.listText = undefined
+    this.tableRow.push(this.cellParagraphs.join('\n'))
+    this.cellParagraphs = []
+  }
+
+  private endRow(): void {
+    if (this.tableRow.length > 0) this.tableRows.push(this.tableRow)
+    this.tableRow = []
+  }
+
+  private flushTable(): void {
+    if (this.tableRows.length === 0) return
+    this.tableCount++
+    this.blocks.push({ text: renderTable(this.tableRows), isListItem: false })
+    this.tableRows = []
+  }
+
+  private getHeadingLevel(paragraph: ParagraphState): number | undefined {
+    const outline = paragraph.outlineLevel
+    if (outline !== undefined && outline >= 0 && outline < 9) {
+      return Math.min(outline + 1, MAX_HEADING_LEVEL)
+    }
+
+    // Walk the basedOn chain so custom styles derived from headings still count
+    let current = paragraph.styleIndex
+    for (let depth = 0; current !== undefined && depth < 10; depth++) {
+      const style = this.styles.get(current)
+      if (!style) return undefined
+
+      const name = style.name.toLowerCase()
+      if (name === 'title') return 1
+      const heading = /^heading\s*(\d)$/.exec(name)
+      if (heading) return Math.min(parseInt(heading[1]!, 10), MAX_HEADING_LEVEL)
+
+      current = style.basedOn === current ? undefined : style.basedOn
+    }
+
+    return undefined
+  }
+
+  private formatListItem(paragraph: ParagraphState, listText: string, text: string): string {
+    const level = paragraph.listLevel
+    const indent = '  '.repeat(level)
+    const marker = listText.replace(/\s+/g, '')
+
+    const numbered = /^\(?(\d+)[.)]?$/.exec(marker)
+    if (numbered) return `${indent}${numbered[1]}. ${text}`
+
+    if (/^\(?[a-zA-Z]{1,5}[.)]$/.test(marker)) {
+      const key = paragraph.listId ?? 0
+      const counters = this.listCounters.get(key) ?? []
+      counters[level] = (counters[level] ?? 0) + 1
+      counters.length = level + 1
+      this.listCounters.set(key, counters)
+      return `${indent}${counters[level]}. ${text}`
+    }
+
+    return `${indent}- ${text}`
+  }
+}
+
+/**
+ * Convert an RTF document to Markdown so it reaches the prompt builders as
+ * structured text rather than raw control words.
+ */
+export function extractRtfText(buffer: Buffer): RtfExtractionResult {
+  if (!isRtfBuffer(buffer)) {
+    throw new ValidationError('File is not a valid RTF document')
+  }
+
+  return new RtfConverter().convert(tokenizeRtf(buffer.toString('latin1')))
+}
@@ -0,0 +1,283 @@
+import { createHash } from 'crypto'
+import type { SectionAnchor } from '../types/index.js'
+
+export interface SectionIdResult {
+  content: string
+  sections: SectionAnchor[]
+}
+
+interface SectionRecord {
+  id: string
+  /** Number path of the ID, e.g. [2, 5] for sec-2-5-remote-work */
+  path: number[]
+  title: string
+  parentId?: string
+  /** Hash of the heading title and the section's own body */
+  fingerprint: string
+}
+
+interface ParsedHeading {
+  line: number
+  level: number
+  title: string
+  body: string
+  parentIndex?: number
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const FENCE = /^\s*(```|~~~)/
+const MAX_SLUG_LENGTH = 40
+const MAX_DOCUMENTS = 1000
+
+// IDs the model may already have written, in any of the shapes it tends to use
+const EXISTING_ID_PATTERNS = [
+  /^\[?sec-\d+(?:-\d+)*(?:-[a-z0-9][\w-]*)?\]?[:.\s-]*/i,
+  /\s*\{#[^}]*\}$/,
+  /\s*\((?:id:\s*)?sec-\d+(?:-\d+)*[\w-]*\)$/i
+]
+
+export function slugify(title: string): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+
+  if (slug.length <= MAX_SLUG_LENGTH) return slug
+  const cut = slug.slice(0, MAX_SLUG_LENGTH + 1)
+  return cut.slice(0, cut.lastIndexOf('-') > 0 ? cut.lastIndexOf('-') : MAX_SLUG_LENGTH)
+}
+
+function stripExistingId(title: string): string {
+  let stripped = title
+  for (const pattern of EXISTING_ID_PATTERNS) stripped = stripped.replace(pattern, '')
+  // A heading that was only an ID (e.g. "### sec-2-5-remote-work") keeps the slug as its title
+  if (!stripped.trim()) {
+    const slug = /^sec-\d+(?:-\d+)*-?(.*)$/i.exec(title.trim())?.[1] ?? ''
+    return slug.replace(/-/g, ' ').trim()
+  }
+  return stripped.trim()
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+function fingerprint(title: string, body: string): string {
+  return createHash('sha1')
+    .update(`${normalizeText(title)}\n${normalizeText(body)}`)
+    .digest('hex')
+    .slice(0, 16)
+}
+
+/**
+ * Parse the ATX headings of a Markdown document (ignoring fenced code) with
+ * each heading's own body text and its parent in the heading tree.
+ */
+function parseHeadings(lines: string[]): ParsedHeading[] {
+  const headings: ParsedHeading[] = []
+  const stack: number[] = []
+  const bodies: string[][] = []
+  let inFence = false
+
+  lines.forEach((line, index) => {
+    if (FENCE.test(line)) inFence = !inFence
+    const match = inFence ? null : HEADING.exec(line)
+
+    if (!match) {
+      bodies[headings.length - 1]?.push(line)
+      return
+    }
+
+    const level = match[1]!.length
+    while (stack.length > 0 && headings[stack[stack.length - 1]!]!.level >= level) stack.pop()
+    headings.push({
+      line: index,
+      level,
+      title: stripExistingId(match[2] ?? ''),
+      body: '',
+      parentIndex: stack[stack.length - 1]
+    })
+    bodies.push([])
+    stack.push(headings.length - 1)
+  })
+
+  headings.forEach((heading, index) => {
+    heading.body = bodies[index]!.join('\n')
+  })
+
+  return headings
+}
+
+// Issued anchors carry no body, so they are matched by title and parent only.
+// IDs are lowercased, as the registry itself only issues lowercase slugs.
+function fromAnchors(anchors: SectionAnchor[]): SectionRecord[] {
+  const normalized = anchors.map((anchor) => ({
+    ...anchor,
+    id: anchor.id.toLowerCase(),
+    parentId: anchor.parentId?.toLowerCase()
+  }))
+  const parents = new Map(normalized.map((anchor) => [anchor.id, anchor.parentId]))
+
+  return normalized.flatMap((anchor) => {
+    let depth = 1
+    for (let id = anchor.parentId; id && depth <= 6; id = parents.get(id)) depth++
+    const numbers = /^sec-(\d+(?:-\d+)*)/.exec(anchor.id)?.[1]?.split('-').map(Number) ?? []
+    if (numbers.length < depth) return []
+
+    return [
+      {
+        id: anchor.id,
+        path: numbers.slice(0, depth),
+        title: anchor.title,
+        ...(anchor.parentId ? { parentId: anchor.parentId } : {}),
+        fingerprint: ''
+      }
+    ]
+  })
+}
+
+/**
+ * Assigns stable hierarchical IDs (`sec-2-5-remote-work`) to the headings of
+ * optimized Markdown. The IDs given to each document are remembered, so a
+ * re-optimized document keeps the IDs of sections that are unchanged (same
+ * title and body) or still have the same title under the same parent; only
+ * new sections get new numbers, and numbers are never reused. The registry
+ * lives in memory, so callers pass back the sections they were issued before
+ * (`issued`) to keep IDs stable across restarts and instances.
+ */
+export class SectionIdRegistry {
+  private documents = new Map<string, SectionRecord[]>()
+
+  assign(documentKey: string, markdown: string, issued: SectionAnchor[] = []): SectionIdResult {
+    const lines = markdown.split('\n')
+    const headings = parseHeadings(lines)
+    const remembered = this.documents.get(documentKey) ?? []
+    const rememberedIds = new Set(remembered.map((record) => record.id))
+    const previous = [
+      ...remembered,
+      ...fromAnchors(issued).filter((record) => !rememberedIds.has(record.id))
+    ]
+
+    // A lone top-level heading that opens the document is its title, not a section
+    const topLevel = Math.min(...headings.map((heading) => heading.level))
+    const titleHeadings = headings.filter((heading) => heading.level === topLevel)
+    const titleIndex =
+      titleHeadings.length === 1 && headings[0]?.level === topLevel && headings.length > 1 ? 0 : -1
+
+    const fingerprints = headings.map((heading) => fingerprint(heading.title, heading.body))
+    const claimed = new Set<SectionRecord>()
+    const records: Array<SectionRecord | undefined> = new Array(headings.length)
+
+    // Unchanged sections keep their ID wherever they moved, when the match is unambiguous
+    headings.forEach((_, index) => {
+      if (index === titleIndex) return
+      const print = fingerprints[index]!
+      const candidates = previous.filter((record) => record.fingerprint === print)
+      if (candidates.length === 1 && fingerprints.filter((other) => other === print).length === 1) {
+        records[index] = { ...candidates[0]!, fingerprint: print }
+        claimed.add(candidates[0]!)
+      }
+    })
+
+    const history = [...previous]
+    headings.forEach((heading, index) => {
+      if (index === titleIndex || records[index]) return
+
+      const parentIndex = heading.parentIndex === titleIndex ? undefined : heading.parentIndex
+      const parent = parentIndex === undefined ? undefined : records[parentIndex]
+      const key = normalizeText(heading.title)
+
+      // Edited sections keep their ID while their title and parent are the same
+      const sameTitle = previous.find(
+        (record) =>
+          !claimed.has(record) &&
+          record.parentId === parent?.id &&
+          normalizeText(record.title) === key
+      )
+      if (sameTitle) {
+        claimed.add(sameTitle)
+        records[index] = { ...sameTitle, title: heading.title, fingerprint: fingerprints[index]! }
+        return
+      }
+
+      const parentPath = parent?.path ?? []
+      const siblings = [...history, ...records.filter((record) => record !== undefined)].filter(
+        (record) =>
+          record.path.length === parentPath.length + 1 &&
+          parentPath.every((part, depth) => record.path[depth] === part)
+      )
+      const path = [
+        ...parentPath,
+        Math.max(0, ...siblings.map((record) => record.path[parentPath.length]!)) + 1
+      ]
+      const slug = slugify(heading.title)
+      const record: SectionRecord = {
+        id: `sec-${path.join('-')}${slug ? `-${slug}` : ''}`,
+        path,
+        title: heading.title,
+        parentId: parent?.id,
+        fingerprint: fingerprints[index]!
+      }
+      records[index] = record
+      history.push(record)
+    })
+
+    const sections: SectionAnchor[] = []
+    headings.forEach((heading, index) => {
+      const record = records[index]
+      const hashes = '#'.repeat(heading.level)
+      if (!record) {
+        lines[heading.line] = `${hashes} ${heading.title}`
+        return
+      }
+
+      lines[heading.line] = `${hashes} ${record.id}${heading.title ? ` ${heading.title}` : ''}`
+      const parentIndex = heading.parentIndex === titleIndex ? undefined : heading.parentIndex
+      const parentId = parentIndex === undefined ? undefined : records[parentIndex]?.id
+      // A section that moved is remembered under its new parent
+      records[index] = { ...record, parentId }
+      sections.push({
+        id: record.id,
+        title: heading.title,
+        level: heading.level,
+        ...(parentId ? { parentId } : {})
+      })
+    })
+
+    // Sections that disappeared stay registered so their numbers are not handed out again
+    const current = records.filter((record): record is SectionRecord => record !== undefined)
+    const currentIds = new Set(current.map((record) => record.id))
+    this.remember(documentKey, [
+      ...current,
+      ...previous.filter((record) => !currentIds.has(record.id))
+    ])
+
+    return { content: lines.join('\n'), sections }
+  }
+
+  getSections(documentKey: string): string[] {
+    return (this.documents.get(documentKey) ?? []).map((record) => record.id)
+  }
+
+  clear(documentKey?: string): void {
+    if (documentKey) {
+      this.documents.delete(documentKey)
+    } else {
+      this.documents.clear()
+    }
+  }
+
+  private remember(documentKey: string, records: SectionRecord[]): void {
+    // Map order doubles as recency; drop the least recently optimized document
+    this.documents.delete(documentKey)
+    if (this.documents.size >= MAX_DOCUMENTS) {
+      const oldest = this.documents.keys().next().value
+      if (oldest !== undefined) this.documents.delete(oldest)
+    }
+    this.documents.set(documentKey, records)
+  }
+}
+
+export const sectionIdRegistry = new SectionIdRegistry()
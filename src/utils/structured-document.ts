@@ -0,0 +1,237 @@
+import type {
+  DocumentIndexes,
+  DocumentMetadata,
+  ModeResult,
+  OptimizationResult,
+  OutputMode,
+  SectionAnchor,
+  StructuredDocument,
+  StructuredSection
+} from '../types/index.js'
+import { StructuredDocumentSchema } from './validation.js'
+
+export interface StructuredDocumentInput {
+  filename: string
+  /** Optimized Markdown with section IDs in its headings */
+  content: string
+  sections: SectionAnchor[]
+  metadata: DocumentMetadata
+  indexes: DocumentIndexes
+}
+
+const HEADING = /^#{1,6}\s+(\S+)/
+const FENCE = /^\s*(```|~~~)/
+
+const stringArray = { type: 'array', items: { type: 'string' } } as const
+
+/**
+ * JSON Schema (draft 2020-12) for `StructuredDocument`, published at
+ * `GET /schemas/structured-document.json`. `StructuredDocumentSchema` in
+ * `validation.ts` enforces the same rules on every document we return.
+ */
+export const STRUCTURED_DOCUMENT_JSON_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'structured-document.json',
+  title: 'StructuredDocument',
+  type: 'object',
+  required: ['schemaVersion', 'filename', 'sections', 'metadata', 'indexes'],
+  additionalProperties: false,
+  properties: {
+    schemaVersion: { const: '1.0' },
+    filename: { type: 'string', minLength: 1 },
+    title: { type: 'string' },
+    preamble: { type: 'string', description: 'Content before the first section' },
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'title', 'level', 'content'],
+        additionalProperties: false,
+        properties: {
+          id: { type: 'string', pattern: '^sec-\\d+(?:-\\d+)*(?:-[a-z0-9][\\w-]*)?$' },
+          title: { type: 'string' },
+          level: { type: 'integer', minimum: 1, maximum: 6 },
+          parentId: { type: 'string' },
+          content: {
+            type: 'string',
+            description: "The section's own Markdown, without its heading or subsections"
+          }
+        }
+      }
+    },
+    metadata: {
+      type: 'object',
+      required: [
+        'originalLength',
+        'optimizedLength',
+        'compressionRatio',
+        'processingTime',
+        'model',
+        'timestamp'
+      ],
+      properties: {
+        originalLength: { type: 'number' },
+        optimizedLength: { type: 'number' },
+        compressionRatio: { type: 'number' },
+        processingTime: { type: 'number' },
+        model: { type: 'string' },
+        timestamp: { type: 'string' }
+      }
+    },
+    indexes: {
+      type: 'object',
+      required: ['entities', 'topics', 'timeline'],
+      additionalProperties: false,
+      properties: {
+        entities: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['name', 'type', 'mentions', 'context'],
+            additionalProperties: false,
+            properties: {
+              name: { type: 'string' },
+              type: { enum: ['person', 'organization', 'location', 'date', 'other'] },
+              mentions: { type: 'integer', minimum: 0 },
+              context: stringArray,
+              sectionIds: stringArray,
+              aliases: stringArray,
+              sources: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['document', 'mentions', 'names'],
+                  additionalProperties: false,
+                  properties: {
+                    document: { type: 'string' },
+                    mentions: { type: 'integer', minimum: 0 },
+                    names: stringArray,
+                    sectionIds: stringArray
+                  }
+                }
+              }
+            }
+          }
+        },
+        topics: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['topic', 'relevance', 'sections'],
+            additionalProperties: false,
+            properties: {
+              topic: { type: 'string' },
+              relevance: { type: 'number', minimum: 0, maximum: 1 },
+              sections: stringArray
+            }
+          }
+        },
+        timeline: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['date', 'event', 'significance'],
+            additionalProperties: false,
+            properties: {
+              date: { type: 'string' },
+              event: { type: 'string' },
+              significance: { enum: ['high', 'medium', 'low'] }
+            }
+          }
+        }
+      }
+    }
+  }
+} as const
+
+function trimBlock(lines: string[]): string {
+  return lines.join('\n').trim()
+}
+
+/**
+ * Split optimized Markdown into its sections (by the IDs the section registry
+ * wrote into the headings) and validate the result against the published
+ * schema. Throws a ZodError if the document does not conform.
+ */
+export function buildStructuredDocument(input: StructuredDocumentInput): StructuredDocument {
+  const anchors = new Map(input.sections.map((section) => [section.id, section]))
+  const sections: StructuredSection[] = []
+  const preamble: string[] = []
+  let title: string | undefined
+  let current: { anchor: SectionAnchor; lines: string[] } | undefined
+  let inFence = false
+
+  const close = (): void => {
+    if (!current) return
+    const { id, title: sectionTitle, level, parentId } = current.anchor
+    sections.push({
+      id,
+      title: sectionTitle,
+      level,
+      ...(parentId ? { parentId } : {}),
+      content: trimBlock(current.lines)
+    })
+  }
+
+  for (const line of input.content.split('\n')) {
+    if (FENCE.test(line)) inFence = !inFence
+    const heading = inFence ? undefined : HEADING.exec(line)
+    const anchor = heading ? anchors.get(heading[1]!) : undefined
+
+    if (anchor) {
+      close()
+      current = { anchor, lines: [] }
+    } else if (current) {
+      current.lines.push(line)
+    } else if (heading && title === undefined && !trimBlock(preamble)) {
+      title = line.replace(/^#{1,6}\s+/, '').trim()
+    } else {
+      preamble.push(line)
+    }
+  }
+  close()
+
+  const document: StructuredDocument = {
+    schemaVersion: '1.0',
+    filename: input.filename,
+    ...(title ? { title } : {}),
+    ...(trimBlock(preamble) ? { preamble: trimBlock(preamble) } : {}),
+    sections,
+    metadata: input.metadata,
+    indexes: input.indexes
+  }
+  StructuredDocumentSchema.parse(document)
+  return document
+}
+
+/**
+ * Shape a result for the requested output mode: `text` keeps the Markdown,
+ * `json` the structured document, `all` everything.
+ */
+export function formatResult<M extends OutputMode>(
+  result: OptimizationResult,
+  mode: M
+): ModeResult<M> {
+  const base = {
+    originalFilename: result.originalFilename,
+    metadata: result.metadata,
+    ...(result.verification ? { verification: result.verification } : {}),
+    ...(result.provenance ? { provenance: result.provenance } : {}),
+    ...(result.deduplication ? { deduplication: result.deduplication } : {}),
+    ...(result.conflicts ? { conflicts: result.conflicts } : {}),
+    status: result.status,
+    ...(result.error ? { error: result.error } : {})
+  }
+
+  if (mode === 'text') {
+    return {
+      ...base,
+      optimizedContent: result.optimizedContent,
+      ...(result.sections ? { sections: result.sections } : {})
+    } as ModeResult<M>
+  }
+  if (mode === 'json') {
+    return { ...base, ...(result.document ? { document: result.document } : {}) } as ModeResult<M>
+  }
+  return result as ModeResult<M>
+}
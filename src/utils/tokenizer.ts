@@ -0,0 +1,209 @@
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base'
+import o200kBase from 'js-tiktoken/ranks/o200k_base'
+
+export type EncodingName = 'cl100k_base' | 'o200k_base'
+
+export interface ChatMessageLike {
+  role: string
+  content?: unknown
+  name?: string
+}
+
+// Pre-tokenization patterns, matching tiktoken's split rules for each encoding
+const PATTERNS: Record<EncodingName, RegExp> = {
+  cl100k_base:
+    /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu,
+  o200k_base:
+    /[^\r\n\p{L}\p{N}]?[\p{Lu}\p{Lt}\p{Lm}\p{Lo}\p{M}]*[\p{Ll}\p{Lm}\p{Lo}\p{M}]+(?:'[sS]|'[tT]|'[rR][eE]|'[vV][eE]|'[mM]|'[lL][lL]|'[dD])?|[^\r\n\p{L}\p{N}]?[\p{Lu}\p{Lt}\p{Lm}\p{Lo}\p{M}]+[\p{Ll}\p{Lm}\p{Lo}\p{M}]*(?:'[sS]|'[tT]|'[rR][eE]|'[vV][eE]|'[mM]|'[lL][lL]|'[dD])?|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n/]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu
+}
+
+// The official rank tables, as packaged (compressed) by js-tiktoken
+const BUNDLED_RANKS: Record<EncodingName, string> = {
+  cl100k_base: cl100kBase.bpe_ranks,
+  o200k_base: o200kBase.bpe_ranks
+}
+
+// Chat formatting overhead per message, and for priming the assistant reply
+const TOKENS_PER_MESSAGE = 3
+const TOKENS_PER_NAME = 1
+const REPLY_PRIMING_TOKENS = 3
+
+const CACHE_LIMIT = 20000
+
+/**
+ * Parse a tiktoken rank file: one `<base64 token bytes> <rank>` pair per line.
+ * Token bytes are kept as latin1 strings so each character is one byte.
+ */
+export function parseTiktokenRanks(data: string): Map<string, number> {
+  const ranks = new Map<string, number>()
+
+  for (const line of data.split('\n')) {
+    const [token, rank] = line.trim().split(' ')
+    if (!token || rank === undefined) continue
+    ranks.set(Buffer.from(token, 'base64').toString('latin1'), Number(rank))
+  }
+
+  return ranks
+}
+
+/**
+ * Parse js-tiktoken's compressed rank table: each line is a label, the rank of
+ * its first token, then base64 tokens with consecutive ranks.
+ */
+export function parseCompressedRanks(data: string): Map<string, number> {
+  const ranks = new Map<string, number>()
+
+  for (const line of data.split('\n')) {
+    const [, offset, ...tokens] = line.split(' ')
+    if (offset === undefined) continue
+    const first = Number(offset)
+    tokens.forEach((token, index) => {
+      ranks.set(Buffer.from(token, 'base64').toString('latin1'), first + index)
+    })
+  }
+
+  return ranks
+}
+
+/**
+ * Byte-level BPE tokenizer compatible with tiktoken rank files: text is split
+ * with the encoding's pattern, and each piece's UTF-8 bytes are merged pair by
+ * pair, always merging the pair with the lowest rank first.
+ */
+export class BpeTokenizer {
+  private readonly decoder = new Map<number, string>()
+  private readonly cache = new Map<string, number[]>()
+
+  constructor(
+    readonly encoding: string,
+    private readonly ranks: Map<string, number>,
+    private readonly pattern: RegExp
+  ) {
+    for (const [bytes, rank] of ranks) this.decoder.set(rank, bytes)
+  }
+
+  encode(text: string): number[] {
+    const tokens: number[] = []
+
+    for (const [piece] of text.matchAll(this.pattern)) {
+      const bytes = Buffer.from(piece, 'utf8').toString('latin1')
+      let encoded = this.cache.get(bytes)
+      if (!encoded) {
+        encoded = this.bytePairEncode(bytes)
+        if (this.cache.size >= CACHE_LIMIT) this.cache.clear()
+        this.cache.set(bytes, encoded)
+      }
+      tokens.push(...encoded)
+    }
+
+    return tokens
+  }
+
+  decode(tokens: number[]): string {
+    const bytes = tokens.map((token) => this.decoder.get(token) ?? '').join('')
+    return Buffer.from(bytes, 'latin1').toString('utf8')
+  }
+
+  count(text: string): number {
+    return this.encode(text).length
+  }
+
+  private bytePairEncode(bytes: string): number[] {
+    const whole = this.ranks.get(bytes)
+    if (whole !== undefined) return [whole]
+
+    // Part boundaries, with the rank of merging each part with the next one
+    const starts = Array.from({ length: bytes.length + 1 }, (_, index) => index)
+    const pairRank = (index: number): number =>
+      index + 2 < starts.length
+        ? (this.ranks.get(bytes.slice(starts[index], starts[index + 2])) ?? Infinity)
+        : Infinity
+    const mergeRanks = starts.map((_, index) => pairRank(index))
+
+    for (;;) {
+      let best = -1
+      let bestRank = Infinity
+      for (let index = 0; index < mergeRanks.length - 1; index++) {
+        if (mergeRanks[index]! < bestRank) {
+          bestRank = mergeRanks[index]!
+          best = index
+        }
+      }
+      if (best === -1) break
+
+      starts.splice(best + 1, 1)
+      mergeRanks.splice(best + 1, 1)
+      mergeRanks[best] = pairRank(best)
+      if (best > 0) mergeRanks[best - 1] = pairRank(best - 1)
+    }
+
+    const tokens: number[] = []
+    for (let index = 0; index < starts.length - 1; index++) {
+      const part = bytes.slice(starts[index], starts[index + 1])
+      // Every single byte has a rank in a complete table; guard against partial ones
+      tokens.push(this.ranks.get(part) ?? part.charCodeAt(0))
+    }
+    return tokens
+  }
+}
+
+const tokenizers = new Map<EncodingName, BpeTokenizer>()
+
+/**
+ * Pick the encoding a model tokenizes with: the GPT-4o and o-series models
+ * use o200k_base, older GPT-4 and GPT-3.5 models use cl100k_base.
+ */
+export function getModelEncoding(model: string): EncodingName {
+  return /^(gpt-4o|o\d)/.test(model) ? 'o200k_base' : 'cl100k_base'
+}
+
+/**
+ * Load (once) the tokenizer for an encoding, from the bundled official rank
+ * tables, or from an `<encoding>.tiktoken` file in TOKENIZER_DATA_DIR when
+ * one is there.
+ */
+export function getTokenizer(encoding: EncodingName): BpeTokenizer {
+  let tokenizer = tokenizers.get(encoding)
+  if (!tokenizer) {
+    const dataDir = process.env.TOKENIZER_DATA_DIR
+    const file = dataDir ? join(dataDir, `${encoding}.tiktoken`) : undefined
+    const ranks =
+      file && existsSync(file)
+        ? parseTiktokenRanks(readFileSync(file, 'utf8'))
+        : parseCompressedRanks(BUNDLED_RANKS[encoding])
+
+    tokenizer = new BpeTokenizer(encoding, ranks, PATTERNS[encoding])
+    tokenizers.set(encoding, tokenizer)
+  }
+  return tokenizer
+}
+
+export function countTokens(text: string, model = 'gpt-3.5-turbo'): number {
+  return getTokenizer(getModelEncoding(model)).count(text)
+}
+
+/**
+ * Count the prompt tokens of a chat request, including the per-message
+ * formatting overhead the chat completion API adds.
+ */
+export function countMessageTokens(messages: ChatMessageLike[], model = 'gpt-3.5-turbo'): number {
+  const tokenizer = getTokenizer(getModelEncoding(model))
+  let total = REPLY_PRIMING_TOKENS
+
+  for (const message of messages) {
+    total += TOKENS_PER_MESSAGE + tokenizer.count(message.role)
+    if (message.name) total += TOKENS_PER_NAME + tokenizer.count(message.name)
+
+    if (typeof message.content === 'string') {
+      total += tokenizer.count(message.content)
+    } else if (Array.isArray(message.content)) {
+      for (const part of message.content as Array<{ type?: string; text?: string }>) {
+        if (part.type === 'text' && part.text) total += tokenizer.count(part.text)
+      }
+    }
+  }
+
+  return total
+}
@@ -0,0 +1,250 @@
+import { ValidationError } from '../middleware/error-handler.js'
+import { decodeXmlEntities } from './xml.js'
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'speaker-text'
+
+export interface TranscriptTurn {
+  speaker?: string
+  /** Seconds from the start of the recording */
+  startTime: number
+  endTime?: number
+  text: string
+}
+
+export interface TranscriptExtractionResult {
+  format: TranscriptFormat
+  turns: TranscriptTurn[]
+  speakers: string[]
+  duration?: number
+}
+
+// Consecutive cues from the same speaker are merged up to this length so
+// anchors stay fine-grained enough to cite
+const MAX_TURN_SECONDS = 60
+
+const TIMING_LINE =
+  /^((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/
+const TIME = String.raw`\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d{1,3})?`
+// "Dana Lee (00:01:23): text"
+const SPEAKER_TIME_PREFIX = new RegExp(
+  String.raw`^([^:()\[\]]{1,60}?)\s*\((${TIME})\)\s*:?\s*(.*)$`
+)
+// "[01:23] Dana Lee: text" or "00:01:23 Dana Lee: text"; bare MM:SS is not
+// accepted here so agenda lines like "09:00 Standup: ..." stay plain text
+const TIME_SPEAKER_PREFIX = new RegExp(
+  String.raw`^(?:\[(${TIME})\]|(\d{1,2}:\d{2}:\d{2}(?:[.,]\d{1,3})?))\s+([^:]{1,60}?):\s*(.*)$`
+)
+// "Dana Lee  0:03" on its own line with the text below (Otter-style exports)
+const SPEAKER_TIME_HEADER = new RegExp(
+  String.raw`^((?:[A-Z][\w.'-]*|\d+)(?: (?:[A-Z][\w.'-]*|\d+)){0,3})(?:\s{2,}|\t)(${TIME})$`
+)
+// "Dana Lee: text" inside a cue
+const CUE_SPEAKER = /^(?:-\s*)?([A-Z][\w .'-]{0,40}?):\s+(.+)$/
+// "- text" opening one speaker's line of a two-speaker cue
+const DIALOGUE_LINE = /^-\s*(?=\S)/
+
+export function parseTimestamp(value: string): number {
+  const [clock = '', fraction = ''] = value.trim().split(/[.,]/)
+  const parts = clock.split(':').map((part) => parseInt(part, 10))
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0)
+  return fraction ? seconds + parseInt(fraction.padEnd(3, '0').slice(0, 3), 10) / 1000 : seconds
+}
+
+export function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds)
+  const pad = (value: number): string => value.toString().padStart(2, '0')
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`
+}
+
+function cleanCueText(text: string): string {
+  return decodeXmlEntities(
+    text
+      .replace(/<\d{1,2}:\d{2}(?::\d{2})?\.\d{3}>/g, '')
+      .replace(/<\/?[^>]+>/g, '')
+      .replace(/\{\\[^}]*\}/g, '')
+  )
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function splitCueSpeaker(text: string, voice?: string): { speaker?: string; text: string } {
+  if (voice) return { speaker: voice, text }
+  const labelled = CUE_SPEAKER.exec(text)
+  return labelled ? { speaker: labelled[1]!.trim(), text: labelled[2]!.trim() } : { text }
+}
+
+// A cue with two or more dash lines holds one line per speaker, so each
+// becomes its own part; other cues stay whole
+function splitDialogueLines(rawText: string): string[] {
+  const parts: string[] = []
+  for (const line of rawText.split('\n')) {
+    const last = parts.length - 1
+    if (DIALOGUE_LINE.test(cleanCueText(line)) || last < 0) {
+      parts.push(line)
+    } else {
+      parts[last] += `\n${line}`
+    }
+  }
+
+  const dialogue = parts.filter((part) => DIALOGUE_LINE.test(cleanCueText(part)))
+  return dialogue.length >= 2 ? parts : [rawText]
+}
+
+function parseCueBlocks(source: string, format: 'vtt' | 'srt'): TranscriptTurn[] {
+  const cues: TranscriptTurn[] = []
+  const blocks = source.replace(/\r\n?/g, '\n').split(/\n{2,}/)
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((line) => line.trim())
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line.trim()))
+    if (timingIndex === -1 || timingIndex > 1) continue
+
+    const timing = TIMING_LINE.exec(lines[timingIndex]!.trim())!
+    const rawText = lines.slice(timingIndex + 1).join('\n')
+    const parts = splitDialogueLines(rawText)
+
+    for (const part of parts) {
+      // WebVTT voice spans: <v Dana Lee>text</v> or <v.loud Dana Lee>
+      const voice =
+        format === 'vtt' ? /<v(?:\.[\w.]+)?\s+([^>]+)>/.exec(part)?.[1]?.trim() : undefined
+      const cleaned = cleanCueText(part)
+      const { speaker, text } = splitCueSpeaker(
+        parts.length > 1 ? cleaned.replace(DIALOGUE_LINE, '') : cleaned,
+        voice
+      )
+      if (!text) continue
+
+      cues.push({
+        speaker,
+        startTime: parseTimestamp(timing[1]!),
+        endTime: parseTimestamp(timing[2]!),
+        text
+      })
+    }
+  }
+
+  return cues
+}
+
+function mergeTurns(cues: TranscriptTurn[]): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = []
+
+  for (const cue of cues) {
+    const previous = turns[turns.length - 1]
+    if (
+      previous &&
+      previous.speaker === cue.speaker &&
+      cue.startTime - previous.startTime < MAX_TURN_SECONDS
+    ) {
+      previous.text += ` ${cue.text}`
+      previous.endTime = cue.endTime ?? previous.endTime
+    } else {
+      turns.push({ ...cue })
+    }
+  }
+
+  return turns
+}
+
+function parseSpeakerText(source: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = []
+
+  for (const rawLine of source.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim()
+    if (!line) continue
+
+    const speakerFirst = SPEAKER_TIME_PREFIX.exec(line)
+    const timeFirst = speakerFirst ? null : TIME_SPEAKER_PREFIX.exec(line)
+    const header = speakerFirst || timeFirst ? null : SPEAKER_TIME_HEADER.exec(line)
+
+    if (speakerFirst) {
+      turns.push({
+        speaker: speakerFirst[1]!.trim(),
+        startTime: parseTimestamp(speakerFirst[2]!),
+        text: speakerFirst[3]!.trim()
+      })
+    } else if (timeFirst) {
+      turns.push({
+        speaker: timeFirst[3]!.trim(),
+        startTime: parseTimestamp(timeFirst[1] ?? timeFirst[2]!),
+        text: timeFirst[4]!.trim()
+      })
+    } else if (header) {
+      turns.push({
+        speaker: header[1]!.trim(),
+        startTime: parseTimestamp(header[2]!),
+        text: ''
+      })
+    } else if (turns.length > 0) {
+      const turn = turns[turns.length - 1]!
+      turn.text = turn.text ? `${turn.text} ${line}` : line
+    }
+  }
+
+  // Each turn ends where the next one starts
+  turns.forEach((turn, index) => {
+    turn.endTime = turns[index + 1]?.startTime
+  })
+
+  return turns.filter((turn) => turn.text)
+}
+
+export function isVttText(text: string): boolean {
+  return /^\uFEFF?WEBVTT(?:[ \t].*)?(?:\r?\n|$)/.test(text)
+}
+
+export function isSrtText(text: string): boolean {
+  return /^\uFEFF?\s*\d+\s*\r?\n\d{1,2}:\d{2}:\d{2},\d{3}\s*-->/.test(text)
+}
+
+/**
+ * Recognise speaker-labelled transcript exports such as
+ * "Dana Lee (00:01:23): ..." or "[00:01:23] Dana Lee: ...". The first
+ * timestamped line must appear near the top and at least two must exist.
+ */
+export function isSpeakerTranscriptText(text: string): boolean {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+  const isTurn = (line: string): boolean =>
+    SPEAKER_TIME_PREFIX.test(line) ||
+    TIME_SPEAKER_PREFIX.test(line) ||
+    SPEAKER_TIME_HEADER.test(line)
+
+  return lines.slice(0, 5).some(isTurn) && lines.filter(isTurn).length >= 2
+}
+
+/**
+ * Parse a WebVTT, SRT or speaker-labelled transcript into speaker turns with
+ * timestamps. Cue-level formats are merged into turns per speaker.
+ */
+export function extractTranscript(
+  text: string,
+  format: TranscriptFormat
+): TranscriptExtractionResult {
+  const source = text.replace(/^\uFEFF/, '')
+
+  if (format === 'vtt' && !isVttText(source)) {
+    throw new ValidationError('File is not a valid WebVTT transcript')
+  }
+
+  const turns =
+    format === 'speaker-text'
+      ? parseSpeakerText(source)
+      : mergeTurns(parseCueBlocks(source, format))
+  if (turns.length === 0) {
+    throw new ValidationError('No timestamped transcript turns found')
+  }
+
+  const last = turns[turns.length - 1]!
+  return {
+    format,
+    turns,
+    speakers: [
+      ...new Set(turns.map((turn) => turn.speaker).filter((name): name is string => !!name))
+    ],
+    duration: last.endTime ?? last.startTime
+  }
+}
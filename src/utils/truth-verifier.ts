@@ -0,0 +1,296 @@
+import type { DocumentType, PreservationReport, PreservationSpan } from '../types/index.js'
+
+export type VerificationMode = 'off' | 'flag' | 'fail'
+
+export interface DiffHunk {
+  type: 'equal' | 'delete' | 'insert'
+  aStart: number
+  aEnd: number
+  bStart: number
+  bEnd: number
+}
+
+interface Word {
+  text: string
+  raw: string
+  line: number
+}
+
+const WORD = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu
+// Gaps without unique anchors are diffed exactly up to this many cells
+const DP_LIMIT = 250000
+const MAX_SPANS = 50
+const MAX_SPAN_WORDS = 40
+
+export function getVerificationMode(): VerificationMode {
+  const mode = process.env.TRUTH_VERIFICATION
+  return mode === 'off' || mode === 'fail' ? mode : 'flag'
+}
+
+/**
+ * Transcripts must keep the speakers' exact wording unless the caller asked
+ * for a summary.
+ */
+export function requiresExactWording(
+  type: DocumentType | undefined,
+  optimizationType: string
+): boolean {
+  return type === 'transcript' && optimizationType !== 'summarize'
+}
+
+// Words compared case- and punctuation-insensitively, since structure may be normalized
+function tokenizeWords(text: string): Word[] {
+  return text.split('\n').flatMap((line, index) =>
+    [...line.matchAll(WORD)].map(([raw]) => ({
+      text: raw.toLowerCase().replace(/’/g, "'"),
+      raw,
+      line: index
+    }))
+  )
+}
+
+function pushHunk(
+  hunks: DiffHunk[],
+  type: DiffHunk['type'],
+  aStart: number,
+  aEnd: number,
+  bStart: number,
+  bEnd: number
+): void {
+  if (aStart === aEnd && bStart === bEnd) return
+  const last = hunks[hunks.length - 1]
+  if (last?.type === type && last.aEnd === aStart && last.bEnd === bStart) {
+    last.aEnd = aEnd
+    last.bEnd = bEnd
+  } else {
+    hunks.push({ type, aStart, aEnd, bStart, bEnd })
+  }
+}
+
+/**
+ * Words occurring exactly once on each side, kept in the longest run that
+ * appears in the same order on both sides (patience diff anchors).
+ */
+function uniqueAnchors(
+  a: string[],
+  b: string[],
+  aLo: number,
+  aHi: number,
+  bLo: number,
+  bHi: number
+): Array<[number, number]> {
+  const occurrences = new Map<string, { a: number; aCount: number; b: number; bCount: number }>()
+  for (let i = aLo; i < aHi; i++) {
+    const entry = occurrences.get(a[i]!) ?? { a: i, aCount: 0, b: -1, bCount: 0 }
+    entry.aCount++
+    occurrences.set(a[i]!, entry)
+  }
+  for (let j = bLo; j < bHi; j++) {
+    const entry = occurrences.get(b[j]!)
+    if (!entry) continue
+    entry.b = j
+    entry.bCount++
+  }
+
+  const pairs = [...occurrences.values()]
+    .filter((entry) => entry.aCount === 1 && entry.bCount === 1)
+    .map((entry): [number, number] => [entry.a, entry.b])
+    .sort((x, y) => x[0] - y[0])
+
+  // Longest increasing subsequence of the b positions
+  const tails: number[] = []
+  const previous: number[] = new Array(pairs.length).fill(-1)
+  pairs.forEach(([, position], index) => {
+    let lo = 0
+    let hi = tails.length
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1
+      if (pairs[tails[mid]!]![1] < position) lo = mid + 1
+      else hi = mid
+    }
+    if (lo > 0) previous[index] = tails[lo - 1]!
+    tails[lo] = index
+  })
+
+  const anchors: Array<[number, number]> = []
+  for (let index = tails[tails.length - 1] ?? -1; index !== -1; index = previous[index]!) {
+    anchors.unshift(pairs[index]!)
+  }
+  return anchors
+}
+
+function lcsDiff(
+  a: string[],
+  b: string[],
+  aLo: number,
+  aHi: number,
+  bLo: number,
+  bHi: number,
+  hunks: DiffHunk[]
+): void {
+  const n = aHi - aLo
+  const m = bHi - bLo
+  const table = new Uint32Array((n + 1) * (m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * (m + 1) + j] =
+        a[aLo + i] === b[bLo + j]
+          ? table[(i + 1) * (m + 1) + j + 1]! + 1
+          : Math.max(table[(i + 1) * (m + 1) + j]!, table[i * (m + 1) + j + 1]!)
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    const [ai, bj] = [aLo + i, bLo + j]
+    if (i < n && j < m && a[ai] === b[bj]) {
+      pushHunk(hunks, 'equal', ai, ai + 1, bj, bj + 1)
+      i++
+      j++
+    } else if (j < m && (i === n || table[i * (m + 1) + j + 1]! >= table[(i + 1) * (m + 1) + j]!)) {
+      pushHunk(hunks, 'insert', ai, ai, bj, bj + 1)
+      j++
+    } else {
+      pushHunk(hunks, 'delete', ai, ai + 1, bj, bj)
+      i++
+    }
+  }
+}
+
+function diffRange(
+  a: string[],
+  b: string[],
+  aLo: number,
+  aHi: number,
+  bLo: number,
+  bHi: number,
+  hunks: DiffHunk[]
+): void {
+  let prefix = 0
+  while (aLo + prefix < aHi && bLo + prefix < bHi && a[aLo + prefix] === b[bLo + prefix]) prefix++
+  pushHunk(hunks, 'equal', aLo, aLo + prefix, bLo, bLo + prefix)
+  aLo += prefix
+  bLo += prefix
+
+  let suffix = 0
+  while (aHi - suffix > aLo && bHi - suffix > bLo && a[aHi - suffix - 1] === b[bHi - suffix - 1]) {
+    suffix++
+  }
+  aHi -= suffix
+  bHi -= suffix
+
+  if (aLo === aHi || bLo === bHi) {
+    pushHunk(hunks, 'delete', aLo, aHi, bLo, bLo)
+    pushHunk(hunks, 'insert', aHi, aHi, bLo, bHi)
+  } else {
+    const anchors = uniqueAnchors(a, b, aLo, aHi, bLo, bHi)
+    if (anchors.length > 0) {
+      let [aNext, bNext] = [aLo, bLo]
+      for (const [i, j] of anchors) {
+        diffRange(a, b, aNext, i, bNext, j, hunks)
+        pushHunk(hunks, 'equal', i, i + 1, j, j + 1)
+        ;[aNext, bNext] = [i + 1, j + 1]
+      }
+      diffRange(a, b, aNext, aHi, bNext, bHi, hunks)
+    } else if ((aHi - aLo) * (bHi - bLo) <= DP_LIMIT) {
+      lcsDiff(a, b, aLo, aHi, bLo, bHi, hunks)
+    } else {
+      pushHunk(hunks, 'delete', aLo, aHi, bLo, bLo)
+      pushHunk(hunks, 'insert', aHi, aHi, bLo, bHi)
+    }
+  }
+
+  pushHunk(hunks, 'equal', aHi, aHi + suffix, bHi, bHi + suffix)
+}
+
+/**
+ * Align two word sequences. Unique words shared by both sides anchor the
+ * alignment (patience diff); the gaps between anchors are diffed exactly.
+ */
+export function diffWords(a: string[], b: string[]): DiffHunk[] {
+  const hunks: DiffHunk[] = []
+  diffRange(a, b, 0, a.length, 0, b.length, hunks)
+  return hunks
+}
+
+function spanText(words: Word[]): string {
+  const text = words
+    .slice(0, MAX_SPAN_WORDS)
+    .map((word) => word.raw)
+    .join(' ')
+  return words.length > MAX_SPAN_WORDS ? `${text} …` : text
+}
+
+/**
+ * Check that optimized text kept the source wording. Words are aligned with a
+ * sequence diff: source words missing from the output are dropped, source
+ * words replaced by other words are paraphrased, and words inserted into
+ * lines that otherwise carry source text are hallucinated. Lines made only of
+ * new words (headings, summaries) are allowed additions. The score is the
+ * share of source words kept verbatim.
+ */
+export function verifyPreservation(original: string, optimized: string): PreservationReport {
+  const source = tokenizeWords(original)
+  const output = tokenizeWords(optimized)
+  const hunks = diffWords(
+    source.map((word) => word.text),
+    output.map((word) => word.text)
+  )
+
+  const sourceLines = new Set<number>()
+  let kept = 0
+  for (const hunk of hunks) {
+    if (hunk.type !== 'equal') continue
+    kept += hunk.aEnd - hunk.aStart
+    for (let j = hunk.bStart; j < hunk.bEnd; j++) sourceLines.add(output[j]!.line)
+  }
+
+  const dropped: PreservationSpan[] = []
+  const paraphrased: PreservationSpan[] = []
+  const hallucinated: PreservationSpan[] = []
+
+  for (let index = 0; index < hunks.length; index++) {
+    const hunk = hunks[index]!
+    if (hunk.type === 'equal') continue
+
+    // A deletion next to an insertion is one replacement
+    const next = hunks[index + 1]
+    const pair = next && next.type !== 'equal' && next.type !== hunk.type ? next : undefined
+    if (pair) index++
+
+    const [aStart, aEnd] = [
+      Math.min(hunk.aStart, pair?.aStart ?? Infinity),
+      Math.max(hunk.aEnd, pair?.aEnd ?? 0)
+    ]
+    const [bStart, bEnd] = [
+      Math.min(hunk.bStart, pair?.bStart ?? Infinity),
+      Math.max(hunk.bEnd, pair?.bEnd ?? 0)
+    ]
+    const removed = source.slice(aStart, aEnd)
+    const inserted = output.slice(bStart, bEnd).filter((word) => sourceLines.has(word.line))
+
+    if (removed.length > 0 && inserted.length > 0) {
+      paraphrased.push({
+        position: aStart,
+        original: spanText(removed),
+        optimized: spanText(inserted)
+      })
+    } else if (removed.length > 0) {
+      dropped.push({ position: aStart, original: spanText(removed) })
+    } else if (inserted.length > 0) {
+      hallucinated.push({ position: aStart, optimized: spanText(inserted) })
+    }
+  }
+
+  const preservationScore = source.length === 0 ? 1 : kept / source.length
+
+  return {
+    mode: 'exact-wording',
+    passed: dropped.length === 0 && paraphrased.length === 0 && hallucinated.length === 0,
+    preservationScore: Math.round(preservationScore * 1000) / 1000,
+    dropped: dropped.slice(0, MAX_SPANS),
+    paraphrased: paraphrased.slice(0, MAX_SPANS),
+    hallucinated: hallucinated.slice(0, MAX_SPANS)
+  }
+}
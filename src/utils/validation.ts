@@ -1,20 +1,136 @@
 import { z } from 'zod'
 import type { FastifyRequest, FastifyReply } from 'fastify'
 
+// Hierarchical section IDs as `SectionIdRegistry` issues them, e.g. sec-2-5-remote-work
+const SECTION_ID = /^sec-\d+(?:-\d+)*(?:-[a-z0-9][\w-]*)?$/
+
+/** Section IDs issued by an earlier response, passed back to keep them stable */
+export const SectionAnchorsSchema = z
+  .array(
+    z.object({
+      id: z.string().max(255).toLowerCase().regex(SECTION_ID),
+      title: z.string().max(1000),
+      level: z.number().int().min(1).max(6),
+      parentId: z.string().max(255).toLowerCase().regex(SECTION_ID).optional()
+    })
+  )
+  .max(1000)
+
 export const DocumentInputSchema = z.object({
   name: z.string().min(1).max(255),
   content: z.string().min(1).max(1000000),
-  type: z.enum(['transcript', 'policy', 'email', 'note']).optional(),
-  metadata: z.record(z.unknown()).optional()
+  type: z
+    .enum([
+      'transcript',
+      'policy',
+      'email',
+      'note',
+      'handbook',
+      'contract',
+      'spec',
+      'report',
+      'chat-log'
+    ])
+    .optional(),
+  metadata: z.record(z.unknown()).optional(),
+  /** `sections` returned by a previous optimization of this document */
+  sections: SectionAnchorsSchema.optional()
 })
 
+/** The documents of one request, however they were uploaded */
+export const DocumentsSchema = z.array(DocumentInputSchema).min(1).max(100)
+
+/** Canonical entity names mapped to the aliases they are known by */
+export const EntityAliasesSchema = z.record(
+  z.string().min(1).max(255),
+  z.array(z.string().min(1).max(255)).max(100)
+)
+
 export const OptimizationRequestSchema = z.object({
-  documents: z.array(DocumentInputSchema).min(1).max(100),
-  mode: z.enum(['text', 'json', 'all']).default('text'),
+  documents: DocumentsSchema,
+  mode: z.enum(['text', 'json', 'all', 'digest']).default('text'),
+  /** How `mode: digest` returns the bundle */
+  digestFormat: z.enum(['manifest', 'zip']).default('manifest'),
   optimizationType: z.enum(['clarity', 'style', 'consolidate']).default('clarity'),
   model: z.enum(['gpt-4', 'gpt-3.5-turbo', 'gpt-4-turbo']).optional(),
   temperature: z.number().min(0).max(2).optional(),
-  maxTokens: z.number().min(100).max(8000).optional()
+  maxTokens: z.number().min(100).max(8000).optional(),
+  entityAliases: EntityAliasesSchema.optional(),
+  /** `fail` refuses to consolidate documents that contradict each other */
+  onConflict: z.enum(['flag', 'fail']).default('flag'),
+  /** `sections` returned by a previous consolidation of the same documents */
+  sections: SectionAnchorsSchema.optional()
+})
+
+export const IndexRequestSchema = z.object({
+  documents: DocumentsSchema,
+  /** Date relative expressions ("next Friday") are resolved against */
+  referenceDate: z.coerce.date().optional()
+})
+
+const EntityIndexSchema = z.object({
+  name: z.string(),
+  type: z.enum(['person', 'organization', 'location', 'date', 'other']),
+  mentions: z.number().int().nonnegative(),
+  context: z.array(z.string()),
+  sectionIds: z.array(z.string()).optional(),
+  aliases: z.array(z.string()).optional(),
+  sources: z
+    .array(
+      z.object({
+        document: z.string(),
+        mentions: z.number().int().nonnegative(),
+        names: z.array(z.string()),
+        sectionIds: z.array(z.string()).optional()
+      })
+    )
+    .optional()
+})
+
+export const DocumentIndexesSchema = z.object({
+  entities: z.array(EntityIndexSchema),
+  topics: z.array(
+    z.object({
+      topic: z.string(),
+      relevance: z.number().min(0).max(1),
+      sections: z.array(z.string())
+    })
+  ),
+  timeline: z.array(
+    z.object({
+      date: z.string(),
+      event: z.string(),
+      significance: z.enum(['high', 'medium', 'low'])
+    })
+  )
+})
+
+/** Mirrors the published JSON Schema in `structured-document.ts` */
+export const StructuredDocumentSchema = z.object({
+  schemaVersion: z.literal('1.0'),
+  filename: z.string().min(1),
+  title: z.string().optional(),
+  preamble: z.string().optional(),
+  sections: z.array(
+    z.object({
+      id: z.string().regex(SECTION_ID),
+      title: z.string(),
+      level: z.number().int().min(1).max(6),
+      parentId: z.string().optional(),
+      content: z.string()
+    })
+  ),
+  metadata: z
+    .object({
+      originalLength: z.number(),
+      optimizedLength: z.number(),
+      compressionRatio: z.number(),
+      processingTime: z.number(),
+      model: z.string(),
+      timestamp: z.string()
+    })
+    .passthrough(),
+  indexes: DocumentIndexesSchema
 })
 
 export const ConfigurationSchema = z.object({
@@ -25,7 +141,20 @@ export const ConfigurationSchema = z.object({
   maxFiles: z.number().min(1).max(100).default(10),
   allowedFileTypes: z
     .array(z.string())
-    .default(['.txt', '.md', '.doc', '.docx', '.pdf', '.rtf', '.json'])
+    .default([
+      '.txt',
+      '.md',
+      '.doc',
+      '.docx',
+      '.pdf',
+      '.rtf',
+      '.json',
+      '.eml',
+      '.vtt',
+      '.srt',
+      '.html',
+      '.htm'
+    ])
 })
 
 export async function validateRequest<T>(
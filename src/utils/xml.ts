@@ -0,0 +1,155 @@
+export interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlNode[]
+}
+
+export type XmlNode = XmlElement | string
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+}
+
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#')) {
+      const codePoint = entity.startsWith('#x')
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match
+    }
+    return NAMED_ENTITIES[entity] ?? match
+  })
+}
+
+/**
+ * Parse an XML document into a lightweight element tree. Processing
+ * instructions, comments and doctype declarations are dropped; CDATA sections
+ * become text nodes. Unbalanced closing tags are tolerated.
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] }
+  const stack: XmlElement[] = [root]
+  let pos = 0
+
+  while (pos < xml.length) {
+    const tagStart = xml.indexOf('<', pos)
+    const textEnd = tagStart === -1 ? xml.length : tagStart
+
+    if (textEnd > pos) {
+      const text = decodeXmlEntities(xml.slice(pos, textEnd))
+      stack[stack.length - 1]!.children.push(text)
+    }
+    if (tagStart === -1) break
+
+    if (xml.startsWith('<!--', tagStart)) {
+      const end = xml.indexOf('-->', tagStart + 4)
+      pos = end === -1 ? xml.length : end + 3
+      continue
+    }
+
+    if (xml.startsWith('<![CDATA[', tagStart)) {
+      const end = xml.indexOf(']]>', tagStart + 9)
+      const stop = end === -1 ? xml.length : end
+      stack[stack.length - 1]!.children.push(xml.slice(tagStart + 9, stop))
+      pos = end === -1 ? xml.length : end + 3
+      continue
+    }
+
+    if (xml.startsWith('<?', tagStart) || xml.startsWith('<!', tagStart)) {
+      const end = xml.indexOf('>', tagStart)
+      pos = end === -1 ? xml.length : end + 1
+      continue
+    }
+
+    const tagEnd = findTagEnd(xml, tagStart)
+    const raw = xml.slice(tagStart + 1, tagEnd)
+    pos = tagEnd + 1
+
+    if (raw.startsWith('/')) {
+      const name = raw.slice(1).trim()
+      const index = findOpenElement(stack, name)
+      if (index > 0) stack.length = index
+      continue
+    }
+
+    const selfClosing = raw.endsWith('/')
+    const element = parseTag(selfClosing ? raw.slice(0, -1) : raw)
+    stack[stack.length - 1]!.children.push(element)
+    if (!selfClosing) stack.push(element)
+  }
+
+  return root
+}
+
+function findTagEnd(xml: string, start: number): number {
+  let quote: string | undefined
+  for (let i = start + 1; i < xml.length; i++) {
+    const char = xml[i]
+    if (quote) {
+      if (char === quote) quote = undefined
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '>') {
+      return i
+    }
+  }
+  return xml.length
+}
+
+function findOpenElement(stack: XmlElement[], name: string): number {
+  for (let i = stack.length - 1; i > 0; i--) {
+    if (stack[i]!.name === name) return i
+  }
+  return -1
+}
+
+function parseTag(raw: string): XmlElement {
+  const nameMatch = /^\s*([^\s/>]+)/.exec(raw)
+  const name = nameMatch?.[1] ?? ''
+  const attributes: Record<string, string> = {}
+  const attrPattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g
+  const rest = raw.slice(raw.indexOf(name) + name.length)
+  let match: RegExpExecArray | null
+
+  while ((match = attrPattern.exec(rest)) !== null) {
+    attributes[match[1]!] = decodeXmlEntities(match[3] ?? match[4] ?? '')
+  }
+
+  return { name, attributes, children: [] }
+}
+
+export function isElement(node: XmlNode | undefined): node is XmlElement {
+  return typeof node === 'object' && node !== null
+}
+
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => isElement(child) && (name === undefined || child.name === name)
+  )
+}
+
+export function findChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element ? childElements(element, name)[0] : undefined
+}
+
+/**
+ * Depth-first search for every descendant element with the given name.
+ */
+export function findDescendants(element: XmlElement, name: string): XmlElement[] {
+  const matches: XmlElement[] = []
+  for (const child of childElements(element)) {
+    if (child.name === name) matches.push(child)
+    matches.push(...findDescendants(child, name))
+  }
+  return matches
+}
+
+export function textContent(node: XmlNode): string {
+  if (typeof node === 'string') return node
+  return node.children.map(textContent).join('')
+}
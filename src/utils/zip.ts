@@ -0,0 +1,233 @@
+import { deflateRawSync, inflateRawSync } from 'zlib'
+import { ValidationError } from '../middleware/error-handler.js'
+
+export interface ZipEntry {
+  name: string
+  compressedSize: number
+  uncompressedSize: number
+  isDirectory: boolean
+  read(maxBytes?: number): Buffer
+}
+
+export interface ZipFileInput {
+  name: string
+  data: Buffer | string
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const MAX_COMMENT_LENGTH = 0xffff
+const UTF8_NAMES = 0x0800
+const VERSION = 20
+
+let crcTable: Uint32Array | undefined
+
+export function isZipBuffer(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const lowest = Math.max(0, buffer.length - 22 - MAX_COMMENT_LENGTH)
+  for (let offset = buffer.length - 22; offset >= lowest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset
+  }
+  throw new ValidationError('Invalid ZIP archive: end of central directory not found')
+}
+
+/**
+ * List the entries of a ZIP archive from its central directory. Entry data is
+ * only inflated when `read()` is called, so callers can check sizes first.
+ * Stored and deflated entries are supported; ZIP64 and encrypted entries are not.
+ */
+export function readZipEntries(buffer: Buffer): ZipEntry[] {
+  if (buffer.length < 22) {
+    throw new ValidationError('Invalid ZIP archive: file is too small')
+  }
+
+  const eocd = findEndOfCentralDirectory(buffer)
+  const entryCount = buffer.readUInt16LE(eocd + 10)
+  let offset = buffer.readUInt32LE(eocd + 16)
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new ValidationError('Invalid ZIP archive: corrupt central directory')
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8)
+    const method = buffer.readUInt16LE(offset + 10)
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const uncompressedSize = buffer.readUInt32LE(offset + 24)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.toString(
+      flags & 0x0800 ? 'utf-8' : 'latin1',
+      offset + 46,
+      offset + 46 + nameLength
+    )
+
+    if (compressedSize === 0xffffffff || uncompressedSize === 0xffffffff) {
+      throw new ValidationError('ZIP64 archives are not supported')
+    }
+
+    entries.push({
+      name,
+      compressedSize,
+      uncompressedSize,
+      isDirectory: name.endsWith('/'),
+      read: (maxBytes?: number) =>
+        readEntryData(buffer, { name, flags, method, compressedSize, localHeaderOffset }, maxBytes)
+    })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+function readEntryData(
+  buffer: Buffer,
+  entry: {
+    name: string
+    flags: number
+    method: number
+    compressedSize: number
+    localHeaderOffset: number
+  },
+  maxBytes?: number
+): Buffer {
+  const { name, flags, method, compressedSize, localHeaderOffset } = entry
+
+  if (flags & 0x0001) {
+    throw new ValidationError(`Encrypted ZIP entries are not supported: ${name}`)
+  }
+  if (buffer.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER) {
+    throw new ValidationError(`Invalid ZIP archive: corrupt local header for ${name}`)
+  }
+
+  const nameLength = buffer.readUInt16LE(localHeaderOffset + 26)
+  const extraLength = buffer.readUInt16LE(localHeaderOffset + 28)
+  const start = localHeaderOffset + 30 + nameLength + extraLength
+  const data = buffer.subarray(start, start + compressedSize)
+
+  if (method === 0) {
+    if (maxBytes !== undefined && data.length > maxBytes) {
+      throw new ValidationError(`ZIP entry exceeds the size limit: ${name}`)
+    }
+    return Buffer.from(data)
+  }
+
+  if (method === 8) {
+    try {
+      return inflateRawSync(data, maxBytes !== undefined ? { maxOutputLength: maxBytes } : {})
+    } catch (error) {
+      if (
+        error instanceof RangeError ||
+        (error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE'
+      ) {
+        throw new ValidationError(`ZIP entry exceeds the size limit: ${name}`)
+      }
+      throw new ValidationError(`Invalid ZIP archive: cannot inflate ${name}`)
+    }
+  }
+
+  throw new ValidationError(`Unsupported ZIP compression method ${method} for ${name}`)
+}
+
+export function findZipEntry(entries: ZipEntry[], name: string): ZipEntry | undefined {
+  return entries.find((entry) => entry.name === name)
+}
+
+export function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff]! ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time fields, at two-second resolution
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | (date.getUTCSeconds() >> 1),
+    date:
+      ((Math.max(date.getUTCFullYear(), 1980) - 1980) << 9) |
+      ((date.getUTCMonth() + 1) << 5) |
+      date.getUTCDate()
+  }
+}
+
+/**
+ * Build a ZIP archive from in-memory files. Entries are deflated unless that
+ * would not make them smaller, and names are stored as UTF-8. The reader's
+ * limits apply: no ZIP64, so archives must stay under 4 GB and 65535 entries.
+ */
+export function writeZip(files: ZipFileInput[], modified: Date = new Date()): Buffer {
+  if (files.length > 0xffff) {
+    throw new ValidationError('Too many entries for a ZIP archive')
+  }
+
+  const { time, date } = dosDateTime(modified)
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf-8')
+    const raw = typeof file.data === 'string' ? Buffer.from(file.data, 'utf-8') : file.data
+    const deflated = deflateRawSync(raw)
+    const method = deflated.length < raw.length ? 8 : 0
+    const data = method === 8 ? deflated : raw
+    const crc = crc32(raw)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0)
+    local.writeUInt16LE(VERSION, 4)
+    local.writeUInt16LE(UTF8_NAMES, 6)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    locals.push(local, name, data)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0)
+    central.writeUInt16LE(VERSION, 4)
+    central.writeUInt16LE(VERSION, 6)
+    central.writeUInt16LE(UTF8_NAMES, 8)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, name)
+
+    offset += local.length + name.length + data.length
+  }
+
+  const centralDirectory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, centralDirectory, end])
+}
@@ -257,4 +257,34 @@ describe('ConsolidationPrompts', () => {
       expect(plan).toContain('Document Types: 1')
     })
   })
+
+  describe('type-aware consolidation', () => {
+    it('should group documents by type in master document order', () => {
+      const groups = ConsolidationPrompts.planConsolidation([
+        { name: 'standup.txt', content: 'Alice: hi', type: 'transcript' },
+        { name: 'scratch.txt', content: 'misc' },
+        { name: 'pto.md', content: 'PTO policy', type: 'policy' },
+        { name: 'remote.md', content: 'Remote policy', type: 'policy' }
+      ])
+
+      expect(groups.map((group) => group.label)).toEqual([
+        'Policies',
+        'Transcripts',
+        'Other Documents'
+      ])
+      expect(groups[0].documents.map((document) => document.name)).toEqual(['pto.md', 'remote.md'])
+    })
+
+    it('should build group messages with type-specific instructions', () => {
+      const [group] = ConsolidationPrompts.planConsolidation([
+        { name: 'standup.txt', content: 'Alice: hi', type: 'transcript' }
+      ])
+
+      const messages = ConsolidationPrompts.buildGroupMessages(group)
+
+      expect(messages[1].content).toContain('## Document 1: standup.txt')
+      expect(messages[1].content).toContain('(Transcripts)')
+      expect(messages[1].content).toContain('speaker labels and timestamps')
+    })
+  })
 })
\ No newline at end of file
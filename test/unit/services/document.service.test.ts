@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { DocumentService } from '../../../src/services/document.service.js'
 import type { DocumentInput } from '../../../src/types/index.js'
 
@@ -96,7 +96,14 @@ The documents have been merged successfully.`
           }
         }
       }),
-      calculateCost: vi.fn().mockReturnValue(0.001)
+      calculateCost: vi.fn().mockReturnValue(0.001),
+      getModelCapabilities: vi.fn().mockReturnValue({
+        maxTokens: 4096,
+        supportsStreaming: true,
+        contextWindow: 16385,
+        costTier: 'low'
+      }),
+      estimateTokens: vi.fn().mockImplementation((text: string) => Math.ceil(text.length / 4))
     }
 
     // Create document service and inject mock
@@ -290,6 +297,189 @@ The documents have been merged successfully.`
       expect(result.status).toBe('fulfilled')
       expect(result.optimizedContent).toContain('single.txt')
     })
+
+    it('should consolidate each document type separately before merging', async () => {
+      const documents: DocumentInput[] = [
+        { name: 'meeting.txt', content: 'Alice: We agreed on the budget.', type: 'transcript' },
+        { name: 'policy.txt', content: 'Company policy on remote work', type: 'policy' }
+      ]
+
+      const result = await documentService.consolidateDocuments(
+        documents,
+        'gpt-3.5-turbo',
+        undefined,
+        undefined,
+        'text'
+      )
+
+      const groupCalls = mockOpenAIService.createCompletion.mock.calls.filter(([messages]: any) =>
+        messages.some((message: any) => message.content.includes('Consolidate the following'))
+      )
+      expect(groupCalls).toHaveLength(2)
+      expect(groupCalls[0][0][1].content).toContain('(Policies)')
+      expect(groupCalls[1][0][1].content).toContain('(Transcripts)')
+
+      const content = result.optimizedContent
+      expect(content).toContain('**Contents**')
+      expect(content).toMatch(/^## \S+ Policies$/m)
+      expect(content.search(/^## \S+ Policies$/m)).toBeLessThan(content.search(/^## \S+ Transcripts$/m))
+      expect(content).toContain('> **Sources:** meeting.txt')
+      expect(result.metadata.model).toBe('gpt-3.5-turbo')
+    })
+
+    it('should map each consolidated section to the sources it cites', async () => {
+      mockOpenAIService.createCompletion.mockResolvedValueOnce({
+        completion: {
+          id: 'test-completion',
+          choices: [
+            {
+              message: {
+                content: '# Remote Work\n\nSource: remote.txt (sec-2-eligibility)\n\nStaff may work remotely.'
+              }
+            }
+          ]
+        },
+        metrics: { usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 } }
+      })
+      const documents: DocumentInput[] = [
+        { name: 'remote.txt', content: 'Staff may work remotely.', type: 'policy' },
+        { name: 'expenses.txt', content: 'Expenses are reimbursed monthly.', type: 'policy' }
+      ]
+
+      const result = await documentService.consolidateDocuments(
+        documents,
+        'gpt-3.5-turbo',
+        undefined,
+        undefined,
+        'text'
+      )
+
+      const remoteWork = result.sections?.find((section) => section.title === 'Remote Work')
+      expect(result.provenance?.sections).toContainEqual({
+        sectionId: remoteWork?.id,
+        sources: [{ document: 'remote.txt', sectionIds: ['sec-2-eligibility'] }]
+      })
+      expect(result.provenance).toMatchObject({ passed: false, uncited: ['expenses.txt'] })
+    })
+
+    it('should send paragraphs repeated across documents only once', async () => {
+      const notice =
+        'All employees must complete the annual security awareness training by the end of the first quarter of every year.'
+      const documents: DocumentInput[] = [
+        { name: 'handbook.txt', content: `Welcome to the company.\n\n${notice}`, type: 'policy' },
+        { name: 'security.txt', content: `${notice}\n\nReport incidents to IT.`, type: 'policy' }
+      ]
+
+      const result = await documentService.consolidateDocuments(
+        documents,
+        'gpt-3.5-turbo',
+        undefined,
+        undefined,
+        'text'
+      )
+
+      const [messages] = mockOpenAIService.createCompletion.mock.calls[0]
+      expect(messages[1].content.split(notice)).toHaveLength(2)
+      expect(messages[1].content).toContain('[Duplicate of handbook.txt, paragraph 2]')
+      expect(result.deduplication).toMatchObject({
+        duplicates: [{ document: 'security.txt', paragraph: 1, similarity: 1 }],
+        eliminatedBytes: expect.any(Number)
+      })
+      expect(result.deduplication?.eliminatedBytes).toBeGreaterThan(0)
+    })
+
+    describe('conflicting documents', () => {
+      const documents: DocumentInput[] = [
+        { name: 'pto-2023.txt', content: 'PTO accrues at 1.5 days per month.', type: 'policy' },
+        { name: 'pto-2024.txt', content: 'PTO accrues at 1.25 days per month.', type: 'policy' }
+      ]
+
+      it('should list conflicts in their own section of the consolidated output', async () => {
+        const result = await documentService.consolidateDocuments(
+          documents,
+          'gpt-3.5-turbo',
+          undefined,
+          undefined,
+          'text'
+        )
+
+        expect(result.status).toBe('fulfilled')
+        expect(result.conflicts).toHaveLength(1)
+        expect(result.conflicts?.[0]?.statements.map((statement) => statement.document)).toEqual([
+          'pto-2023.txt',
+          'pto-2024.txt'
+        ])
+        expect(result.optimizedContent).toMatch(/^## \S+ Conflicts$/m)
+        expect(result.optimizedContent).toContain('- pto-2024.txt: 1.25 days')
+        expect(result.sections?.map((section) => section.title)).toContain('Conflicts')
+      })
+
+      it('should refuse to consolidate until conflicts are resolved when asked to', async () => {
+        const result = await documentService.consolidateDocuments(
+          documents,
+          'gpt-3.5-turbo',
+          undefined,
+          undefined,
+          'text',
+          'fail'
+        )
+
+        expect(result.status).toBe('rejected')
+        expect(result.error).toContain('1 statement(s)')
+        expect(result.conflicts).toHaveLength(1)
+        expect(mockOpenAIService.createCompletion).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('large collections', () => {
+      const documents: DocumentInput[] = ['a.txt', 'b.txt', 'c.txt'].map((name) => ({
+        name,
+        content: `Policy clause for ${name}. `.repeat(800),
+        type: 'policy'
+      }))
+      const groupPrompts = (): string[] =>
+        mockOpenAIService.createCompletion.mock.calls
+          .map(([messages]: any) => messages[1].content as string)
+          .filter((content: string) => content.includes('Consolidate the following'))
+
+      it('should consolidate batches that fit the context window, then their results', async () => {
+        const result = await documentService.consolidateDocuments(
+          documents,
+          'gpt-3.5-turbo',
+          undefined,
+          undefined,
+          'text'
+        )
+
+        const prompts = groupPrompts()
+        expect(result.status).toBe('fulfilled')
+        expect(prompts).toHaveLength(3)
+        expect(prompts[0]).toContain('## Document 2: b.txt')
+        expect(prompts[1]).toContain('## Document 1: c.txt')
+        expect(prompts[2]).toContain('## Document 1: Part 1 (a.txt, b.txt)')
+        expect(prompts[2]).toContain('## Document 2: Part 2 (c.txt)')
+        expect(result.metadata.tokenUsage?.totalTokens).toBe(750)
+      })
+
+      it('should size batches by the model context window', async () => {
+        mockOpenAIService.getModelCapabilities.mockReturnValue({
+          maxTokens: 4096,
+          supportsStreaming: true,
+          contextWindow: 128000,
+          costTier: 'low'
+        })
+
+        await documentService.consolidateDocuments(
+          documents,
+          'gpt-4o-mini',
+          undefined,
+          undefined,
+          'text'
+        )
+
+        expect(groupPrompts()).toHaveLength(1)
+      })
+    })
   })
 
   describe('document processing edge cases', () => {
@@ -329,4 +519,385 @@ The documents have been merged successfully.`
       }
     })
   })
-})
\ No newline at end of file
+
+  describe('large documents', () => {
+    it('should optimize chunks separately and stitch the results', async () => {
+      const section = (title: string) =>
+        `## ${title}\n\n${'This paragraph describes the policy in some detail. '.repeat(150)}`
+      const document: DocumentInput = {
+        name: 'handbook.md',
+        content: ['# Handbook', section('Leave'), section('Expenses'), section('Travel')].join('\n\n'),
+        type: 'handbook'
+      }
+      mockOpenAIService.createCompletion.mockImplementation(async (messages: any[]) => {
+        const prompt = messages.find((message) => message.role === 'user')?.content as string
+        const part = /This is part (\d+) of (\d+)/.exec(prompt)
+        return {
+          completion: {
+            choices: [{ message: { content: part ? `## Part ${part[1]}\n\nOptimized.` : '{}' } }]
+          },
+          metrics: {
+            model: 'gpt-3.5-turbo',
+            usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+            cost: 0.001
+          }
+        }
+      })
+
+      const result = await documentService.optimizeDocument(document, 'clarity', 'gpt-3.5-turbo')
+
+      expect(result.status).toBe('fulfilled')
+      expect(result.metadata.chunkCount).toBe(3)
+      expect(result.optimizedContent).toBe(
+        '## sec-1-part-1 Part 1\n\nOptimized.\n\n' +
+          '## sec-2-part-2 Part 2\n\nOptimized.\n\n' +
+          '## sec-3-part-3 Part 3\n\nOptimized.'
+      )
+      expect(result.sections?.map((section) => section.id)).toEqual([
+        'sec-1-part-1',
+        'sec-2-part-2',
+        'sec-3-part-3'
+      ])
+      expect(result.metadata.tokenUsage?.totalTokens).toBe(450)
+      expect(result.metadata.cost).toBeCloseTo(0.003)
+
+      const prompts = mockOpenAIService.createCompletion.mock.calls.map(
+        ([messages]: [any[]]) => messages.find((message) => message.role === 'user')?.content
+      )
+      expect(prompts[1]).toContain('This part continues under the headings # Handbook')
+      expect(prompts[1]).toContain('## Expenses')
+      expect(prompts[1]).not.toContain('## Leave')
+    })
+  })
+
+  describe('transcript verification', () => {
+    const transcript: DocumentInput = {
+      name: 'standup-transcript.txt',
+      content: '[t=00:00:05] Alice: We ship on Friday.\n\n[t=00:00:09] Bob: The migration is ready.',
+      type: 'transcript'
+    }
+
+    const respondWith = (content: string) =>
+      mockOpenAIService.createCompletion.mockImplementation(async (messages: any[]) => {
+        const prompt = messages.find((message) => message.role === 'user')?.content as string
+        return {
+          completion: {
+            choices: [{ message: { content: prompt.includes('extract entities') ? '{}' : content } }]
+          },
+          metrics: {
+            model: 'gpt-3.5-turbo',
+            usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+            cost: 0.001
+          }
+        }
+      })
+
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('should attach a passing report when the wording is preserved', async () => {
+      respondWith(`## Discussion\n\n${transcript.content}`)
+
+      const result = await documentService.optimizeDocument(transcript, 'clarity', 'gpt-3.5-turbo')
+
+      expect(result.status).toBe('fulfilled')
+      expect(result.verification).toMatchObject({ passed: true, preservationScore: 1 })
+    })
+
+    it('should reject the result in fail mode when the wording changed', async () => {
+      vi.stubEnv('TRUTH_VERIFICATION', 'fail')
+      respondWith('[t=00:00:05] Alice: We ship Friday.\n\n[t=00:00:09] Bob: Migration is done.')
+
+      const result = await documentService.optimizeDocument(transcript, 'clarity', 'gpt-3.5-turbo')
+
+      expect(result.status).toBe('rejected')
+      expect(result.optimizedContent).toBe('')
+      expect(result.error).toContain('does not preserve the original wording')
+      expect(result.verification?.dropped.map((span) => span.original)).toEqual(['on', 'The'])
+      expect(result.verification?.paraphrased).toEqual([
+        { position: 17, original: 'ready', optimized: 'done' }
+      ])
+    })
+  })
+
+  describe('fact checking', () => {
+    it('should report facts the optimized content changed', async () => {
+      mockOpenAIService.createCompletion.mockImplementation(async (messages: any[]) => {
+        const prompt = messages.find((message) => message.role === 'user')?.content as string
+        return {
+          completion: {
+            choices: [
+              {
+                message: {
+                  content: prompt.includes('extract entities')
+                    ? '{}'
+                    : '## Budget\n\nThe approved budget is $12,000.'
+                }
+              }
+            ]
+          },
+          metrics: {
+            model: 'gpt-3.5-turbo',
+            usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+            cost: 0.001
+          }
+        }
+      })
+
+      const result = await documentService.optimizeDocument(
+        { name: 'budget.txt', content: 'The approved budget is $12,500 for this year.' },
+        'clarity',
+        'gpt-3.5-turbo'
+      )
+
+      expect(result.status).toBe('fulfilled')
+      expect(result.metadata.factCheck?.passed).toBe(false)
+      expect(result.metadata.factCheck?.findings).toEqual([
+        expect.objectContaining({ issue: 'altered', value: '$12,000', original: '$12,500' })
+      ])
+    })
+  })
+
+  describe('output modes', () => {
+    const document: DocumentInput = {
+      name: 'notes.txt',
+      content: 'John Smith reviewed the vendor contract.',
+      type: 'note'
+    }
+
+    it('should skip index generation in text mode', async () => {
+      const result = await documentService.optimizeDocument(
+        document,
+        'clarity',
+        'gpt-3.5-turbo',
+        undefined,
+        'text'
+      )
+
+      expect(result.status).toBe('fulfilled')
+      expect(result.optimizedContent).toContain('mock optimized document')
+      expect(result.indexes).toBeUndefined()
+      expect(result.document).toBeUndefined()
+      expect(mockOpenAIService.createCompletion).toHaveBeenCalledTimes(1)
+    })
+
+    it('should build a structured document in json mode', async () => {
+      const result = await documentService.optimizeDocument(
+        document,
+        'clarity',
+        'gpt-3.5-turbo',
+        undefined,
+        'json'
+      )
+
+      expect(result.document).toMatchObject({
+        schemaVersion: '1.0',
+        filename: 'notes.txt',
+        preamble: 'This is a mock optimized document content for testing purposes.',
+        sections: [],
+        indexes: { entities: [expect.objectContaining({ name: 'John Smith' })] }
+      })
+    })
+
+    it('should reuse issued section IDs in the structured document', async () => {
+      mockOpenAIService.createCompletion.mockImplementationOnce(async () => ({
+        completion: { choices: [{ message: { content: '## PTO\n\nTwenty days a year.' } }] },
+        metrics: { usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 } }
+      }))
+
+      const result = await documentService.optimizeDocument(
+        {
+          name: 'issued-ids.txt',
+          content: 'PTO: twenty days a year.',
+          type: 'policy',
+          sections: [{ id: 'sec-3-PTO', title: 'PTO', level: 2 }]
+        },
+        'clarity',
+        'gpt-3.5-turbo',
+        undefined,
+        'json'
+      )
+
+      expect(result.status).toBe('fulfilled')
+      expect(result.sections).toEqual([{ id: 'sec-3-pto', title: 'PTO', level: 2 }])
+      expect(result.document?.sections.map((section) => section.id)).toEqual(['sec-3-pto'])
+    })
+  })
+
+  describe('indexes', () => {
+    const document: DocumentInput = {
+      name: 'standup.txt',
+      content:
+        'Dr. Sarah Connor met Acme Corp on March 3, 2024. The vendor contract is signed tomorrow.'
+    }
+
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('should fall back to rule-based indexes when the model call fails', async () => {
+      mockOpenAIService.createCompletion.mockImplementation(async (messages: any[]) => {
+        const prompt = messages.find((message) => message.role === 'user')?.content as string
+        if (prompt.includes('extract entities')) throw new Error('Service unavailable')
+        return {
+          completion: { choices: [{ message: { content: 'Optimized.' } }] },
+          metrics: {
+            model: 'gpt-3.5-turbo',
+            usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+            cost: 0.001
+          }
+        }
+      })
+
+      const result = await documentService.optimizeDocument(document, 'clarity', 'gpt-3.5-turbo')
+
+      expect(result.status).toBe('fulfilled')
+      expect(result.indexes?.entities.map((entity) => entity.name)).toEqual([
+        'Acme Corp',
+        'Sarah Connor'
+      ])
+      expect(result.indexes?.timeline.map((entry) => entry.date)).toEqual([
+        '2024-03-03',
+        '2024-03-04'
+      ])
+    })
+
+    it('should not ask the model for indexes in local mode', async () => {
+      vi.stubEnv('INDEX_EXTRACTION', 'local')
+
+      const result = await documentService.optimizeDocument(document, 'clarity', 'gpt-3.5-turbo')
+
+      expect(result.indexes?.entities.map((entity) => entity.name)).toContain('Sarah Connor')
+      expect(mockOpenAIService.createCompletion).toHaveBeenCalledTimes(1)
+    })
+
+    it('should index long documents in chunks and merge the results', async () => {
+      const filler = 'The team reviewed the vendor backlog and agreed on next steps. '.repeat(100)
+      const content = `Acme Corp opened the review. ${filler}\n\n${filler}\n\n${filler}\n\nGlobex closed the review with Acme Corp.`
+      mockOpenAIService.createCompletion.mockImplementation(async (messages: any[]) => {
+        const prompt = messages.find((message) => message.role === 'user')?.content as string
+        const entities = prompt.includes('extract entities')
+          ? [
+              { name: 'Acme Corp', type: 'organization', mentions: 1, context: ['Acme Corp.'] },
+              ...(prompt.includes('Globex')
+                ? [{ name: 'Globex', type: 'organization', mentions: 1, context: [] }]
+                : [])
+            ]
+          : []
+        return {
+          completion: {
+            choices: [
+              {
+                message: {
+                  content: prompt.includes('extract entities')
+                    ? JSON.stringify({ entities, topics: [], timeline: [] })
+                    : '# Review\n\n## Opening\n\nAcme Corp opened.\n\n## Closing\n\nGlobex closed.'
+                }
+              }
+            ]
+          },
+          metrics: {
+            model: 'gpt-3.5-turbo',
+            usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+            cost: 0.001
+          }
+        }
+      })
+
+      const result = await documentService.optimizeDocument(
+        { name: 'review.txt', content },
+        'clarity',
+        'gpt-3.5-turbo'
+      )
+
+      const indexCalls = mockOpenAIService.createCompletion.mock.calls.filter(([messages]) =>
+        (messages as any[]).some((message) => message.content.includes('extract entities'))
+      )
+      expect(indexCalls.length).toBeGreaterThan(1)
+      expect(result.indexes?.entities).toEqual([
+        expect.objectContaining({
+          name: 'Acme Corp',
+          mentions: indexCalls.length,
+          context: ['Acme Corp.'],
+          sectionIds: expect.arrayContaining([expect.stringMatching(/^sec-\d+-opening$/)])
+        }),
+        expect.objectContaining({
+          name: 'Globex',
+          mentions: 1,
+          sectionIds: expect.arrayContaining([expect.stringMatching(/^sec-\d+-closing$/)])
+        })
+      ])
+    })
+
+    it('should resolve entity aliases across consolidated documents', async () => {
+      const entitiesByDocument: Record<string, unknown[]> = {
+        'Kickoff with John Smith.': [
+          { name: 'John Smith', type: 'person', mentions: 2, context: [] }
+        ],
+        'J. Smith sent the plan from jsmith@corp.example.': [
+          { name: 'J. Smith', type: 'person', mentions: 1, context: [] },
+          { name: 'jsmith@corp.example', type: 'other', mentions: 1, context: [] }
+        ],
+        'Bob approved it.': [{ name: 'Bob', type: 'person', mentions: 1, context: [] }]
+      }
+      mockOpenAIService.createCompletion.mockImplementation(async (messages: any[]) => {
+        const prompt = messages.find((message) => message.role === 'user')?.content as string
+        const content = prompt.includes('extract entities')
+          ? JSON.stringify({
+              entities: Object.entries(entitiesByDocument).find(([text]) => prompt.includes(text))?.[1] ?? [],
+              topics: [],
+              timeline: []
+            })
+          : '# Plan\n\n## Kickoff\n\nJ. Smith and Robert Jones met.'
+        return {
+          completion: { choices: [{ message: { content } }] },
+          metrics: {
+            model: 'gpt-3.5-turbo',
+            usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+            cost: 0.001
+          }
+        }
+      })
+
+      const result = await documentService.consolidateDocuments(
+        Object.keys(entitiesByDocument).map((content, index) => ({ name: `doc${index + 1}.md`, content })),
+        'gpt-3.5-turbo',
+        undefined,
+        { 'Robert Jones': ['Bob'] }
+      )
+
+      expect(result.indexes?.entities).toEqual([
+        expect.objectContaining({
+          name: 'John Smith',
+          mentions: 4,
+          aliases: ['J. Smith', 'jsmith@corp.example'],
+          sources: [
+            { document: 'doc1.md', mentions: 2, names: ['John Smith'] },
+            { document: 'doc2.md', mentions: 2, names: ['J. Smith', 'jsmith@corp.example'] }
+          ],
+          sectionIds: expect.arrayContaining([expect.stringMatching(/-kickoff$/)])
+        }),
+        expect.objectContaining({
+          name: 'Robert Jones',
+          aliases: ['Bob'],
+          sources: [{ document: 'doc3.md', mentions: 1, names: ['Bob'] }],
+          sectionIds: expect.arrayContaining([expect.stringMatching(/-kickoff$/)])
+        })
+      ])
+    })
+
+    it('should index documents without any model call', () => {
+      const [result] = documentService.indexDocuments(
+        [{ ...document, content: 'The audit starts next Monday.' }],
+        new Date('2024-06-05T00:00:00Z')
+      )
+
+      expect(result?.originalFilename).toBe('standup.txt')
+      expect(result?.indexes.timeline).toEqual([
+        { date: '2024-06-10', event: 'The audit starts next Monday.', significance: 'high' }
+      ])
+      expect(mockOpenAIService.createCompletion).not.toHaveBeenCalled()
+    })
+  })
+})
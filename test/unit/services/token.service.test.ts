@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { TokenManager } from '../../../src/services/token.service.js'
 import type { CompletionMetrics } from '../../../src/services/openai.service.js'
+import { countTokens } from '../../../src/utils/tokenizer.js'
 
 describe('TokenManager', () => {
   let tokenManager: TokenManager
@@ -214,6 +215,15 @@ describe('TokenManager', () => {
       
       expect(gpt4Cost).toBeGreaterThan(gpt3Cost)
     })
+
+    it('should count request text with the model tokenizer', () => {
+      const text = 'Summarize the quarterly report and list every action item. '.repeat(50)
+
+      expect(tokenManager.estimateCost('gpt-4', text)).toBeCloseTo(
+        tokenManager.estimateCost('gpt-4', countTokens(text, 'gpt-4')),
+        10
+      )
+    })
   })
 
   describe('getModelPricing', () => {
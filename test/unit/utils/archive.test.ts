@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest'
+import { deflateRawSync } from 'zlib'
+import {
+  createArchiveBudget,
+  expandZipUpload,
+  isZipUpload,
+  type ArchiveLimits
+} from '../../../src/utils/archive.js'
+
+// Build a ZIP archive (CRCs are not verified by the reader, so they are left at zero).
+// `declaredSizes` lets a test misreport an entry's uncompressed size.
+function buildZip(
+  files: Record<string, string | Buffer>,
+  declaredSizes: Record<string, number> = {}
+): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, 'utf-8')
+    const raw = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content
+    const data = deflateRawSync(raw)
+    const size = declaredSizes[name] ?? raw.length
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(0x0800, 6)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(size, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+    locals.push(local, nameBytes, data)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(size, 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, nameBytes)
+
+    offset += 30 + nameBytes.length + data.length
+  }
+
+  const centralDirectory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(files).length, 8)
+  end.writeUInt16LE(Object.keys(files).length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, centralDirectory, end])
+}
+
+const limits: ArchiveLimits = {
+  maxTotalUncompressedSize: 10000,
+  maxEntrySize: 5000,
+  maxEntries: 10
+}
+
+describe('Archive Expansion', () => {
+  it('should expand supported entries into documents with their folder path', () => {
+    const zip = buildZip({
+      'policies/': '',
+      'policies/hr/leave-policy.md': '# Leave\n\nFive days carry over.',
+      'notes.txt': 'Team notes',
+      'policies/logo.png': 'binary',
+      '__MACOSX/policies/._leave-policy.md': 'resource fork',
+      '.DS_Store': 'finder'
+    })
+
+    const { documents, skipped } = expandZipUpload(zip, 'handbook.zip', limits)
+
+    expect(documents).toEqual([
+      {
+        name: 'leave-policy.md',
+        content: '# Leave\n\nFive days carry over.',
+        type: 'policy',
+        metadata: {
+          size: 30,
+          archive: 'handbook.zip',
+          path: 'policies/hr/leave-policy.md',
+          folder: 'policies/hr',
+          encoding: 'utf-8',
+          typeConfidence: expect.any(Number)
+        }
+      },
+      {
+        name: 'notes.txt',
+        content: 'Team notes',
+        type: 'note',
+        metadata: {
+          size: 10,
+          archive: 'handbook.zip',
+          path: 'notes.txt',
+          folder: '',
+          encoding: 'utf-8',
+          typeConfidence: expect.any(Number)
+        }
+      }
+    ])
+    expect(skipped).toEqual([{ path: 'policies/logo.png', reason: 'Unsupported file type' }])
+  })
+
+  it('should extract entries through the format parsers', () => {
+    const zip = buildZip({
+      'web/page.html':
+        '<html><head><title>Benefits</title></head><body><main><h1>Benefits</h1></main></body></html>'
+    })
+
+    const [document] = expandZipUpload(zip, 'site.zip', limits).documents
+
+    expect(document?.content).toBe('# Benefits')
+    expect(document?.metadata).toMatchObject({ format: 'html', title: 'Benefits', folder: 'web' })
+  })
+
+  it('should reject archives whose declared size exceeds the total limit', () => {
+    const zip = buildZip({ 'a.txt': 'x'.repeat(6000), 'b.txt': 'y'.repeat(6000) })
+
+    expect(() => expandZipUpload(zip, 'big.zip', { ...limits, maxEntrySize: 10000 })).toThrow(
+      'above the remaining 10000 byte limit'
+    )
+  })
+
+  it('should skip entries that inflate beyond their declared size', () => {
+    const zip = buildZip(
+      { 'bomb.txt': '0'.repeat(200000), 'notes.txt': 'Team notes' },
+      { 'bomb.txt': 100 }
+    )
+
+    const { documents, skipped } = expandZipUpload(zip, 'bomb.zip', limits)
+
+    expect(documents.map((document) => document.name)).toEqual(['notes.txt'])
+    expect(skipped).toEqual([
+      { path: 'bomb.txt', reason: 'ZIP entry exceeds the size limit: bomb.txt' }
+    ])
+  })
+
+  it('should count nested DOCX parts against the archive budget', () => {
+    const body = `<w:p><w:r><w:t>${'x'.repeat(200000)}</w:t></w:r></w:p>`
+    const docx = buildZip({
+      'word/document.xml': `<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`
+    })
+    const zip = buildZip({ 'bomb.docx': docx, 'notes.txt': 'Team notes' })
+
+    const { documents, skipped } = expandZipUpload(zip, 'nested.zip', limits)
+
+    expect(documents.map((document) => document.name)).toEqual(['notes.txt'])
+    expect(skipped).toEqual([
+      { path: 'bomb.docx', reason: 'ZIP entry exceeds the size limit: word/document.xml' }
+    ])
+  })
+
+  it('should skip corrupt entries and keep the rest of the archive', () => {
+    const zip = buildZip({ 'broken.txt': 'Broken entry', 'notes.txt': 'Team notes' })
+    // Overwrite the local header signature of the first entry
+    zip.writeUInt32LE(0, 0)
+
+    const { documents, skipped } = expandZipUpload(zip, 'corrupt.zip', limits)
+
+    expect(documents.map((document) => document.name)).toEqual(['notes.txt'])
+    expect(skipped).toEqual([
+      { path: 'broken.txt', reason: 'Invalid ZIP archive: corrupt local header for broken.txt' }
+    ])
+  })
+
+  it('should cap the number of documents and skip oversized entries', () => {
+    const zip = buildZip({
+      'one.txt': '1',
+      'large.txt': 'z'.repeat(600),
+      'two.txt': '2',
+      'three.txt': '3'
+    })
+
+    const { documents, skipped } = expandZipUpload(zip, 'docs.zip', {
+      maxTotalUncompressedSize: 10000,
+      maxEntrySize: 500,
+      maxEntries: 2
+    })
+
+    expect(documents.map((document) => document.name)).toEqual(['one.txt', 'two.txt'])
+    expect(skipped).toEqual([
+      { path: 'large.txt', reason: 'File exceeds the size limit' },
+      { path: 'three.txt', reason: 'Archive document limit of 2 reached' }
+    ])
+  })
+
+  it('should share one budget across the archives of a request', () => {
+    const requestLimits = { ...limits, maxEntries: 3 }
+    const budget = createArchiveBudget(requestLimits)
+    const first = buildZip({ 'a.txt': 'x'.repeat(4000), 'b.txt': 'b' })
+    const second = buildZip({ 'c.txt': 'c', 'd.txt': 'd' })
+    const third = buildZip({ 'e.txt': 'y'.repeat(3000) })
+
+    expect(expandZipUpload(first, 'first.zip', requestLimits, budget).documents).toHaveLength(2)
+
+    const { documents, skipped } = expandZipUpload(second, 'second.zip', requestLimits, budget)
+    expect(documents.map((document) => document.name)).toEqual(['c.txt'])
+    expect(skipped).toEqual([{ path: 'd.txt', reason: 'Archive document limit of 3 reached' }])
+
+    // Inflated bytes and extracted text both count: 10000 - 2 * 4002
+    expect(() => expandZipUpload(third, 'third.zip', requestLimits, budget)).toThrow(
+      'above the remaining 1996 byte limit'
+    )
+  })
+
+  it('should recognise ZIP uploads by extension or mime type', () => {
+    expect(isZipUpload('Policies.ZIP')).toBe(true)
+    expect(isZipUpload('upload', 'application/x-zip-compressed')).toBe(true)
+    expect(isZipUpload('policy.docx')).toBe(false)
+  })
+})
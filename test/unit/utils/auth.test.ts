@@ -335,6 +335,20 @@ describe('RateLimiter', () => {
     })
   })
 
+  describe('checkTokenLimit', () => {
+    it('should charge token usage against the window budget', async () => {
+      const limiter = new RateLimiter(5, 1000, 1000)
+      const identifier = 'user123'
+
+      expect((await limiter.checkTokenLimit(identifier, 600)).allowed).toBe(true)
+      expect(limiter.getRemainingTokens(identifier)).toBe(400)
+      expect((await limiter.checkTokenLimit(identifier, 500)).allowed).toBe(false)
+      expect((await limiter.checkTokenLimit(identifier, 400)).allowed).toBe(true)
+      expect(limiter.getRemainingTokens(identifier)).toBe(0)
+      expect(limiter.getStats().tokenCount).toBe(1000)
+    })
+  })
+
   describe('configuration', () => {
     it('should respect custom limits', async () => {
       const customLimiter = new RateLimiter(2, 500) // 2 requests per 500ms
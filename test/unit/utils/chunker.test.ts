@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import { chunkDocument, stitchChunks } from '../../../src/utils/chunker.js'
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length
+
+describe('Chunker', () => {
+  describe('chunkDocument', () => {
+    it('should return a single chunk when the document fits', () => {
+      const chunks = chunkDocument('# Title\n\nShort body.', { maxTokens: 100 })
+
+      expect(chunks).toEqual([
+        { index: 0, content: '# Title\n\nShort body.', tokens: 5, headingPath: [] }
+      ])
+    })
+
+    it('should split on section boundaries and record the open heading path', () => {
+      const content = [
+        '# Handbook',
+        'Welcome to the company.',
+        '## Leave',
+        'You accrue leave monthly.',
+        '### Carry-over',
+        'Up to five days carry over.',
+        '## Expenses',
+        'Submit receipts within thirty days.'
+      ].join('\n\n')
+
+      const chunks = chunkDocument(content, { maxTokens: 16, countTokens: countWords })
+
+      expect(chunks.map((chunk) => chunk.content)).toEqual([
+        '# Handbook\n\nWelcome to the company.\n\n## Leave\n\nYou accrue leave monthly.',
+        '### Carry-over\n\nUp to five days carry over.',
+        '## Expenses\n\nSubmit receipts within thirty days.'
+      ])
+      expect(chunks.map((chunk) => chunk.headingPath)).toEqual([
+        [],
+        ['# Handbook', '## Leave'],
+        ['# Handbook']
+      ])
+    })
+
+    it('should split oversized sections at paragraphs and then sentences', () => {
+      const content = [
+        '## Scope',
+        'One two three four five six.',
+        'Alpha beta gamma. Delta epsilon zeta. Eta theta iota.'
+      ].join('\n\n')
+
+      const chunks = chunkDocument(content, { maxTokens: 6, countTokens: countWords })
+
+      expect(chunks.map((chunk) => chunk.content)).toEqual([
+        '## Scope',
+        'One two three four five six.',
+        'Alpha beta gamma. Delta epsilon zeta.',
+        'Eta theta iota.'
+      ])
+      expect(chunks.every((chunk) => chunk.tokens <= 6)).toBe(true)
+      expect(chunks[3]?.headingPath).toEqual(['## Scope'])
+    })
+
+    it('should keep fenced code blocks with blank lines together', () => {
+      const code = '```\nconst a = 1\n\nconst b = 2\n```'
+      const chunks = chunkDocument(`Intro text here.\n\n${code}\n\nOutro.`, {
+        maxTokens: 10,
+        countTokens: countWords
+      })
+
+      expect(chunks.some((chunk) => chunk.content.includes(code))).toBe(true)
+    })
+
+    it('should hard-split text without any boundaries', () => {
+      const chunks = chunkDocument('x'.repeat(100), { maxTokens: 10 })
+
+      expect(chunks.map((chunk) => chunk.content).join('')).toBe('x'.repeat(100))
+      expect(chunks.every((chunk) => chunk.tokens <= 10)).toBe(true)
+    })
+  })
+
+  describe('stitchChunks', () => {
+    it('should drop headings repeated across seams and unwrap fenced output', () => {
+      const stitched = stitchChunks([
+        '# Handbook\n\n## Leave\n\nLeave accrues monthly.',
+        '```markdown\n## Leave\n\nUnused leave carries over.\n\n## Expenses\n\nKeep receipts.\n```'
+      ])
+
+      expect(stitched).toBe(
+        '# Handbook\n\n## Leave\n\nLeave accrues monthly.\n\nUnused leave carries over.\n\n## Expenses\n\nKeep receipts.'
+      )
+    })
+
+    it('should renumber section IDs continuously and update in-chunk references', () => {
+      const stitched = stitchChunks([
+        '## sec-1 Purpose\n\nText.\n\n## sec-2 Leave\n\n### sec-2-1 Accrual\n\nMonthly.',
+        '### sec-1-1 Carry-over\n\nSee sec-1-1 and sec-2.\n\n## sec-2 Expenses\n\nReceipts.'
+      ])
+
+      expect(stitched).toBe(
+        [
+          '## sec-1 Purpose',
+          'Text.',
+          '## sec-2 Leave',
+          '### sec-2-1 Accrual',
+          'Monthly.',
+          '### sec-2-2 Carry-over',
+          'See sec-2-2 and sec-3.',
+          '## sec-3 Expenses',
+          'Receipts.'
+        ].join('\n\n')
+      )
+    })
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { detectConflicts, renderConflicts } from '../../../src/utils/conflict-detector.js'
+
+describe('detectConflicts', () => {
+  it('should find statements giving the same subject different values', () => {
+    const conflicts = detectConflicts([
+      {
+        name: 'handbook-2023.md',
+        content: '## sec-3-4-pto PTO\n\nPTO accrues at 1.5 days per month. Requests need approval.'
+      },
+      {
+        name: 'handbook-2024.md',
+        content: '## PTO\n\n- PTO accrues at 1.25 days per month for full-time staff.'
+      }
+    ])
+
+    expect(conflicts).toEqual([
+      {
+        subject: 'PTO accrues at … per month.',
+        statements: [
+          {
+            document: 'handbook-2023.md',
+            sectionId: 'sec-3-4-pto',
+            text: 'PTO accrues at 1.5 days per month.',
+            value: '1.5 days'
+          },
+          {
+            document: 'handbook-2024.md',
+            text: 'PTO accrues at 1.25 days per month for full-time staff.',
+            value: '1.25 days'
+          }
+        ]
+      }
+    ])
+  })
+
+  it('should compare currencies and percentages by unit', () => {
+    const conflicts = detectConflicts([
+      {
+        name: 'a.md',
+        content: 'The travel meal allowance is $50 per day. Matching is 4% of salary.'
+      },
+      {
+        name: 'b.md',
+        content: 'The travel meal allowance is $65 per day. Matching is 4% of salary.'
+      }
+    ])
+
+    expect(conflicts.map((conflict) => conflict.statements.map((s) => s.value))).toEqual([
+      ['$50', '$65']
+    ])
+  })
+
+  it('should ignore agreeing values, unrelated subjects and a single document', () => {
+    expect(
+      detectConflicts([
+        { name: 'a.md', content: 'PTO accrues at 1.5 days per month.' },
+        { name: 'b.md', content: 'PTO accrues at 1.5 days per month.' },
+        { name: 'c.md', content: 'Sick leave is capped at 10 days per year.' }
+      ])
+    ).toEqual([])
+    expect(
+      detectConflicts([
+        {
+          name: 'a.md',
+          content: 'PTO accrues at 1.5 days per month.\n\nPTO accrues at 2 days per month.'
+        }
+      ])
+    ).toEqual([])
+  })
+})
+
+describe('renderConflicts', () => {
+  it('should list each conflict with both source documents', () => {
+    const section = renderConflicts([
+      {
+        subject: 'PTO accrues at … per month.',
+        statements: [
+          {
+            document: 'a.md',
+            sectionId: 'sec-3-4-pto',
+            text: 'PTO accrues at 1.5 days per month.',
+            value: '1.5 days'
+          },
+          { document: 'b.md', text: 'PTO accrues at 1.25 days per month.', value: '1.25 days' }
+        ]
+      }
+    ])
+
+    expect(section.startsWith('## Conflicts\n\n')).toBe(true)
+    expect(section).toContain('1. PTO accrues at … per month.')
+    expect(section).toContain(
+      '   - a.md (sec-3-4-pto): 1.5 days ("PTO accrues at 1.5 days per month.")'
+    )
+    expect(section).toContain('   - b.md: 1.25 days ("PTO accrues at 1.25 days per month.")')
+  })
+})
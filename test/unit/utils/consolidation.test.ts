@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import {
+  assembleMasterDocument,
+  buildTableOfContents,
+  demoteHeadings,
+  insertTableOfContents,
+  packBatches
+} from '../../../src/utils/consolidation.js'
+import type { ConsolidationGroup } from '../../../src/types/index.js'
+
+const policies: ConsolidationGroup = {
+  type: 'policy',
+  label: 'Policies',
+  documents: [
+    { name: 'pto.md', content: '# PTO', type: 'policy' },
+    { name: 'remote.md', content: '# Remote', type: 'policy' }
+  ]
+}
+const transcripts: ConsolidationGroup = {
+  type: 'transcript',
+  label: 'Transcripts',
+  documents: [{ name: 'standup.txt', content: 'Alice: hi', type: 'transcript' }]
+}
+
+describe('demoteHeadings', () => {
+  it('should shift headings so the shallowest sits at the given level', () => {
+    const markdown = ['# Leave', 'Text', '## Sick Leave', '###### Deep'].join('\n')
+
+    expect(demoteHeadings(markdown, 3).split('\n')).toEqual([
+      '### Leave',
+      'Text',
+      '#### Sick Leave',
+      '###### Deep'
+    ])
+  })
+
+  it('should leave headings in code fences and already deep headings alone', () => {
+    const fenced = ['# Title', '```', '# comment', '```'].join('\n')
+
+    expect(demoteHeadings(fenced, 2)).toBe(['## Title', '```', '# comment', '```'].join('\n'))
+    expect(demoteHeadings('### Already deep', 2)).toBe('### Already deep')
+  })
+})
+
+describe('assembleMasterDocument', () => {
+  it('should add one section per group with its metadata block', () => {
+    const master = assembleMasterDocument([
+      {
+        group: policies,
+        content: '# PTO\n\nSource: pto.md',
+        dates: ['2024-01-01'],
+        entities: ['Acme Corp'],
+        tokens: 120
+      },
+      { group: transcripts, content: 'Alice: hi' }
+    ])
+
+    expect(master.startsWith('# Consolidated Document\n\n## Policies')).toBe(true)
+    expect(master).toContain('> **Sources:** pto.md, remote.md\n> **Type:** policy')
+    expect(master).toContain(
+      '> **Dates:** 2024-01-01\n> **Entities:** Acme Corp\n> **Tokens:** 120'
+    )
+    expect(master).toContain('### PTO')
+    expect(master.indexOf('## Policies')).toBeLessThan(master.indexOf('## Transcripts'))
+    expect(master).not.toContain('**Dates:** \n')
+  })
+})
+
+describe('table of contents', () => {
+  const sections = [
+    { id: 'sec-1-policies', title: 'Policies', level: 2 },
+    { id: 'sec-1-1-pto', title: 'PTO', level: 3, parentId: 'sec-1-policies' },
+    { id: 'sec-2-transcripts', title: 'Transcripts', level: 2 }
+  ]
+
+  it('should nest entries under their parents', () => {
+    expect(buildTableOfContents(sections)).toBe(
+      [
+        '- [Policies](#sec-1-policies)',
+        '  - [PTO](#sec-1-1-pto)',
+        '- [Transcripts](#sec-2-transcripts)'
+      ].join('\n')
+    )
+  })
+
+  it('should insert the contents after the title', () => {
+    const markdown = insertTableOfContents(
+      '# Consolidated Document\n\n## Policies',
+      '- [Policies](#sec-1-policies)'
+    )
+
+    expect(markdown).toBe(
+      '# Consolidated Document\n\n**Contents**\n\n- [Policies](#sec-1-policies)\n\n## Policies'
+    )
+    expect(insertTableOfContents('Body', '')).toBe('Body')
+  })
+})
+
+describe('packBatches', () => {
+  it('should pack items in order without exceeding the budget', () => {
+    expect(packBatches([4, 3, 2, 5, 1], 7, (n) => n)).toEqual([[4, 3], [2, 5], [1]])
+  })
+
+  it('should give an oversized item a batch of its own', () => {
+    expect(packBatches([2, 10, 2], 5, (n) => n)).toEqual([[2], [10], [2]])
+    expect(packBatches([], 5, (n: number) => n)).toEqual([])
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { deduplicateDocuments } from '../../../src/utils/deduplication.js'
+
+const boilerplate =
+  'All employees must complete the annual security awareness training by the end of the first quarter, and managers must confirm completion for every member of their team.'
+const reworded =
+  'All employees must complete the annual security awareness training by the end of the first quarter, and managers must confirm completion for every member of their department.'
+const unrelated =
+  'The cafeteria on the second floor is open from eight in the morning until three in the afternoon on weekdays, except for public holidays.'
+
+describe('deduplicateDocuments', () => {
+  it('should replace exact duplicates with a back-reference to the first copy', () => {
+    const { documents, report } = deduplicateDocuments([
+      { name: 'handbook.md', content: `# Handbook\n\n${unrelated}\n\n${boilerplate}` },
+      { name: 'security.md', content: `# Security\n\n${boilerplate}` }
+    ])
+
+    expect(documents[0]?.content).toBe(`# Handbook\n\n${unrelated}\n\n${boilerplate}`)
+    expect(documents[1]?.content).toBe('# Security\n\n[Duplicate of handbook.md, paragraph 3]')
+    expect(report.duplicates).toEqual([
+      {
+        document: 'security.md',
+        paragraph: 2,
+        canonical: { document: 'handbook.md', paragraph: 3 },
+        similarity: 1,
+        bytes: Buffer.byteLength(boilerplate)
+      }
+    ])
+    expect(report.eliminatedBytes).toBe(
+      Buffer.byteLength(boilerplate) - Buffer.byteLength('[Duplicate of handbook.md, paragraph 3]')
+    )
+  })
+
+  it('should collapse near-duplicates above the threshold with their similarity', () => {
+    const { documents, report } = deduplicateDocuments([
+      { name: 'a.md', content: boilerplate },
+      { name: 'b.md', content: reworded }
+    ])
+
+    expect(report.duplicates[0]?.similarity).toBeGreaterThanOrEqual(0.85)
+    expect(report.duplicates[0]?.similarity).toBeLessThan(1)
+    expect(documents[1]?.content).toMatch(
+      /^\[Near-duplicate of a\.md, paragraph 1 \(similarity 0\.\d+\)\]$/
+    )
+
+    const strict = deduplicateDocuments(
+      [
+        { name: 'a.md', content: boilerplate },
+        { name: 'b.md', content: reworded }
+      ],
+      { threshold: 0.99 }
+    )
+    expect(strict.report.duplicates).toHaveLength(0)
+    expect(strict.documents[1]?.content).toBe(reworded)
+  })
+
+  it('should keep short paragraphs, headings, code and repeats within one document', () => {
+    const content = `# Title\n\nYes.\n\n\`\`\`\n${boilerplate}\n\`\`\`\n\n${unrelated}\n\n${unrelated}`
+    const { documents, report } = deduplicateDocuments([
+      { name: 'a.md', content },
+      { name: 'b.md', content: '# Title\n\nYes.' }
+    ])
+
+    expect(documents.map((document) => document.content)).toEqual([content, '# Title\n\nYes.'])
+    expect(report).toMatchObject({ paragraphsExamined: 2, duplicates: [], eliminatedBytes: 0 })
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import { classifyDocument, resolveDocumentType } from '../../../src/utils/document-classifier.js'
+
+const samples = {
+  transcript: [
+    'Dana Lee: Thanks for joining, everyone.',
+    'Sam Ortiz: Happy to be here. Where are we on the launch?',
+    'Dana Lee: We slipped a week because of the vendor.',
+    'Priya Shah: I can follow up with them today.',
+    'Sam Ortiz: Great, let us reconvene on Friday.'
+  ].join('\n'),
+  chatLog: [
+    '[09:14] <dana> morning all',
+    '[09:15] <sam> morning! deploy went out?',
+    '[09:15] <dana> yep, no errors so far',
+    '[09:17] <priya> nice work',
+    '[09:20] <sam> I will watch the dashboards'
+  ].join('\n'),
+  email: [
+    'From: Dana Lee <dana@example.com>',
+    'To: Sam Ortiz <sam@example.com>',
+    'Date: Mon, 8 Jan 2024 09:14:00 -0500',
+    'Subject: Budget approval',
+    '',
+    'Hi Sam, can you approve the Q1 budget by Friday?',
+    '',
+    'Thanks,',
+    'Dana'
+  ].join('\n'),
+  policy: [
+    '# Remote Work Policy',
+    'Purpose',
+    'This policy sets out when employees may work remotely.',
+    'Scope',
+    '1.1 Employees must obtain manager approval before working remotely.',
+    '1.2 Employees shall remain reachable during core hours.',
+    '1.3 Confidential data must not be accessed on public networks.',
+    'Enforcement',
+    '2.1 Any violation may lead to withdrawal of remote work eligibility.'
+  ].join('\n'),
+  contract: [
+    'MUTUAL NON-DISCLOSURE AGREEMENT',
+    'This Agreement is entered into by Acme Corp (hereinafter "Acme") and Beta LLC.',
+    'WHEREAS the parties wish to exchange Confidential Information;',
+    '1. Termination. Either party may terminate this Agreement with 30 days notice.',
+    '2. Governing Law. This Agreement is governed by the laws of Delaware.',
+    'IN WITNESS WHEREOF the parties have executed this Agreement.',
+    'Signature: ____________',
+    'Name: ____________',
+    'Date: ____________'
+  ].join('\n'),
+  spec: [
+    '# Export API',
+    '## Requirements',
+    'REQ-1: The service MUST return exports as JSON.',
+    'REQ-2: Clients SHOULD paginate with a cursor.',
+    'REQ-3: The endpoint MAY compress responses.',
+    '```',
+    'GET /exports?cursor=abc',
+    '```',
+    'Acceptance criteria: the schema validates against the contract tests.'
+  ].join('\n'),
+  report: [
+    '# Q3 Customer Support Report',
+    'Executive Summary',
+    'Ticket volume grew 12% quarter over quarter while resolution time fell 8%.',
+    'Key Findings',
+    'Self-service deflection reached 34%, up from 27% in Q2.',
+    'Methodology',
+    'We sampled 1,200 tickets across Q3.',
+    'Recommendations',
+    'Expand the knowledge base to cover billing (22% of tickets).'
+  ].join('\n'),
+  note: [
+    'Q3 sync',
+    '- launch moved to the 14th',
+    '- vendor contract still pending',
+    '- hiring: two offers out',
+    'Action items',
+    '- Dana to chase the vendor',
+    '- Sam to update the roadmap'
+  ].join('\n'),
+  handbook: [
+    '# Welcome to Acme',
+    'This handbook explains how we work. New hires should read it in their first week.',
+    '## Table of Contents',
+    '## Our Values',
+    '## Working Hours',
+    '## Benefits',
+    '## Time Off'
+  ].join('\n')
+}
+
+describe('Document Classifier', () => {
+  it.each([
+    ['transcript', samples.transcript],
+    ['chat-log', samples.chatLog],
+    ['email', samples.email],
+    ['policy', samples.policy],
+    ['contract', samples.contract],
+    ['spec', samples.spec],
+    ['report', samples.report],
+    ['note', samples.note],
+    ['handbook', samples.handbook]
+  ])('should classify %s content without filename hints', (type, content) => {
+    const result = classifyDocument(content, 'upload.txt')
+
+    expect(result.type).toBe(type)
+    expect(result.confidence).toBeGreaterThan(0.5)
+    expect(result.signals.length).toBeGreaterThan(0)
+  })
+
+  it('should classify a generically named file by its content', () => {
+    expect(classifyDocument(samples.note, 'Q3-sync.txt').type).toBe('note')
+  })
+
+  it('should use the filename as a hint when the content is ambiguous', () => {
+    const result = classifyDocument('Some general text about the company.', 'vendor-contract.txt')
+
+    expect(result.type).toBe('contract')
+    expect(result.signals).toEqual(['filename'])
+    expect(result.confidence).toBeLessThan(1)
+  })
+
+  it('should leave documents without any signal unclassified', () => {
+    expect(classifyDocument('Hello world.', 'file.txt')).toEqual({ confidence: 0, signals: [] })
+  })
+
+  it('should let a format-implied type win over content signals', () => {
+    const result = resolveDocumentType(
+      { content: samples.policy, metadata: {}, type: 'transcript' },
+      'call.vtt'
+    )
+
+    expect(result).toEqual({ type: 'transcript', confidence: 1, signals: ['format'] })
+  })
+})
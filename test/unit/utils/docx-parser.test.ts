@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'vitest'
+import { deflateRawSync } from 'zlib'
+import { extractDocxText } from '../../../src/utils/docx-parser.js'
+import { extractDocumentContent } from '../../../src/utils/parser.js'
+
+// Build a ZIP package (CRCs are not verified by the reader, so they are left at zero)
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, 'utf-8')
+    const raw = Buffer.from(content, 'utf-8')
+    const data = deflateRawSync(raw)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(0x0800, 6)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+    locals.push(local, nameBytes, data)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, nameBytes)
+
+    offset += 30 + nameBytes.length + data.length
+  }
+
+  const centralDirectory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(files).length, 8)
+  end.writeUInt16LE(Object.keys(files).length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, centralDirectory, end])
+}
+
+const NS =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"'
+
+function documentXml(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${NS}><w:body>${body}<w:sectPr/></w:body></w:document>`
+}
+
+function paragraph(text: string, style?: string): string {
+  const pPr = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''
+  return `<w:p>${pPr}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`
+}
+
+const STYLES = `<w:styles ${NS}>
+  <w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/></w:style>
+  <w:style w:type="paragraph" w:styleId="PolicyClause"><w:name w:val="Policy Clause"/><w:basedOn w:val="Heading2"/></w:style>
+</w:styles>`
+
+const NUMBERING = `<w:numbering ${NS}>
+  <w:abstractNum w:abstractNumId="0">
+    <w:lvl w:ilvl="0"><w:numFmt w:val="bullet"/></w:lvl>
+    <w:lvl w:ilvl="1"><w:numFmt w:val="bullet"/></w:lvl>
+  </w:abstractNum>
+  <w:abstractNum w:abstractNumId="1">
+    <w:lvl w:ilvl="0"><w:numFmt w:val="decimal"/></w:lvl>
+  </w:abstractNum>
+  <w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+  <w:num w:numId="2"><w:abstractNumId w:val="1"/></w:num>
+</w:numbering>`
+
+function listItem(text: string, numId: number, ilvl = 0): string {
+  return `<w:p><w:pPr><w:numPr><w:ilvl w:val="${ilvl}"/><w:numId w:val="${numId}"/></w:numPr></w:pPr><w:r><w:t>${text}</w:t></w:r></w:p>`
+}
+
+describe('DOCX Parser', () => {
+  it('should convert heading styles to Markdown headings', () => {
+    const docx = buildZip({
+      'word/document.xml': documentXml(
+        paragraph('Employee Handbook', 'Title') +
+          paragraph('Time Off', 'Heading1') +
+          paragraph('Employees accrue paid time off monthly.') +
+          paragraph('Carry-over', 'PolicyClause')
+      ),
+      'word/styles.xml': STYLES
+    })
+
+    const result = extractDocxText(docx)
+
+    expect(result.markdown).toBe(
+      '# Employee Handbook\n\n# Time Off\n\nEmployees accrue paid time off monthly.\n\n## Carry-over'
+    )
+    expect(result.headingCount).toBe(3)
+  })
+
+  it('should honour outline levels set directly on paragraphs', () => {
+    const docx = buildZip({
+      'word/document.xml': documentXml(
+        '<w:p><w:pPr><w:outlineLvl w:val="2"/></w:pPr><w:r><w:t>Deep heading</w:t></w:r></w:p>'
+      )
+    })
+
+    expect(extractDocxText(docx).markdown).toBe('### Deep heading')
+  })
+
+  it('should render bulleted, nested and numbered lists', () => {
+    const docx = buildZip({
+      'word/document.xml': documentXml(
+        listItem('Vacation', 1) +
+          listItem('Accrual', 1, 1) +
+          listItem('Sick leave', 1) +
+          paragraph('Steps:') +
+          listItem('Submit request', 2) +
+          listItem('Get approval', 2)
+      ),
+      'word/numbering.xml': NUMBERING
+    })
+
+    expect(extractDocxText(docx).markdown).toBe(
+      '- Vacation\n  - Accrual\n- Sick leave\n\nSteps:\n\n1. Submit request\n2. Get approval'
+    )
+  })
+
+  it('should convert tables with the first row as header', () => {
+    const cell = (text: string): string => `<w:tc><w:p><w:r><w:t>${text}</w:t></w:r></w:p></w:tc>`
+    const docx = buildZip({
+      'word/document.xml': documentXml(
+        `<w:tbl><w:tr>${cell('Tenure')}${cell('Days')}</w:tr><w:tr>${cell('0-2 years')}${cell('15 | 18')}</w:tr></w:tbl>`
+      )
+    })
+
+    const result = extractDocxText(docx)
+
+    expect(result.markdown).toBe('| Tenure | Days |\n| --- | --- |\n| 0-2 years | 15 \\| 18 |')
+    expect(result.tableCount).toBe(1)
+  })
+
+  it('should keep bold and italic emphasis and merge adjacent runs', () => {
+    const docx = buildZip({
+      'word/document.xml': documentXml(
+        '<w:p><w:r><w:t xml:space="preserve">Requests are </w:t></w:r>' +
+          '<w:r><w:rPr><w:b/></w:rPr><w:t>due</w:t></w:r>' +
+          '<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve"> Friday</w:t></w:r>' +
+          '<w:r><w:t xml:space="preserve"> and </w:t></w:r>' +
+          '<w:r><w:rPr><w:i/></w:rPr><w:t>final</w:t></w:r>' +
+          '<w:r><w:rPr><w:b w:val="0"/></w:rPr><w:t>.</w:t></w:r></w:p>'
+      )
+    })
+
+    expect(extractDocxText(docx).markdown).toBe('Requests are **due Friday** and *final*.')
+  })
+
+  it('should render footnotes and comments as Markdown footnotes', () => {
+    const docx = buildZip({
+      'word/document.xml': documentXml(
+        '<w:p><w:r><w:t>PTO accrues monthly.</w:t></w:r>' +
+          '<w:r><w:footnoteReference w:id="2"/></w:r>' +
+          '<w:commentRangeStart w:id="0"/><w:r><w:t xml:space="preserve"> Caps apply.</w:t></w:r>' +
+          '<w:commentRangeEnd w:id="0"/><w:r><w:commentReference w:id="0"/></w:r></w:p>'
+      ),
+      'word/footnotes.xml': `<w:footnotes ${NS}>
+        <w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>
+        <w:footnote w:id="2"><w:p><w:r><w:t>Pro-rated for part-time staff.</w:t></w:r></w:p></w:footnote>
+      </w:footnotes>`,
+      'word/comments.xml': `<w:comments ${NS}>
+        <w:comment w:id="0" w:author="Dana Lee"><w:p><w:r><w:t>Confirm the cap with HR.</w:t></w:r></w:p></w:comment>
+      </w:comments>`
+    })
+
+    const result = extractDocxText(docx)
+
+    expect(result.markdown).toBe(
+      'PTO accrues monthly.[^1] Caps apply.[^comment-1]\n\n' +
+        '[^1]: Pro-rated for part-time staff.\n' +
+        '[^comment-1]: Comment (Dana Lee): Confirm the cap with HR.'
+    )
+    expect(result.footnoteCount).toBe(1)
+    expect(result.commentCount).toBe(1)
+  })
+
+  it('should turn external hyperlinks into Markdown links and skip deletions', () => {
+    const docx = buildZip({
+      'word/document.xml': documentXml(
+        '<w:p><w:r><w:t xml:space="preserve">See </w:t></w:r>' +
+          '<w:hyperlink r:id="rId5"><w:r><w:t>the portal</w:t></w:r></w:hyperlink>' +
+          '<w:del><w:r><w:delText>old text</w:delText></w:r></w:del></w:p>'
+      ),
+      'word/_rels/document.xml.rels':
+        '<Relationships><Relationship Id="rId5" Type="hyperlink" Target="https://hr.example.com" TargetMode="External"/></Relationships>'
+    })
+
+    expect(extractDocxText(docx).markdown).toBe('See [the portal](https://hr.example.com)')
+  })
+
+  it('should read title and author from core properties', () => {
+    const docx = buildZip({
+      'word/document.xml': documentXml(paragraph('Body')),
+      'docProps/core.xml':
+        '<cp:coreProperties xmlns:cp="cp" xmlns:dc="dc"><dc:title>Leave Policy</dc:title><dc:creator>HR Team</dc:creator></cp:coreProperties>'
+    })
+
+    const result = extractDocxText(docx)
+
+    expect(result.title).toBe('Leave Policy')
+    expect(result.author).toBe('HR Team')
+  })
+
+  it('should reject files that are not DOCX packages', () => {
+    expect(() => extractDocxText(Buffer.from('plain text'))).toThrow('not a valid DOCX')
+    expect(() => extractDocxText(buildZip({ 'readme.txt': 'hi' }))).toThrow(
+      'word/document.xml is missing'
+    )
+  })
+
+  it('should refuse to inflate parts past the size cap', () => {
+    const docx = buildZip({
+      'word/document.xml': documentXml(paragraph('x'.repeat(100_000))),
+      'word/styles.xml': STYLES
+    })
+
+    expect(() => extractDocxText(docx, 50_000)).toThrow('exceeds the size limit')
+    expect(() => extractDocumentContent(docx, 'bomb.docx', undefined, 50_000)).toThrow(
+      'exceeds the size limit'
+    )
+    expect(extractDocxText(docx).markdown).toHaveLength(100_000)
+  })
+
+  it('should be used by extractDocumentContent for .docx uploads', () => {
+    const docx = buildZip({
+      'word/document.xml': documentXml(paragraph('Overview', 'Heading1') + paragraph('Text')),
+      'word/styles.xml': STYLES
+    })
+
+    const { content, metadata } = extractDocumentContent(docx, 'handbook.docx')
+
+    expect(content).toBe('# Overview\n\nText')
+    expect(metadata).toMatchObject({ format: 'docx', headingCount: 1 })
+  })
+})
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest'
+import { extractEmailText } from '../../../src/utils/email-parser.js'
+import { extractDocumentContent } from '../../../src/utils/parser.js'
+
+function eml(lines: string[]): Buffer {
+  return Buffer.from(lines.join('\r\n'), 'utf-8')
+}
+
+describe('Email Parser', () => {
+  it('should read headers and a plain text body', () => {
+    const result = extractEmailText(
+      eml([
+        'From: Dana Lee <dana@example.com>',
+        'To: Sam Ortiz <sam@example.com>, "Lee, Kim" <kim@example.com>',
+        'Cc: hr@example.com',
+        'Date: Mon, 8 Jan 2024 09:14:00 -0500',
+        'Subject: PTO carry-over',
+        'Message-ID: <abc123@example.com>',
+        '',
+        'Carry-over is capped at 5 days.'
+      ])
+    )
+
+    expect(result.messages).toHaveLength(1)
+    expect(result.messages[0]).toEqual({
+      from: 'Dana Lee <dana@example.com>',
+      to: ['Sam Ortiz <sam@example.com>', 'Lee, Kim <kim@example.com>'],
+      cc: ['hr@example.com'],
+      date: '2024-01-08T14:14:00.000Z',
+      subject: 'PTO carry-over',
+      body: 'Carry-over is capped at 5 days.'
+    })
+    expect(result.messageId).toBe('abc123@example.com')
+  })
+
+  it('should decode encoded-word headers and quoted-printable bodies with charsets', () => {
+    const result = extractEmailText(
+      eml([
+        'From: =?UTF-8?B?Sm9zw6kgR2FyY8OtYQ==?= <jose@example.com>',
+        'Subject: =?ISO-8859-1?Q?Caf=E9_menu?= =?UTF-8?Q?_=E2=80=94_update?=',
+        'Content-Type: text/plain; charset="windows-1252"',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'The caf=E9 opens at 9=96 a long line that was =',
+        'soft-wrapped.'
+      ])
+    )
+
+    const message = result.messages[0]!
+    expect(message.from).toBe('José García <jose@example.com>')
+    expect(message.subject).toBe('Café menu — update')
+    expect(message.body).toBe('The café opens at 9– a long line that was soft-wrapped.')
+  })
+
+  it('should prefer text/plain in alternatives and list attachments', () => {
+    const result = extractEmailText(
+      eml([
+        'From: dana@example.com',
+        'Subject: Policy',
+        'Content-Type: multipart/mixed; boundary="outer"',
+        '',
+        'This is a multi-part message in MIME format.',
+        '--outer',
+        'Content-Type: multipart/alternative; boundary="inner"',
+        '',
+        '--inner',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from('Please review the attached policy.').toString('base64'),
+        '--inner',
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        '<p>Please review the <b>attached</b> policy.</p>',
+        '--inner--',
+        '--outer',
+        'Content-Type: application/pdf; name="policy.pdf"',
+        "Content-Disposition: attachment; filename*=utf-8''Leave%20Policy.pdf",
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from('%PDF-1.4 fake').toString('base64'),
+        '--outer--'
+      ])
+    )
+
+    expect(result.messages[0]?.body).toBe('Please review the attached policy.')
+    expect(result.attachments).toEqual([
+      { filename: 'Leave Policy.pdf', contentType: 'application/pdf', size: 13 }
+    ])
+  })
+
+  it('should fall back to HTML bodies converted to text', () => {
+    const result = extractEmailText(
+      eml([
+        'From: dana@example.com',
+        'Subject: Update',
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        '<html><head><style>p{}</style></head><body><p>Hello&nbsp;team,</p><ul><li>First</li><li>Second &amp; last</li></ul></body></html>'
+      ])
+    )
+
+    expect(result.messages[0]?.body).toBe('Hello team,\n\n- First\n- Second & last')
+  })
+
+  it('should split quoted reply history into separate messages, oldest first', () => {
+    const result = extractEmailText(
+      eml([
+        'From: Sam Ortiz <sam@example.com>',
+        'To: Dana Lee <dana@example.com>',
+        'Date: Tue, 9 Jan 2024 10:00:00 +0000',
+        'Subject: Re: PTO carry-over',
+        '',
+        'Thanks, that works for me.',
+        '',
+        'On Mon, Jan 8, 2024 at 9:14 AM Dana Lee <dana@example.com>',
+        'wrote:',
+        '> Carry-over is capped at 5 days.',
+        '>',
+        '> On Sun, Jan 7, 2024 at 8:00 PM Sam Ortiz <sam@example.com> wrote:',
+        '>> How many days can I carry over?'
+      ])
+    )
+
+    expect(result.messages.map((message) => message.body)).toEqual([
+      'How many days can I carry over?',
+      'Carry-over is capped at 5 days.',
+      'Thanks, that works for me.'
+    ])
+    expect(result.messages.map((message) => message.from)).toEqual([
+      'Sam Ortiz <sam@example.com>',
+      'Dana Lee <dana@example.com>',
+      'Sam Ortiz <sam@example.com>'
+    ])
+    expect(result.messages[1]?.date).toBe(new Date('Jan 8, 2024 9:14 AM').toISOString())
+  })
+
+  it('should split Outlook-style original message blocks', () => {
+    const result = extractEmailText(
+      eml([
+        'From: Sam Ortiz <sam@example.com>',
+        'Subject: RE: Budget',
+        '',
+        'Approved.',
+        '',
+        '-----Original Message-----',
+        'From: Dana Lee <dana@example.com>',
+        'Sent: Monday, January 8, 2024 9:14 AM',
+        'To: Sam Ortiz <sam@example.com>; Finance <finance@example.com>',
+        'Subject: Budget',
+        '',
+        'Can you approve the Q1 budget?'
+      ])
+    )
+
+    expect(result.messages).toHaveLength(2)
+    expect(result.messages[0]).toMatchObject({
+      from: 'Dana Lee <dana@example.com>',
+      subject: 'Budget',
+      body: 'Can you approve the Q1 budget?'
+    })
+    expect(result.messages[1]?.body).toBe('Approved.')
+    expect(result.text).toContain('## Message 1 of 2\nFrom: Dana Lee <dana@example.com>')
+  })
+
+  it('should reject files without message headers', () => {
+    expect(() => extractEmailText(Buffer.from('just some text'))).toThrow('not a valid email')
+  })
+
+  it('should be used by extractDocumentContent for .eml uploads', () => {
+    const { content, metadata } = extractDocumentContent(
+      eml([
+        'From: Dana Lee <dana@example.com>',
+        'To: sam@example.com',
+        'Date: Mon, 8 Jan 2024 09:14:00 +0000',
+        'Subject: Hello',
+        '',
+        'Hi Sam.'
+      ]),
+      'thread.eml',
+      'message/rfc822'
+    )
+
+    expect(content).toContain('Hi Sam.')
+    expect(metadata).toMatchObject({
+      format: 'email',
+      from: 'Dana Lee <dana@example.com>',
+      to: ['sam@example.com'],
+      subject: 'Hello',
+      date: '2024-01-08T09:14:00.000Z',
+      messageCount: 1,
+      participants: ['Dana Lee <dana@example.com>', 'sam@example.com']
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { decodeText, detectEncoding, normalizeText } from '../../../src/utils/encoding.js'
+import { extractDocumentContent } from '../../../src/utils/parser.js'
+
+function utf16be(text: string): Buffer {
+  return Buffer.from(text, 'utf16le').swap16()
+}
+
+describe('Encoding Detection', () => {
+  describe('detectEncoding', () => {
+    it('should honour byte order marks', () => {
+      expect(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x41]))).toBe('utf-8')
+      expect(detectEncoding(Buffer.from([0xff, 0xfe, 0x41, 0x00]))).toBe('utf-16le')
+      expect(detectEncoding(Buffer.from([0xfe, 0xff, 0x00, 0x41]))).toBe('utf-16be')
+    })
+
+    it('should recognise UTF-16 without a BOM from its NUL bytes', () => {
+      expect(detectEncoding(Buffer.from('Dana: Hello there', 'utf16le'))).toBe('utf-16le')
+      expect(detectEncoding(utf16be('Dana: Hello there'))).toBe('utf-16be')
+    })
+
+    it('should tell UTF-8 from single-byte encodings', () => {
+      expect(detectEncoding(Buffer.from('Café – naïve', 'utf-8'))).toBe('utf-8')
+      expect(
+        detectEncoding(
+          Buffer.from([0x43, 0x61, 0x66, 0xe9, 0x20, 0x96, 0x20, 0x93, 0x4f, 0x4b, 0x94])
+        )
+      ).toBe('windows-1252')
+      expect(detectEncoding(Buffer.from([0x43, 0x61, 0x66, 0xe9]))).toBe('iso-8859-1')
+    })
+  })
+
+  describe('decodeText', () => {
+    it('should decode UTF-16 and Windows-1252 without replacement characters', () => {
+      const utf16 = Buffer.concat([
+        Buffer.from([0xff, 0xfe]),
+        Buffer.from('Café\r\nDone', 'utf16le')
+      ])
+      const cp1252 = Buffer.from([0x93, 0x48, 0x69, 0x94, 0x20, 0x96, 0x20, 0x63, 0x61, 0x66, 0xe9])
+
+      expect(decodeText(utf16)).toEqual({ text: 'Café\nDone', encoding: 'utf-16le' })
+      expect(decodeText(cp1252)).toEqual({ text: '“Hi” – café', encoding: 'windows-1252' })
+      expect(decodeText(utf16be('Straße'))).toEqual({ text: 'Straße', encoding: 'utf-16be' })
+    })
+
+    it('should find Windows-1252 bytes past the first 8 KB', () => {
+      const ascii = Buffer.from('Speaker 1: hello there.\n'.repeat(400))
+      const cp1252 = Buffer.concat([
+        ascii,
+        Buffer.from([0x4a, 0x6f, 0x73, 0xe9, 0x3a, 0x20, 0x93, 0x4f, 0x4b, 0x94])
+      ])
+
+      expect(ascii.length).toBeGreaterThan(8192)
+      expect(decodeText(cp1252)).toEqual({
+        text: `${ascii.toString()}José: “OK”`,
+        encoding: 'windows-1252'
+      })
+    })
+
+    it('should use a declared charset unless a BOM says otherwise', () => {
+      expect(decodeText(Buffer.from([0x63, 0x61, 0x66, 0xe9]), 'ISO-8859-1').text).toBe('café')
+      expect(decodeText(Buffer.from([0xef, 0xbb, 0xbf, 0x63, 0xc3, 0xa9]), 'windows-1252')).toEqual(
+        {
+          text: 'cé',
+          encoding: 'utf-8'
+        }
+      )
+    })
+  })
+
+  describe('normalizeText', () => {
+    it('should apply NFC and normalize line endings', () => {
+      expect(normalizeText('Cafe\u0301\r\nline two\rline three\u2028end\u0000')).toBe(
+        'Café\nline two\nline three\nend'
+      )
+    })
+  })
+
+  it('should report the detected encoding in document metadata', () => {
+    const upload = Buffer.concat([
+      Buffer.from([0xff, 0xfe]),
+      Buffer.from('Dana (00:00:05): Hello.\r\nSam (00:00:07): Hi.', 'utf16le')
+    ])
+
+    const result = extractDocumentContent(upload, 'call.txt', 'text/plain')
+
+    expect(result.content).toBe('[t=00:00:05] Dana: Hello.\n\n[t=00:00:07] Sam: Hi.')
+    expect(result.metadata).toMatchObject({ format: 'speaker-text', encoding: 'utf-16le' })
+  })
+})
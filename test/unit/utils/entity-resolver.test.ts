@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest'
+import { resolveEntities, type SourceIndexes } from '../../../src/utils/entity-resolver.js'
+import type { EntityIndex } from '../../../src/types/index.js'
+
+const source = (
+  document: string,
+  entities: Array<[string, EntityIndex['type'], number?]>
+): SourceIndexes => ({
+  document,
+  indexes: {
+    entities: entities.map(([name, type, mentions = 1]) => ({
+      name,
+      type,
+      mentions,
+      context: [`${name} was mentioned.`]
+    })),
+    topics: [],
+    timeline: []
+  }
+})
+
+describe('Entity resolution', () => {
+  it('should resolve initials, full names and email addresses to one entity', () => {
+    const entities = resolveEntities([
+      source('minutes.md', [['John Smith', 'person', 3]]),
+      source('followup.eml', [
+        ['J. Smith', 'person'],
+        ['jsmith@corp.example', 'other']
+      ]),
+      source('notes.txt', [['Acme Corp', 'organization']])
+    ])
+
+    expect(entities).toEqual([
+      {
+        name: 'John Smith',
+        type: 'person',
+        mentions: 5,
+        context: [
+          'John Smith was mentioned.',
+          'J. Smith was mentioned.',
+          'jsmith@corp.example was mentioned.'
+        ],
+        aliases: ['J. Smith', 'jsmith@corp.example'],
+        sources: [
+          { document: 'minutes.md', mentions: 3, names: ['John Smith'] },
+          { document: 'followup.eml', mentions: 2, names: ['J. Smith', 'jsmith@corp.example'] }
+        ]
+      },
+      {
+        name: 'Acme Corp',
+        type: 'organization',
+        mentions: 1,
+        context: ['Acme Corp was mentioned.'],
+        sources: [{ document: 'notes.txt', mentions: 1, names: ['Acme Corp'] }]
+      }
+    ])
+  })
+
+  it('should use co-occurrence to choose between people with the same initials', () => {
+    const entities = resolveEntities([
+      source('a.md', [
+        ['John Smith', 'person'],
+        ['Acme Corp', 'organization']
+      ]),
+      source('b.md', [
+        ['Jane Smith', 'person'],
+        ['Globex', 'organization']
+      ]),
+      source('c.md', [
+        ['J. Smith', 'person'],
+        ['Acme', 'organization']
+      ]),
+      source('d.md', [['J. Smith', 'person']])
+    ])
+
+    const byName = new Map(entities.map((entity) => [entity.name, entity]))
+    expect(byName.get('John Smith')?.aliases).toEqual(['J. Smith'])
+    expect(byName.get('Jane Smith')?.aliases).toBeUndefined()
+    expect(byName.get('Acme Corp')?.aliases).toEqual(['Acme'])
+  })
+
+  it('should leave an ambiguous name on its own', () => {
+    const entities = resolveEntities([
+      source('a.md', [
+        ['John Smith', 'person'],
+        ['Jane Smith', 'person']
+      ]),
+      source('b.md', [['J. Smith', 'person']])
+    ])
+
+    expect(entities.map((entity) => entity.name).sort()).toEqual([
+      'J. Smith',
+      'Jane Smith',
+      'John Smith'
+    ])
+  })
+
+  it('should merge acronyms and spelling slips but not different first names', () => {
+    const entities = resolveEntities([
+      source('a.md', [
+        ['International Business Machines', 'organization'],
+        ['Michael Brown', 'person'],
+        ['John Green', 'person']
+      ]),
+      source('b.md', [
+        ['IBM', 'organization'],
+        ['Micheal Brown', 'person'],
+        ['Joan Green', 'person']
+      ])
+    ])
+
+    expect(entities.map((entity) => [entity.name, entity.aliases ?? []])).toEqual([
+      ['International Business Machines', ['IBM']],
+      ['Michael Brown', ['Micheal Brown']],
+      ['Joan Green', []],
+      ['John Green', []]
+    ])
+  })
+
+  it('should apply the user alias dictionary first', () => {
+    const entities = resolveEntities(
+      [
+        source('a.md', [
+          ['Bob', 'person', 2],
+          ['Robert Jones', 'person']
+        ]),
+        source('b.md', [
+          ['rj@corp.example', 'other'],
+          ['Bobby Tables', 'person']
+        ])
+      ],
+      { aliases: { 'Robert Jones': ['Bob', 'rj@corp.example'], 'Bobby Tables': ['Tables'] } }
+    )
+
+    expect(entities.map((entity) => [entity.name, entity.mentions, entity.aliases])).toEqual([
+      ['Robert Jones', 4, ['Bob', 'rj@corp.example']],
+      ['Bobby Tables', 1, undefined]
+    ])
+  })
+})
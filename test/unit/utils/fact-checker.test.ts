@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { checkFacts } from '../../../src/utils/fact-checker.js'
+
+const source = [
+  '# Budget Review',
+  'The Finance team met on March 3, 2024 at 2pm. Sarah Connor approved a budget of $12,500 for Project Phoenix.',
+  'Headcount grows 15% to 42 people. The deadline is 04/30/2024.',
+  '[t=00:00:05] Alice: We should talk to Acme Corp about it.'
+].join('\n\n')
+
+describe('Fact checker', () => {
+  it('should pass restructured output that restates the same facts', () => {
+    const optimized = [
+      '## Summary',
+      '1. **Decision:** Sarah Connor approved $12,500 for Project Phoenix on March 3.',
+      '2. Headcount grows 15 percent (to 42).',
+      '3. Deadline: April 30, 2024 at 2 PM.',
+      'Alice suggested contacting Acme Corp.'
+    ].join('\n\n')
+
+    const report = checkFacts(source, optimized)
+
+    expect(report.findings).toEqual([])
+    expect(report.passed).toBe(true)
+    expect(report.sourceFacts).toBeGreaterThan(0)
+  })
+
+  it('should report altered amounts, percentages, dates and names', () => {
+    const optimized =
+      'Sarah Conner approved $12,000 for Project Phoenix on March 3. ' +
+      'Headcount grows 20% to 42 people. Deadline: May 30, 2024.'
+
+    const { passed, findings } = checkFacts(source, optimized)
+
+    expect(passed).toBe(false)
+    expect(
+      findings.map(({ kind, issue, value, original }) => ({ kind, issue, value, original }))
+    ).toEqual([
+      { kind: 'name', issue: 'altered', value: 'Sarah Conner', original: 'Sarah Connor' },
+      { kind: 'currency', issue: 'altered', value: '$12,000', original: '$12,500' },
+      { kind: 'percentage', issue: 'altered', value: '20%', original: '15%' },
+      { kind: 'date', issue: 'altered', value: 'May 30, 2024', original: '04/30/2024' }
+    ])
+  })
+
+  it('should report facts that only the output contains', () => {
+    const { findings } = checkFacts(
+      source,
+      'Sarah Connor approved the budget. John Doe joins on 1 June at 9:30.'
+    )
+
+    expect(findings.map(({ kind, issue, value }) => ({ kind, issue, value }))).toEqual([
+      { kind: 'name', issue: 'added', value: 'John Doe' },
+      { kind: 'date', issue: 'added', value: '1 June' },
+      { kind: 'time', issue: 'added', value: '9:30' }
+    ])
+  })
+
+  it('should treat equivalent notations as the same fact', () => {
+    const report = checkFacts(
+      'Revenue reached $1.2 million on 2024-07-01, up 8 percent.',
+      'Revenue hit USD 1,200,000 on July 1st, 2024 (+8%).'
+    )
+
+    expect(report.findings).toEqual([])
+  })
+
+  it('should ignore structural numbering, anchors and citations', () => {
+    const report = checkFacts(
+      '[p.3]\nThe plan covers two regions.',
+      '## sec-2-1-plan Plan\n\n1. The plan covers two regions (p.3).'
+    )
+
+    expect(report.findings).toEqual([])
+  })
+})
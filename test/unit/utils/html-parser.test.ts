@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import { extractHtmlText, htmlToMarkdown, parseHtml } from '../../../src/utils/html-parser.js'
+import { extractDocumentContent } from '../../../src/utils/parser.js'
+import { childElements } from '../../../src/utils/xml.js'
+
+const page = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Leave Policy &ndash; Acme HR</title>
+  <link rel="canonical" href="https://hr.example.com/policies/leave">
+  <script>var tracking = "<p>not content</p>";</script>
+</head>
+<body>
+  <header><a href="/">Acme</a> <nav><a href="/a">Home</a> <a href="/b">Policies</a></nav></header>
+  <div class="sidebar"><ul><li><a href="/x">Other policy</a></li></ul></div>
+  <main>
+    <h1>Leave Policy</h1>
+    <p>Employees accrue <strong>1.5 days</strong> per month, see the <a href="../faq#pto">FAQ</a>.
+    <p>Carry-over is capped at <em>five</em> days.
+    <h2>Approval</h2>
+    <table>
+      <tr><th>Days</th><th>Approver</th></tr>
+      <tr><td>1-3</td><td>Manager</td></tr>
+      <tr><td>4+</td><td>HR | Director</td></tr>
+    </table>
+    <ol><li>Submit the request<li>Wait for approval<ul><li>Usually two days</ul></ol>
+  </main>
+  <footer>&copy; 2024 Acme</footer>
+</body>
+</html>`
+
+describe('HTML Parser', () => {
+  describe('parseHtml', () => {
+    it('should tolerate unclosed and void elements', () => {
+      const document = parseHtml('<UL><li>One<li>Two<br>lines</ul><p>A<p>B<img src=x.png>')
+
+      const [list, first, second] = childElements(document)
+      expect(list?.name).toBe('ul')
+      expect(childElements(list!).map((item) => item.name)).toEqual(['li', 'li'])
+      expect(first?.children).toEqual(['A'])
+      expect(childElements(second!).map((element) => element.name)).toEqual(['img'])
+    })
+
+    it('should keep script bodies as raw text', () => {
+      const document = parseHtml('<script>if (a < b) { x = "</p>" }</script><p>After</p>')
+
+      expect(childElements(document).map((element) => element.name)).toEqual(['script', 'p'])
+    })
+  })
+
+  describe('htmlToMarkdown', () => {
+    it('should extract the main content and drop navigation, footers and scripts', () => {
+      const result = htmlToMarkdown(page, { mainContentOnly: true })
+
+      expect(result.markdown).toBe(
+        [
+          '# Leave Policy',
+          'Employees accrue **1.5 days** per month, see the [FAQ](https://hr.example.com/faq#pto).',
+          'Carry-over is capped at *five* days.',
+          '## Approval',
+          '| Days | Approver |\n| --- | --- |\n| 1-3 | Manager |\n| 4+ | HR \\| Director |',
+          '1. Submit the request\n2. Wait for approval\n  - Usually two days'
+        ].join('\n\n')
+      )
+      expect(result.title).toBe('Leave Policy – Acme HR')
+      expect(result.canonicalUrl).toBe('https://hr.example.com/policies/leave')
+      expect(result.headingCount).toBe(2)
+      expect(result.tableCount).toBe(1)
+    })
+
+    it('should find the densest container when there is no main landmark', () => {
+      const html = `<body>
+        <div id="menu"><a href="/1">One</a> <a href="/2">Two</a></div>
+        <div class="promo"><a href="/sale">Big sale, today only, click here</a></div>
+        <div class="story">
+          <p>The committee met on Tuesday, reviewed the budget, and approved it.</p>
+          <p>Spending on travel, training, and equipment will rise next year.</p>
+        </div>
+      </body>`
+
+      const { markdown } = htmlToMarkdown(html, { mainContentOnly: true })
+
+      expect(markdown).toBe(
+        'The committee met on Tuesday, reviewed the budget, and approved it.\n\n' +
+          'Spending on travel, training, and equipment will rise next year.'
+      )
+    })
+
+    it('should unwrap layout tables and render code and quotes', () => {
+      const html =
+        '<table><tr><td><p>Intro</p><pre>npm install\n  --save</pre><blockquote><p>Quoted</p></blockquote></td></tr></table>'
+
+      const result = htmlToMarkdown(html)
+
+      expect(result.markdown).toBe('Intro\n\n```\nnpm install\n  --save\n```\n\n> Quoted')
+      expect(result.tableCount).toBe(0)
+    })
+  })
+
+  describe('extractHtmlText', () => {
+    it('should honour the declared charset', () => {
+      const html = Buffer.concat([
+        Buffer.from('<html><head><meta charset="windows-1252"></head><body><p>Caf'),
+        Buffer.from([0xe9, 0x20, 0x96, 0x20, 0x6f, 0x70, 0x65, 0x6e]),
+        Buffer.from('</p></body></html>')
+      ])
+
+      expect(extractHtmlText(html).markdown).toBe('Café – open')
+    })
+  })
+
+  describe('extractDocumentContent for HTML', () => {
+    it('should convert .html uploads and record the title and canonical URL', () => {
+      const result = extractDocumentContent(Buffer.from(page), 'leave.html', 'text/html')
+
+      expect(result.content).toContain('## Approval')
+      expect(result.content).not.toContain('Other policy')
+      expect(result.metadata).toEqual({
+        format: 'html',
+        encoding: 'utf-8',
+        headingCount: 2,
+        tableCount: 1,
+        title: 'Leave Policy – Acme HR',
+        canonicalUrl: 'https://hr.example.com/policies/leave'
+      })
+    })
+  })
+})
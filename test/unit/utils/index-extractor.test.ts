@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { extractIndexes } from '../../../src/utils/index-extractor.js'
+
+const meeting = [
+  '# Q3 Budget Review',
+  '## Attendees',
+  'Dr. Sarah Connor, CFO of Acme Corp, chaired the meeting on March 3, 2024 in Austin, Texas.',
+  '## Discussion',
+  [
+    '[t=00:00:05] Sarah: The marketing budget needs another review before the launch.',
+    "[t=00:00:20] John Doe: Marketing budget approvals go through the Finance Committee. I'll send the forecast tomorrow.",
+    '[t=00:00:40] Sarah: Thanks John. The marketing budget deadline is next Friday.',
+    '[t=00:01:00] John Doe: NASA asked about the forecast too. Their team met with NASA last week.'
+  ].join('\n'),
+  '## Decisions',
+  '- Budget review approved; launch on 04/15/2024.\n- The forecast is due April 1.'
+].join('\n\n')
+
+describe('Index extractor', () => {
+  it('should find people, organizations and locations', () => {
+    const { entities } = extractIndexes(meeting)
+
+    expect(entities.map(({ name, type, mentions }) => ({ name, type, mentions }))).toEqual([
+      { name: 'John Doe', type: 'person', mentions: 3 },
+      { name: 'Sarah Connor', type: 'person', mentions: 3 },
+      { name: 'NASA', type: 'organization', mentions: 2 },
+      { name: 'Acme Corp', type: 'organization', mentions: 1 },
+      { name: 'Austin, Texas', type: 'location', mentions: 1 },
+      { name: 'Finance Committee', type: 'organization', mentions: 1 }
+    ])
+    expect(entities[1]!.context[0]).toBe(
+      'Dr. Sarah Connor, CFO of Acme Corp, chaired the meeting on March 3, 2024 in Austin, Texas.'
+    )
+  })
+
+  it('should keep words like "New" that begin place and organization names', () => {
+    const { entities } = extractIndexes(
+      'The offsite is in New York this year. Tickets are booked through New Horizons Agency.'
+    )
+
+    expect(entities.map(({ name, type }) => ({ name, type }))).toEqual(
+      expect.arrayContaining([
+        { name: 'New York', type: 'location' },
+        { name: 'New Horizons Agency', type: 'organization' }
+      ])
+    )
+  })
+
+  it('should resolve absolute and relative dates against the first full date', () => {
+    const { timeline } = extractIndexes(meeting)
+
+    expect(timeline.map(({ date, significance }) => [date, significance])).toEqual([
+      ['2024-02-25', 'medium'],
+      ['2024-03-03', 'medium'],
+      ['2024-03-04', 'medium'],
+      ['2024-03-08', 'high'],
+      ['2024-04-01', 'high'],
+      ['2024-04-15', 'high']
+    ])
+    expect(timeline[2]!.event).toBe("I'll send the forecast tomorrow.")
+  })
+
+  it('should use the reference date when one is given', () => {
+    const { timeline } = extractIndexes('We ship in two weeks. The review is on Monday.', {
+      referenceDate: new Date('2024-06-05T00:00:00Z')
+    })
+
+    expect(timeline.map(({ date }) => date)).toEqual(['2024-06-10', '2024-06-19'])
+  })
+
+  it('should skip relative dates when there is nothing to resolve them against', () => {
+    expect(extractIndexes('We ship next Friday and review it tomorrow.').timeline).toEqual([])
+  })
+
+  it('should rank keyphrases by TF-IDF and leave out names', () => {
+    const { topics } = extractIndexes(meeting)
+
+    expect(topics[0]).toEqual({ topic: 'Marketing Budget', relevance: 1, sections: ['Discussion'] })
+    expect(topics.map(({ topic }) => topic)).toContain('Forecast')
+    expect(topics.map(({ topic }) => topic)).not.toContain('Sarah')
+  })
+
+  it('should be deterministic', () => {
+    expect(extractIndexes(meeting)).toEqual(extractIndexes(meeting))
+  })
+})
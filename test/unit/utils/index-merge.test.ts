@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest'
+import {
+  attachEntitySections,
+  mergeIndexes,
+  sanitizeIndexes
+} from '../../../src/utils/index-merge.js'
+import type { DocumentIndexes } from '../../../src/types/index.js'
+
+const part = (indexes: Partial<DocumentIndexes>): DocumentIndexes => ({
+  entities: [],
+  topics: [],
+  timeline: [],
+  ...indexes
+})
+
+describe('Index merging', () => {
+  it('should keep only well-formed model output', () => {
+    expect(
+      sanitizeIndexes({
+        entities: [
+          { name: ' Acme Corp ', type: 'company', mentions: '3', context: ['Signed.', 7] },
+          { type: 'person' }
+        ],
+        topics: { budget: 1 },
+        timeline: [{ date: '2024-03-01', event: 'Kickoff', significance: 'urgent' }]
+      })
+    ).toEqual({
+      entities: [{ name: 'Acme Corp', type: 'other', mentions: 3, context: ['Signed.'] }],
+      topics: [],
+      timeline: [{ date: '2024-03-01', event: 'Kickoff', significance: 'medium' }]
+    })
+    expect(sanitizeIndexes('not an object')).toEqual(part({}))
+  })
+
+  it('should sum mentions and de-duplicate contexts across parts', () => {
+    const merged = mergeIndexes([
+      {
+        weight: 100,
+        indexes: part({
+          entities: [{ name: 'Acme Corp', type: 'other', mentions: 2, context: ['Acme signed.'] }]
+        })
+      },
+      {
+        weight: 100,
+        indexes: part({
+          entities: [
+            {
+              name: 'acme corp',
+              type: 'organization',
+              mentions: 1,
+              context: ['Acme  signed.', 'Acme paid.']
+            },
+            { name: 'Jane Doe', type: 'person', mentions: 1, context: [] }
+          ]
+        })
+      }
+    ])
+
+    expect(merged.entities).toEqual([
+      {
+        name: 'Acme Corp',
+        type: 'organization',
+        mentions: 3,
+        context: ['Acme signed.', 'Acme paid.']
+      },
+      { name: 'Jane Doe', type: 'person', mentions: 1, context: [] }
+    ])
+  })
+
+  it('should weight topic relevance by part size and re-normalize it', () => {
+    const merged = mergeIndexes([
+      {
+        weight: 300,
+        indexes: part({
+          topics: [
+            { topic: 'Budget', relevance: 1, sections: ['Costs'] },
+            { topic: 'Hiring', relevance: 0.5, sections: ['Team'] }
+          ]
+        })
+      },
+      {
+        weight: 100,
+        indexes: part({ topics: [{ topic: 'hiring', relevance: 1, sections: ['Plans'] }] })
+      }
+    ])
+
+    expect(merged.topics).toEqual([
+      { topic: 'Budget', relevance: 1, sections: ['Costs'] },
+      { topic: 'Hiring', relevance: 0.83, sections: ['Team', 'Plans'] }
+    ])
+  })
+
+  it('should keep repeated timeline entries once at their highest significance', () => {
+    const merged = mergeIndexes([
+      {
+        weight: 1,
+        indexes: part({
+          timeline: [
+            { date: '2024-05-01', event: 'Launch', significance: 'medium' },
+            { date: '2024-04-01', event: 'Beta', significance: 'low' }
+          ]
+        })
+      },
+      {
+        weight: 1,
+        indexes: part({
+          timeline: [{ date: '2024-05-01', event: 'Launch.', significance: 'high' }]
+        })
+      }
+    ])
+
+    expect(merged.timeline).toEqual([
+      { date: '2024-04-01', event: 'Beta', significance: 'low' },
+      { date: '2024-05-01', event: 'Launch.', significance: 'high' }
+    ])
+  })
+
+  it('should record the section IDs that mention each entity', () => {
+    const markdown = [
+      '# Review',
+      '## sec-1-budget Budget',
+      'Acme Corp asked for more.',
+      '### sec-1-1-vendors Vendors',
+      'Contracts with ACME CORP and Initech.',
+      '## sec-2-team Team',
+      'Jane Doe joins.'
+    ].join('\n\n')
+    const indexes = part({
+      entities: [
+        { name: 'Acme Corp', type: 'organization', mentions: 2, context: [] },
+        { name: 'Globex', type: 'organization', mentions: 1, context: [] }
+      ]
+    })
+
+    expect(attachEntitySections(indexes, markdown).entities).toEqual([
+      {
+        name: 'Acme Corp',
+        type: 'organization',
+        mentions: 2,
+        context: [],
+        sectionIds: ['sec-1-budget', 'sec-1-1-vendors']
+      },
+      { name: 'Globex', type: 'organization', mentions: 1, context: [] }
+    ])
+  })
+})
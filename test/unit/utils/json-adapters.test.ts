@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest'
+import {
+  JsonAdapterRegistry,
+  authoredListAdapter,
+  flattenJson,
+  jsonAdapters,
+  normalizeJsonTimestamp
+} from '../../../src/utils/json-adapters.js'
+import { extractDocumentContent } from '../../../src/utils/parser.js'
+
+describe('JSON Adapters', () => {
+  it('should render Slack exports with names, links and threaded replies', () => {
+    const slack = [
+      {
+        type: 'message',
+        user: 'U01',
+        text: 'Deploy is out <https://ci.example.com/42|build 42>',
+        ts: '1704705240.000100',
+        thread_ts: '1704705240.000100',
+        user_profile: { real_name: 'Dana Lee' }
+      },
+      {
+        type: 'message',
+        subtype: 'channel_join',
+        user: 'U03',
+        text: '<@U03> has joined the channel',
+        ts: '1704705250.000100'
+      },
+      {
+        type: 'message',
+        user: 'U02',
+        text: 'Next release on Friday, <!here>',
+        ts: '1704705360.000200',
+        user_profile: { real_name: 'Sam Ortiz' }
+      },
+      {
+        type: 'message',
+        user: 'U02',
+        text: 'Thanks <@U01>!',
+        ts: '1704705300.000300',
+        thread_ts: '1704705240.000100'
+      }
+    ]
+
+    const result = jsonAdapters.render(slack)
+
+    expect(result.adapter).toBe('slack')
+    expect(result.type).toBe('chat-log')
+    expect(result.content).toBe(
+      [
+        '[2024-01-08T09:14:00Z] Dana Lee: Deploy is out [build 42](https://ci.example.com/42)',
+        '  ↳ [2024-01-08T09:15:00Z] Sam Ortiz: Thanks @Dana Lee!',
+        '[2024-01-08T09:16:00Z] Sam Ortiz: Next release on Friday, @here'
+      ].join('\n\n')
+    )
+    expect(result.participants).toEqual(['Dana Lee', 'Sam Ortiz'])
+  })
+
+  it('should render OpenAI-style message arrays by role', () => {
+    const result = jsonAdapters.render({
+      model: 'gpt-4',
+      messages: [
+        { role: 'system', content: 'You are helpful.' },
+        { role: 'user', content: [{ type: 'text', text: 'How many PTO days carry over?' }] },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ type: 'function', function: { name: 'lookup', arguments: '{"q":"pto"}' } }]
+        },
+        { role: 'assistant', content: 'Five days.' }
+      ]
+    })
+
+    expect(result.adapter).toBe('openai-messages')
+    expect(result.content).toBe(
+      [
+        'System: You are helpful.',
+        'User: How many PTO days carry over?',
+        'Assistant: Called `lookup({"q":"pto"})`',
+        'Assistant: Five days.'
+      ].join('\n\n')
+    )
+  })
+
+  it('should render generic author/timestamp/text lists as a chat', () => {
+    const result = jsonAdapters.render([
+      { author: 'Dana', timestamp: 1704705240, text: 'Morning' },
+      { author: { name: 'Sam' }, timestamp: '2024-01-08T09:15:00Z', text: 'Hi' }
+    ])
+
+    expect(result.adapter).toBe('authored-list')
+    expect(result.content).toBe(
+      '[2024-01-08T09:14:00Z] Dana: Morning\n\n[2024-01-08T09:15:00Z] Sam: Hi'
+    )
+  })
+
+  it('should render tickets with comments email-style', () => {
+    const result = jsonAdapters.render({
+      id: 512,
+      subject: 'VPN drops every hour',
+      requester: 'dana@example.com',
+      created_at: '2024-01-08T09:00:00Z',
+      description: 'My VPN disconnects hourly.',
+      comments: [
+        {
+          author: 'it@example.com',
+          created_at: '2024-01-08T10:00:00Z',
+          body: 'Please update the client.'
+        }
+      ]
+    })
+
+    expect(result.type).toBe('email')
+    expect(result.content).toBe(
+      [
+        '## Message 1 of 2\nFrom: dana@example.com\nDate: 2024-01-08T09:00:00Z\nSubject: VPN drops every hour\n\nMy VPN disconnects hourly.',
+        '## Message 2 of 2\nFrom: it@example.com\nDate: 2024-01-08T10:00:00Z\n\nPlease update the client.'
+      ].join('\n\n')
+    )
+  })
+
+  it('should fall back to a flattened key-path view', () => {
+    const value = {
+      policy: { name: 'Leave', limits: [5, { unit: 'days' }] },
+      tags: [],
+      active: true
+    }
+
+    expect(jsonAdapters.render(value)).toEqual({
+      adapter: 'flattened',
+      content: flattenJson(value)
+    })
+    expect(flattenJson(value)).toBe(
+      'policy.name: Leave\npolicy.limits[0]: 5\npolicy.limits[1].unit: days\ntags: []\nactive: true'
+    )
+  })
+
+  it('should not mistake arrays of primitives for Slack exports', () => {
+    expect(jsonAdapters.render([1, 2, 3]).adapter).toBe('flattened')
+    expect(jsonAdapters.render({ messages: ['a', 'b'] }).adapter).toBe('flattened')
+    expect(
+      jsonAdapters.render([{ ts: '1704705240.000100', text: 'Hi' }, 'stray']).adapter
+    ).not.toBe('slack')
+  })
+
+  it('should let registered adapters take precedence', () => {
+    const registry = new JsonAdapterRegistry([authoredListAdapter])
+    registry.register({
+      name: 'custom',
+      matches: (value) => Array.isArray(value),
+      render: () => ({ content: 'custom', adapter: 'custom' })
+    })
+
+    expect(registry.render([{ author: 'Dana', text: 'Hi' }]).adapter).toBe('custom')
+    expect(registry.getAdapterNames()[0]).toBe('custom')
+  })
+
+  it('should normalize epoch and date timestamps', () => {
+    expect(normalizeJsonTimestamp(1704705240000)).toBe('2024-01-08T09:14:00Z')
+    expect(normalizeJsonTimestamp('1704705240.000100')).toBe('2024-01-08T09:14:00Z')
+    expect(normalizeJsonTimestamp('yesterday')).toBe('yesterday')
+  })
+
+  it('should be used by extractDocumentContent for .json uploads', () => {
+    const upload = Buffer.from(JSON.stringify([{ role: 'user', content: 'Hello' }]))
+
+    const result = extractDocumentContent(upload, 'chat.json', 'application/json')
+
+    expect(result.content).toBe('User: Hello')
+    expect(result.type).toBe('chat-log')
+    expect(result.metadata).toEqual({
+      format: 'json',
+      encoding: 'utf-8',
+      adapter: 'openai-messages',
+      messageCount: 1,
+      participants: ['User']
+    })
+  })
+})
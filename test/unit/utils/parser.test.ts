@@ -107,7 +107,20 @@ describe('Parser Utilities', () => {
 
   describe('validateFileExtension', () => {
     it('should accept allowed extensions', () => {
-      const validExtensions = ['.txt', '.md', '.doc', '.docx', '.pdf', '.rtf', '.json']
+      const validExtensions = [
+        '.txt',
+        '.md',
+        '.doc',
+        '.docx',
+        '.pdf',
+        '.rtf',
+        '.json',
+        '.eml',
+        '.vtt',
+        '.srt',
+        '.html',
+        '.htm'
+      ]
       
       validExtensions.forEach(ext => {
         expect(validateFileExtension(`test${ext}`)).toBe(true)
@@ -0,0 +1,268 @@
+import { describe, it, expect } from 'vitest'
+import { deflateSync } from 'zlib'
+import { extractPdfText, isPdfBuffer } from '../../../src/utils/pdf-parser.js'
+import { extractDocumentContent } from '../../../src/utils/parser.js'
+
+interface TestObject {
+  body: string
+  stream?: Buffer
+}
+
+// Assemble a minimal PDF from numbered objects (object 1 is the catalog)
+function buildPdf(objects: TestObject[], trailerExtra = ''): Buffer {
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.7\n', 'latin1')]
+  objects.forEach((object, index) => {
+    chunks.push(Buffer.from(`${index + 1} 0 obj\n${object.body}`, 'latin1'))
+    if (object.stream) {
+      chunks.push(
+        Buffer.from('\nstream\n', 'latin1'),
+        object.stream,
+        Buffer.from('\nendstream', 'latin1')
+      )
+    }
+    chunks.push(Buffer.from('\nendobj\n', 'latin1'))
+  })
+  chunks.push(
+    Buffer.from(
+      `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R ${trailerExtra}>>\n%%EOF`,
+      'latin1'
+    )
+  )
+  return Buffer.concat(chunks)
+}
+
+function flateStream(content: string, extraDict = ''): TestObject {
+  const data = deflateSync(Buffer.from(content, 'latin1'))
+  return { body: `<< /Length ${data.length} /Filter /FlateDecode ${extraDict}>>`, stream: data }
+}
+
+function plainStream(content: string): TestObject {
+  const data = Buffer.from(content, 'latin1')
+  return { body: `<< /Length ${data.length} >>`, stream: data }
+}
+
+describe('PDF Parser', () => {
+  describe('isPdfBuffer', () => {
+    it('should recognize the PDF header', () => {
+      expect(isPdfBuffer(Buffer.from('%PDF-1.4\n...'))).toBe(true)
+      expect(isPdfBuffer(Buffer.from('plain text'))).toBe(false)
+    })
+  })
+
+  describe('extractPdfText', () => {
+    it('should extract text from FlateDecode content streams', () => {
+      const pdf = buildPdf([
+        { body: '<< /Type /Catalog /Pages 2 0 R >>' },
+        { body: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+        {
+          body: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>'
+        },
+        flateStream(
+          'BT /F1 12 Tf 72 720 Td (Employee Handbook) Tj 0 -14 Td (Section 1: PTO) Tj ET'
+        ),
+        {
+          body: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+        }
+      ])
+
+      const result = extractPdfText(pdf)
+
+      expect(result.pages).toHaveLength(1)
+      expect(result.pages[0]?.text).toBe('Employee Handbook\nSection 1: PTO')
+    })
+
+    it('should follow the page tree order rather than object order', () => {
+      const pdf = buildPdf([
+        { body: '<< /Type /Catalog /Pages 2 0 R >>' },
+        { body: '<< /Type /Pages /Kids [5 0 R 3 0 R] /Count 2 >>' },
+        { body: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>' },
+        plainStream('BT /F1 12 Tf 72 720 Td (Second page) Tj ET'),
+        { body: '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>' },
+        plainStream('BT /F1 12 Tf 72 720 Td (First page) Tj ET')
+      ])
+
+      const result = extractPdfText(pdf)
+
+      expect(result.pages.map((page) => page.text)).toEqual(['First page', 'Second page'])
+      expect(result.pages.map((page) => page.page)).toEqual([1, 2])
+    })
+
+    it('should inherit resources from parent page nodes', () => {
+      const pdf = buildPdf([
+        { body: '<< /Type /Catalog /Pages 2 0 R >>' },
+        {
+          body: '<< /Type /Pages /Kids [3 0 R] /Count 1 /Resources << /Font << /F1 5 0 R >> >> >>'
+        },
+        { body: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>' },
+        plainStream('BT /F1 12 Tf 72 720 Td (caf\\351 \\223quoted\\224) Tj ET'),
+        { body: '<< /Type /Font /Subtype /Type1 /Encoding /WinAnsiEncoding >>' }
+      ])
+
+      expect(extractPdfText(pdf).pages[0]?.text).toBe('café “quoted”')
+    })
+
+    it('should apply Differences arrays to the base encoding', () => {
+      const pdf = buildPdf([
+        { body: '<< /Type /Catalog /Pages 2 0 R >>' },
+        { body: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+        {
+          body: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>'
+        },
+        plainStream('BT /F1 12 Tf 72 720 Td (\\001nal \\002) Tj ET'),
+        {
+          body: '<< /Type /Font /Subtype /Type1 /Encoding << /BaseEncoding /WinAnsiEncoding /Differences [1 /fi /eacute] >> >>'
+        }
+      ])
+
+      expect(extractPdfText(pdf).pages[0]?.text).toBe('ﬁnal é')
+    })
+
+    it('should decode composite fonts through ToUnicode CMaps', () => {
+      const cmap = [
+        '/CIDInit /ProcSet findresource begin',
+        'begincmap',
+        '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+        '2 beginbfchar <0001> <0048> <0002> <0069> endbfchar',
+        '1 beginbfrange <0010> <0012> <0061> endbfrange',
+        'endcmap'
+      ].join('\n')
+
+      const pdf = buildPdf([
+        { body: '<< /Type /Catalog /Pages 2 0 R >>' },
+        { body: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+        {
+          body: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>'
+        },
+        flateStream('BT /F1 12 Tf 72 720 Td <00010002> Tj 0 -14 Td <001000110012> Tj ET'),
+        { body: '<< /Type /Font /Subtype /Type0 /Encoding /Identity-H /ToUnicode 6 0 R >>' },
+        flateStream(cmap)
+      ])
+
+      expect(extractPdfText(pdf).pages[0]?.text).toBe('Hi\nabc')
+    })
+
+    it('should insert spaces for large TJ kerning gaps', () => {
+      const pdf = buildPdf([
+        { body: '<< /Type /Catalog /Pages 2 0 R >>' },
+        { body: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+        { body: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>' },
+        plainStream('BT /F1 10 Tf 72 720 Td [(Paid) -20 ( ) (time) -600 (off)] TJ ET')
+      ])
+
+      expect(extractPdfText(pdf).pages[0]?.text).toBe('Paid time off')
+    })
+
+    it('should treat the standard -250 word gap as a space', () => {
+      const pdf = buildPdf([
+        { body: '<< /Type /Catalog /Pages 2 0 R >>' },
+        { body: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+        { body: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>' },
+        plainStream('BT /F1 10 Tf 72 720 Td [(This) -250 (is) -250 (version) -250 (0.21)] TJ ET')
+      ])
+
+      expect(extractPdfText(pdf).pages[0]?.text).toBe('This is version 0.21')
+    })
+
+    it('should separate paragraphs on large vertical gaps', () => {
+      const pdf = buildPdf([
+        { body: '<< /Type /Catalog /Pages 2 0 R >>' },
+        { body: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+        { body: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>' },
+        plainStream(
+          'BT /F1 10 Tf 1 0 0 1 72 720 Tm (Heading) Tj 1 0 0 1 72 680 Tm (Body text) Tj ET'
+        )
+      ])
+
+      expect(extractPdfText(pdf).pages[0]?.text).toBe('Heading\n\nBody text')
+    })
+
+    it('should read objects stored in compressed object streams', () => {
+      const page =
+        '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 6 0 R >> >> >>'
+      const font = '<< /Type /Font /Subtype /Type1 /Encoding /MacRomanEncoding >>'
+      const header = `5 0 6 ${page.length + 1} `
+
+      const pdf = buildPdf([
+        { body: '<< /Type /Catalog /Pages 2 0 R >>' },
+        { body: '<< /Type /Pages /Kids [5 0 R] /Count 1 >>' },
+        flateStream(`${header}${page} ${font}`, `/Type /ObjStm /N 2 /First ${header.length}`),
+        plainStream('BT /F1 12 Tf 72 720 Td (Ma\\224tre) Tj ET')
+      ])
+
+      expect(extractPdfText(pdf).pages[0]?.text).toBe('Maître')
+    })
+
+    it('should expose the document title from the Info dictionary', () => {
+      const pdf = buildPdf(
+        [
+          { body: '<< /Type /Catalog /Pages 2 0 R >>' },
+          { body: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+          { body: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>' },
+          plainStream('BT 72 720 Td (Body) Tj ET'),
+          { body: '<< /Title (Leave Policy 2024) >>' }
+        ],
+        '/Info 5 0 R '
+      )
+
+      expect(extractPdfText(pdf).title).toBe('Leave Policy 2024')
+    })
+
+    it('should reject encrypted documents', () => {
+      const pdf = buildPdf(
+        [
+          { body: '<< /Type /Catalog /Pages 2 0 R >>' },
+          { body: '<< /Type /Pages /Kids [] /Count 0 >>' },
+          { body: '<< /Filter /Standard /V 2 >>' }
+        ],
+        '/Encrypt 3 0 R '
+      )
+
+      expect(() => extractPdfText(pdf)).toThrow('Encrypted PDF documents are not supported')
+    })
+
+    it('should reject streams that inflate past the size limit', () => {
+      const pdf = buildPdf([
+        { body: '<< /Type /Catalog /Pages 2 0 R >>' },
+        { body: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+        {
+          body: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>'
+        },
+        flateStream(`BT /F1 12 Tf (${'0'.repeat(200000)}) Tj ET`),
+        { body: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>' }
+      ])
+
+      expect(() => extractPdfText(pdf, 100000)).toThrow(
+        expect.objectContaining({
+          code: 'VALIDATION_ERROR',
+          message: 'PDF streams exceed the size limit'
+        })
+      )
+      expect(extractPdfText(pdf).pages[0]?.text).toHaveLength(200000)
+    })
+
+    it('should reject buffers that are not PDFs', () => {
+      expect(() => extractPdfText(Buffer.from('not a pdf'))).toThrow('not a valid PDF')
+    })
+  })
+
+  describe('extractDocumentContent for PDFs', () => {
+    it('should prefix pages with markers and record page ranges in metadata', () => {
+      const pdf = buildPdf([
+        { body: '<< /Type /Catalog /Pages 2 0 R >>' },
+        { body: '<< /Type /Pages /Kids [3 0 R 5 0 R] /Count 2 >>' },
+        { body: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>' },
+        plainStream('BT 72 720 Td (Intro) Tj ET'),
+        { body: '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>' },
+        plainStream('BT 72 720 Td (PTO accrues monthly) Tj ET')
+      ])
+
+      const { content, metadata } = extractDocumentContent(pdf, 'handbook.pdf', 'application/pdf')
+
+      expect(content).toBe('[p.1]\nIntro\n\n[p.2]\nPTO accrues monthly')
+      expect(metadata.pageCount).toBe(2)
+
+      const pages = metadata.pages as Array<{ page: number; start: number; end: number }>
+      expect(content.slice(pages[1]!.start, pages[1]!.end)).toBe('PTO accrues monthly')
+    })
+  })
+})
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest'
+import { buildProjectDigest } from '../../../src/utils/project-digest.js'
+import type { DocumentIndexes, OptimizationResult } from '../../../src/types/index.js'
+
+const result = (
+  originalFilename: string,
+  optimizedContent: string,
+  indexes: Partial<DocumentIndexes>
+): OptimizationResult => ({
+  originalFilename,
+  optimizedContent,
+  indexes: { entities: [], topics: [], timeline: [], ...indexes },
+  metadata: {
+    originalLength: 1000,
+    optimizedLength: optimizedContent.length,
+    compressionRatio: 1,
+    processingTime: 10,
+    model: 'gpt-3.5-turbo',
+    timestamp: '2024-03-04T00:00:00.000Z'
+  },
+  sections: [{ id: 'sec-1-kickoff', title: 'Kickoff', level: 2 }],
+  status: 'fulfilled'
+})
+
+const results: OptimizationResult[] = [
+  result('Kickoff Notes.txt', '## sec-1-kickoff Kickoff\n\nJohn Smith opened.', {
+    entities: [
+      {
+        name: 'John Smith',
+        type: 'person',
+        mentions: 2,
+        context: ['John Smith opened the kickoff.'],
+        sectionIds: ['sec-1-kickoff']
+      }
+    ],
+    topics: [{ topic: 'Vendor contract', relevance: 1, sections: ['Kickoff'] }],
+    timeline: [{ date: '2024-03-04', event: 'Contract signed', significance: 'medium' }]
+  }),
+  result('followup.eml', '## sec-1-budget Budget\n\nJ. Smith approved.', {
+    entities: [
+      {
+        name: 'J. Smith',
+        type: 'person',
+        mentions: 1,
+        context: [],
+        sectionIds: ['sec-1-budget']
+      }
+    ],
+    topics: [{ topic: 'vendor contract', relevance: 0.5, sections: ['Budget'] }],
+    timeline: [
+      { date: '2024-03-04', event: 'Contract signed.', significance: 'high' },
+      { date: '2024-02-01', event: 'Budget approved', significance: 'low' }
+    ]
+  }),
+  {
+    ...result('scan.pdf', '', {}),
+    status: 'rejected',
+    error: 'No text found'
+  }
+]
+
+describe('Project digest', () => {
+  const files = buildProjectDigest(results, {
+    documents: [{ name: 'followup.eml', content: 'From: a@b.c', type: 'email' }],
+    generatedAt: new Date('2024-03-05T00:00:00Z')
+  })
+  const file = (path: string): string => files.find((entry) => entry.path === path)?.content ?? ''
+
+  it('should render the bundle described by the optimization prompt', () => {
+    expect(files.map((entry) => entry.path)).toEqual([
+      'README_ProjectDigest.md',
+      'index/entity_index.md',
+      'index/topic_index.md',
+      'index/timeline.md',
+      'index/entity_index.json',
+      'index/topic_index.json',
+      'index/timeline.json',
+      'documents/kickoff-notes.md',
+      'documents/followup.md'
+    ])
+    expect(file('documents/followup.md')).toBe('## sec-1-budget Budget\n\nJ. Smith approved.\n')
+  })
+
+  it('should summarize the project in the digest README', () => {
+    const readme = file('README_ProjectDigest.md')
+
+    expect(readme).toContain('Generated 2024-03-05T00:00:00.000Z from 3 documents.')
+    expect(readme).toContain('- **Documents:** 2 optimized, 1 failed')
+    expect(readme).toContain('- **Timeline:** 2 events from 2024-02-01 to 2024-03-04')
+    expect(readme).toMatch(
+      /\| followup\.eml \| documents\/followup\.md \| email \| J\. Smith \| 1 \|/
+    )
+    expect(readme).toContain('- scan.pdf: No text found')
+  })
+
+  it('should link resolved entities to every document and section', () => {
+    const { entities } = JSON.parse(file('index/entity_index.json'))
+
+    expect(entities).toEqual([
+      expect.objectContaining({
+        name: 'John Smith',
+        mentions: 3,
+        aliases: ['J. Smith'],
+        sources: [
+          {
+            document: 'Kickoff Notes.txt',
+            mentions: 2,
+            names: ['John Smith'],
+            sectionIds: ['sec-1-kickoff']
+          },
+          {
+            document: 'followup.eml',
+            mentions: 1,
+            names: ['J. Smith'],
+            sectionIds: ['sec-1-budget']
+          }
+        ]
+      })
+    ])
+    expect(file('index/entity_index.md')).toContain(
+      '| John Smith | person | 3 | J. Smith | Kickoff Notes.txt (sec-1-kickoff); followup.eml (sec-1-budget) | John Smith opened the kickoff. |'
+    )
+  })
+
+  it('should merge topics and timeline entries across documents', () => {
+    expect(JSON.parse(file('index/topic_index.json')).topics).toEqual([
+      {
+        topic: 'Vendor contract',
+        relevance: 1,
+        documents: [
+          { document: 'Kickoff Notes.txt', relevance: 1, sections: ['Kickoff'] },
+          { document: 'followup.eml', relevance: 0.5, sections: ['Budget'] }
+        ]
+      }
+    ])
+    expect(JSON.parse(file('index/timeline.json')).timeline).toEqual([
+      {
+        date: '2024-02-01',
+        event: 'Budget approved',
+        significance: 'low',
+        documents: ['followup.eml']
+      },
+      {
+        date: '2024-03-04',
+        event: 'Contract signed',
+        significance: 'high',
+        documents: ['Kickoff Notes.txt', 'followup.eml']
+      }
+    ])
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { buildProvenance } from '../../../src/utils/provenance.js'
+import { renderConflicts } from '../../../src/utils/conflict-detector.js'
+
+const documents = [
+  { name: 'handbook.md', content: '## sec-3-4-pto PTO\n\nTwenty days.' },
+  { name: 'notes.md', content: 'Remote work notes' },
+  { name: 'meeting-notes.md', content: 'Alice: hello' }
+]
+
+const markdown = [
+  '# Consolidated Document',
+  '',
+  '## sec-1-policies Policies',
+  '',
+  '> **Sources:** handbook.md, notes.md',
+  '',
+  '### sec-1-1-pto PTO',
+  '',
+  'Source: handbook.md (sec-3-4-pto)',
+  '',
+  'Twenty days.',
+  '',
+  '#### sec-1-1-1-carry-over Carry-over',
+  '',
+  'Five days carry over.',
+  '',
+  '### sec-1-2-remote Remote',
+  '',
+  '**Sources:** handbook.md, meeting-notes.md',
+  '',
+  '```',
+  'Source: notes.md',
+  '```'
+].join('\n')
+
+const sections = [
+  { id: 'sec-1-policies', title: 'Policies', level: 2 },
+  { id: 'sec-1-1-pto', title: 'PTO', level: 3, parentId: 'sec-1-policies' },
+  { id: 'sec-1-1-1-carry-over', title: 'Carry-over', level: 4, parentId: 'sec-1-1-pto' },
+  { id: 'sec-1-2-remote', title: 'Remote', level: 3, parentId: 'sec-1-policies' }
+]
+
+describe('buildProvenance', () => {
+  it('should map sections to the documents and section IDs they cite', () => {
+    const report = buildProvenance(markdown, sections, documents)
+    const bySection = new Map(report.sections.map((entry) => [entry.sectionId, entry.sources]))
+
+    expect(bySection.get('sec-1-1-pto')).toEqual([
+      { document: 'handbook.md', sectionIds: ['sec-3-4-pto'] }
+    ])
+    expect(bySection.get('sec-1-1-1-carry-over')).toEqual(bySection.get('sec-1-1-pto'))
+    expect(bySection.get('sec-1-2-remote')).toEqual([
+      { document: 'handbook.md' },
+      { document: 'meeting-notes.md' }
+    ])
+    expect(bySection.get('sec-1-policies')?.map((source) => source.document)).toEqual([
+      'handbook.md',
+      'meeting-notes.md'
+    ])
+  })
+
+  it('should report documents that are never cited', () => {
+    const report = buildProvenance(markdown, sections, documents)
+
+    expect(report.passed).toBe(false)
+    expect(report.uncited).toEqual(['notes.md'])
+  })
+
+  it('should pass when every document is cited', () => {
+    const report = buildProvenance(
+      `${markdown}\n\nSource: notes.md`,
+      sections,
+      documents.slice(0, 2)
+    )
+
+    expect(report).toMatchObject({ passed: true, uncited: [] })
+  })
+
+  it('should not count the documents listed under Conflicts as cited', () => {
+    const conflicts = renderConflicts([
+      {
+        subject: 'Remote work is allowed … per week.',
+        statements: [
+          {
+            document: 'handbook.md',
+            text: 'Remote work is allowed 2 days per week.',
+            value: '2 days'
+          },
+          { document: 'notes.md', text: 'Remote work is allowed 3 days per week.', value: '3 days' }
+        ]
+      }
+    ])
+    const report = buildProvenance(
+      `${markdown}\n\n${conflicts.replace('## Conflicts', '## sec-2-conflicts Conflicts')}`,
+      [...sections, { id: 'sec-2-conflicts', title: 'Conflicts', level: 2 }],
+      documents.slice(0, 2)
+    )
+
+    expect(report).toMatchObject({ passed: false, uncited: ['notes.md'] })
+  })
+})
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest'
+import { extractRtfText, isRtfBuffer } from '../../../src/utils/rtf-parser.js'
+import { extractDocumentContent } from '../../../src/utils/parser.js'
+
+const HEADER =
+  '{\\rtf1\\ansi\\ansicpg1252\\deff0{\\fonttbl{\\f0\\fswiss Helvetica;}}' +
+  '{\\colortbl;\\red0\\green0\\blue0;}' +
+  '{\\stylesheet{\\ql Normal;}{\\s1\\ql\\b\\fs32 heading 1;}{\\s2\\sbasedon1 heading 2;}' +
+  '{\\s3\\sbasedon2\\snext0 Policy Clause;}{\\*\\cs10 Default Paragraph Font;}}'
+
+function rtf(body: string): Buffer {
+  return Buffer.from(`${HEADER}\n${body}}`, 'latin1')
+}
+
+describe('RTF Parser', () => {
+  it('should recognize the RTF header', () => {
+    expect(isRtfBuffer(rtf(''))).toBe(true)
+    expect(isRtfBuffer(Buffer.from('plain text'))).toBe(false)
+  })
+
+  it('should convert paragraphs and skip header tables', () => {
+    const result = extractRtfText(
+      rtf('\\pard\\plain First paragraph.\\par\n\\pard Second \nparagraph.\\par')
+    )
+
+    expect(result.markdown).toBe('First paragraph.\n\nSecond paragraph.')
+  })
+
+  it('should keep bold and italic emphasis scoped to groups', () => {
+    const result = extractRtfText(
+      rtf('\\pard Requests are {\\b due Friday} and \\i final\\i0 .\\par')
+    )
+
+    expect(result.markdown).toBe('Requests are **due Friday** and *final*.')
+  })
+
+  it('should map heading styles and outline levels to Markdown headings', () => {
+    const result = extractRtfText(
+      rtf(
+        '\\pard\\s1 Time Off\\par' +
+          '\\pard\\s3 Carry-over\\par' +
+          '\\pard\\outlinelevel2 Details\\par' +
+          '\\pard Body text.\\par'
+      )
+    )
+
+    expect(result.markdown).toBe('# Time Off\n\n## Carry-over\n\n### Details\n\nBody text.')
+    expect(result.headingCount).toBe(3)
+  })
+
+  it('should decode unicode escapes, hex escapes and special characters', () => {
+    const result = extractRtfText(
+      rtf("\\pard\\uc1 Caf\\'e9 \\u8220?quoted\\u8221? \\emdash  na\\u239\\'efve \\{braces\\}\\par")
+    )
+
+    expect(result.markdown).toBe('Café “quoted” — naïve {braces}')
+  })
+
+  it('should honour the declared code page for hex escapes', () => {
+    const result = extractRtfText(
+      Buffer.from("{\\rtf1\\ansi\\ansicpg1252\\pard \\'93smart\\'94 \\'80\\par}", 'latin1')
+    )
+
+    expect(result.markdown).toBe('“smart” €')
+  })
+
+  it('should render bulleted and numbered lists from list text', () => {
+    const result = extractRtfText(
+      rtf(
+        "\\pard\\ls1\\ilvl0{\\listtext\\f1\\'b7\\tab}Vacation\\par" +
+          "\\pard\\ls1\\ilvl1{\\listtext\\f1\\'b7\\tab}Accrual\\par" +
+          '\\pard Steps:\\par' +
+          '\\pard{\\pntext 1.\\tab}{\\*\\pn\\pnlvlbody\\pndec}Submit request\\par' +
+          '\\pard{\\pntext 2.\\tab}{\\*\\pn\\pnlvlbody\\pndec}Get approval\\par'
+      )
+    )
+
+    expect(result.markdown).toBe(
+      '- Vacation\n  - Accrual\n\nSteps:\n\n1. Submit request\n2. Get approval'
+    )
+  })
+
+  it('should keep list text written before the paragraph reset, as Word does', () => {
+    const result = extractRtfText(
+      rtf(
+        "{\\listtext\\pard\\plain\\f1\\'b7\\tab}\\pard\\plain\\ls1\\ilvl0 Vacation\\par" +
+          '{\\listtext\\pard\\plain 1.\\tab}\\pard\\plain\\ls2\\ilvl0 Submit request\\par' +
+          '{\\listtext\\pard\\plain 2.\\tab}\\pard\\plain\\ls2\\ilvl0 Get approval\\par' +
+          '{\\pntext\\pard\\plain a)\\tab}\\pard\\plain{\\*\\pn\\pnlvlbody\\pnlcltr}Sign\\par'
+      )
+    )
+
+    expect(result.markdown).toBe('- Vacation\n1. Submit request\n2. Get approval\n1. Sign')
+  })
+
+  it('should convert tables with the first row as header', () => {
+    const row = (cells: string[]): string =>
+      '\\trowd\\cellx2000\\cellx4000' +
+      cells.map((cell) => `\\pard\\intbl ${cell}\\cell`).join('') +
+      '\\row'
+
+    const result = extractRtfText(
+      rtf(row(['Tenure', 'Days']) + row(['0-2 years', '15 | 18']) + '\\pard After.\\par')
+    )
+
+    expect(result.markdown).toBe(
+      '| Tenure | Days |\n| --- | --- |\n| 0-2 years | 15 \\| 18 |\n\nAfter.'
+    )
+    expect(result.tableCount).toBe(1)
+  })
+
+  it('should turn HYPERLINK fields into Markdown links', () => {
+    const result = extractRtfText(
+      rtf(
+        '\\pard See {\\field{\\*\\fldinst{HYPERLINK "https://hr.example.com"}}{\\fldrslt{\\ul the portal}}}.\\par'
+      )
+    )
+
+    expect(result.markdown).toBe('See [the portal](https://hr.example.com).')
+  })
+
+  it('should render footnotes as Markdown footnotes', () => {
+    const result = extractRtfText(
+      rtf(
+        '\\pard PTO accrues monthly.{\\super\\chftn}{\\footnote\\pard\\plain{\\super\\chftn} Pro-rated for part-time staff.}\\par'
+      )
+    )
+
+    expect(result.markdown).toBe('PTO accrues monthly.[^1]\n\n[^1]: Pro-rated for part-time staff.')
+    expect(result.footnoteCount).toBe(1)
+  })
+
+  it('should read title and author from the info group and skip ignorable destinations', () => {
+    const result = extractRtfText(
+      rtf(
+        '{\\info{\\title Leave Policy}{\\author HR Team}{\\creatim\\yr2024\\mo1}}' +
+          '{\\*\\generator Writer;}{\\header Confidential\\par}{\\*\\bkmkstart intro}\\pard Body\\par'
+      )
+    )
+
+    expect(result.markdown).toBe('Body')
+    expect(result.title).toBe('Leave Policy')
+    expect(result.author).toBe('HR Team')
+  })
+
+  it('should reject buffers that are not RTF', () => {
+    expect(() => extractRtfText(Buffer.from('plain text'))).toThrow('not a valid RTF')
+  })
+
+  it('should be used by extractDocumentContent for RTF uploads, including .doc names', () => {
+    const document = rtf('\\pard\\s1 Overview\\par\\pard Text\\par')
+
+    const fromRtf = extractDocumentContent(document, 'handbook.rtf')
+    const fromDoc = extractDocumentContent(document, 'handbook.doc')
+
+    expect(fromRtf.content).toBe('# Overview\n\nText')
+    expect(fromRtf.metadata).toMatchObject({ format: 'rtf', headingCount: 1 })
+    expect(fromDoc.content).toBe(fromRtf.content)
+  })
+})
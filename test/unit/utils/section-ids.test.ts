@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { SectionIdRegistry, slugify } from '../../../src/utils/section-ids.js'
+
+const handbook = [
+  '# Employee Handbook',
+  'Welcome.',
+  '## Leave Policy',
+  'Leave accrues monthly.',
+  '### PTO',
+  'Accrue 1.5 days.',
+  '### Sick Leave',
+  'Ten days.',
+  '## Remote Work',
+  'Work from home twice a week.'
+].join('\n\n')
+
+describe('Section IDs', () => {
+  let registry: SectionIdRegistry
+
+  beforeEach(() => {
+    registry = new SectionIdRegistry()
+  })
+
+  describe('slugify', () => {
+    it('should produce short ASCII slugs', () => {
+      expect(slugify('Paid Time Off (PTO) & Holidays')).toBe('paid-time-off-pto-holidays')
+      expect(slugify('Café Rules')).toBe('cafe-rules')
+      expect(slugify('A very long heading that keeps going well past the slug length')).toBe(
+        'a-very-long-heading-that-keeps-going'
+      )
+    })
+  })
+
+  describe('assign', () => {
+    it('should number sections hierarchically below a lone document title', () => {
+      const result = registry.assign('handbook.md', handbook)
+
+      expect(result.content).toContain('# Employee Handbook\n')
+      expect(result.content).toContain('## sec-1-leave-policy Leave Policy')
+      expect(result.content).toContain('### sec-1-2-sick-leave Sick Leave')
+      expect(result.sections).toEqual([
+        { id: 'sec-1-leave-policy', title: 'Leave Policy', level: 2 },
+        { id: 'sec-1-1-pto', title: 'PTO', level: 3, parentId: 'sec-1-leave-policy' },
+        { id: 'sec-1-2-sick-leave', title: 'Sick Leave', level: 3, parentId: 'sec-1-leave-policy' },
+        { id: 'sec-2-remote-work', title: 'Remote Work', level: 2 }
+      ])
+    })
+
+    it('should normalize IDs the model wrote and ignore headings in code', () => {
+      const markdown = [
+        '## sec-7-4-leave Leave',
+        '### [sec-9] Accrual',
+        '### Carry-over {#carry}',
+        '## sec-3-remote-work',
+        '```md\n## Not a heading\n```'
+      ].join('\n\n')
+
+      const result = registry.assign('policy.md', markdown)
+
+      expect(result.sections.map((section) => section.id)).toEqual([
+        'sec-1-leave',
+        'sec-1-1-accrual',
+        'sec-1-2-carry-over',
+        'sec-2-remote-work'
+      ])
+      expect(result.content).toContain('## sec-2-remote-work remote work')
+      expect(result.content).toContain('## Not a heading')
+    })
+
+    it('should keep IDs of unchanged and edited sections when a document is re-optimized', () => {
+      registry.assign('handbook.md', handbook)
+
+      const edited = [
+        '# Employee Handbook',
+        '## Benefits',
+        'New section.',
+        '## Remote Work',
+        'Work from home twice a week.',
+        '## Leave Policy',
+        'Leave accrues every month.',
+        '### Sick Leave',
+        'Ten days.',
+        '### Parental Leave',
+        'Sixteen weeks.'
+      ].join('\n\n')
+      const result = registry.assign('handbook.md', edited)
+
+      expect(result.sections.map((section) => section.id)).toEqual([
+        'sec-3-benefits',
+        'sec-2-remote-work',
+        'sec-1-leave-policy',
+        'sec-1-2-sick-leave',
+        // sec-1-1 belonged to the removed PTO section and is not handed out again
+        'sec-1-3-parental-leave'
+      ])
+    })
+
+    it('should keep IDs issued by another instance when they are passed back', () => {
+      const { sections } = registry.assign('handbook.md', handbook)
+      const edited = handbook
+        .replace('Accrue 1.5 days.', 'Accrue 2 days.')
+        .replace('## Remote Work', '## Travel\n\nBook through the portal.\n\n## Remote Work')
+
+      const result = new SectionIdRegistry().assign('handbook.md', edited, sections)
+
+      expect(result.sections.map((section) => section.id)).toEqual([
+        'sec-1-leave-policy',
+        'sec-1-1-pto',
+        'sec-1-2-sick-leave',
+        'sec-3-travel',
+        'sec-2-remote-work'
+      ])
+    })
+
+    it('should keep registries for different documents apart', () => {
+      registry.assign('a.md', '## Scope\n\nA.\n\n## Terms\n\nB.')
+
+      const result = registry.assign('b.md', '## Terms\n\nC.')
+
+      expect(result.sections[0]?.id).toBe('sec-1-terms')
+      expect(registry.getSections('a.md')).toEqual(['sec-1-scope', 'sec-2-terms'])
+    })
+  })
+})
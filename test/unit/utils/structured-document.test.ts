@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import {
+  STRUCTURED_DOCUMENT_JSON_SCHEMA,
+  buildStructuredDocument,
+  formatResult
+} from '../../../src/utils/structured-document.js'
+import { StructuredDocumentSchema } from '../../../src/utils/validation.js'
+import type { OptimizationResult } from '../../../src/types/index.js'
+
+const metadata = {
+  originalLength: 200,
+  optimizedLength: 150,
+  compressionRatio: 0.75,
+  processingTime: 10,
+  model: 'gpt-3.5-turbo',
+  timestamp: '2024-03-04T00:00:00.000Z'
+}
+const indexes = { entities: [], topics: [], timeline: [] }
+
+const content = [
+  '# Remote Work Policy',
+  '',
+  'Applies to all staff.',
+  '',
+  '## sec-1-eligibility Eligibility',
+  '',
+  'Staff after probation.',
+  '',
+  '### sec-1-1-exceptions Exceptions',
+  '',
+  '```md',
+  '## not a heading',
+  '```',
+  '',
+  '## sec-2-equipment Equipment',
+  '',
+  'Laptops are provided.'
+].join('\n')
+
+const sections = [
+  { id: 'sec-1-eligibility', title: 'Eligibility', level: 2 },
+  { id: 'sec-1-1-exceptions', title: 'Exceptions', level: 3, parentId: 'sec-1-eligibility' },
+  { id: 'sec-2-equipment', title: 'Equipment', level: 2 }
+]
+
+describe('Structured documents', () => {
+  it('should split optimized Markdown into its sections', () => {
+    const document = buildStructuredDocument({
+      filename: 'policy.md',
+      content,
+      sections,
+      metadata,
+      indexes
+    })
+
+    expect(document).toEqual({
+      schemaVersion: '1.0',
+      filename: 'policy.md',
+      title: 'Remote Work Policy',
+      preamble: 'Applies to all staff.',
+      sections: [
+        {
+          id: 'sec-1-eligibility',
+          title: 'Eligibility',
+          level: 2,
+          content: 'Staff after probation.'
+        },
+        {
+          id: 'sec-1-1-exceptions',
+          title: 'Exceptions',
+          level: 3,
+          parentId: 'sec-1-eligibility',
+          content: '```md\n## not a heading\n```'
+        },
+        { id: 'sec-2-equipment', title: 'Equipment', level: 2, content: 'Laptops are provided.' }
+      ],
+      metadata,
+      indexes
+    })
+  })
+
+  it('should reject documents that do not match the schema', () => {
+    expect(() =>
+      buildStructuredDocument({
+        filename: 'policy.md',
+        content: '## intro Intro',
+        sections: [{ id: 'intro', title: 'Intro', level: 2 }],
+        metadata,
+        indexes
+      })
+    ).toThrow()
+  })
+
+  it('should keep the published JSON Schema in step with the validator', () => {
+    const schema = STRUCTURED_DOCUMENT_JSON_SCHEMA
+    const section = StructuredDocumentSchema.shape.sections.element
+
+    expect(Object.keys(schema.properties).sort()).toEqual(
+      Object.keys(StructuredDocumentSchema.shape).sort()
+    )
+    expect(Object.keys(schema.properties.sections.items.properties).sort()).toEqual(
+      Object.keys(section.shape).sort()
+    )
+    expect(
+      schema.required.filter((key) => StructuredDocumentSchema.shape[key].isOptional())
+    ).toEqual([])
+  })
+
+  it('should shape results for each output mode', () => {
+    const document = buildStructuredDocument({
+      filename: 'policy.md',
+      content,
+      sections,
+      metadata,
+      indexes
+    })
+    const result: OptimizationResult = {
+      originalFilename: 'policy.md',
+      optimizedContent: content,
+      indexes,
+      metadata,
+      sections,
+      document,
+      status: 'fulfilled'
+    }
+
+    expect(Object.keys(formatResult(result, 'text')).sort()).toEqual([
+      'metadata',
+      'optimizedContent',
+      'originalFilename',
+      'sections',
+      'status'
+    ])
+    expect(formatResult(result, 'json')).toEqual({
+      originalFilename: 'policy.md',
+      metadata,
+      document,
+      status: 'fulfilled'
+    })
+    expect(formatResult(result, 'all')).toBe(result)
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { mkdtempSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  BpeTokenizer,
+  countMessageTokens,
+  countTokens,
+  getModelEncoding,
+  getTokenizer,
+  parseTiktokenRanks
+} from '../../../src/utils/tokenizer.js'
+
+const rankFile = (tokens: string[]): string =>
+  tokens
+    .map((token, rank) => `${Buffer.from(token, 'latin1').toString('base64')} ${rank}`)
+    .join('\n')
+
+describe('Tokenizer', () => {
+  afterEach(() => {
+    delete process.env.TOKENIZER_DATA_DIR
+    vi.resetModules()
+  })
+
+  describe('BpeTokenizer', () => {
+    it('should merge the lowest-ranked pair first', () => {
+      const ranks = parseTiktokenRanks(rankFile(['a', 'b', 'c', ' ', 'bc', 'ab']))
+      const tokenizer = new BpeTokenizer('test', ranks, /\S+|\s+/gu)
+
+      // "bc" outranks "ab", so "abc" splits as "a" + "bc"
+      expect(tokenizer.encode('abc')).toEqual([0, 4])
+      expect(tokenizer.encode('cab ab')).toEqual([2, 5, 3, 5])
+    })
+
+    it('should encode a piece found in the table as a single token', () => {
+      const ranks = parseTiktokenRanks(rankFile(['a', 'b', 'c', 'bc', 'abc']))
+      const tokenizer = new BpeTokenizer('test', ranks, /\S+|\s+/gu)
+
+      expect(tokenizer.encode('abc')).toEqual([4])
+      expect(tokenizer.encode('abcb')).toEqual([4, 1])
+    })
+
+    it('should round-trip text through the bundled encodings', () => {
+      const text =
+        'Café – naïve 🎉\n\tconst total = items.reduce((sum, x) => sum + x, 0)\n员工每月可累积假期'
+
+      for (const encoding of ['cl100k_base', 'o200k_base'] as const) {
+        const tokenizer = getTokenizer(encoding)
+        expect(tokenizer.decode(tokenizer.encode(text))).toBe(text)
+      }
+    })
+  })
+
+  describe('getModelEncoding', () => {
+    it('should pick o200k_base for GPT-4o models and cl100k_base otherwise', () => {
+      expect(getModelEncoding('gpt-4o')).toBe('o200k_base')
+      expect(getModelEncoding('gpt-4o-mini')).toBe('o200k_base')
+      expect(getModelEncoding('gpt-4-turbo')).toBe('cl100k_base')
+      expect(getModelEncoding('gpt-3.5-turbo')).toBe('cl100k_base')
+    })
+  })
+
+  describe('countTokens', () => {
+    it('should count common English words as single tokens', () => {
+      expect(countTokens('hello world')).toBe(2)
+      expect(countTokens('The document was optimized.', 'gpt-4o')).toBe(5)
+    })
+
+    it('should match tiktoken token IDs', () => {
+      expect(getTokenizer('cl100k_base').encode('hello world')).toEqual([15339, 1917])
+      expect(getTokenizer('o200k_base').encode('hello world')).toEqual([24912, 2375])
+    })
+
+    it('should match tiktoken counts for prose, code and non-English text', () => {
+      const samples: Array<[string, number, number]> = [
+        ['The quick brown fox jumps over the lazy dog.', 10, 10],
+        [
+          'function add(a, b) {\n  return a + b; // sum\n}\nconst x = [1, 2, 3].map((n) => n * 2)',
+          39,
+          39
+        ],
+        ['Les employés accumulent 1,5 jour de congé payé par mois.', 18, 16],
+        ['员工每月可累积一天半带薪假期', 21, 12],
+        ['Привет, как дела? Всё хорошо.', 17, 9],
+        ['   multiple   spaces\n\n\nnewlines', 7, 7]
+      ]
+
+      for (const [text, cl100k, o200k] of samples) {
+        expect(countTokens(text, 'gpt-4')).toBe(cl100k)
+        expect(countTokens(text, 'gpt-4o')).toBe(o200k)
+      }
+    })
+
+    it('should add the chat formatting overhead for messages', () => {
+      const messages = [
+        { role: 'system', content: 'You are helpful.' },
+        { role: 'user', content: 'hello world', name: 'alice' }
+      ]
+
+      expect(countMessageTokens(messages)).toBe(
+        3 +
+          (3 + countTokens('system') + countTokens('You are helpful.')) +
+          (3 + countTokens('user') + countTokens('hello world') + 1 + countTokens('alice'))
+      )
+    })
+  })
+
+  describe('TOKENIZER_DATA_DIR', () => {
+    it('should load rank files from the data directory when present', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'tiktoken-'))
+      const bytes = Array.from({ length: 256 }, (_, byte) => String.fromCharCode(byte))
+      writeFileSync(
+        join(dir, 'cl100k_base.tiktoken'),
+        rankFile([...bytes, 'he', 'hel', 'hell', 'hello'])
+      )
+      process.env.TOKENIZER_DATA_DIR = dir
+
+      const tokenizer = await import('../../../src/utils/tokenizer.js')
+
+      expect(tokenizer.getTokenizer('cl100k_base').encode('hello')).toEqual([259])
+      expect(tokenizer.countTokens(' world')).toBe(6)
+    })
+  })
+})
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extractTranscript,
+  formatTimestamp,
+  isSpeakerTranscriptText,
+  parseTimestamp
+} from '../../../src/utils/transcript-parser.js'
+import { extractDocumentContent } from '../../../src/utils/parser.js'
+
+describe('Transcript Parser', () => {
+  describe('timestamps', () => {
+    it('should parse and format clock values', () => {
+      expect(parseTimestamp('00:01:23.500')).toBe(83.5)
+      expect(parseTimestamp('01:02:03,004')).toBe(3723.004)
+      expect(parseTimestamp('1:05')).toBe(65)
+      expect(formatTimestamp(3723.9)).toBe('01:02:03')
+    })
+  })
+
+  describe('WebVTT', () => {
+    it('should read voice spans and merge consecutive cues by speaker', () => {
+      const vtt = [
+        'WEBVTT',
+        'Kind: captions',
+        '',
+        'NOTE exported from the meeting recorder',
+        '',
+        '1',
+        '00:00:01.000 --> 00:00:04.000',
+        '<v Dana Lee>Welcome everyone.</v>',
+        '',
+        '00:00:04.000 --> 00:00:07.500 align:start',
+        '<v Dana Lee>Let&apos;s review <i>PTO</i>.</v>',
+        '',
+        '00:00:08.000 --> 00:00:10.000',
+        '<v.loud Sam Ortiz>Sounds good.'
+      ].join('\n')
+
+      const result = extractTranscript(vtt, 'vtt')
+
+      expect(result.turns).toEqual([
+        {
+          speaker: 'Dana Lee',
+          startTime: 1,
+          endTime: 7.5,
+          text: "Welcome everyone. Let's review PTO."
+        },
+        { speaker: 'Sam Ortiz', startTime: 8, endTime: 10, text: 'Sounds good.' }
+      ])
+      expect(result.speakers).toEqual(['Dana Lee', 'Sam Ortiz'])
+      expect(result.duration).toBe(10)
+    })
+
+    it('should reject files without the WEBVTT header', () => {
+      expect(() => extractTranscript('00:00:01.000 --> 00:00:02.000\nHi', 'vtt')).toThrow(
+        'not a valid WebVTT'
+      )
+    })
+  })
+
+  describe('SRT', () => {
+    it('should read numbered cues and inline speaker labels', () => {
+      const srt = [
+        '1',
+        '00:01:23,000 --> 00:01:25,000',
+        'Dana Lee: Carry-over is capped',
+        'at five days.',
+        '',
+        '2',
+        '00:01:26,000 --> 00:01:28,000',
+        'Sam Ortiz: Understood.',
+        '',
+        '3',
+        '00:01:29,000 --> 00:01:30,000',
+        '<i>[laughter]</i>'
+      ].join('\r\n')
+
+      const result = extractTranscript(srt, 'srt')
+
+      expect(result.turns.map((turn) => [turn.speaker, turn.startTime, turn.text])).toEqual([
+        ['Dana Lee', 83, 'Carry-over is capped at five days.'],
+        ['Sam Ortiz', 86, 'Understood.'],
+        [undefined, 89, '[laughter]']
+      ])
+    })
+
+    it('should split dash dialogue lines into one turn per speaker', () => {
+      const srt = [
+        '1',
+        '00:00:05,000 --> 00:00:07,000',
+        '- Bob: Is the form due Friday?',
+        '- Alice: Thursday,',
+        'end of day.',
+        '',
+        '2',
+        '00:00:08,000 --> 00:00:09,000',
+        '<i>- Right.</i>',
+        '<i>- Thanks.</i>'
+      ].join('\n')
+
+      const result = extractTranscript(srt, 'srt')
+
+      expect(result.turns.map((turn) => [turn.speaker, turn.startTime, turn.text])).toEqual([
+        ['Bob', 5, 'Is the form due Friday?'],
+        ['Alice', 5, 'Thursday, end of day.'],
+        [undefined, 8, 'Right. Thanks.']
+      ])
+      expect(result.speakers).toEqual(['Bob', 'Alice'])
+    })
+  })
+
+  describe('speaker-labelled text', () => {
+    it('should parse "Speaker (time): text" exports with continuation lines', () => {
+      const text = [
+        'Dana Lee (00:01:23): Carry-over is capped at five days.',
+        'Requests go through the portal.',
+        'Sam Ortiz (00:02:05): Thanks.'
+      ].join('\n')
+
+      const result = extractTranscript(text, 'speaker-text')
+
+      expect(result.turns).toEqual([
+        {
+          speaker: 'Dana Lee',
+          startTime: 83,
+          endTime: 125,
+          text: 'Carry-over is capped at five days. Requests go through the portal.'
+        },
+        { speaker: 'Sam Ortiz', startTime: 125, endTime: undefined, text: 'Thanks.' }
+      ])
+    })
+
+    it('should parse bracketed timestamps and speaker header lines', () => {
+      const bracketed = extractTranscript(
+        '[00:00:05] Dana Lee: Hello.\n[00:00:09] Sam Ortiz: Hi.',
+        'speaker-text'
+      )
+      const headers = extractTranscript(
+        'Dana Lee  0:03\nHello there.\n\nSam Ortiz  0:10\nHi.',
+        'speaker-text'
+      )
+
+      expect(bracketed.turns.map((turn) => turn.speaker)).toEqual(['Dana Lee', 'Sam Ortiz'])
+      expect(headers.turns.map((turn) => [turn.startTime, turn.text])).toEqual([
+        [3, 'Hello there.'],
+        [10, 'Hi.']
+      ])
+    })
+
+    it('should not mistake ordinary notes for transcripts', () => {
+      expect(isSpeakerTranscriptText('Agenda\n09:00 Standup: daily sync\n10:00 Review: Q1')).toBe(
+        false
+      )
+      expect(isSpeakerTranscriptText('Meeting notes about 10:30 and 11:00')).toBe(false)
+    })
+  })
+
+  describe('extractDocumentContent for transcripts', () => {
+    it('should prefix turns with t= anchors and record turn ranges in metadata', () => {
+      const vtt = Buffer.from(
+        'WEBVTT\n\n00:00:01.000 --> 00:00:03.000\n<v Dana>Hello.\n\n00:01:23.000 --> 00:01:25.000\n<v Sam>Hi Dana.'
+      )
+
+      const result = extractDocumentContent(vtt, 'standup.vtt')
+
+      expect(result.content).toBe('[t=00:00:01] Dana: Hello.\n\n[t=00:01:23] Sam: Hi Dana.')
+      expect(result.type).toBe('transcript')
+      expect(result.metadata).toMatchObject({
+        format: 'vtt',
+        turnCount: 2,
+        speakers: ['Dana', 'Sam'],
+        duration: 85
+      })
+
+      const turns = result.metadata.turns as Array<{ anchor: string; start: number; end: number }>
+      expect(turns[1]?.anchor).toBe('t=00:01:23')
+      expect(result.content.slice(turns[1]!.start, turns[1]!.end)).toBe('Hi Dana.')
+    })
+
+    it('should detect speaker-labelled .txt uploads by content', () => {
+      const text = Buffer.from('Dana (00:00:05): Hello.\nSam (00:00:07): Hi.')
+
+      const result = extractDocumentContent(text, 'call.txt', 'text/plain')
+
+      expect(result.metadata.format).toBe('speaker-text')
+      expect(result.content).toBe('[t=00:00:05] Dana: Hello.\n\n[t=00:00:07] Sam: Hi.')
+    })
+
+    it('should leave ordinary text untouched', () => {
+      const result = extractDocumentContent(Buffer.from('Just a note.'), 'note.txt', 'text/plain')
+
+      expect(result).toEqual({ content: 'Just a note.', metadata: { encoding: 'utf-8' } })
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import {
+  diffWords,
+  requiresExactWording,
+  verifyPreservation
+} from '../../../src/utils/truth-verifier.js'
+
+const transcript = [
+  '[t=00:00:05] Alice: So um we need to ship the release on Friday.',
+  "[t=00:00:12] Bob: I'm not sure the migration is ready yet."
+].join('\n\n')
+
+describe('Truth verifier', () => {
+  describe('diffWords', () => {
+    it('should align word sequences into equal, delete and insert hunks', () => {
+      expect(diffWords(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e'])).toEqual([
+        { type: 'equal', aStart: 0, aEnd: 1, bStart: 0, bEnd: 1 },
+        { type: 'insert', aStart: 1, aEnd: 1, bStart: 1, bEnd: 2 },
+        { type: 'delete', aStart: 1, aEnd: 2, bStart: 2, bEnd: 2 },
+        { type: 'equal', aStart: 2, aEnd: 4, bStart: 2, bEnd: 4 },
+        { type: 'insert', aStart: 4, aEnd: 4, bStart: 4, bEnd: 5 }
+      ])
+    })
+  })
+
+  describe('requiresExactWording', () => {
+    it('should only apply to transcripts that are not summarized', () => {
+      expect(requiresExactWording('transcript', 'clarity')).toBe(true)
+      expect(requiresExactWording('transcript', 'summarize')).toBe(false)
+      expect(requiresExactWording('policy', 'clarity')).toBe(false)
+      expect(requiresExactWording(undefined, 'clarity')).toBe(false)
+    })
+  })
+
+  describe('verifyPreservation', () => {
+    it('should pass restructured output that keeps every word', () => {
+      const optimized = [
+        '# Release Planning',
+        '## Discussion',
+        '- **[t=00:00:05] Alice:** So, um, we need to ship the release on Friday.',
+        "- **[t=00:00:12] Bob:** I'm not sure the migration is ready yet."
+      ].join('\n\n')
+
+      const report = verifyPreservation(transcript, optimized)
+
+      expect(report.passed).toBe(true)
+      expect(report.preservationScore).toBe(1)
+      expect(report.dropped).toEqual([])
+      expect(report.hallucinated).toEqual([])
+    })
+
+    it('should report dropped, paraphrased and hallucinated spans', () => {
+      const optimized = [
+        '[t=00:00:05] Alice: We need to ship the remaining release on Friday.',
+        "[t=00:00:12] Bob: I'm unsure the migration is ready yet."
+      ].join('\n\n')
+
+      const report = verifyPreservation(transcript, optimized)
+
+      expect(report.passed).toBe(false)
+      expect(report.dropped).toEqual([{ position: 5, original: 'So um' }])
+      expect(report.hallucinated).toEqual([{ position: 12, optimized: 'remaining' }])
+      expect(report.paraphrased).toEqual([
+        { position: 21, original: 'not sure', optimized: 'unsure' }
+      ])
+      expect(report.preservationScore).toBe(0.857)
+    })
+
+    it('should score output unrelated to the source as not preserved', () => {
+      const report = verifyPreservation(transcript, 'Completely different words here.')
+
+      expect(report.passed).toBe(false)
+      expect(report.preservationScore).toBe(0)
+    })
+  })
+})
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import {
   DocumentInputSchema,
+  IndexRequestSchema,
   OptimizationRequestSchema,
   validateRequest,
   sanitizeInput,
@@ -204,6 +205,97 @@ describe('Validation Schemas', () => {
 
       expect(result.success).toBe(false)
     })
+
+    it('should default the digest format to a JSON manifest', async () => {
+      const result = await validateRequest(OptimizationRequestSchema, {
+        documents: [{ name: 'test.txt', content: 'Content' }],
+        mode: 'digest'
+      })
+
+      expect(result.success && result.data.digestFormat).toBe('manifest')
+    })
+
+    it('should accept an entity alias dictionary', async () => {
+      const result = await validateRequest(OptimizationRequestSchema, {
+        documents: [{ name: 'test.txt', content: 'Content' }],
+        optimizationType: 'consolidate',
+        entityAliases: { 'John Smith': ['J. Smith', 'jsmith@corp.example'] }
+      })
+
+      expect(result.success && result.data.entityAliases).toEqual({
+        'John Smith': ['J. Smith', 'jsmith@corp.example']
+      })
+    })
+
+    it('should reject aliases that are not a list of names', async () => {
+      const result = await validateRequest(OptimizationRequestSchema, {
+        documents: [{ name: 'test.txt', content: 'Content' }],
+        entityAliases: { 'John Smith': 'J. Smith' }
+      })
+
+      expect(result.success).toBe(false)
+    })
+
+    it('should flag conflicts by default and accept refusing them', async () => {
+      const flagged = await validateRequest(OptimizationRequestSchema, {
+        documents: [{ name: 'test.txt', content: 'Content' }]
+      })
+      const refused = await validateRequest(OptimizationRequestSchema, {
+        documents: [{ name: 'test.txt', content: 'Content' }],
+        onConflict: 'fail'
+      })
+
+      expect(flagged.success && flagged.data.onConflict).toBe('flag')
+      expect(refused.success && refused.data.onConflict).toBe('fail')
+    })
+
+    it('should accept previously issued section IDs and reject malformed ones', async () => {
+      const sections = [
+        { id: 'sec-1-leave', title: 'Leave', level: 2 },
+        { id: 'sec-1-1-pto', title: 'PTO', level: 3, parentId: 'sec-1-leave' }
+      ]
+      const issued = [{ id: 'sec-3-PTO', title: 'PTO', level: 2 }]
+      const valid = await validateRequest(OptimizationRequestSchema, {
+        documents: [{ name: 'test.txt', content: 'Content', sections }],
+        sections
+      })
+      const invalid = await validateRequest(OptimizationRequestSchema, {
+        documents: [{ name: 'test.txt', content: 'Content' }],
+        sections: [{ id: 'leave', title: 'Leave', level: 2 }]
+      })
+
+      expect(valid.success && valid.data.documents[0]?.sections).toEqual(sections)
+      expect(valid.success && valid.data.sections).toEqual(sections)
+      expect(invalid.success).toBe(false)
+      // Issued slugs are normalized to the form structured documents accept
+      const normalized = await validateRequest(OptimizationRequestSchema, {
+        documents: [{ name: 'test.txt', content: 'Content' }],
+        sections: issued
+      })
+      expect(normalized.success && normalized.data.sections?.[0]?.id).toBe('sec-3-pto')
+    })
+  })
+
+  describe('IndexRequestSchema', () => {
+    it('should parse the reference date', async () => {
+      const result = await validateRequest(IndexRequestSchema, {
+        documents: [{ name: 'test.txt', content: 'Content' }],
+        referenceDate: '2024-03-04'
+      })
+
+      expect(result.success && result.data.referenceDate?.toISOString()).toBe(
+        '2024-03-04T00:00:00.000Z'
+      )
+    })
+
+    it('should reject an invalid reference date', async () => {
+      const result = await validateRequest(IndexRequestSchema, {
+        documents: [{ name: 'test.txt', content: 'Content' }],
+        referenceDate: 'someday'
+      })
+
+      expect(result.success).toBe(false)
+    })
   })
 })
 
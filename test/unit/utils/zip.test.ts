@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { crc32, readZipEntries, writeZip } from '../../../src/utils/zip.js'
+
+describe('ZIP writer', () => {
+  it('should compute the standard CRC-32 checksum', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926)
+    expect(crc32(Buffer.alloc(0))).toBe(0)
+  })
+
+  it('should write archives the reader can open', () => {
+    const long = 'All hands notes. '.repeat(200)
+    const archive = writeZip([
+      { name: 'README_ProjectDigest.md', data: '# Digest\n' },
+      { name: 'index/entity_index.json', data: long },
+      { name: 'documents/café.md', data: Buffer.from('Crème brûlée') }
+    ])
+
+    const entries = readZipEntries(archive)
+
+    expect(entries.map((entry) => entry.name)).toEqual([
+      'README_ProjectDigest.md',
+      'index/entity_index.json',
+      'documents/café.md'
+    ])
+    expect(entries[0]?.read().toString('utf-8')).toBe('# Digest\n')
+    expect(entries[1]?.compressedSize).toBeLessThan(entries[1]!.uncompressedSize)
+    expect(entries[1]?.read().toString('utf-8')).toBe(long)
+    expect(entries[2]?.read().toString('utf-8')).toBe('Crème brûlée')
+  })
+
+  it('should record the checksum and modification date of each entry', () => {
+    const archive = writeZip(
+      [{ name: 'a.txt', data: '123456789' }],
+      new Date('2024-03-04T10:20:30Z')
+    )
+
+    expect(archive.readUInt32LE(14)).toBe(0xcbf43926)
+    // 10:20:30 and 2024-03-04 in MS-DOS format
+    expect(archive.readUInt16LE(10)).toBe((10 << 11) | (20 << 5) | 15)
+    expect(archive.readUInt16LE(12)).toBe((44 << 9) | (3 << 5) | 4)
+  })
+})